@@ -1,4 +1,5 @@
 import esbuild from "esbuild";
+import path from "path";
 import process from "process";
 import builtins from "builtin-modules";
 
@@ -10,6 +11,37 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = process.argv[2] === "production";
 
+// `import code from "worker:./file"` bundles src/file.ts for a worker thread
+// and imports the result as a string
+const inlineWorkerPlugin = {
+	name: "inline-worker",
+	setup(build) {
+		build.onResolve({ filter: /^worker:/ }, args => ({
+			path: path.join(args.resolveDir, args.path.slice("worker:".length) + ".ts"),
+			namespace: "inline-worker",
+		}));
+		build.onLoad({ filter: /.*/, namespace: "inline-worker" }, async args => {
+			const result = await esbuild.build({
+				entryPoints: [args.path],
+				bundle: true,
+				write: false,
+				metafile: true,
+				platform: "node",
+				format: "cjs",
+				target: "es2020",
+				external: [...builtins],
+				minify: prod,
+				treeShaking: true,
+			});
+			return {
+				contents: result.outputFiles[0].text,
+				loader: "text",
+				watchFiles: Object.keys(result.metafile.inputs).map(file => path.resolve(file)),
+			};
+		});
+	},
+};
+
 const context = await esbuild.context({
 	banner: {
 		js: banner,
@@ -38,6 +70,7 @@ const context = await esbuild.context({
 		".svg": "text",
 		".tsv": "text",
 	},
+	plugins: [inlineWorkerPlugin],
 	logLevel: "info",
 	sourcemap: prod ? false : "inline",
 	treeShaking: true,
@@ -0,0 +1,38 @@
+/**
+ * Convert a SCID database to PGN without Obsidian, streaming every game with
+ * its headers, comments, NAGs and variations.
+ *
+ * Run with: npm run scid-to-pgn -- path/to/base.si4 [output.pgn]
+ * The output defaults to the base's path with a .pgn extension.
+ */
+
+import esbuild from "esbuild";
+import builtins from "builtin-modules";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import { createRequire } from "module";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const require = createRequire(import.meta.url);
+
+// The converter is written in TypeScript, so bundle it before running it
+const dir = mkdtempSync(join(tmpdir(), "scid-to-pgn-"));
+try {
+	const outfile = join(dir, "scid-to-pgn.cjs");
+	await esbuild.build({
+		entryPoints: [join(__dirname, "../src/scidToPgnCli.ts")],
+		bundle: true,
+		platform: "node",
+		format: "cjs",
+		target: "es2020",
+		external: [...builtins],
+		outfile,
+		logLevel: "warning",
+	});
+	const { main } = require(outfile);
+	process.exitCode = await main(process.argv.slice(2));
+} finally {
+	rmSync(dir, { recursive: true, force: true });
+}
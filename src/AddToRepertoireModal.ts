@@ -0,0 +1,69 @@
+import { App, Modal, Notice, Setting, TFile } from "obsidian";
+
+const DEFAULT_MOVES = 10;
+
+/** Asks which repertoire to add games' opening lines to, and how many moves of each to take. */
+export class AddToRepertoireModal extends Modal {
+	private file: TFile | null;
+	private moves = DEFAULT_MOVES;
+
+	constructor(app: App, private onSubmit: (file: TFile, plies: number) => void) {
+		super(app);
+		this.file = this.repertoires()[0] ?? null;
+	}
+
+	private repertoires(): TFile[] {
+		return this.app.vault.getFiles()
+			.filter(f => f.extension === "repertoire")
+			.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	onOpen(): void {
+		this.titleEl.setText("Add to repertoire");
+		const repertoires = this.repertoires();
+		if (repertoires.length === 0) {
+			this.contentEl.createEl("p", { text: "There are no repertoires in the vault. Create one with the \"Create new repertoire\" command." });
+			return;
+		}
+
+		new Setting(this.contentEl)
+			.setName("Repertoire")
+			.addDropdown(drop => {
+				for (const file of repertoires) drop.addOption(file.path, file.basename);
+				drop
+					.setValue(this.file?.path ?? "")
+					.onChange(value => { this.file = repertoires.find(f => f.path === value) ?? null; });
+			});
+
+		new Setting(this.contentEl)
+			.setName("Moves")
+			.setDesc("How many moves of each game to add")
+			.addText(text => {
+				text.inputEl.type = "number";
+				text.inputEl.min = "1";
+				text
+					.setValue(String(this.moves))
+					.onChange(value => { this.moves = parseInt(value, 10); });
+			});
+
+		new Setting(this.contentEl)
+			.addButton(btn => btn
+				.setButtonText("Add")
+				.setCta()
+				.onClick(() => this.submit()));
+	}
+
+	private submit(): void {
+		if (!this.file) return;
+		if (!(this.moves > 0)) {
+			new Notice("Please enter a number of moves.");
+			return;
+		}
+		this.close();
+		this.onSubmit(this.file, this.moves * 2);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { archiveGameHeaders, archiveGamePgn, archiveToPgn } from "./ChessComArchive";
+
+const PGN = `[Event "Live Chess"]
+[Site "Chess.com"]
+[White "alice"]
+[Black "bob"]
+[Result "1-0"]
+[WhiteElo "1500"]
+
+1. e4 e5 2. Qh5 Nc6 3. Bc4 Nf6 4. Qxf7# 1-0`;
+
+const GAME = {
+	url: "https://www.chess.com/game/live/1",
+	pgn: PGN,
+	time_class: "blitz",
+	rated: true,
+	rules: "chess",
+	accuracies: { white: 91.234, black: 40 },
+	white: { username: "alice", rating: 1508, result: "win" },
+	black: { username: "bob", rating: 1492, result: "checkmated" },
+};
+
+describe("archiveGameHeaders", () => {
+	it("turns the JSON-only fields into headers", () => {
+		expect(archiveGameHeaders(GAME)).toEqual({
+			TimeClass: "blitz",
+			Rated: "true",
+			Rules: "chess",
+			WhiteAccuracy: "91.2",
+			BlackAccuracy: "40.0",
+			WhiteRatingAfter: "1508",
+			BlackRatingAfter: "1492",
+		});
+	});
+
+	it("leaves out accuracies of games that were not reviewed", () => {
+		const headers = archiveGameHeaders({ ...GAME, accuracies: undefined, rated: false });
+		expect(headers["Rated"]).toBe("false");
+		expect(headers).not.toHaveProperty("WhiteAccuracy");
+	});
+});
+
+describe("archiveGamePgn", () => {
+	it("adds the headers after the game's own, before the moves", () => {
+		const pgn = archiveGamePgn(GAME);
+		expect(pgn).toContain(`[WhiteElo "1500"]\n[TimeClass "blitz"]\n`);
+		expect(pgn).toContain(`[BlackRatingAfter "1492"]\n\n1. e4 e5`);
+	});
+
+	it("keeps headers the PGN already has", () => {
+		const pgn = archiveGamePgn({ ...GAME, pgn: PGN.replace(`[Result`, `[Rules "chess960"]\n[Result`) });
+		expect(pgn).toContain(`[Rules "chess960"]`);
+		expect(pgn).not.toContain(`[Rules "chess"]`);
+	});
+});
+
+describe("archiveToPgn", () => {
+	it("joins the games and skips those without PGN", () => {
+		const pgn = archiveToPgn({ games: [GAME, { url: "x" }, GAME] });
+		expect(pgn.split("[Event ").length - 1).toBe(2);
+		expect(archiveToPgn({})).toBe("");
+	});
+});
@@ -0,0 +1,65 @@
+/** A player's side of a game in Chess.com's JSON archive. */
+interface ChessComArchivePlayer {
+	username?: string;
+	/** The player's rating after the game. */
+	rating?: number;
+	result?: string;
+}
+
+/** One game in Chess.com's JSON monthly archive (only the fields used here). */
+export interface ChessComArchiveGame {
+	url?: string;
+	pgn?: string;
+	time_class?: string;
+	rated?: boolean;
+	rules?: string;
+	accuracies?: { white?: number; black?: number };
+	white?: ChessComArchivePlayer;
+	black?: ChessComArchivePlayer;
+}
+
+export interface ChessComArchive {
+	games?: ChessComArchiveGame[];
+}
+
+/** Time classes Chess.com files games under, fastest first. */
+export const CHESSCOM_TIME_CLASSES = ["bullet", "blitz", "rapid", "daily"] as const;
+
+/**
+ * Headers for the archive fields that the PGN leaves out: TimeClass, Rated,
+ * Rules, WhiteAccuracy/BlackAccuracy (only for reviewed games) and
+ * WhiteRatingAfter/BlackRatingAfter.
+ */
+export function archiveGameHeaders(game: ChessComArchiveGame): Record<string, string> {
+	const headers: Record<string, string> = {};
+	if (game.time_class) headers["TimeClass"] = game.time_class;
+	if (typeof game.rated === "boolean") headers["Rated"] = game.rated ? "true" : "false";
+	if (game.rules) headers["Rules"] = game.rules;
+	if (typeof game.accuracies?.white === "number") headers["WhiteAccuracy"] = game.accuracies.white.toFixed(1);
+	if (typeof game.accuracies?.black === "number") headers["BlackAccuracy"] = game.accuracies.black.toFixed(1);
+	if (typeof game.white?.rating === "number") headers["WhiteRatingAfter"] = String(game.white.rating);
+	if (typeof game.black?.rating === "number") headers["BlackRatingAfter"] = String(game.black.rating);
+	return headers;
+}
+
+/** A game's PGN with the archive-only fields added after its own headers; headers it already has are kept. */
+export function archiveGamePgn(game: ChessComArchiveGame): string {
+	const pgn = (game.pgn ?? "").trim();
+	if (!pgn) return "";
+	// The tag lines at the top, up to the blank line before the moves
+	const tags = pgn.match(/^(?:\[[^\n]*\][^\S\n]*\r?\n)*/)![0];
+	const existing = new Set<string>();
+	const tagPattern = /^\[(\w+)\s/gm;
+	let tag: RegExpExecArray | null;
+	while ((tag = tagPattern.exec(tags)) !== null) existing.add(tag[1]);
+	const extra = Object.entries(archiveGameHeaders(game))
+		.filter(([name]) => !existing.has(name))
+		.map(([name, value]) => `[${name} "${value.replace(/["\\]/g, "\\$&")}"]\n`)
+		.join("");
+	return tags + extra + pgn.slice(tags.length);
+}
+
+/** The games of a monthly JSON archive as PGN, separated by blank lines. */
+export function archiveToPgn(archive: ChessComArchive): string {
+	return (archive.games ?? []).map(archiveGamePgn).filter(Boolean).join("\n\n");
+}
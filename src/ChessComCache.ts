@@ -1,17 +1,52 @@
 const DB_NAME = "chess-journal-chesscom";
-const DB_VERSION = 1;
+// Version 2 months are converted from the JSON archive and carry its extra headers
+const DB_VERSION = 2;
 const STORE_NAME = "monthly-pgn";
 
+/** A cached month of a user's games. */
+export interface CachedMonth {
+	pgn: string;
+	/** When the month was fetched, in milliseconds since the epoch; 0 if unknown. */
+	cachedAt: number;
+}
+
+/** What the cache holds for one month, without its games. */
+export interface CachedMonthInfo {
+	key: string;
+	username: string;
+	/** "YYYY/MM". */
+	month: string;
+	/** Length of the cached PGN, in characters. */
+	size: number;
+	cachedAt: number;
+}
+
+/** The cache key of a user's month. */
+export function monthCacheKey(username: string, month: string): string {
+	return `${username}/${month}`;
+}
+
+/** Entries written before timestamps were kept are bare PGN strings. */
+function toCachedMonth(value: unknown): CachedMonth | undefined {
+	if (typeof value === "string") return { pgn: value, cachedAt: 0 };
+	if (value && typeof (value as CachedMonth).pgn === "string") return value as CachedMonth;
+	return undefined;
+}
+
+/** Monthly archives of Chess.com users, kept in IndexedDB with the time each was fetched. */
 export class ChessComCache {
 	private db: IDBDatabase | null = null;
 
 	async open(): Promise<void> {
 		return new Promise((resolve, reject) => {
 			const request = indexedDB.open(DB_NAME, DB_VERSION);
-			request.onupgradeneeded = () => {
+			request.onupgradeneeded = (event) => {
 				const db = request.result;
 				if (!db.objectStoreNames.contains(STORE_NAME)) {
 					db.createObjectStore(STORE_NAME);
+				} else if (event.oldVersion < 2) {
+					// Months cached from the PGN archive lack the JSON-only headers
+					request.transaction?.objectStore(STORE_NAME).clear();
 				}
 			};
 			request.onsuccess = () => {
@@ -29,23 +64,89 @@ export class ChessComCache {
 		}
 	}
 
-	async get(key: string): Promise<string | undefined> {
+	async get(key: string): Promise<CachedMonth | undefined> {
 		if (!this.db) return undefined;
 		return new Promise((resolve, reject) => {
 			const tx = this.db!.transaction(STORE_NAME, "readonly");
 			const store = tx.objectStore(STORE_NAME);
 			const request = store.get(key);
-			request.onsuccess = () => resolve(request.result as string | undefined);
+			request.onsuccess = () => resolve(toCachedMonth(request.result));
 			request.onerror = () => reject(request.error);
 		});
 	}
 
 	async put(key: string, pgn: string): Promise<void> {
 		if (!this.db) return;
+		const entry: CachedMonth = { pgn, cachedAt: Date.now() };
 		return new Promise((resolve, reject) => {
 			const tx = this.db!.transaction(STORE_NAME, "readwrite");
 			const store = tx.objectStore(STORE_NAME);
-			const request = store.put(pgn, key);
+			const request = store.put(entry, key);
+			request.onsuccess = () => resolve();
+			request.onerror = () => reject(request.error);
+		});
+	}
+
+	/** Every cached month, by key order (so grouped by user and oldest first). */
+	async list(): Promise<CachedMonthInfo[]> {
+		const entries = await this.entries();
+		return entries.map(([key, month]) => {
+			const slash = key.lastIndexOf("/", key.lastIndexOf("/") - 1);
+			return {
+				key,
+				username: key.slice(0, slash),
+				month: key.slice(slash + 1),
+				size: month.pgn.length,
+				cachedAt: month.cachedAt,
+			};
+		});
+	}
+
+	/** The cached months of `username`, oldest first. */
+	async getUserMonths(username: string): Promise<CachedMonth[]> {
+		const prefix = `${username}/`;
+		return (await this.entries(IDBKeyRange.bound(prefix, `${prefix}\uffff`))).map(([, month]) => month);
+	}
+
+	async delete(key: string): Promise<void> {
+		await this.write(store => store.delete(key));
+	}
+
+	/** Drop every cached month of `username`. */
+	async deleteUser(username: string): Promise<void> {
+		const prefix = `${username}/`;
+		await this.write(store => store.delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`)));
+	}
+
+	async clear(): Promise<void> {
+		await this.write(store => store.clear());
+	}
+
+	private async entries(range?: IDBKeyRange): Promise<[string, CachedMonth][]> {
+		if (!this.db) return [];
+		return new Promise((resolve, reject) => {
+			const tx = this.db!.transaction(STORE_NAME, "readonly");
+			const request = tx.objectStore(STORE_NAME).openCursor(range);
+			const result: [string, CachedMonth][] = [];
+			request.onsuccess = () => {
+				const cursor = request.result;
+				if (!cursor) {
+					resolve(result);
+					return;
+				}
+				const month = toCachedMonth(cursor.value);
+				if (month) result.push([String(cursor.key), month]);
+				cursor.continue();
+			};
+			request.onerror = () => reject(request.error);
+		});
+	}
+
+	private async write(change: (store: IDBObjectStore) => IDBRequest): Promise<void> {
+		if (!this.db) return;
+		return new Promise((resolve, reject) => {
+			const tx = this.db!.transaction(STORE_NAME, "readwrite");
+			const request = change(tx.objectStore(STORE_NAME));
 			request.onsuccess = () => resolve();
 			request.onerror = () => reject(request.error);
 		});
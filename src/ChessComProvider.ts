@@ -1,175 +1,115 @@
 import { requestUrl } from "obsidian";
-import { GameProvider, GameHeaders, GameEntry, GameSearchResult } from "./GameProvider";
-import { PgnProvider } from "./PgnProvider";
-import { ChessComCache } from "./ChessComCache";
+import { UserGamesProvider } from "./UserGamesProvider";
+import { ProviderTask } from "./ProviderTask";
+import { ChessComCache, monthCacheKey } from "./ChessComCache";
+import { archiveToPgn } from "./ChessComArchive";
 
 const API_BASE = "https://api.chess.com/pub/player";
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-export class ChessComProvider implements GameProvider {
-	private usernames: string[];
-	private inner = new PgnProvider();
-	private cache = new ChessComCache();
-	private gameOwnership: string[] = [];
-	private usernameFilter: string | null = null;
-	private filteredIndices: number[] | null = null;
-
-	constructor(usernames: string[]) {
-		this.usernames = usernames;
-	}
-
-	async open(): Promise<void> {
-		await this.cache.open();
+export interface ChessComProviderOptions {
+	/** Refetch cached months older than this many days; 0 keeps them for good. */
+	cacheMaxAgeDays?: number;
+}
 
-		const now = new Date();
-		const currentKey = `${now.getUTCFullYear()}/${String(now.getUTCMonth() + 1).padStart(2, "0")}`;
+/** URLs of a user's monthly game archives, oldest first. */
+export async function fetchArchiveUrls(username: string): Promise<string[]> {
+	const archivesUrl = `${API_BASE}/${encodeURIComponent(username)}/games/archives`;
+	const archivesResp = await requestUrl({ url: archivesUrl });
+	return archivesResp.json.archives ?? [];
+}
 
-		// Fetch PGN per user and count games individually
-		const userPgns: { username: string; pgn: string; count: number }[] = [];
-		for (const username of this.usernames) {
-			const pgn = await this.fetchUserPgn(username, currentKey);
-			if (!pgn.trim()) {
-				userPgns.push({ username, pgn: "", count: 0 });
-				continue;
-			}
-			const temp = new PgnProvider();
-			temp.loadContent(pgn);
-			const count = temp.getGameCount();
-			temp.close();
-			userPgns.push({ username, pgn, count });
-		}
+/** The "YYYY/MM" month of an archive URL, or null if it is not one. */
+export function archiveMonth(archiveUrl: string): string | null {
+	const match = archiveUrl.match(/\/(\d{4})\/(\d{2})$/);
+	return match ? `${match[1]}/${match[2]}` : null;
+}
 
-		// Build combined PGN and ownership array
-		const allPgn: string[] = [];
-		for (const { username, pgn, count } of userPgns) {
-			if (pgn) allPgn.push(pgn);
-			for (let i = 0; i < count; i++) {
-				this.gameOwnership.push(username);
-			}
+/**
+ * The PGN of one monthly archive, read from its JSON form so each game also
+ * gets the fields the PGN form leaves out (see archiveGameHeaders). Past
+ * months are complete, so they are served from `cache` unless older than
+ * `maxAgeDays`; the current month is always fetched. Every fetched month is
+ * saved, the current one too so it can be shown offline.
+ */
+export async function fetchArchivePgn(
+	cache: ChessComCache, username: string, archiveUrl: string, maxAgeDays = 0,
+): Promise<string> {
+	const monthKey = archiveMonth(archiveUrl);
+	if (!monthKey) return "";
+	const now = new Date();
+	const currentMonthKey = `${now.getUTCFullYear()}/${String(now.getUTCMonth() + 1).padStart(2, "0")}`;
+	const cacheKey = monthCacheKey(username, monthKey);
+
+	if (monthKey !== currentMonthKey) {
+		const cached = await cache.get(cacheKey);
+		if (cached && (maxAgeDays <= 0 || Date.now() - cached.cachedAt < maxAgeDays * DAY_MS)) {
+			return cached.pgn;
 		}
-
-		this.inner.loadContent(allPgn.join("\n\n"));
-
-		// Sort games by Date header so date-based ordering works correctly
-		const perm = this.inner.sortByDate();
-		this.gameOwnership = perm.map(i => this.gameOwnership[i]);
-	}
-
-	close(): void {
-		this.inner.close();
-		this.cache.close();
-		this.gameOwnership = [];
-		this.usernameFilter = null;
-		this.filteredIndices = null;
 	}
 
-	getUsernames(): string[] {
-		return this.usernames;
+	const resp = await requestUrl({ url: archiveUrl });
+	const pgn = archiveToPgn(resp.json);
+	if (pgn) {
+		await cache.put(cacheKey, pgn);
 	}
+	return pgn;
+}
 
-	setUsernameFilter(username: string | null): void {
-		this.usernameFilter = username;
-		if (username === null) {
-			this.filteredIndices = null;
-		} else {
-			this.filteredIndices = [];
-			for (let i = 0; i < this.gameOwnership.length; i++) {
-				if (this.gameOwnership[i] === username) {
-					this.filteredIndices.push(i);
-				}
-			}
-		}
-	}
+/** Whether a request failed for want of a connection rather than being refused by Chess.com. */
+function isOfflineError(e: unknown): boolean {
+	const status = (e as { status?: number })?.status;
+	return !(typeof status === "number" && status >= 400 && status < 500);
+}
 
-	getGameCount(): number {
-		if (this.filteredIndices !== null) {
-			return this.filteredIndices.length;
-		}
-		return this.inner.getGameCount();
-	}
+export class ChessComProvider extends UserGamesProvider {
+	private cache = new ChessComCache();
+	private cacheMaxAgeDays: number;
+	/** When the newest cached month served offline was fetched; null when every user was fetched online. */
+	private staleSince: number | null = null;
 
-	getGames(offset: number, limit: number): GameEntry[] {
-		if (this.filteredIndices !== null) {
-			const slice = this.filteredIndices.slice(offset, offset + limit);
-			return slice.map((realIndex, i) => {
-				const entry = this.inner.getGames(realIndex, 1)[0];
-				return { index: offset + i, headers: entry.headers };
-			});
-		}
-		return this.inner.getGames(offset, limit);
+	constructor(usernames: string[], options: ChessComProviderOptions = {}) {
+		super(usernames);
+		this.cacheMaxAgeDays = options.cacheMaxAgeDays ?? 0;
 	}
 
-	getGamePgn(index: number): string {
-		const realIndex = this.toRealIndex(index);
-		return this.inner.getGamePgn(realIndex);
+	async open(task?: ProviderTask): Promise<void> {
+		await this.cache.open();
+		await super.open(task);
 	}
 
-	search(query: string, offset: number, limit: number): GameSearchResult {
-		if (this.filteredIndices !== null) {
-			const lowerQuery = query.toLowerCase();
-			const matches: GameEntry[] = [];
-
-			for (let i = 0; i < this.filteredIndices.length; i++) {
-				const realIndex = this.filteredIndices[i];
-				const entry = this.inner.getGames(realIndex, 1)[0];
-				const found = Object.values(entry.headers).some(
-					v => v.toLowerCase().includes(lowerQuery)
-				);
-				if (found) {
-					matches.push({ index: i, headers: entry.headers });
-				}
-			}
-
-			return {
-				games: matches.slice(offset, offset + limit),
-				total: matches.length,
-			};
-		}
-		return this.inner.search(query, offset, limit);
+	close(): void {
+		super.close();
+		this.cache.close();
+		this.staleSince = null;
 	}
 
-	private toRealIndex(index: number): number {
-		if (this.filteredIndices !== null) {
-			return this.filteredIndices[index] ?? -1;
-		}
-		return index;
+	/**
+	 * When Chess.com could not be reached and cached games were shown instead,
+	 * the time the newest of them was fetched (0 if unknown); otherwise null.
+	 */
+	getStaleSince(): number | null {
+		return this.staleSince;
 	}
 
-	private async fetchUserPgn(username: string, currentMonthKey: string): Promise<string> {
-		const archivesUrl = `${API_BASE}/${encodeURIComponent(username)}/games/archives`;
-		const archivesResp = await requestUrl({ url: archivesUrl });
-		const archives: string[] = archivesResp.json.archives ?? [];
-
-		const pgnParts: string[] = [];
-
-		for (const archiveUrl of archives) {
-			// Extract YYYY/MM from archive URL
-			const match = archiveUrl.match(/\/(\d{4})\/(\d{2})$/);
-			if (!match) continue;
-			const monthKey = `${match[1]}/${match[2]}`;
-			const cacheKey = `${username}/${monthKey}`;
-			const isCurrentMonth = monthKey === currentMonthKey;
-
-			let pgn: string | undefined;
-			if (!isCurrentMonth) {
-				pgn = await this.cache.get(cacheKey);
-			}
-
-			if (pgn === undefined) {
-				const pgnUrl = `${archiveUrl}/pgn`;
-				const resp = await requestUrl({ url: pgnUrl });
-				pgn = resp.text;
-
-				if (!isCurrentMonth && pgn) {
-					await this.cache.put(cacheKey, pgn);
+	protected async fetchUserPgn(username: string): Promise<string> {
+		try {
+			const pgnParts: string[] = [];
+			for (const archiveUrl of await fetchArchiveUrls(username)) {
+				const pgn = await fetchArchivePgn(this.cache, username, archiveUrl, this.cacheMaxAgeDays);
+				if (pgn.trim()) {
+					pgnParts.push(pgn.trim());
 				}
 			}
-
-			if (pgn && pgn.trim()) {
-				pgnParts.push(pgn.trim());
-			}
+			return pgnParts.join("\n\n");
+		} catch (e) {
+			if (!isOfflineError(e)) throw e;
+			// Offline: serve whatever months are cached
+			const months = await this.cache.getUserMonths(username);
+			if (months.length === 0) throw e;
+			const newest = Math.max(...months.map(m => m.cachedAt));
+			this.staleSince = Math.max(this.staleSince ?? 0, newest);
+			return months.map(m => m.pgn.trim()).filter(Boolean).join("\n\n");
 		}
-
-		return pgnParts.join("\n\n");
 	}
-
 }
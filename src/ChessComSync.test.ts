@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { ChessComSyncDeps, ChessComSyncError, gameEndTime, startMark, syncChessComUser } from "./ChessComSync";
+
+function game(id: number, endDate: string, endTime: string): string {
+	return `[Event "Live Chess"]
+[Site "Chess.com"]
+[White "alice"]
+[Black "bob"]
+[Result "1-0"]
+[EndDate "${endDate}"]
+[EndTime "${endTime}"]
+[Link "https://www.chess.com/game/live/${id}"]
+
+1. e4 e5 1-0`;
+}
+
+const ARCHIVES: Record<string, string> = {
+	"https://api.chess.com/pub/player/alice/games/2024/01": [game(1, "2024.01.10", "12:00:00"), game(2, "2024.01.31", "23:00:00")].join("\n\n"),
+	"https://api.chess.com/pub/player/alice/games/2024/02": [game(4, "2024.02.03", "09:00:00"), game(3, "2024.02.01", "08:00:00")].join("\n\n"),
+};
+
+function fakeDeps(notes: string[] = []) {
+	const fetched: string[] = [];
+	const created: string[] = [];
+	const deps: ChessComSyncDeps = {
+		fetchArchiveUrls: async () => Object.keys(ARCHIVES),
+		archiveMonth: url => url.match(/(\d{4}\/\d{2})$/)?.[1] ?? null,
+		fetchArchivePgn: async (_, url) => {
+			fetched.push(url.slice(-7));
+			return ARCHIVES[url];
+		},
+		hasNoteWithLink: link => notes.includes(link),
+		createNote: async pgn => {
+			created.push(pgn.match(/live\/(\d+)/)![1]);
+		},
+	};
+	return { deps, fetched, created };
+}
+
+describe("gameEndTime", () => {
+	it("reads the end time, falling back to the UTC start", () => {
+		expect(gameEndTime({ EndDate: "2024.02.03", EndTime: "09:05:30" })).toBe(Date.UTC(2024, 1, 3, 9, 5, 30));
+		expect(gameEndTime({ UTCDate: "2024.02.03", UTCTime: "08:00:00" })).toBe(Date.UTC(2024, 1, 3, 8, 0, 0));
+		expect(gameEndTime({ Date: "2024.02.03" })).toBeNull();
+	});
+});
+
+describe("syncChessComUser", () => {
+	it("creates a note for every game since the start of a first sync, oldest first", async () => {
+		const { deps, created } = fakeDeps(["https://www.chess.com/game/live/2"]);
+		const result = await syncChessComUser("alice", startMark(Date.UTC(2024, 0, 1)), deps);
+		expect(created).toEqual(["1", "3", "4"]);
+		expect(result.created).toBe(3);
+		expect(result.mark).toEqual({ endTime: Date.UTC(2024, 1, 3, 9), link: "https://www.chess.com/game/live/4" });
+	});
+
+	it("leaves out the games finished before a first sync starts", async () => {
+		const { deps, fetched, created } = fakeDeps();
+		const start = startMark(Date.UTC(2024, 1, 2));
+		const result = await syncChessComUser("alice", start, deps);
+		expect(fetched).toEqual(["2024/02"]);
+		expect(created).toEqual(["4"]);
+		expect(result.mark.link).toBe("https://www.chess.com/game/live/4");
+
+		// With nothing new the mark stays as it was
+		const later = startMark(Date.UTC(2024, 2, 1));
+		expect(await syncChessComUser("alice", later, fakeDeps().deps)).toEqual({ created: 0, mark: later });
+	});
+
+	it("only reads the archives from the last synced month on", async () => {
+		const { deps, fetched, created } = fakeDeps();
+		const mark = { endTime: Date.UTC(2024, 1, 1, 8), link: "https://www.chess.com/game/live/3" };
+		const result = await syncChessComUser("alice", mark, deps);
+		expect(fetched).toEqual(["2024/02"]);
+		expect(created).toEqual(["4"]);
+		expect(result.mark.link).toBe("https://www.chess.com/game/live/4");
+	});
+
+	it("keeps the mark of the games synced before a failure", async () => {
+		const { deps } = fakeDeps();
+		deps.createNote = async pgn => {
+			if (pgn.includes("live/3")) throw new Error("Disk full");
+		};
+		const error = await syncChessComUser("alice", startMark(0), deps).catch(e => e);
+		expect(error).toBeInstanceOf(ChessComSyncError);
+		expect(error.message).toBe("Disk full");
+		expect(error.partial).toEqual({
+			created: 2,
+			mark: { endTime: Date.UTC(2024, 0, 31, 23), link: "https://www.chess.com/game/live/2" },
+		});
+	});
+});
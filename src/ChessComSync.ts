@@ -0,0 +1,123 @@
+import { GameHeaders } from "./GameProvider";
+import { PgnProvider } from "./PgnProvider";
+
+/** The last game synced for a username, saved between syncs. */
+export interface ChessComSyncMark {
+	/** End of the game, in milliseconds since the epoch (UTC). */
+	endTime: number;
+	link: string;
+}
+
+/** What a sync needs from Chess.com and the vault. */
+export interface ChessComSyncDeps {
+	fetchArchiveUrls(username: string): Promise<string[]>;
+	/** "YYYY/MM" of an archive URL, or null. */
+	archiveMonth(archiveUrl: string): string | null;
+	fetchArchivePgn(username: string, archiveUrl: string): Promise<string>;
+	/** Whether a game note already holds the game at `link`. */
+	hasNoteWithLink(link: string): boolean;
+	createNote(pgn: string): Promise<void>;
+}
+
+export interface ChessComSyncResult {
+	created: number;
+	/** The mark to save; the same object when nothing new was found. */
+	mark: ChessComSyncMark;
+}
+
+/** A sync that failed part way; `partial` holds what was synced before the failure. */
+export class ChessComSyncError extends Error {
+	constructor(message: string, readonly partial: ChessComSyncResult) {
+		super(message);
+		this.name = "ChessComSyncError";
+	}
+}
+
+interface SyncGame {
+	endTime: number;
+	link: string;
+	pgn: string;
+}
+
+/**
+ * When a Chess.com game ended, from its EndDate/EndTime headers or failing
+ * those its UTCDate/UTCTime start, in milliseconds since the epoch; null if
+ * neither is there.
+ */
+export function gameEndTime(headers: GameHeaders): number | null {
+	const date = headers["EndDate"] || headers["UTCDate"] || "";
+	const time = (headers["EndDate"] ? headers["EndTime"] : headers["UTCTime"]) || "00:00:00";
+	const d = date.match(/^(\d{4})\.(\d{2})\.(\d{2})$/);
+	const t = time.match(/^(\d{1,2}):(\d{2}):(\d{2})/);
+	if (!d || !t) return null;
+	return Date.UTC(+d[1], +d[2] - 1, +d[3], +t[1], +t[2], +t[3]);
+}
+
+/**
+ * The mark for a username never synced before: only games finished after
+ * `time` get notes, so a first sync does not bring in the whole history.
+ */
+export function startMark(time: number): ChessComSyncMark {
+	return { endTime: time, link: "" };
+}
+
+/** The "YYYY/MM" month a mark falls in. */
+function markMonth(mark: ChessComSyncMark): string {
+	const date = new Date(mark.endTime);
+	return `${date.getUTCFullYear()}/${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+async function archiveGames(pgn: string): Promise<SyncGame[]> {
+	const provider = new PgnProvider();
+	provider.loadContent(pgn);
+	const entries = await provider.getGames(0, await provider.getGameCount());
+	const games: SyncGame[] = [];
+	for (const entry of entries) {
+		// Link and the end time are not among the tags the index keeps
+		const headers = await provider.getGameHeaders(entry.index);
+		const link = headers["Link"] ?? "";
+		games.push({ endTime: gameEndTime(headers) ?? 0, link, pgn: await provider.getGamePgn(entry.index) });
+	}
+	provider.close();
+	return games;
+}
+
+/**
+ * Create notes for the games `username` finished since `mark` (startMark for
+ * a first sync), oldest first.
+ * Only the archives from the mark's month on are read. Games whose Link a note
+ * already has are skipped, as are games without a Link. The returned mark
+ * moves past every game seen; a sync that fails part way throws a
+ * ChessComSyncError whose mark resumes where it stopped.
+ */
+export async function syncChessComUser(
+	username: string, mark: ChessComSyncMark, deps: ChessComSyncDeps,
+): Promise<ChessComSyncResult> {
+	const since = markMonth(mark);
+	const created = new Set<string>();
+	let latest = mark;
+	try {
+		const archives = (await deps.fetchArchiveUrls(username)).filter(url => {
+			const month = deps.archiveMonth(url);
+			return month !== null && month >= since;
+		});
+		for (const archiveUrl of archives) {
+			const games = (await archiveGames(await deps.fetchArchivePgn(username, archiveUrl)))
+				.filter(game => game.endTime > mark.endTime || (game.endTime === mark.endTime && game.link !== mark.link))
+				.sort((a, b) => a.endTime - b.endTime);
+
+			for (const game of games) {
+				if (game.link && !created.has(game.link) && !deps.hasNoteWithLink(game.link)) {
+					await deps.createNote(game.pgn);
+					created.add(game.link);
+				}
+				if (game.endTime >= latest.endTime) {
+					latest = { endTime: game.endTime, link: game.link };
+				}
+			}
+		}
+	} catch (e) {
+		throw new ChessComSyncError(e instanceof Error ? e.message : String(e), { created: created.size, mark: latest });
+	}
+	return { created: created.size, mark: latest };
+}
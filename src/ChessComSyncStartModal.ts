@@ -0,0 +1,61 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+
+/**
+ * Asks from which date to sync the games of Chess.com usernames never synced
+ * before, so a first sync does not create a note for every game they played.
+ */
+export class ChessComSyncStartModal extends Modal {
+	private date: string;
+
+	constructor(app: App, private usernames: string[], private onSubmit: (start: number) => void) {
+		super(app);
+		const today = new Date();
+		this.date = `${today.getFullYear()}-${pad(today.getMonth() + 1)}-${pad(today.getDate())}`;
+	}
+
+	onOpen(): void {
+		this.titleEl.setText("First Chess.com sync");
+		const names = this.usernames.join(", ");
+		this.contentEl.createEl("p", {
+			text: `${names} ${this.usernames.length === 1 ? "has" : "have"} not been synced before. ` +
+				"Notes are created for the games finished from this date on; earlier games are left out.",
+		});
+
+		new Setting(this.contentEl)
+			.setName("Sync games from")
+			.addText(text => {
+				text.inputEl.type = "date";
+				text
+					.setValue(this.date)
+					.onChange(value => { this.date = value; });
+				text.inputEl.addEventListener("keydown", e => {
+					if (e.key === "Enter") this.submit();
+				});
+			});
+
+		new Setting(this.contentEl)
+			.addButton(btn => btn
+				.setButtonText("Sync")
+				.setCta()
+				.onClick(() => this.submit()));
+	}
+
+	private submit(): void {
+		const d = this.date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+		if (!d) {
+			new Notice("Please enter a date.");
+			return;
+		}
+		this.close();
+		// From the start of that day where the user is
+		this.onSubmit(new Date(+d[1], +d[2] - 1, +d[3]).getTime());
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
+
+function pad(n: number): string {
+	return String(n).padStart(2, "0");
+}
@@ -1,39 +1,331 @@
-import { ItemView, ViewStateResult, WorkspaceLeaf, setIcon } from "obsidian";
-import { GameProvider, GameEntry, createProvider } from "./GameProvider";
+import { App, ItemView, Menu, Modal, Notice, Setting, TFile, ViewStateResult, WorkspaceLeaf, setIcon } from "obsidian";
+import {
+	ALL_SOURCES_KEY, GameProvider, GameEntry, GameSearchResult, createAllSourcesProvider, createProvider,
+} from "./GameProvider";
 import { VIEW_TYPE_GAME } from "./GameView";
-import { ChessJournalSettings, ExternalSource, sourceKey, sourceDisplayName } from "./settings";
+import { ChessJournalSettings, ExternalSource, isFileSource, sourceKey, sourceDisplayName } from "./settings";
+import { UserGamesProvider } from "./UserGamesProvider";
 import { ChessComProvider } from "./ChessComProvider";
+import { CHESSCOM_TIME_CLASSES } from "./ChessComArchive";
+import { MultiSourceProvider } from "./MultiSourceProvider";
+import { GameQueryError, narrowGameQuery } from "./GameQuery";
+import { PositionSearchError } from "./PositionSearch";
+import { BoardPattern, describeBoardPattern } from "./MaterialSearch";
+import { ProviderTask, CancelledError } from "./ProviderTask";
+import { GameSort, SortField, SORT_FIELDS, isSortField } from "./GameSort";
+import { GameNoteIndex } from "./GameNoteIndex";
+import { openPlayerStats } from "./openPlayerStats";
+import { ListSelection } from "./ListSelection";
+import { createGameNote } from "./createGameNote";
+import { ExportPgnModal, PgnExportTarget, openPgnWriter } from "./ExportPgnModal";
+import { AddToRepertoireModal } from "./AddToRepertoireModal";
+import { LineMove, addLineToRepertoire, gameOpeningLine } from "./RepertoireLines";
+import { RepertoireData } from "./RepertoireTypes";
+import { NameSuggest } from "./NameSuggest";
+import { FLAG_DELETED, ScidFlagFilter, userFlagBits } from "./scid/index";
 
 export const VIEW_TYPE_DATABASE = "chess-journal-database-view";
 
 const PAGE_SIZE = 50;
+/** Pages kept in memory; those furthest from the one just loaded are dropped first. */
+const MAX_CACHED_PAGES = 100;
+/** Rows drawn beyond each edge of the visible part of the list. */
+const OVERSCAN = 10;
+const LIST_ROW_HEIGHT = 48;
+const TABLE_ROW_HEIGHT = 28;
+/** Tallest scroll area used; longer lists map their full length onto it. */
+const MAX_SCROLL_HEIGHT = 8000000;
 const DEBOUNCE_MS = 300;
+/** Games fetched at a time by bulk actions. */
+const BULK_CHUNK_SIZE = 200;
+
+/** A table column: a sortable field, or the source of each game when listing all sources. */
+type Column = SortField | "Source";
+
+const COLUMN_LABELS: Record<Column, string> = {
+	Source: "Source",
+	White: "White",
+	Black: "Black",
+	Elo: "Elo",
+	Result: "Result",
+	Date: "Date",
+	Event: "Event",
+	ECO: "ECO",
+	PlyCount: "Plies",
+	TimeControl: "Time control",
+};
+
+/** Choices of the SCID flag filter: a flag letter, or "" and "*" for every game but deleted ones and every game. */
+const SCID_FLAG_FILTERS: [string, string][] = [
+	["", "All but deleted games"],
+	["*", "All games"],
+	["D", "Deleted"],
+	["W", "White opening"],
+	["B", "Black opening"],
+	["M", "Middlegame"],
+	["E", "Endgame"],
+	["N", "Novelty"],
+	["P", "Pawn structure"],
+	["T", "Tactics"],
+	["K", "Kingside play"],
+	["Q", "Queenside play"],
+	["!", "Brilliancy"],
+	["?", "Blunder"],
+	["U", "User flag"],
+	...[1, 2, 3, 4, 5, 6].map((n): [string, string] => [String(n), `Custom flag ${n}`]),
+];
+
+const DEFAULT_COLUMNS: SortField[] = ["White", "Black", "Elo", "Result", "Date", "ECO"];
+
+/** Relative column widths in table mode. */
+const COLUMN_WIDTHS: Record<Column, number> = {
+	Source: 2,
+	White: 3,
+	Black: 3,
+	Elo: 2,
+	Result: 1.5,
+	Date: 2,
+	Event: 3,
+	ECO: 1,
+	PlyCount: 1,
+	TimeControl: 1.5,
+};
+
+function columnText(field: Column, entry: GameEntry): string {
+	const headers = entry.headers;
+	switch (field) {
+		case "Source":
+			return entry.source ?? "";
+		case "Elo": {
+			const white = headers["WhiteElo"];
+			const black = headers["BlackElo"];
+			return white || black ? `${white || "?"}–${black || "?"}` : "";
+		}
+		case "Date": {
+			const date = headers["Date"] ?? "";
+			return date === "????.??.??" ? "" : date;
+		}
+		default: {
+			const value = headers[field] ?? "";
+			return value === "?" ? "" : value;
+		}
+	}
+}
+
+class PositionSearchModal extends Modal {
+	private fen: string;
+	private onSubmit: (fen: string) => void;
+
+	constructor(app: App, fen: string, onSubmit: (fen: string) => void) {
+		super(app);
+		this.fen = fen;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		this.titleEl.setText("Search by position");
+
+		new Setting(this.contentEl)
+			.setName("FEN or EPD")
+			.addText(text => {
+				text
+					.setPlaceholder("rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq -")
+					.setValue(this.fen)
+					.onChange(value => { this.fen = value; });
+				text.inputEl.addEventListener("keydown", e => {
+					if (e.key === "Enter") this.submit();
+				});
+			});
+
+		new Setting(this.contentEl)
+			.addButton(btn => btn
+				.setButtonText("Search")
+				.setCta()
+				.onClick(() => this.submit()));
+	}
+
+	private submit(): void {
+		const fen = this.fen.trim();
+		if (!fen) return;
+		this.close();
+		this.onSubmit(fen);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
+
+class MaterialSearchModal extends Modal {
+	private pattern: BoardPattern;
+	private material: { material: string; final: boolean; eitherSide: boolean };
+	private pawnsFen: string;
+	private onSubmit: (pattern: BoardPattern) => void;
+	private optionsEl: HTMLElement;
+
+	constructor(app: App, pattern: BoardPattern | null, onSubmit: (pattern: BoardPattern) => void) {
+		super(app);
+		this.pattern = pattern ?? { kind: "material", material: "", final: false, eitherSide: true };
+		this.material = this.pattern.kind === "material"
+			? { material: this.pattern.material, final: this.pattern.final, eitherSide: this.pattern.eitherSide }
+			: { material: "", final: false, eitherSide: true };
+		this.pawnsFen = this.pattern.kind === "pawns" ? this.pattern.fen : "";
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		this.titleEl.setText("Search by material or pawns");
+
+		new Setting(this.contentEl)
+			.setName("Search for")
+			.addDropdown(dropdown => dropdown
+				.addOption("material", "Material")
+				.addOption("pawns", "Pawn structure")
+				.setValue(this.pattern.kind)
+				.onChange(value => {
+					this.pattern = value === "pawns"
+						? { kind: "pawns", fen: this.pawnsFen }
+						: { kind: "material", ...this.material };
+					this.render();
+				}));
+
+		this.optionsEl = this.contentEl.createDiv();
+		this.render();
+
+		new Setting(this.contentEl)
+			.addButton(btn => btn
+				.setButtonText("Search")
+				.setCta()
+				.onClick(() => this.submit()));
+	}
+
+	/** The settings of the chosen kind of search. */
+	private render(): void {
+		this.optionsEl.empty();
+		const onEnter = (inputEl: HTMLInputElement) => inputEl.addEventListener("keydown", e => {
+			if (e.key === "Enter") this.submit();
+		});
+		if (this.pattern.kind === "pawns") {
+			new Setting(this.optionsEl)
+				.setName("Pawns")
+				.setDesc("A FEN or just its placement. Pieces are ignored; games match where the pawns stand exactly so.")
+				.addText(text => {
+					text
+						.setPlaceholder("8/pp3ppp/2p1p3/8/3P4/8/PP3PPP/8")
+						.setValue(this.pawnsFen)
+						.onChange(value => { this.pawnsFen = value; });
+					onEnter(text.inputEl);
+				});
+			return;
+		}
+
+		new Setting(this.optionsEl)
+			.setName("Material")
+			.setDesc("White's pieces, then Black's, from K, Q, R, B, N and P.")
+			.addText(text => {
+				text
+					.setPlaceholder("KRP vs KR")
+					.setValue(this.material.material)
+					.onChange(value => { this.material.material = value; });
+				onEnter(text.inputEl);
+			});
+		new Setting(this.optionsEl)
+			.setName("Either side")
+			.setDesc("Also match with the colours swapped.")
+			.addToggle(toggle => toggle
+				.setValue(this.material.eitherSide)
+				.onChange(value => { this.material.eitherSide = value; }));
+		new Setting(this.optionsEl)
+			.setName("Final position only")
+			.setDesc("Match the material the game ends with rather than any reached on the way.")
+			.addToggle(toggle => toggle
+				.setValue(this.material.final)
+				.onChange(value => { this.material.final = value; }));
+	}
+
+	private submit(): void {
+		const pattern: BoardPattern = this.pattern.kind === "pawns"
+			? { kind: "pawns", fen: this.pawnsFen.trim() }
+			: { kind: "material", ...this.material, material: this.material.material.trim() };
+		if (pattern.kind === "pawns" ? !pattern.fen : !pattern.material) return;
+		this.close();
+		this.onSubmit(pattern);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
 
 export class DatabaseView extends ItemView {
 	private settings: ChessJournalSettings;
 	private provider: GameProvider | null = null;
 	private currentSource: ExternalSource | null = null;
-	private displayedGames: GameEntry[] = [];
+	/** Selector value of the open source: a source key or ALL_SOURCES_KEY. */
+	private currentKey: string = "";
+	/** Loaded pages of the current list, by page number. */
+	private pages: Map<number, GameEntry[]> = new Map();
+	private pageInFlight: number | null = null;
+	private listStatus: "loading" | "loaded" | "failed" = "loading";
+	private renderScheduled = false;
 	private totalCount: number = 0;
 	private searchQuery: string = "";
+	/** Chess.com time class the list is narrowed to, or "" for all. */
+	private timeClass: string = "";
+	/** The SCID_FLAG_FILTERS choice, for SCID sources. */
+	private flagFilter: string = "";
 	private searchTimeout: number | null = null;
-	private sortDesc: boolean = false;
+	/** The source load or search in flight; starting another cancels it. */
+	private pendingTask: AbortController | null = null;
+	private positionFen: string | null = null;
+	/** Material or pawn structure the list is narrowed to; never set alongside positionFen. */
+	private pattern: BoardPattern | null = null;
+	/** Null lists games in source order. */
+	private sort: GameSort | null = null;
 	private sortActionEl: HTMLElement | null = null;
+	private tableMode: boolean = false;
+	private columns: SortField[] = [...DEFAULT_COLUMNS];
+	private modeActionEl: HTMLElement | null = null;
+	private columnsActionEl: HTMLElement | null = null;
 
-	private selectedIndex: number = -1;
-	private rowElements: Map<number, HTMLElement> = new Map();
+	/** Position in the list of the game the keyboard moves from, or -1. */
+	private selectedPosition: number = -1;
+	/** Games picked for bulk actions, by position in the list. */
+	private selection = new ListSelection();
+	/** Where shift-click and shift-arrow selections extend from, or -1. */
+	private selectionAnchor: number = -1;
+	/** The bulk action in flight, cancelled by its own button or when the list changes. */
+	private bulkTask: AbortController | null = null;
+	private noteIndex: GameNoteIndex;
+	/** Game notes already holding listed games, by game index; empty while being checked. */
+	private noteMatches: Map<number, TFile[]> = new Map();
 
 	private selectEl: HTMLSelectElement;
+	private searchInputEl: HTMLInputElement;
+	private nameSuggest: NameSuggest | null = null;
+	private searchErrorEl: HTMLElement;
+	private positionRow: HTMLElement;
+	private positionLabelEl: HTMLElement;
 	private filterRow: HTMLElement;
 	private usernameSelectEl: HTMLSelectElement;
+	private timeClassSelectEl: HTMLSelectElement;
+	private flagSelectEl: HTMLSelectElement;
 	private loadingEl: HTMLElement;
+	private headerEl: HTMLElement;
 	private listEl: HTMLElement;
+	private spacerEl: HTMLElement;
+	private windowEl: HTMLElement;
 	private statusEl: HTMLElement;
-	private loadMoreEl: HTMLButtonElement;
+	private bulkBarEl: HTMLElement;
+	private bulkCountEl: HTMLElement;
+	private bulkActionsEl: HTMLElement;
+	private bulkProgressEl: HTMLElement;
+	private bulkProgressLabelEl: HTMLElement;
 
-	constructor(leaf: WorkspaceLeaf, settings: ChessJournalSettings) {
+	constructor(leaf: WorkspaceLeaf, settings: ChessJournalSettings, noteIndex: GameNoteIndex) {
 		super(leaf);
 		this.settings = settings;
+		this.noteIndex = noteIndex;
 	}
 
 	getViewType(): string {
@@ -50,19 +342,45 @@ export class DatabaseView extends ItemView {
 
 	getState(): Record<string, unknown> {
 		return {
-			sourceKey: this.currentSource ? sourceKey(this.currentSource) : "",
+			sourceKey: this.currentKey,
 			// Backward compat: also write sourcePath for older versions
-			sourcePath: this.currentSource && this.currentSource.type !== "chesscom"
+			sourcePath: this.currentSource && isFileSource(this.currentSource)
 				? this.currentSource.path : "",
-			sortDesc: this.sortDesc,
+			sort: this.sort,
+			tableMode: this.tableMode,
+			columns: this.columns,
+			positionFen: this.positionFen,
+			pattern: this.pattern,
 		};
 	}
 
 	async setState(state: unknown, result: ViewStateResult): Promise<void> {
 		const s = state as Record<string, unknown>;
-		if (typeof s?.sortDesc === "boolean") {
-			this.sortDesc = s.sortDesc;
-			this.updateSortAction();
+		const sort = s?.sort as Partial<GameSort> | null | undefined;
+		if (sort === null || (isSortField(sort?.field) && typeof sort?.descending === "boolean")) {
+			this.sort = sort as GameSort | null;
+		} else if (s?.sortDesc === true) {
+			// Saved by versions that only sorted by date
+			this.sort = { field: "Date", descending: true };
+		}
+		if (typeof s?.tableMode === "boolean") {
+			this.tableMode = s.tableMode;
+		}
+		if (Array.isArray(s?.columns)) {
+			const columns = SORT_FIELDS.filter(f => (s.columns as unknown[]).includes(f));
+			if (columns.length) this.columns = columns;
+		}
+		this.updateSortAction();
+		this.updateModeActions();
+		this.rerenderRows();
+		if (typeof s?.positionFen === "string" || s?.positionFen === null) {
+			this.positionFen = s.positionFen as string | null;
+			this.updatePositionRow();
+		}
+		const pattern = s?.pattern as Partial<BoardPattern> | null | undefined;
+		if (pattern === null || pattern?.kind === "material" || pattern?.kind === "pawns") {
+			this.pattern = pattern as BoardPattern | null;
+			this.updatePositionRow();
 		}
 		// Try sourceKey first, fall back to sourcePath for backward compat
 		const key = typeof s?.sourceKey === "string" ? s.sourceKey
@@ -87,6 +405,11 @@ export class DatabaseView extends ItemView {
 		const defaultOption = this.selectEl.createEl("option", { text: "Select a source..." });
 		defaultOption.value = "";
 
+		if (this.settings.externalSources.length > 1) {
+			const allOption = this.selectEl.createEl("option", { text: "All sources" });
+			allOption.value = ALL_SOURCES_KEY;
+		}
+
 		for (const source of this.settings.externalSources) {
 			const option = this.selectEl.createEl("option", { text: sourceDisplayName(source) });
 			option.value = sourceKey(source);
@@ -94,61 +417,141 @@ export class DatabaseView extends ItemView {
 
 		this.selectEl.addEventListener("change", () => this.onSourceChange(this.selectEl.value));
 
-		// Username filter row (hidden by default)
+		// Username and time class filter row (hidden by default)
 		this.filterRow = container.createDiv("chess-journal-db-filter-row");
 		this.filterRow.style.display = "none";
 		this.usernameSelectEl = this.filterRow.createEl("select", { cls: "chess-journal-db-username-select" });
 		this.usernameSelectEl.addEventListener("change", () => this.onUsernameFilterChange());
+		this.timeClassSelectEl = this.filterRow.createEl("select", { cls: "chess-journal-db-time-class-select" });
+		this.timeClassSelectEl.createEl("option", { text: "All time classes", value: "" });
+		for (const timeClass of CHESSCOM_TIME_CLASSES) {
+			this.timeClassSelectEl.createEl("option", {
+				text: timeClass.charAt(0).toUpperCase() + timeClass.slice(1),
+				value: timeClass,
+			});
+		}
+		this.timeClassSelectEl.addEventListener("change", () => {
+			this.timeClass = this.timeClassSelectEl.value;
+			this.reload();
+		});
+		this.flagSelectEl = this.filterRow.createEl("select", { cls: "chess-journal-db-flag-select" });
+		for (const [value, text] of SCID_FLAG_FILTERS) {
+			this.flagSelectEl.createEl("option", { text, value });
+		}
+		this.flagSelectEl.addEventListener("change", () => void this.onFlagFilterChange());
 
-		// Search row: input + sort toggle
+		// Search row: input, sort toggle, list/table mode and column picker
 		const searchRow = container.createDiv("chess-journal-db-search-row");
 		const searchInput = searchRow.createEl("input", {
 			type: "text",
-			placeholder: "Search games...",
+			placeholder: "Search games (e.g. white:carlsen eco:B90-B99)",
 			cls: "chess-journal-db-search",
 		});
+		this.searchInputEl = searchInput;
 		searchInput.addEventListener("input", () => {
 			if (this.searchTimeout !== null) {
 				window.clearTimeout(this.searchTimeout);
 			}
-			this.searchTimeout = window.setTimeout(() => {
-				this.searchQuery = searchInput.value.trim();
-				this.resetList();
-				this.loadPage();
-			}, DEBOUNCE_MS);
+			this.searchTimeout = window.setTimeout(() => this.applySearchInput(), DEBOUNCE_MS);
 		});
+		// A picked name is searched for at once
+		this.nameSuggest = new NameSuggest(searchInput, searchRow, () => this.provider, () => this.applySearchInput());
 
-		this.sortActionEl = searchRow.createEl("button", {
-			cls: "chess-journal-db-sort-btn clickable-icon",
-			attr: { "aria-label": this.sortDesc ? "Date: newest first" : "Date: oldest first" },
-		});
-		setIcon(this.sortActionEl, this.sortDesc ? "sort-desc" : "sort-asc");
+		this.sortActionEl = searchRow.createEl("button", { cls: "chess-journal-db-sort-btn clickable-icon" });
 		this.sortActionEl.addEventListener("click", () => this.toggleSort());
+		this.updateSortAction();
+
+		this.modeActionEl = searchRow.createEl("button", { cls: "chess-journal-db-mode-btn clickable-icon" });
+		this.modeActionEl.addEventListener("click", () => this.setTableMode(!this.tableMode));
+		this.columnsActionEl = searchRow.createEl("button", {
+			cls: "chess-journal-db-columns-btn clickable-icon",
+			attr: { "aria-label": "Columns" },
+		});
+		setIcon(this.columnsActionEl, "columns");
+		this.columnsActionEl.addEventListener("click", e => this.showColumnMenu(e));
+		this.updateModeActions();
+
+		const positionBtn = searchRow.createEl("button", {
+			cls: "chess-journal-db-position-btn clickable-icon",
+			attr: { "aria-label": "Search by position" },
+		});
+		setIcon(positionBtn, "crosshair");
+		positionBtn.addEventListener("click", () => {
+			new PositionSearchModal(this.app, this.positionFen ?? "", fen => this.searchPosition(fen)).open();
+		});
+
+		const patternBtn = searchRow.createEl("button", {
+			cls: "chess-journal-db-pattern-btn clickable-icon",
+			attr: { "aria-label": "Search by material or pawns" },
+		});
+		setIcon(patternBtn, "scale");
+		patternBtn.addEventListener("click", () => {
+			new MaterialSearchModal(this.app, this.pattern, pattern => this.searchPattern(pattern)).open();
+		});
+
+		const exportBtn = searchRow.createEl("button", {
+			cls: "chess-journal-db-export-btn clickable-icon",
+			attr: { "aria-label": "Export results to PGN" },
+		});
+		setIcon(exportBtn, "download");
+		exportBtn.addEventListener("click", () => this.exportResults());
+
+		// Active position filter
+		this.positionRow = container.createDiv("chess-journal-db-position-row");
+		this.positionLabelEl = this.positionRow.createSpan("chess-journal-db-position-label");
+		const clearBtn = this.positionRow.createEl("button", {
+			cls: "chess-journal-db-position-clear clickable-icon",
+			attr: { "aria-label": "Clear position filter" },
+		});
+		setIcon(clearBtn, "x");
+		clearBtn.addEventListener("click", () => this.searchPosition(null));
+		this.updatePositionRow();
+
+		// Query error, shown below the search row
+		this.searchErrorEl = container.createDiv("chess-journal-db-search-error");
+		this.searchErrorEl.style.display = "none";
 
 		// Loading indicator
 		this.loadingEl = container.createDiv("chess-journal-db-loading");
 		this.loadingEl.setText("Loading games...");
 		this.loadingEl.style.display = "none";
 
-		// Game list
-		this.listEl = container.createDiv("chess-journal-db-list");
+		// Column headers in table mode
+		this.headerEl = container.createDiv("chess-journal-db-table-header");
 
-		// Load more button
-		this.loadMoreEl = container.createEl("button", {
-			text: "Load more",
-			cls: "chess-journal-db-load-more",
-		});
-		this.loadMoreEl.addEventListener("click", () => this.loadPage());
-		this.loadMoreEl.style.display = "none";
+		// Game list: only the rows in view exist, laid over a spacer as tall as the whole list
+		this.listEl = container.createDiv({ cls: "chess-journal-db-list", attr: { tabindex: "0" } });
+		this.spacerEl = this.listEl.createDiv("chess-journal-db-spacer");
+		this.windowEl = this.listEl.createDiv("chess-journal-db-window");
+		this.registerDomEvent(this.listEl, "scroll", () => this.scheduleRender());
+		this.registerDomEvent(this.listEl, "keydown", e => this.onListKeyDown(e));
+		this.renderTableHeader();
+
+		// Bulk actions on the selected games
+		this.renderBulkBar(container);
 
 		// Status line
 		this.statusEl = container.createDiv("chess-journal-db-status");
+
+		// Flag games that already have a note, rechecking when game notes change
+		this.registerEvent(this.noteIndex.on("changed", () => {
+			this.noteMatches.clear();
+			this.scheduleRender();
+		}));
+		void this.noteIndex.ready();
+	}
+
+	onResize(): void {
+		this.scheduleRender();
 	}
 
 	async onClose(): Promise<void> {
 		if (this.searchTimeout !== null) {
 			window.clearTimeout(this.searchTimeout);
 		}
+		this.nameSuggest?.close();
+		this.pendingTask?.abort();
+		this.bulkTask?.abort();
 		if (this.provider) {
 			this.provider.close();
 			this.provider = null;
@@ -156,45 +559,93 @@ export class DatabaseView extends ItemView {
 	}
 
 	private async onSourceChange(key: string): Promise<void> {
+		const controller = this.startTask();
 		if (this.provider) {
 			this.provider.close();
 			this.provider = null;
 		}
 		this.currentSource = null;
+		this.currentKey = "";
+		this.nameSuggest?.close();
 		this.resetList();
-		this.hideUsernameFilter();
+		this.hideFilters();
+		this.hideLoading();
 		this.updateStatus();
 
 		if (!key) return;
 
-		const source = this.settings.externalSources.find(s => sourceKey(s) === key);
-		if (!source) return;
+		const source = this.settings.externalSources.find(s => sourceKey(s) === key) ?? null;
+		if (!source && key !== ALL_SOURCES_KEY) return;
 
+		const provider: GameProvider = source ? createProvider(source, this.settings) : createAllSourcesProvider(this.settings);
 		try {
-			this.loadingEl.style.display = "";
-			this.provider = createProvider(source);
-			await this.provider.open();
+			this.showLoading("Loading games...");
+			await provider.open(this.trackProgress(controller, "Loading games..."));
+			// All sources passes the filter on to its SCID bases
+			if (!source || source.type === "scid") await provider.setFlagFilter?.(this.scidFlagFilter());
+			// A provider on the main thread may finish after being cancelled
+			if (controller.signal.aborted) throw new CancelledError();
+			this.provider = provider;
 			this.currentSource = source;
-			this.loadingEl.style.display = "none";
-			this.totalCount = this.provider.getGameCount();
-			this.showUsernameFilter();
-			this.updateStatus();
-			this.loadPage();
+			this.currentKey = key;
+			this.hideLoading();
+			this.showFilters();
+			this.reload();
 		} catch (e) {
-			this.loadingEl.style.display = "none";
+			if (this.provider !== provider) provider.close();
+			if (e instanceof CancelledError) return;
+			this.hideLoading();
 			this.statusEl.setText(`Error opening source: ${e.message}`);
 		}
 	}
 
-	private showUsernameFilter(): void {
-		if (!(this.provider instanceof ChessComProvider)) {
-			this.hideUsernameFilter();
-			return;
+	private applySearchInput(): void {
+		if (this.searchTimeout !== null) {
+			window.clearTimeout(this.searchTimeout);
+			this.searchTimeout = null;
 		}
+		this.searchQuery = this.searchInputEl.value.trim();
+		this.reload();
+	}
+
+	/** Cancel the load or search in flight and start tracking a new one. */
+	private startTask(): AbortController {
+		this.pendingTask?.abort();
+		this.pendingTask = new AbortController();
+		return this.pendingTask;
+	}
+
+	/** A task for `controller` that shows its progress in the loading indicator. */
+	private trackProgress(controller: AbortController, label: string): ProviderTask {
+		return {
+			signal: controller.signal,
+			onProgress: (done, total) => {
+				if (!controller.signal.aborted) this.showLoading(label, done, total);
+			},
+		};
+	}
+
+	private showLoading(label: string, done?: number, total?: number): void {
+		const percent = done !== undefined && total ? ` ${Math.floor((done / total) * 100)}%` : "";
+		this.loadingEl.setText(label + percent);
+		this.loadingEl.style.display = "";
+	}
 
-		const usernames = this.provider.getUsernames();
-		if (usernames.length <= 1) {
-			this.hideUsernameFilter();
+	private hideLoading(): void {
+		this.loadingEl.style.display = "none";
+	}
+
+	/**
+	 * Offer the username filter for several accounts, the time class filter
+	 * for Chess.com and the flag filter for SCID bases.
+	 */
+	private showFilters(): void {
+		const usernames = this.provider instanceof UserGamesProvider ? this.provider.getUsernames() : [];
+		const showUsernames = usernames.length > 1;
+		const showTimeClasses = this.provider instanceof ChessComProvider;
+		const showFlags = this.currentSource?.type === "scid";
+		if (!showUsernames && !showTimeClasses && !showFlags) {
+			this.hideFilters();
 			return;
 		}
 
@@ -205,108 +656,397 @@ export class DatabaseView extends ItemView {
 			const opt = this.usernameSelectEl.createEl("option", { text: u });
 			opt.value = u;
 		}
+		this.usernameSelectEl.style.display = showUsernames ? "" : "none";
+		this.timeClassSelectEl.style.display = showTimeClasses ? "" : "none";
+		this.flagSelectEl.style.display = showFlags ? "" : "none";
 		this.filterRow.style.display = "";
 	}
 
-	private hideUsernameFilter(): void {
+	private hideFilters(): void {
 		this.filterRow.style.display = "none";
 		this.usernameSelectEl.empty();
+		this.timeClass = "";
+		this.timeClassSelectEl.value = "";
+		this.flagFilter = "";
+		this.flagSelectEl.value = "";
+	}
+
+	private async onFlagFilterChange(): Promise<void> {
+		this.flagFilter = this.flagSelectEl.value;
+		if (this.currentSource?.type !== "scid" || !this.provider?.setFlagFilter) return;
+		try {
+			await this.provider.setFlagFilter(this.scidFlagFilter());
+		} catch (e) {
+			this.statusEl.setText(`Error filtering games: ${e.message}`);
+			return;
+		}
+		this.reload();
 	}
 
-	private onUsernameFilterChange(): void {
-		if (!(this.provider instanceof ChessComProvider)) return;
+	private async onUsernameFilterChange(): Promise<void> {
+		if (!(this.provider instanceof UserGamesProvider)) return;
 		const value = this.usernameSelectEl.value || null;
 		this.provider.setUsernameFilter(value);
-		this.resetList();
-		this.totalCount = this.provider.getGameCount();
-		this.updateStatus();
-		this.loadPage();
+		this.reload();
 	}
 
+	/** Reverse the current sort, starting from date order when games are in source order. */
 	private toggleSort(): void {
-		this.sortDesc = !this.sortDesc;
+		this.setSort(this.sort
+			? { field: this.sort.field, descending: !this.sort.descending }
+			: { field: "Date", descending: false });
+	}
+
+	/** Sort by a column: ascending first, reversed on a second click. */
+	private sortByColumn(field: SortField): void {
+		const descending = this.sort?.field === field && !this.sort.descending;
+		this.setSort({ field, descending });
+	}
+
+	private setSort(sort: GameSort | null): void {
+		this.sort = sort;
 		this.updateSortAction();
-		this.resetList();
-		if (this.provider) {
-			this.totalCount = this.provider.getGameCount();
-		}
-		this.loadPage();
+		this.reload();
 		this.app.workspace.requestSaveLayout();
 	}
 
 	private updateSortAction(): void {
 		if (!this.sortActionEl) return;
-		const icon = this.sortDesc ? "sort-desc" : "sort-asc";
-		const label = this.sortDesc ? "Date: newest first" : "Date: oldest first";
+		const label = this.sort
+			? `${COLUMN_LABELS[this.sort.field]}: ${this.sort.descending ? "descending" : "ascending"}`
+			: "Source order";
 		this.sortActionEl.setAttribute("aria-label", label);
-		setIcon(this.sortActionEl, icon);
+		setIcon(this.sortActionEl, !this.sort ? "arrow-up-down" : this.sort.descending ? "sort-desc" : "sort-asc");
 	}
 
+	private setTableMode(tableMode: boolean): void {
+		this.tableMode = tableMode;
+		this.updateModeActions();
+		this.rerenderRows();
+		this.app.workspace.requestSaveLayout();
+	}
+
+	private updateModeActions(): void {
+		if (!this.modeActionEl || !this.columnsActionEl) return;
+		this.modeActionEl.setAttribute("aria-label", this.tableMode ? "Show as list" : "Show as table");
+		setIcon(this.modeActionEl, this.tableMode ? "list" : "table");
+		this.columnsActionEl.style.display = this.tableMode ? "" : "none";
+	}
+
+	private showColumnMenu(e: MouseEvent): void {
+		const menu = new Menu();
+		for (const field of SORT_FIELDS) {
+			const shown = this.columns.includes(field);
+			menu.addItem(item => item
+				.setTitle(COLUMN_LABELS[field])
+				.setChecked(shown)
+				.onClick(() => this.toggleColumn(field)));
+		}
+		menu.showAtMouseEvent(e);
+	}
+
+	private toggleColumn(field: SortField): void {
+		const shown = this.columns.includes(field);
+		// Keep at least one column
+		if (shown && this.columns.length === 1) return;
+		this.columns = SORT_FIELDS.filter(f => f === field ? !shown : this.columns.includes(f));
+		this.rerenderRows();
+		this.app.workspace.requestSaveLayout();
+	}
+
+	/** Redraw the list, e.g. after switching mode or columns. */
+	private rerenderRows(): void {
+		if (!this.listEl) return;
+		this.renderTableHeader();
+		if (this.selectedPosition >= 0) {
+			this.scrollToPosition(this.selectedPosition);
+		} else {
+			this.renderWindow();
+		}
+	}
+
+	/** In table mode, show the sortable column headers and lay rows out to match. */
+	private renderTableHeader(): void {
+		this.headerEl.empty();
+		this.headerEl.style.display = this.tableMode ? "" : "none";
+		if (!this.tableMode) return;
+
+		const columns = this.tableColumns();
+		const widths = columns.map(f => `minmax(0, ${COLUMN_WIDTHS[f]}fr)`).join(" ");
+		this.contentEl.style.setProperty("--chess-journal-db-columns", widths);
+		for (const field of columns) {
+			const cell = this.headerEl.createDiv({ cls: "chess-journal-db-header-cell", attr: { "data-field": field } });
+			cell.createSpan({ text: COLUMN_LABELS[field] });
+			if (this.sort?.field === field) {
+				cell.addClass("is-sorted");
+				setIcon(cell.createSpan("chess-journal-db-sort-indicator"), this.sort.descending ? "chevron-down" : "chevron-up");
+			}
+			if (field !== "Source") {
+				cell.addClass("is-sortable");
+				cell.addEventListener("click", () => this.sortByColumn(field));
+			}
+			cell.addEventListener("contextmenu", e => {
+				e.preventDefault();
+				this.showColumnMenu(e);
+			});
+		}
+	}
+
+	/** The chosen columns, after the source column when listing all sources. */
+	private tableColumns(): Column[] {
+		return this.provider instanceof MultiSourceProvider ? ["Source", ...this.columns] : this.columns;
+	}
+
+	/** Forget the loaded games and scroll back to the top. */
 	private resetList(): void {
-		this.displayedGames = [];
-		this.listEl.empty();
-		this.rowElements.clear();
-		this.selectedIndex = -1;
+		this.pages.clear();
+		this.pageInFlight = null;
+		this.listStatus = "loading";
+		this.selectedPosition = -1;
+		this.clearSelection();
+		this.bulkTask?.abort();
+		this.noteMatches.clear();
 		this.totalCount = 0;
-		this.loadMoreEl.style.display = "none";
+		this.listEl.scrollTop = 0;
+		this.renderWindow();
 	}
 
-	private reversePage(total: number, displayed: number): { offset: number; limit: number } {
-		return {
-			offset: Math.max(0, total - displayed - PAGE_SIZE),
-			limit: Math.min(PAGE_SIZE, total - displayed),
-		};
+	/** Load the list afresh after the source, query, sort or filter changed. */
+	private reload(): void {
+		this.startTask();
+		this.renderTableHeader();
+		this.resetList();
+		this.updateStatus();
 	}
 
-	private loadPage(): void {
-		if (!this.provider) return;
+	private rowHeight(): number {
+		return this.tableMode ? TABLE_ROW_HEIGHT : LIST_ROW_HEIGHT;
+	}
 
-		const displayed = this.displayedGames.length;
-		let entries: GameEntry[];
+	/** Unscaled pixels per pixel of scrolling; above 1 only for lists taller than MAX_SCROLL_HEIGHT. */
+	private scrollScale(): number {
+		const fullHeight = this.totalCount * this.rowHeight();
+		const scrollable = Math.min(fullHeight, MAX_SCROLL_HEIGHT) - this.listEl.clientHeight;
+		return scrollable > 0 ? Math.max(1, (fullHeight - this.listEl.clientHeight) / scrollable) : 1;
+	}
 
-		if (this.searchQuery) {
-			if (this.sortDesc) {
-				if (displayed === 0) {
-					// Probe to get the total count for reverse pagination
-					this.totalCount = this.provider.search(this.searchQuery, 0, 0).total;
-				}
-				const { offset, limit } = this.reversePage(this.totalCount, displayed);
-				const result = this.provider.search(this.searchQuery, offset, limit);
-				entries = result.games.reverse();
-				this.totalCount = result.total;
-			} else {
-				const result = this.provider.search(this.searchQuery, displayed, PAGE_SIZE);
-				entries = result.games;
-				this.totalCount = result.total;
+	private scheduleRender(): void {
+		if (this.renderScheduled) return;
+		this.renderScheduled = true;
+		window.requestAnimationFrame(() => {
+			this.renderScheduled = false;
+			this.renderWindow();
+		});
+	}
+
+	/** Draw the rows in view and fetch the first of their pages that is not loaded yet. */
+	private renderWindow(): void {
+		const rowHeight = this.rowHeight();
+		this.spacerEl.style.height = `${Math.min(this.totalCount * rowHeight, MAX_SCROLL_HEIGHT)}px`;
+
+		const scrollTop = this.listEl.scrollTop;
+		const top = scrollTop * this.scrollScale();
+		const first = Math.max(0, Math.floor(top / rowHeight) - OVERSCAN);
+		const end = Math.min(this.totalCount, Math.ceil((top + this.listEl.clientHeight) / rowHeight) + OVERSCAN);
+
+		this.windowEl.empty();
+		for (let position = first; position < end; position++) {
+			const row = this.renderGameRow(position);
+			row.style.top = `${scrollTop + position * rowHeight - top}px`;
+		}
+		this.loadMissingPage(first, end);
+	}
+
+	private loadMissingPage(first: number, end: number): void {
+		if (!this.provider || this.pageInFlight !== null || this.listStatus === "failed") return;
+		// The length of the list is only known once its first page is in
+		const firstPage = Math.floor(first / PAGE_SIZE);
+		const lastPage = this.listStatus === "loaded" ? Math.floor((end - 1) / PAGE_SIZE) : firstPage;
+		for (let page = firstPage; page <= lastPage; page++) {
+			if (!this.pages.has(page)) {
+				void this.loadPage(page);
+				return;
 			}
-		} else {
-			this.totalCount = this.provider.getGameCount();
-			if (this.sortDesc) {
-				const { offset, limit } = this.reversePage(this.totalCount, displayed);
-				entries = this.provider.getGames(offset, limit).reverse();
+		}
+	}
+
+	/** Fetch a page of the list; failures are shown in the view, never rethrown. */
+	private async loadPage(page: number): Promise<void> {
+		const controller = this.pendingTask;
+		if (!this.provider || !controller) return;
+
+		this.pageInFlight = page;
+		const task: ProviderTask = this.listStatus === "loading"
+			? this.trackProgress(controller, "Searching...")
+			: { signal: controller.signal };
+		let result: GameSearchResult;
+
+		try {
+			result = await this.fetchGames(page * PAGE_SIZE, PAGE_SIZE, task);
+		} catch (e) {
+			// A newer list has taken over
+			if (controller.signal.aborted) return;
+			this.pageInFlight = null;
+			this.listStatus = "failed";
+			this.hideLoading();
+			if (e instanceof GameQueryError || e instanceof PositionSearchError) {
+				this.showSearchError(e.message);
 			} else {
-				entries = this.provider.getGames(displayed, PAGE_SIZE);
+				// The source itself failed (unreadable file, corrupt index, worker gone)
+				this.statusEl.setText(`Error loading games: ${e.message}`);
 			}
+			return;
 		}
+		if (controller.signal.aborted) return;
+		this.pageInFlight = null;
+		this.hideLoading();
+		if (this.listStatus === "loading") this.showSearchError(null);
+		this.listStatus = "loaded";
+
+		this.pages.set(page, result.games);
+		this.totalCount = result.total;
+		this.evictPages(page);
+		this.updateStatus();
+		this.renderWindow();
+	}
 
-		for (const entry of entries) {
-			this.displayedGames.push(entry);
-			this.renderGameRow(entry);
+	private evictPages(near: number): void {
+		while (this.pages.size > MAX_CACHED_PAGES) {
+			let furthest = near;
+			for (const page of this.pages.keys()) {
+				if (Math.abs(page - near) > Math.abs(furthest - near)) furthest = page;
+			}
+			this.pages.delete(furthest);
 		}
+	}
 
-		// Show/hide load more
-		const allLoaded = this.displayedGames.length >= this.totalCount;
-		this.loadMoreEl.style.display = allLoaded ? "none" : "";
+	private entryAt(position: number): GameEntry | undefined {
+		return this.pages.get(Math.floor(position / PAGE_SIZE))?.[position % PAGE_SIZE];
+	}
 
-		this.updateStatus();
+	/** Fetch the listed games starting at `offset`, honouring the search query and sort order. */
+	private async fetchGames(offset: number, limit: number, task: ProviderTask): Promise<GameSearchResult> {
+		if (!this.provider) return { games: [], total: 0 };
+		if (this.listQuery() || this.positionFen || this.pattern) {
+			return this.searchGames(offset, limit, task);
+		}
+		const total = await this.provider.getGameCount();
+		const games = await this.provider.getGames(offset, limit, this.sort ?? undefined);
+		return { games, total };
 	}
 
-	private renderGameRow(entry: GameEntry): void {
-		const row = this.listEl.createDiv("chess-journal-db-row");
-		this.rowElements.set(entry.index, row);
+	private searchGames(offset: number, limit: number, task: ProviderTask): Promise<GameSearchResult> {
+		if (!this.provider) return Promise.resolve({ games: [], total: 0 });
+		const sort = this.sort ?? undefined;
+		if (this.positionFen) {
+			return this.provider.searchPosition(this.positionFen, this.listQuery(), offset, limit, task, sort);
+		}
+		if (this.pattern) {
+			return this.provider.searchPattern(this.pattern, this.listQuery(), offset, limit, task, sort);
+		}
+		return this.provider.search(this.listQuery(), offset, limit, task, sort);
+	}
+
+	/** The search query narrowed to the chosen time class. */
+	private listQuery(): string {
+		return narrowGameQuery(this.timeClass ? `timeclass:="${this.timeClass}"` : "", this.searchQuery);
+	}
+
+	/**
+	 * The flag filter a SCID source lists games by, from their index flags;
+	 * deleted games are left out unless asked for.
+	 */
+	private scidFlagFilter(): ScidFlagFilter | null {
+		const choice = this.flagFilter;
+		if (choice === "*") return null;
+		if (choice === "D") return { require: FLAG_DELETED, exclude: 0 };
+		return { require: userFlagBits(choice), exclude: FLAG_DELETED };
+	}
 
-		if (entry.index === this.selectedIndex) {
-			row.addClass("is-selected");
+	/** This view's provider if it has the source with `key` open, for writing games through. */
+	openProvider(key: string): GameProvider | null {
+		return this.currentKey === key ? this.provider : null;
+	}
+
+	/**
+	 * Show the games added to the source with `key` through `writer`. A
+	 * provider that wrote them has kept up and is listed again; any other
+	 * showing the source, on its own or among all sources, is reopened.
+	 */
+	async sourceChanged(key: string, writer: GameProvider | null): Promise<void> {
+		if (!this.provider || (this.currentKey !== key && this.currentKey !== ALL_SOURCES_KEY)) return;
+		if (this.provider === writer) {
+			this.reload();
+		} else {
+			await this.onSourceChange(this.currentKey);
+		}
+	}
+
+	/**
+	 * Restrict the list to games reaching `fen`, in place of any material or
+	 * pawn search, or clear both with null.
+	 */
+	searchPosition(fen: string | null): void {
+		this.positionFen = fen;
+		this.pattern = null;
+		this.updatePositionRow();
+		this.reload();
+		this.app.workspace.requestSaveLayout();
+	}
+
+	/** Restrict the list to games matching a material or pawn structure pattern, in place of any position. */
+	private searchPattern(pattern: BoardPattern): void {
+		this.pattern = pattern;
+		this.positionFen = null;
+		this.updatePositionRow();
+		this.reload();
+		this.app.workspace.requestSaveLayout();
+	}
+
+	private updatePositionRow(): void {
+		if (!this.positionRow) return;
+		const label = this.positionFen ? `Position: ${this.positionFen}`
+			: this.pattern ? describeBoardPattern(this.pattern)
+			: "";
+		this.positionRow.style.display = label ? "" : "none";
+		this.positionLabelEl.setText(label);
+		this.positionLabelEl.setAttribute("title", label);
+	}
+
+	private showSearchError(message: string | null): void {
+		this.searchInputEl.toggleClass("is-invalid", message !== null);
+		this.searchErrorEl.setText(message ?? "");
+		this.searchErrorEl.style.display = message !== null ? "" : "none";
+		if (message !== null) {
+			this.totalCount = 0;
+			this.renderWindow();
+			this.statusEl.setText("");
+		}
+	}
+
+	private renderGameRow(position: number): HTMLElement {
+		const row = this.windowEl.createDiv("chess-journal-db-row");
+		row.style.height = `${this.rowHeight()}px`;
+		row.toggleClass("is-odd", position % 2 === 0);
+		row.toggleClass("is-selected", this.selection.has(position));
+		row.toggleClass("is-table-row", this.tableMode);
+
+		const entry = this.entryAt(position);
+		if (!entry) {
+			// Filled in once its page arrives
+			row.addClass("is-loading");
+			return row;
+		}
+		row.addEventListener("click", e => this.onRowClick(e, position, entry));
+		row.addEventListener("contextmenu", e => this.showGameMenu(e, entry));
+
+		if (this.tableMode) {
+			for (const field of this.tableColumns()) {
+				const text = columnText(field, entry);
+				row.createDiv({ cls: "chess-journal-db-cell", text, attr: { title: text } });
+			}
+			this.renderNoteFlag(row, entry);
+			return row;
 		}
 
 		const white = entry.headers["White"] || "?";
@@ -314,33 +1054,423 @@ export class DatabaseView extends ItemView {
 		const result = entry.headers["Result"] || "";
 		const date = entry.headers["Date"] || "";
 		const eco = entry.headers["ECO"] || "";
+		const plies = parseInt(entry.headers["PlyCount"] ?? "", 10);
 
 		const players = row.createDiv("chess-journal-db-row-players");
 		players.setText(`${white} vs ${black}`);
 
 		const info = row.createDiv("chess-journal-db-row-info");
 		const parts: string[] = [];
+		if (entry.source) parts.push(entry.source);
 		if (result) parts.push(result);
 		if (date && date !== "????.??.??") parts.push(date);
 		if (eco) parts.push(eco);
+		if (plies > 0) parts.push(`${plies} ${plies === 1 ? "ply" : "plies"}`);
 		info.setText(parts.join("  "));
+		this.renderNoteFlag(row, entry);
+		return row;
+	}
+
+	/** Mark a game already saved as a note; clicking the mark opens the note. */
+	private renderNoteFlag(row: HTMLElement, entry: GameEntry): void {
+		if (!this.noteIndex.mayContain(entry.headers)) return;
+		const notes = this.noteMatches.get(entry.index);
+		if (!notes) {
+			this.checkNotes(entry);
+			return;
+		}
+		if (notes.length === 0) return;
+
+		const flag = row.createDiv({
+			cls: "chess-journal-db-note-flag clickable-icon",
+			attr: { "aria-label": `Saved in ${notes.map(f => f.path).join(", ")}` },
+		});
+		setIcon(flag, "file-check");
+		flag.addEventListener("click", async (e) => {
+			e.stopPropagation();
+			await this.app.workspace.getLeaf("tab").openFile(notes[0]);
+		});
+	}
+
+	/** Compare a game's moves with the notes sharing its players, date and result. */
+	private async checkNotes(entry: GameEntry): Promise<void> {
+		const provider = this.provider;
+		if (!provider) return;
+		this.noteMatches.set(entry.index, []);
+		let notes: TFile[];
+		try {
+			notes = await this.noteIndex.findNotesForPgn(await provider.getGamePgn(entry.index));
+		} catch {
+			// Left unflagged; the game itself reports the error if opened
+			return;
+		}
+		// The list has moved on to another source or the notes changed meanwhile
+		if (provider !== this.provider || this.noteMatches.get(entry.index)?.length !== 0) return;
+		if (notes.length) {
+			this.noteMatches.set(entry.index, notes);
+			this.scheduleRender();
+		}
+	}
+
+	/** Statistics for either player of a game, over the current source, and selecting every result. */
+	private showGameMenu(e: MouseEvent, entry: GameEntry): void {
+		const menu = new Menu();
+		for (const side of ["White", "Black"]) {
+			const player = entry.headers[side];
+			if (!player || player === "?") continue;
+			menu.addItem(item => item
+				.setTitle(`Statistics for ${player}`)
+				.setIcon("user")
+				.onClick(() => openPlayerStats(this.app, player, this.currentKey)));
+		}
+		menu.addSeparator();
+		menu.addItem(item => item
+			.setTitle(`Select all ${this.totalCount.toLocaleString()} results`)
+			.setIcon("check-check")
+			.onClick(() => this.selectAll()));
+		e.preventDefault();
+		menu.showAtMouseEvent(e);
+	}
+
+	/**
+	 * Arrow keys, Page Up/Down, Home and End move the selection, extending it
+	 * with Shift; Enter opens the selected game. Ctrl/Cmd+A selects every
+	 * result and Escape clears the selection.
+	 */
+	private onListKeyDown(e: KeyboardEvent): void {
+		const total = this.totalCount;
+		if (total === 0) return;
+
+		if (e.key === "a" && (e.ctrlKey || e.metaKey)) {
+			e.preventDefault();
+			this.selectAll();
+			return;
+		}
+		if (e.key === "Escape" && !this.selection.isEmpty()) {
+			e.preventDefault();
+			this.clearSelection();
+			this.renderWindow();
+			return;
+		}
+
+		const current = this.selectedPosition;
+		const pageRows = Math.max(1, Math.floor(this.listEl.clientHeight / this.rowHeight()) - 1);
+		let next: number;
+		switch (e.key) {
+			case "ArrowDown":
+				next = current + 1;
+				break;
+			case "ArrowUp":
+				next = current < 0 ? 0 : current - 1;
+				break;
+			case "PageDown":
+				next = current + pageRows;
+				break;
+			case "PageUp":
+				next = current - pageRows;
+				break;
+			case "Home":
+				next = 0;
+				break;
+			case "End":
+				next = total - 1;
+				break;
+			case "Enter": {
+				const entry = this.entryAt(current);
+				if (entry) {
+					e.preventDefault();
+					void this.openGame(entry);
+				}
+				return;
+			}
+			default:
+				return;
+		}
+
+		e.preventDefault();
+		const position = Math.max(0, Math.min(total - 1, next));
+		if (e.shiftKey) {
+			this.extendSelection(position);
+		} else {
+			this.selectOnly(position);
+		}
+		this.scrollToPosition(position);
+	}
+
+	/** Ctrl/Cmd-click toggles a game and Shift-click extends the selection to it; a plain click selects and opens it. */
+	private onRowClick(e: MouseEvent, position: number, entry: GameEntry): void {
+		if (e.shiftKey) {
+			this.extendSelection(position);
+		} else if (e.ctrlKey || e.metaKey) {
+			this.selection.toggle(position);
+			this.selectionAnchor = position;
+			this.selectedPosition = position;
+			this.updateBulkBar();
+		} else {
+			this.selectOnly(position);
+			void this.openGame(entry);
+		}
+		this.renderWindow();
+	}
+
+	private selectOnly(position: number): void {
+		this.selection.set(position, position + 1);
+		this.selectionAnchor = position;
+		this.selectedPosition = position;
+		this.updateBulkBar();
+	}
+
+	/** Select the games from the anchor to `position`, replacing the selection. */
+	private extendSelection(position: number): void {
+		const anchor = this.selectionAnchor >= 0 ? this.selectionAnchor : position;
+		this.selection.set(Math.min(anchor, position), Math.max(anchor, position) + 1);
+		this.selectionAnchor = anchor;
+		this.selectedPosition = position;
+		this.updateBulkBar();
+	}
+
+	/** Select every game in the list, including those not loaded yet. */
+	private selectAll(): void {
+		if (this.listStatus !== "loaded") return;
+		this.selection.set(0, this.totalCount);
+		this.updateBulkBar();
+		this.renderWindow();
+	}
+
+	private clearSelection(): void {
+		this.selection.clear();
+		this.selectionAnchor = -1;
+		this.updateBulkBar();
+	}
+
+	private renderBulkBar(container: HTMLElement): void {
+		this.bulkBarEl = container.createDiv("chess-journal-db-bulk-bar");
+		this.bulkCountEl = this.bulkBarEl.createSpan("chess-journal-db-bulk-count");
+
+		this.bulkActionsEl = this.bulkBarEl.createDiv("chess-journal-db-bulk-actions");
+		const action = (icon: string, label: string, onClick: () => void) => {
+			const btn = this.bulkActionsEl.createEl("button", {
+				cls: "clickable-icon",
+				attr: { "aria-label": label },
+			});
+			setIcon(btn, icon);
+			btn.addEventListener("click", onClick);
+		};
+		action("check-check", "Select all results", () => this.selectAll());
+		action("file-plus", "Create game notes", () => this.createSelectedNotes());
+		action("download", "Export to PGN file", () => this.exportSelected());
+		action("git-branch-plus", "Add opening lines to repertoire", () => this.addSelectedToRepertoire());
+		action("copy", "Copy PGN", () => this.copySelectedPgn());
+		action("x", "Clear selection", () => {
+			this.clearSelection();
+			this.renderWindow();
+		});
+
+		this.bulkProgressEl = this.bulkBarEl.createDiv("chess-journal-db-bulk-progress");
+		this.bulkProgressLabelEl = this.bulkProgressEl.createSpan();
+		const cancelBtn = this.bulkProgressEl.createEl("button", { text: "Cancel" });
+		cancelBtn.addEventListener("click", () => this.bulkTask?.abort());
+		this.updateBulkBar();
+	}
+
+	private updateBulkBar(): void {
+		if (!this.bulkBarEl) return;
+		const count = this.selection.count();
+		const running = this.bulkTask !== null;
+		this.bulkBarEl.style.display = count > 0 || running ? "" : "none";
+		this.bulkCountEl.setText(running ? "" : `${count.toLocaleString()} selected`);
+		this.bulkActionsEl.style.display = running ? "none" : "";
+		this.bulkProgressEl.style.display = running ? "" : "none";
+	}
+
+	/** Pass the PGN of each selected game, in list order, to `visit` (see forEachListed). */
+	private forEachSelected(label: string, visit: (pgn: string, entry: GameEntry) => Promise<void> | void): Promise<boolean> {
+		return this.forEachListed(this.selection.getRanges(), label, visit);
+	}
+
+	/**
+	 * Pass the PGN of each game in `ranges` of list positions, in order, to
+	 * `visit`, showing progress in the bulk bar. Resolves to false if the
+	 * action was cancelled or failed (failures are reported), true once every
+	 * game was visited.
+	 */
+	private async forEachListed(
+		ranges: readonly (readonly [number, number])[], label: string,
+		visit: (pgn: string, entry: GameEntry) => Promise<void> | void,
+	): Promise<boolean> {
+		const provider = this.provider;
+		if (!provider || ranges.length === 0 || this.bulkTask) return false;
+		const controller = new AbortController();
+		this.bulkTask = controller;
+		this.updateBulkBar();
+
+		// Copied, as the selection may change while the action runs
+		ranges = ranges.map(([start, end]) => [start, end] as const);
+		const total = ranges.reduce((sum, [start, end]) => sum + end - start, 0);
+		let done = 0;
+		const showProgress = () => {
+			this.bulkProgressLabelEl.setText(`${label} ${done.toLocaleString()} of ${total.toLocaleString()}`);
+		};
+		showProgress();
+		try {
+			for (const [start, end] of ranges) {
+				for (let offset = start; offset < end; offset += BULK_CHUNK_SIZE) {
+					const limit = Math.min(BULK_CHUNK_SIZE, end - offset);
+					const { games } = await this.fetchGames(offset, limit, { signal: controller.signal });
+					for (const entry of games) {
+						// Cancelled, or the list changed under the action
+						if (controller.signal.aborted || provider !== this.provider) throw new CancelledError();
+						await visit(await provider.getGamePgn(entry.index), entry);
+						done++;
+						showProgress();
+					}
+					if (games.length < limit) break;
+				}
+			}
+			return true;
+		} catch (e) {
+			if (!(e instanceof CancelledError)) {
+				new Notice(`${label} failed: ${e.message}`);
+			}
+			return false;
+		} finally {
+			this.bulkTask = null;
+			this.updateBulkBar();
+		}
+	}
+
+	/** Create a note for each selected game that is not saved as one yet. */
+	private async createSelectedNotes(): Promise<void> {
+		await this.noteIndex.ready();
+		let created = 0;
+		let skipped = 0;
+		const completed = await this.forEachSelected("Creating notes", async pgn => {
+			if ((await this.noteIndex.findNotesForPgn(pgn)).length) {
+				skipped++;
+				return;
+			}
+			await createGameNote(this.app, this.settings.notesFolder, pgn);
+			created++;
+		});
+		const parts = [`Created ${created} ${created === 1 ? "note" : "notes"}`];
+		if (skipped) parts.push(`skipped ${skipped} already saved`);
+		new Notice(parts.join(", ") + (completed ? "" : " before stopping"));
+	}
 
-		row.addEventListener("click", () => this.openGame(entry));
+	private exportSelected(): void {
+		this.exportGames(this.selection.getRanges(), "Export selected games", "Selected games");
 	}
 
+	/** Export every game matching the current search and filters. */
+	private exportResults(): void {
+		if (!this.provider || this.listStatus !== "loaded" || this.totalCount === 0) {
+			new Notice("No games to export");
+			return;
+		}
+		const count = this.totalCount;
+		this.exportGames([[0, count]], `Export ${count.toLocaleString()} ${count === 1 ? "game" : "games"}`, "Search results");
+	}
+
+	/** Ask where to save the games in `ranges`, then stream them into that file. */
+	private exportGames(ranges: readonly (readonly [number, number])[], title: string, defaultName: string): void {
+		const folder = this.settings.notesFolder ? `${this.settings.notesFolder}/` : "";
+		new ExportPgnModal(this.app, title, `${folder}${defaultName}.pgn`, target => this.writeGames(ranges, target)).open();
+	}
+
+	private async writeGames(ranges: readonly (readonly [number, number])[], target: PgnExportTarget): Promise<void> {
+		let opened;
+		try {
+			opened = await openPgnWriter(this.app, target);
+		} catch (e) {
+			new Notice(`Export failed: ${e.message}`);
+			return;
+		}
+		const { writer, path } = opened;
+		let written = 0;
+		const completed = await this.forEachListed(ranges, "Exporting", async pgn => {
+			await writer.write(pgn);
+			written++;
+		});
+		try {
+			if (!completed) {
+				await writer.discard();
+				return;
+			}
+			await writer.finish();
+			new Notice(`Exported ${written.toLocaleString()} ${written === 1 ? "game" : "games"} to ${path}`);
+		} catch (e) {
+			new Notice(`Export failed: ${e.message}`);
+		}
+	}
+
+	/** Merge the opening of each selected game into a repertoire. */
+	private addSelectedToRepertoire(): void {
+		new AddToRepertoireModal(this.app, async (file, plies) => {
+			const lines: (LineMove[] | null)[] = [];
+			if (!await this.forEachSelected("Reading", pgn => { lines.push(gameOpeningLine(pgn, plies)); })) return;
+
+			let added = 0;
+			let skipped = 0;
+			try {
+				await this.app.vault.process(file, data => {
+					const repertoire = JSON.parse(data) as RepertoireData;
+					for (const line of lines) {
+						if (line) {
+							added += addLineToRepertoire(repertoire.root, line);
+						} else {
+							skipped++;
+						}
+					}
+					return JSON.stringify(repertoire, null, 2);
+				});
+			} catch (e) {
+				new Notice(`Failed to update ${file.basename}: ${e.message}`);
+				return;
+			}
+			const parts = [`Added ${added} ${added === 1 ? "move" : "moves"} to ${file.basename}`];
+			if (skipped) parts.push(`skipped ${skipped} unreadable or non-standard ${skipped === 1 ? "game" : "games"}`);
+			new Notice(parts.join(", "));
+		}).open();
+	}
+
+	private async copySelectedPgn(): Promise<void> {
+		const pgns: string[] = [];
+		if (!await this.forEachSelected("Copying", pgn => { pgns.push(pgn.trim()); })) return;
+		await navigator.clipboard.writeText(pgns.join("\n\n") + "\n");
+		new Notice(`Copied ${pgns.length} ${pgns.length === 1 ? "game" : "games"}`);
+	}
+
+	/** Scroll just far enough to bring the row at `position` into view. */
+	private scrollToPosition(position: number): void {
+		const rowHeight = this.rowHeight();
+		const scale = this.scrollScale();
+		const top = this.listEl.scrollTop * scale;
+		const rowTop = position * rowHeight;
+		const viewHeight = this.listEl.clientHeight;
+
+		let target = top;
+		if (rowTop < top) {
+			target = rowTop;
+		} else if (rowTop + rowHeight > top + viewHeight) {
+			target = rowTop + rowHeight - viewHeight;
+		}
+		if (target !== top) this.listEl.scrollTop = target / scale;
+		this.renderWindow();
+	}
+
+	/** Open a game in a game view; a game that cannot be read is reported, not thrown. */
 	private async openGame(entry: GameEntry): Promise<void> {
 		if (!this.provider) return;
 
-		const pgn = this.provider.getGamePgn(entry.index);
+		let pgn: string;
+		try {
+			pgn = await this.provider.getGamePgn(entry.index);
+		} catch (e) {
+			new Notice(`Could not open game: ${e.message}`);
+			return;
+		}
 		if (!pgn) return;
 
-		// Update selection highlight
-		const prevRow = this.rowElements.get(this.selectedIndex);
-		if (prevRow) prevRow.removeClass("is-selected");
-		this.selectedIndex = entry.index;
-		const newRow = this.rowElements.get(entry.index);
-		if (newRow) newRow.addClass("is-selected");
-
 		const white = entry.headers["White"] || "?";
 		const black = entry.headers["Black"] || "?";
 		const title = `${white} vs ${black}`;
@@ -352,17 +1482,36 @@ export class DatabaseView extends ItemView {
 		});
 		const view = leaf.view;
 		if (view && view.getViewType() === VIEW_TYPE_GAME) {
-			await view.setState({ pgn, title }, { history: false });
+			await view.setState({ pgn, title, sourceKey: this.currentKey }, { history: false });
 		}
 	}
 
 	private updateStatus(): void {
-		if (!this.provider) {
+		if (!this.provider || this.listStatus !== "loaded") {
 			this.statusEl.setText("");
 			return;
 		}
-		const shown = this.displayedGames.length;
 		const total = this.totalCount;
-		this.statusEl.setText(`Showing ${shown} of ${total} games`);
+		this.statusEl.setText(`${total.toLocaleString()} ${total === 1 ? "game" : "games"}`);
+
+		const staleSince = this.provider instanceof ChessComProvider ? this.provider.getStaleSince() : null;
+		if (staleSince !== null) {
+			const stale = this.statusEl.createSpan({
+				cls: "chess-journal-db-status-warning",
+				text: " · Offline, showing cached games",
+			});
+			stale.setAttribute("title", staleSince > 0
+				? `Chess.com could not be reached. Cached games last fetched ${new Date(staleSince).toLocaleString()}.`
+				: "Chess.com could not be reached.");
+		}
+
+		const unavailable = this.provider instanceof MultiSourceProvider ? this.provider.getUnavailableSources() : [];
+		if (unavailable.length) {
+			const skipped = this.statusEl.createSpan({
+				cls: "chess-journal-db-status-warning",
+				text: ` · Not searched: ${unavailable.map(u => u.name).join(", ")}`,
+			});
+			skipped.setAttribute("title", unavailable.map(u => `${u.name}: ${u.error}`).join("\n"));
+		}
 	}
 }
@@ -0,0 +1,31 @@
+import { App, Modal, TFile } from "obsidian";
+
+/** Lists groups of game notes that hold the same game, each note linking to itself. */
+export class DuplicateGameNotesModal extends Modal {
+	constructor(app: App, private groups: TFile[][]) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const count = this.groups.length;
+		this.titleEl.setText(`${count} ${count === 1 ? "game is" : "games are"} saved more than once`);
+
+		for (const group of this.groups) {
+			const groupEl = this.contentEl.createDiv("chess-journal-duplicate-group");
+			groupEl.createDiv({ cls: "chess-journal-duplicate-title", text: group[0].basename });
+			const list = groupEl.createEl("ul");
+			for (const file of group) {
+				const link = list.createEl("li").createEl("a", { text: file.path, href: "#" });
+				link.addEventListener("click", async (e) => {
+					e.preventDefault();
+					this.close();
+					await this.app.workspace.getLeaf("tab").openFile(file);
+				});
+			}
+		}
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,156 @@
+import { OpeningExplorerProvider, OpeningExplorerResult, OpeningExplorerMove } from "./OpeningExplorerProvider";
+
+/**
+ * Move statistics from an opening explorer provider for the position shown
+ * in a view. Fetches are debounced, retried when rate limited, and dropped
+ * when the position changes before they complete; `onChange` asks the owning
+ * view to re-render.
+ */
+export class ExplorerStatsSection {
+	private result: OpeningExplorerResult | null = null;
+	private loading = false;
+	private error: string | null = null;
+	private fetchId = 0;
+	private fetchTimeout: number | null = null;
+	private forKey: string | null = null;
+
+	constructor(
+		readonly provider: OpeningExplorerProvider,
+		private readonly label: string,
+		private readonly onChange: () => void,
+	) {}
+
+	/**
+	 * Render the statistics for `fen`. `key` identifies the position in the
+	 * view; a new key starts a new fetch.
+	 */
+	render(container: HTMLElement, fen: string, key: string, onMove: (san: string) => void): void {
+		if (key !== this.forKey) {
+			this.cancel();
+			this.forKey = key;
+		}
+		if (!this.result && !this.loading && !this.error) {
+			this.scheduleFetch(fen);
+		}
+
+		const section = container.createDiv({ cls: "chess-journal-rep-masters" });
+
+		const header = section.createDiv({ cls: "chess-journal-rep-masters-header" });
+		header.createSpan({ cls: "chess-journal-rep-section-label", text: this.label });
+
+		if (this.loading) {
+			section.createDiv({ cls: "chess-journal-rep-masters-status", text: "Loading…" });
+			return;
+		}
+
+		if (this.error) {
+			section.createDiv({ cls: "chess-journal-rep-masters-status chess-journal-rep-masters-error", text: this.error });
+			return;
+		}
+
+		if (!this.result || this.result.moves.length === 0) {
+			section.createDiv({ cls: "chess-journal-rep-masters-status", text: "No games found." });
+			return;
+		}
+
+		const total = this.result.white + this.result.draws + this.result.black;
+		header.createSpan({ cls: "chess-journal-rep-masters-total", text: `${total.toLocaleString()} games` });
+
+		const table = section.createEl("table", { cls: "chess-journal-rep-masters-table" });
+		const tbody = table.createEl("tbody");
+
+		for (const move of this.result.moves) {
+			renderMoveRow(tbody, move, onMove);
+		}
+	}
+
+	/** Drop the current result and any fetch in flight. */
+	cancel(): void {
+		this.fetchId++;
+		if (this.fetchTimeout !== null) {
+			window.clearTimeout(this.fetchTimeout);
+			this.fetchTimeout = null;
+		}
+		this.result = null;
+		this.loading = false;
+		this.error = null;
+	}
+
+	private scheduleFetch(fen: string): void {
+		if (this.fetchTimeout !== null) window.clearTimeout(this.fetchTimeout);
+		this.fetchTimeout = window.setTimeout(() => {
+			this.fetchTimeout = null;
+			void this.fetch(fen);
+		}, 300);
+	}
+
+	private async fetch(fen: string): Promise<void> {
+		const fetchId = ++this.fetchId;
+		this.loading = true;
+		this.error = null;
+		this.onChange();
+
+		for (let attempt = 0; ; attempt++) {
+			if (fetchId !== this.fetchId) return;
+
+			try {
+				const result = await this.provider.getMoves(fen);
+				if (fetchId !== this.fetchId) return;
+				this.result = result;
+				break;
+			} catch (e: any) {
+				if (fetchId !== this.fetchId) return;
+				if (e?.status === 429) {
+					const delay = Math.min(1000 * Math.pow(2, attempt), 30000);
+					await new Promise<void>(resolve => window.setTimeout(resolve, delay));
+					continue;
+				}
+				this.error = e instanceof Error ? e.message : String(e);
+				break;
+			}
+		}
+
+		if (fetchId !== this.fetchId) return;
+		this.loading = false;
+		this.onChange();
+	}
+}
+
+function renderMoveRow(tbody: HTMLElement, move: OpeningExplorerMove, onMove: (san: string) => void): void {
+	const row = tbody.createEl("tr", { cls: "chess-journal-rep-masters-row" });
+	row.addEventListener("click", () => onMove(move.san));
+
+	row.createEl("td", { cls: "chess-journal-rep-masters-san", text: move.san });
+
+	const moveTotal = move.white + move.draws + move.black;
+	row.createEl("td", { cls: "chess-journal-rep-masters-games", text: moveTotal.toLocaleString() });
+
+	const barTd = row.createEl("td");
+	const bar = barTd.createDiv({ cls: "chess-journal-wdl-bar" });
+	if (moveTotal > 0) {
+		const wPct = (move.white / moveTotal) * 100;
+		const dPct = (move.draws / moveTotal) * 100;
+		const bPct = (move.black / moveTotal) * 100;
+		if (wPct > 0) {
+			const seg = bar.createDiv({ cls: "chess-journal-wdl-bar-white" });
+			seg.style.width = `${wPct.toFixed(1)}%`;
+			seg.title = `White: ${wPct.toFixed(1)}%`;
+		}
+		if (dPct > 0) {
+			const seg = bar.createDiv({ cls: "chess-journal-wdl-bar-draw" });
+			seg.style.width = `${dPct.toFixed(1)}%`;
+			seg.title = `Draw: ${dPct.toFixed(1)}%`;
+		}
+		if (bPct > 0) {
+			const seg = bar.createDiv({ cls: "chess-journal-wdl-bar-black" });
+			seg.style.width = `${bPct.toFixed(1)}%`;
+			seg.title = `Black: ${bPct.toFixed(1)}%`;
+		}
+	}
+
+	if (move.averageRating) {
+		row.createEl("td", { cls: "chess-journal-rep-masters-rating", text: String(move.averageRating) });
+	} else {
+		row.createEl("td");
+	}
+}
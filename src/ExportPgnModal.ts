@@ -0,0 +1,180 @@
+import { App, Modal, Notice, Platform, Setting, TFile, TextComponent, normalizePath } from "obsidian";
+import { FilePgnWriter, PgnWriter, pgnFileEntry } from "./PgnWriter";
+
+/** Where to export games: a file in the vault, or anywhere on disk (desktop only). */
+export type PgnExportTarget =
+	| { kind: "vault"; path: string }
+	| { kind: "disk"; path: string };
+
+/** Text appended to a vault file at a time, to keep exports of many games from writing the file for each one. */
+const VAULT_FLUSH_SIZE = 1 << 18;
+
+/**
+ * Writes games to a new vault file in batches. The file is created up front,
+ * numbered like new notes if the name is taken, and deleted if discarded.
+ */
+class VaultPgnWriter implements PgnWriter {
+	private buffer: string[] = [];
+	private bufferSize = 0;
+
+	private constructor(private app: App, private file: TFile) {}
+
+	static async create(app: App, path: string): Promise<VaultPgnWriter> {
+		const slash = path.lastIndexOf("/");
+		const folder = slash > 0 ? path.slice(0, slash) : "";
+		if (folder && !app.vault.getAbstractFileByPath(folder)) {
+			await app.vault.createFolder(folder);
+		}
+		const base = path.slice(0, -".pgn".length);
+		let filePath = path;
+		for (let counter = 2; app.vault.getAbstractFileByPath(filePath); counter++) {
+			filePath = `${base} ${counter}.pgn`;
+		}
+		return new VaultPgnWriter(app, await app.vault.create(filePath, ""));
+	}
+
+	getPath(): string {
+		return this.file.path;
+	}
+
+	async write(pgn: string): Promise<void> {
+		const entry = pgnFileEntry(pgn);
+		this.buffer.push(entry);
+		this.bufferSize += entry.length;
+		if (this.bufferSize >= VAULT_FLUSH_SIZE) await this.flush();
+	}
+
+	async finish(): Promise<void> {
+		await this.flush();
+	}
+
+	async discard(): Promise<void> {
+		this.buffer = [];
+		await this.app.vault.delete(this.file);
+	}
+
+	private async flush(): Promise<void> {
+		if (this.buffer.length === 0) return;
+		const text = this.buffer.join("");
+		this.buffer = [];
+		this.bufferSize = 0;
+		await this.app.vault.append(this.file, text);
+	}
+}
+
+/** Open a writer for `target`, with the path the games end up at. */
+export async function openPgnWriter(app: App, target: PgnExportTarget): Promise<{ writer: PgnWriter; path: string }> {
+	if (target.kind === "disk") {
+		return { writer: new FilePgnWriter(target.path), path: target.path };
+	}
+	const writer = await VaultPgnWriter.create(app, target.path);
+	return { writer, path: writer.getPath() };
+}
+
+function withPgnExtension(path: string): string {
+	return path.toLowerCase().endsWith(".pgn") ? path : `${path}.pgn`;
+}
+
+/** Asks where to save exported games: a vault path, or a file on disk picked with the system dialog. */
+export class ExportPgnModal extends Modal {
+	private kind: PgnExportTarget["kind"] = "vault";
+	private vaultPath: string;
+	private diskPath = "";
+
+	constructor(
+		app: App,
+		private title: string,
+		defaultPath: string,
+		private onSubmit: (target: PgnExportTarget) => void,
+	) {
+		super(app);
+		this.vaultPath = defaultPath;
+	}
+
+	onOpen(): void {
+		this.titleEl.setText(this.title);
+
+		if (Platform.isDesktopApp) {
+			new Setting(this.contentEl)
+				.setName("Save to")
+				.addDropdown(drop => drop
+					.addOption("vault", "Vault")
+					.addOption("disk", "File on disk")
+					.setValue(this.kind)
+					.onChange(value => {
+						this.kind = value as PgnExportTarget["kind"];
+						showKind();
+					}));
+		}
+
+		const vaultSetting = new Setting(this.contentEl)
+			.setName("File")
+			.setDesc("Path in the vault")
+			.addText(text => {
+				text
+					.setPlaceholder("Games/Export.pgn")
+					.setValue(this.vaultPath)
+					.onChange(value => { this.vaultPath = value; });
+				text.inputEl.addEventListener("keydown", e => {
+					if (e.key === "Enter") this.submit();
+				});
+			});
+
+		let diskText: TextComponent;
+		const diskSetting = new Setting(this.contentEl)
+			.setName("File")
+			.setDesc("Replaced if it exists")
+			.addText(text => {
+				diskText = text;
+				text
+					.setPlaceholder("/path/to/export.pgn")
+					.setValue(this.diskPath)
+					.onChange(value => { this.diskPath = value; });
+				text.inputEl.addEventListener("keydown", e => {
+					if (e.key === "Enter") this.submit();
+				});
+			})
+			.addButton(btn => btn
+				.setButtonText("Browse...")
+				.onClick(async () => {
+					// @ts-ignore - Electron remote is available in Obsidian desktop
+					const { remote } = require("electron");
+					const result = await remote.dialog.showSaveDialog({
+						title: this.title,
+						defaultPath: this.diskPath || this.vaultPath.split("/").pop(),
+						filters: [{ name: "PGN files", extensions: ["pgn"] }],
+					});
+					if (result.canceled || !result.filePath) return;
+					this.diskPath = result.filePath;
+					diskText.setValue(this.diskPath);
+				}));
+
+		const showKind = () => {
+			vaultSetting.settingEl.style.display = this.kind === "vault" ? "" : "none";
+			diskSetting.settingEl.style.display = this.kind === "disk" ? "" : "none";
+		};
+		showKind();
+
+		new Setting(this.contentEl)
+			.addButton(btn => btn
+				.setButtonText("Export")
+				.setCta()
+				.onClick(() => this.submit()));
+	}
+
+	private submit(): void {
+		const path = (this.kind === "vault" ? this.vaultPath : this.diskPath).trim();
+		if (!path) {
+			new Notice("Please enter a file name.");
+			return;
+		}
+		this.close();
+		this.onSubmit(this.kind === "vault"
+			? { kind: "vault", path: normalizePath(withPgnExtension(path)) }
+			: { kind: "disk", path: withPgnExtension(path) });
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
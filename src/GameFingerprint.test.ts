@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+	fingerprintHeaderKey, gameFingerprint, gameHeaderKey, normalizeDate, normalizePlayer, pgnFromNote,
+} from "./GameFingerprint";
+
+const CHESS_COM_PGN = `[Event "Live Chess"]
+[Site "Chess.com"]
+[Date "2024.03.05"]
+[White "Nepomniachtchi, Ian"]
+[Black "Ding Liren"]
+[Result "1-0"]
+[TimeControl "180"]
+
+1. e4 {[%clk 0:02:59]} 1... e5 {[%clk 0:02:58]} 2. Nf3 Nc6 3. Bb5 a6 1-0`;
+
+const EXPORTED_PGN = `[Event "Casual game"]
+[Date "2024-03-05"]
+[White "Ian Nepomniachtchi"]
+[Black "DING, Liren"]
+[Result "1-0"]
+
+1.e4 e5 2.Ngf3 Nc6 (2...d6 3.d4) 3.Bb5 a6 1-0`;
+
+describe("normalizePlayer", () => {
+	it("ignores case, accents, punctuation and name order", () => {
+		expect(normalizePlayer("Nepomniachtchi, Ian")).toBe(normalizePlayer("ian nepomniachtchi"));
+		expect(normalizePlayer("Réti, Richard")).toBe("reti richard");
+		expect(normalizePlayer("  ")).toBe("");
+	});
+});
+
+describe("normalizeDate", () => {
+	it("accepts any separator and treats unknown dates as empty", () => {
+		expect(normalizeDate("2024-03-05")).toBe("2024.03.05");
+		expect(normalizeDate("2024/03/05")).toBe("2024.03.05");
+		expect(normalizeDate("????.??.??")).toBe("");
+	});
+});
+
+describe("gameFingerprint", () => {
+	it("matches the same game saved by different writers", () => {
+		const fingerprint = gameFingerprint(CHESS_COM_PGN);
+		expect(fingerprint).not.toBeNull();
+		expect(gameFingerprint(EXPORTED_PGN)).toBe(fingerprint);
+	});
+
+	it("tells apart games with different moves or results", () => {
+		const fingerprint = gameFingerprint(CHESS_COM_PGN);
+		expect(gameFingerprint(CHESS_COM_PGN.replace("3. Bb5 a6", "3. Bc4 Bc5"))).not.toBe(fingerprint);
+		expect(gameFingerprint(CHESS_COM_PGN.replace(/1-0/g, "1/2-1/2"))).not.toBe(fingerprint);
+	});
+
+	it("starts with the header key", () => {
+		const headers = { White: "Ian Nepomniachtchi", Black: "Ding Liren", Date: "2024.03.05", Result: "1-0" };
+		expect(fingerprintHeaderKey(gameFingerprint(CHESS_COM_PGN)!)).toBe(gameHeaderKey(headers));
+	});
+
+	it("is null for a game that cannot be parsed", () => {
+		expect(gameFingerprint("1. e4 e5 2. Ke3 Ke6 3. Qh5")).toBeNull();
+	});
+});
+
+describe("pgnFromNote", () => {
+	it("takes the first pgn block of a note", () => {
+		const note = `---\ntags:\n  - game\n---\n\n# A vs B\n\n\`\`\`pgn\n${EXPORTED_PGN}\n\`\`\`\n\n\`\`\`pgn\n1. d4\n\`\`\`\n`;
+		expect(pgnFromNote(note)).toBe(EXPORTED_PGN);
+		expect(pgnFromNote("# Notes\n\n```fen\n8/8/8/8/8/8/8/8 w - - 0 1\n```\n")).toBeNull();
+	});
+});
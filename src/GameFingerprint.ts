@@ -0,0 +1,87 @@
+import { parsePgnTree } from "./PgnTree";
+
+/**
+ * Fingerprints that identify a game however it was saved: a Chess.com
+ * download, a PGN export and a SCID base give the same game the same
+ * fingerprint. It covers the players, date and result after normalizing
+ * (case, accents, punctuation and name order are ignored) and the main line.
+ */
+
+/**
+ * Lowercased name words without accents or punctuation, in alphabetical
+ * order, so "Nepomniachtchi, Ian" matches "Ian Nepomniachtchi".
+ */
+export function normalizePlayer(name: string): string {
+	return name.normalize("NFD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase()
+		.replace(/[^a-z0-9\u00c0-\uffff]+/g, " ")
+		.split(" ")
+		.filter(Boolean)
+		.sort()
+		.join(" ");
+}
+
+/** A PGN date with "." separators, or "" when unknown. */
+export function normalizeDate(date: string): string {
+	const normalized = date.trim().replace(/[-/]/g, ".");
+	return /^[?.]*$/.test(normalized) ? "" : normalized;
+}
+
+/**
+ * The header part of a fingerprint. Games with different header keys are
+ * never duplicates, so it narrows down which games need their moves compared.
+ */
+export function gameHeaderKey(headers: Record<string, string>): string {
+	return [
+		normalizePlayer(headers["White"] ?? ""),
+		normalizePlayer(headers["Black"] ?? ""),
+		normalizeDate(headers["Date"] ?? ""),
+		(headers["Result"] ?? "*").trim(),
+	].join("|");
+}
+
+/** 53-bit string hash (cyrb53), as hex. */
+function hashString(text: string): string {
+	let h1 = 0xdeadbeef;
+	let h2 = 0x41c6ce57;
+	for (let i = 0; i < text.length; i++) {
+		const ch = text.charCodeAt(i);
+		h1 = Math.imul(h1 ^ ch, 2654435761);
+		h2 = Math.imul(h2 ^ ch, 1597334677);
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+	return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+/** The fingerprint of a PGN game, or null if it cannot be parsed. Starts with the game's header key. */
+export function gameFingerprint(pgn: string): string | null {
+	let tree;
+	try {
+		tree = parsePgnTree(pgn);
+	} catch {
+		return null;
+	}
+
+	// SAN as chess.js writes it, so "Nf3", "Ngf3" and "Nf3+" from different writers agree
+	const moves: string[] = [];
+	let node = tree.moves[0];
+	while (node) {
+		moves.push(node.san);
+		node = node.children[0];
+	}
+	const start = tree.startFen.split(" ").slice(0, 4).join(" ");
+	return `${gameHeaderKey(tree.headers)}#${hashString(`${start} ${moves.join(" ")}`)}`;
+}
+
+/** The header key a fingerprint starts with. */
+export function fingerprintHeaderKey(fingerprint: string): string {
+	return fingerprint.slice(0, fingerprint.lastIndexOf("#"));
+}
+
+/** The contents of the first ```pgn block in a note. */
+export function pgnFromNote(content: string): string | null {
+	const match = content.match(/^(`{3,}|~{3,})pgn[^\S\n]*\n([\s\S]*?)\n\1[^\S\n]*$/m);
+	return match ? match[2].trim() : null;
+}
@@ -0,0 +1,158 @@
+import { App, Events, TAbstractFile, TFile } from "obsidian";
+import { fingerprintHeaderKey, gameFingerprint, gameHeaderKey, pgnFromNote } from "./GameFingerprint";
+
+/** Whether a note is tagged as a game note, as createGameNote does. */
+function isGameNote(app: App, file: TFile): boolean {
+	const tags: unknown = app.metadataCache.getFileCache(file)?.frontmatter?.tags;
+	const list = Array.isArray(tags) ? tags : typeof tags === "string" ? tags.split(/[,\s]+/) : [];
+	return list.some(tag => String(tag).replace(/^#/, "") === "game");
+}
+
+/** What the index knows of one game note. */
+interface IndexedNote {
+	fingerprint: string | null;
+	/** The game's Link header (its page on the site it was played on), or "". */
+	link: string;
+}
+
+/**
+ * Fingerprints and Link headers of the game notes in the vault, for spotting
+ * games that are already saved. Built on first use and kept up to date as
+ * notes change; triggers "changed" whenever a note's game is added, changed
+ * or removed.
+ */
+export class GameNoteIndex extends Events {
+	private notes = new Map<string, IndexedNote>();
+	private byFingerprint = new Map<string, Set<string>>();
+	private byHeaderKey = new Map<string, Set<string>>();
+	private byLink = new Map<string, Set<string>>();
+	private building: Promise<void> | null = null;
+
+	constructor(private readonly app: App) {
+		super();
+	}
+
+	/** Start following note changes; returns the event refs for the plugin to register. */
+	watch(): ReturnType<Events["on"]>[] {
+		return [
+			this.app.metadataCache.on("changed", file => {
+				if (this.building) void this.update(file);
+			}),
+			this.app.vault.on("delete", file => this.remove(file.path)),
+			this.app.vault.on("rename", (file: TAbstractFile, oldPath: string) => {
+				this.remove(oldPath);
+				if (this.building && file instanceof TFile) void this.update(file);
+			}),
+		];
+	}
+
+	/** Index every game note, once. */
+	ready(): Promise<void> {
+		if (!this.building) {
+			this.building = (async () => {
+				for (const file of this.app.vault.getMarkdownFiles()) {
+					await this.update(file, false);
+				}
+				this.trigger("changed");
+			})();
+		}
+		return this.building;
+	}
+
+	/** Whether some game note has the same players, date and result; only then can a game be a duplicate. */
+	mayContain(headers: Record<string, string>): boolean {
+		return this.byHeaderKey.has(gameHeaderKey(headers));
+	}
+
+	/** Whether some game note holds the game with this Link header. */
+	hasLink(link: string): boolean {
+		return this.byLink.has(link);
+	}
+
+	/** Game notes holding the game with `fingerprint`. */
+	findNotes(fingerprint: string): TFile[] {
+		return this.filesAt(this.byFingerprint.get(fingerprint));
+	}
+
+	/** Game notes holding the same game as `pgn`. */
+	async findNotesForPgn(pgn: string): Promise<TFile[]> {
+		await this.ready();
+		const fingerprint = gameFingerprint(pgn);
+		return fingerprint ? this.findNotes(fingerprint) : [];
+	}
+
+	/** Groups of two or more notes holding the same game. */
+	async findDuplicateNotes(): Promise<TFile[][]> {
+		await this.ready();
+		const groups: TFile[][] = [];
+		for (const paths of this.byFingerprint.values()) {
+			const files = this.filesAt(paths);
+			if (files.length > 1) groups.push(files);
+		}
+		return groups;
+	}
+
+	private filesAt(paths: Set<string> | undefined): TFile[] {
+		const files: TFile[] = [];
+		for (const path of paths ?? []) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) files.push(file);
+		}
+		return files.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	private async update(file: TFile, notify = true): Promise<void> {
+		if (file.extension !== "md") return;
+		let note: IndexedNote | null = null;
+		if (isGameNote(this.app, file)) {
+			const pgn = pgnFromNote(await this.app.vault.cachedRead(file));
+			if (pgn) {
+				note = {
+					fingerprint: gameFingerprint(pgn),
+					link: pgn.match(/\[Link\s+"([^"]*)"\]/)?.[1] ?? "",
+				};
+			}
+		}
+		const old = this.notes.get(file.path);
+		if (old?.fingerprint === note?.fingerprint && old?.link === note?.link) return;
+
+		this.remove(file.path, false);
+		if (note) {
+			this.notes.set(file.path, note);
+			if (note.fingerprint) {
+				addTo(this.byFingerprint, note.fingerprint, file.path);
+				addTo(this.byHeaderKey, fingerprintHeaderKey(note.fingerprint), file.path);
+			}
+			if (note.link) addTo(this.byLink, note.link, file.path);
+		}
+		if (notify) this.trigger("changed");
+	}
+
+	private remove(path: string, notify = true): void {
+		const note = this.notes.get(path);
+		if (!note) return;
+		this.notes.delete(path);
+		if (note.fingerprint) {
+			removeFrom(this.byFingerprint, note.fingerprint, path);
+			removeFrom(this.byHeaderKey, fingerprintHeaderKey(note.fingerprint), path);
+		}
+		if (note.link) removeFrom(this.byLink, note.link, path);
+		if (notify) this.trigger("changed");
+	}
+}
+
+function addTo(map: Map<string, Set<string>>, key: string, path: string): void {
+	let paths = map.get(key);
+	if (!paths) {
+		paths = new Set();
+		map.set(key, paths);
+	}
+	paths.add(path);
+}
+
+function removeFrom(map: Map<string, Set<string>>, key: string, path: string): void {
+	const paths = map.get(key);
+	if (!paths) return;
+	paths.delete(path);
+	if (paths.size === 0) map.delete(key);
+}
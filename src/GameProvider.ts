@@ -1,7 +1,13 @@
-import { ExternalSource } from "./settings";
-import { PgnProvider } from "./PgnProvider";
-import { ScidProvider } from "./ScidProvider";
+import { ChessJournalSettings, ExternalSource, sourceDisplayName, sourceKey } from "./settings";
+import { ProviderTask } from "./ProviderTask";
+import { GameSort } from "./GameSort";
+import { createFileProvider } from "./spawnProviderWorker";
 import { ChessComProvider } from "./ChessComProvider";
+import { LichessProvider } from "./LichessProvider";
+import { MultiSourceProvider } from "./MultiSourceProvider";
+import { NameCount, NameType } from "./NameIndex";
+import { BoardPattern } from "./MaterialSearch";
+import { ScidFlagFilter } from "./scid/index";
 
 export interface GameHeaders {
 	[key: string]: string;
@@ -10,6 +16,8 @@ export interface GameHeaders {
 export interface GameEntry {
 	index: number;
 	headers: GameHeaders;
+	/** Name of the source the game is from, set when several sources are combined. */
+	source?: string;
 }
 
 export interface GameSearchResult {
@@ -17,24 +25,68 @@ export interface GameSearchResult {
 	total: number;
 }
 
+/**
+ * A source of games. Calls are asynchronous because file sources run in a
+ * worker; `open` and the searches take a task for progress and cancellation
+ * and reject with CancelledError when cancelled. Listings take an optional
+ * sort; without one games come in source order. Entries keep their source
+ * index whatever the order.
+ */
 export interface GameProvider {
-	open(): Promise<void>;
+	open(task?: ProviderTask): Promise<void>;
 	close(): void;
-	getGameCount(): number;
-	getGames(offset: number, limit: number): GameEntry[];
-	getGamePgn(index: number): string;
-	search(query: string, offset: number, limit: number): GameSearchResult;
+	getGameCount(): Promise<number>;
+	getGames(offset: number, limit: number, sort?: GameSort): Promise<GameEntry[]>;
+	getGamePgn(index: number): Promise<string>;
+	search(query: string, offset: number, limit: number, task?: ProviderTask, sort?: GameSort): Promise<GameSearchResult>;
+	/** Games matching `query` whose main line reaches the position in `fen` (a FEN or EPD). */
+	searchPosition(
+		fen: string, query: string, offset: number, limit: number, task?: ProviderTask, sort?: GameSort,
+	): Promise<GameSearchResult>;
+	/** Games matching `query` whose main line matches a material or pawn structure pattern. */
+	searchPattern(
+		pattern: BoardPattern, query: string, offset: number, limit: number, task?: ProviderTask, sort?: GameSort,
+	): Promise<GameSearchResult>;
+	/** Up to `limit` player, event or site names starting with `prefix`, those in the most games first. */
+	searchNames(type: NameType, prefix: string, limit: number): Promise<NameCount[]>;
+	/**
+	 * SCID bases only: narrow the count, listings and searches to games with
+	 * the given flags, or list every game again with null.
+	 */
+	setFlagFilter?(filter: ScidFlagFilter | null): Promise<void>;
+	/** SCID bases only: add a PGN game at the end and return its index. */
+	appendGame?(pgn: string): Promise<number>;
 }
 
-export function createProvider(source: ExternalSource): GameProvider {
+export function createProvider(source: ExternalSource, settings: ChessJournalSettings): GameProvider {
 	switch (source.type) {
 		case "pgn":
-			return new PgnProvider(source.path);
 		case "scid":
-			return new ScidProvider(source.path);
+			return createFileProvider(source);
 		case "chesscom":
-			return new ChessComProvider(source.usernames);
+			return new ChessComProvider(source.usernames, { cacheMaxAgeDays: settings.chessComCacheMaxAgeDays });
+		case "lichess":
+			return new LichessProvider(source.usernames, { apiKey: settings.lichessApiKey });
 		default:
 			throw new Error(`Unsupported source type: ${(source as any).type}`);
 	}
 }
+
+/** Source key standing for every configured source at once. */
+export const ALL_SOURCES_KEY = "*all";
+
+/** The provider for a source key, ALL_SOURCES_KEY included, or null if no such source is configured. */
+export function createProviderForKey(key: string, settings: ChessJournalSettings): GameProvider | null {
+	if (key === ALL_SOURCES_KEY) return createAllSourcesProvider(settings);
+	const source = settings.externalSources.find(s => sourceKey(s) === key);
+	return source ? createProvider(source, settings) : null;
+}
+
+/** Every configured source as one provider, each game named by its source. */
+export function createAllSourcesProvider(settings: ChessJournalSettings): MultiSourceProvider {
+	return new MultiSourceProvider(settings.externalSources.map(source => ({
+		name: sourceDisplayName(source),
+		provider: createProvider(source, settings),
+		flagged: source.type === "scid",
+	})));
+}
@@ -0,0 +1,216 @@
+import { describe, it, expect } from "vitest";
+import { parseGameQuery, matchesGameQuery, narrowGameQuery, GameQueryError } from "./GameQuery";
+import { GameHeaders } from "./GameProvider";
+
+const CARLSEN_WHITE: GameHeaders = {
+	Event: "Carlsen Invitational",
+	Site: "Oslo",
+	Date: "2020.06.15",
+	White: "Carlsen, Magnus",
+	Black: "Nakamura, Hikaru",
+	Result: "1-0",
+	WhiteElo: "2863",
+	BlackElo: "2736",
+	ECO: "B92",
+};
+
+const NAKAMURA_WHITE: GameHeaders = {
+	Event: "Titled Arena",
+	Site: "Chess.com",
+	Date: "2019.12.31",
+	White: "Nakamura, Hikaru",
+	Black: "Smith, John",
+	Result: "1/2-1/2",
+	WhiteElo: "2750",
+	BlackElo: "2450",
+	ECO: "C50",
+	TimeControl: "180",
+};
+
+const UNKNOWN_DATE: GameHeaders = {
+	Event: "Casual",
+	Date: "????.??.??",
+	White: "A",
+	Black: "B",
+	Result: "*",
+};
+
+function matches(query: string, headers: GameHeaders): boolean {
+	return matchesGameQuery(parseGameQuery(query), headers);
+}
+
+describe("parseGameQuery", () => {
+	describe("plain text", () => {
+		it("matches a substring of any header", () => {
+			expect(matches("carlsen", CARLSEN_WHITE)).toBe(true);
+			expect(matches("oslo", CARLSEN_WHITE)).toBe(true);
+			expect(matches("carlsen", NAKAMURA_WHITE)).toBe(false);
+		});
+
+		it("matches several words as one phrase", () => {
+			expect(matches("Carlsen Invitational", CARLSEN_WHITE)).toBe(true);
+			expect(matches("Invitational Carlsen", CARLSEN_WHITE)).toBe(false);
+		});
+
+		it("matches everything for an empty query", () => {
+			expect(matches("", UNKNOWN_DATE)).toBe(true);
+		});
+	});
+
+	describe("fields", () => {
+		it("restricts text matches to the named field", () => {
+			expect(matches("white:carlsen", CARLSEN_WHITE)).toBe(true);
+			expect(matches("black:carlsen", CARLSEN_WHITE)).toBe(false);
+			expect(matches("event:carlsen", CARLSEN_WHITE)).toBe(true);
+		});
+
+		it("supports quoted values and exact matches", () => {
+			expect(matches("white:\"carlsen, magnus\"", CARLSEN_WHITE)).toBe(true);
+			expect(matches("white:=\"Carlsen, Magnus\"", CARLSEN_WHITE)).toBe(true);
+			expect(matches("white:=Carlsen", CARLSEN_WHITE)).toBe(false);
+		});
+
+		it("matches player on either side", () => {
+			expect(matches("player:nakamura", CARLSEN_WHITE)).toBe(true);
+			expect(matches("player:nakamura", NAKAMURA_WHITE)).toBe(true);
+		});
+
+		it("narrows player terms with color", () => {
+			expect(matches("player:nakamura color:black", CARLSEN_WHITE)).toBe(true);
+			expect(matches("player:nakamura color:black", NAKAMURA_WHITE)).toBe(false);
+			expect(matches("player:nakamura color:white", NAKAMURA_WHITE)).toBe(true);
+		});
+
+		it("matches ECO prefixes and ranges", () => {
+			expect(matches("eco:B9", CARLSEN_WHITE)).toBe(true);
+			expect(matches("eco:B90-B99", CARLSEN_WHITE)).toBe(true);
+			expect(matches("eco:B90-B99", NAKAMURA_WHITE)).toBe(false);
+			expect(matches("eco:>=C00", NAKAMURA_WHITE)).toBe(true);
+		});
+
+		it("compares dates", () => {
+			expect(matches("date:>=2020.01.01", CARLSEN_WHITE)).toBe(true);
+			expect(matches("date:>=2020.01.01", NAKAMURA_WHITE)).toBe(false);
+			expect(matches("date:<=2019", NAKAMURA_WHITE)).toBe(true);
+			expect(matches("date:2020.06", CARLSEN_WHITE)).toBe(true);
+			expect(matches("date:2019.01.01-2019.12.31", NAKAMURA_WHITE)).toBe(true);
+			expect(matches("date:>=2020-01-01", CARLSEN_WHITE)).toBe(true);
+		});
+
+		it("does not match unknown dates in comparisons", () => {
+			expect(matches("date:<2030", UNKNOWN_DATE)).toBe(false);
+			expect(matches("year:>1900", UNKNOWN_DATE)).toBe(false);
+		});
+
+		it("compares years", () => {
+			expect(matches("year:2020", CARLSEN_WHITE)).toBe(true);
+			expect(matches("year:2018-2019", NAKAMURA_WHITE)).toBe(true);
+			expect(matches("year:<2020", CARLSEN_WHITE)).toBe(false);
+		});
+
+		it("compares ratings of either player", () => {
+			expect(matches("elo:>2800", CARLSEN_WHITE)).toBe(true);
+			expect(matches("elo:<2500", NAKAMURA_WHITE)).toBe(true);
+			expect(matches("elo:>2800", NAKAMURA_WHITE)).toBe(false);
+			expect(matches("blackelo:>2700", CARLSEN_WHITE)).toBe(true);
+			expect(matches("elo:2700-2800", NAKAMURA_WHITE)).toBe(true);
+		});
+
+		it("does not treat missing ratings as matches", () => {
+			expect(matches("elo:<3000", UNKNOWN_DATE)).toBe(false);
+		});
+
+		it("matches results and result aliases", () => {
+			expect(matches("result:1-0", CARLSEN_WHITE)).toBe(true);
+			expect(matches("result:0-1", CARLSEN_WHITE)).toBe(false);
+			expect(matches("result:draw", NAKAMURA_WHITE)).toBe(true);
+		});
+
+		it("matches other headers by name", () => {
+			expect(matches("timecontrol:180", NAKAMURA_WHITE)).toBe(true);
+			expect(matches("timecontrol:180", CARLSEN_WHITE)).toBe(false);
+		});
+
+		it("matches games with all the given SCID flags", () => {
+			const flagged = { ...CARLSEN_WHITE, Flags: "DE6" };
+			expect(matches("flags:D", flagged)).toBe(true);
+			expect(matches("flags:6e", flagged)).toBe(true);
+			expect(matches("flags:DW", flagged)).toBe(false);
+			expect(matches("NOT flags:D", CARLSEN_WHITE)).toBe(true);
+		});
+	});
+
+	describe("boolean operators", () => {
+		it("combines terms with implicit AND", () => {
+			expect(matches("white:carlsen result:1-0", CARLSEN_WHITE)).toBe(true);
+			expect(matches("white:carlsen result:0-1", CARLSEN_WHITE)).toBe(false);
+		});
+
+		it("supports explicit AND, OR and NOT", () => {
+			expect(matches("white:carlsen AND eco:B92", CARLSEN_WHITE)).toBe(true);
+			expect(matches("white:smith OR white:nakamura", NAKAMURA_WHITE)).toBe(true);
+			expect(matches("NOT result:1-0", CARLSEN_WHITE)).toBe(false);
+			expect(matches("NOT result:1-0", NAKAMURA_WHITE)).toBe(true);
+		});
+
+		it("binds AND tighter than OR", () => {
+			expect(matches("white:smith result:1-0 OR eco:C50", NAKAMURA_WHITE)).toBe(true);
+			expect(matches("white:smith (result:1-0 OR eco:C50)", NAKAMURA_WHITE)).toBe(false);
+		});
+
+		it("groups with parentheses", () => {
+			expect(matches("(white:carlsen OR white:nakamura) elo:>2800", CARLSEN_WHITE)).toBe(true);
+			expect(matches("(white:carlsen OR white:nakamura) elo:>2800", NAKAMURA_WHITE)).toBe(false);
+		});
+
+		it("treats lowercase keywords as text", () => {
+			expect(matches("white:carlsen or", CARLSEN_WHITE)).toBe(false);
+		});
+	});
+
+	describe("errors", () => {
+		const malformed = [
+			"white:",
+			"white:\"carlsen",
+			"(white:carlsen",
+			"white:carlsen)",
+			"()",
+			"white:carlsen OR",
+			"AND white:carlsen",
+			"NOT",
+			"elo:>abc",
+			"eco:Z10",
+			"date:June",
+			"result:win",
+			"color:white",
+			"color:red player:carlsen",
+			"white:>carlsen",
+			"flags:X",
+		];
+
+		for (const query of malformed) {
+			it(`rejects ${query}`, () => {
+				expect(() => parseGameQuery(query)).toThrow(GameQueryError);
+			});
+		}
+	});
+});
+
+describe("narrowGameQuery", () => {
+	const narrowed = (query: string, headers: GameHeaders) => matches(narrowGameQuery("site:oslo", query), headers);
+
+	it("keeps plain text one phrase", () => {
+		expect(narrowed("Carlsen Invitational", CARLSEN_WHITE)).toBe(true);
+		expect(narrowed("Invitational Carlsen", CARLSEN_WHITE)).toBe(false);
+	});
+
+	it("groups a structured query", () => {
+		expect(narrowed("white:nakamura OR black:nakamura", CARLSEN_WHITE)).toBe(true);
+		expect(narrowed("white:nakamura OR white:caruana", CARLSEN_WHITE)).toBe(false);
+	});
+
+	it("leaves out an empty side", () => {
+		expect(narrowGameQuery("site:oslo", " ")).toBe("site:oslo");
+		expect(narrowGameQuery("", "carlsen")).toBe("carlsen");
+	});
+});
@@ -0,0 +1,501 @@
+import { GameHeaders } from "./GameProvider";
+import { USER_FLAG_LETTERS } from "./scid/types";
+
+/**
+ * Field-aware search queries shared by every GameProvider.
+ *
+ * Syntax:
+ *   carlsen                      substring of any header the source lists
+ *                                (plain text without fields or keywords
+ *                                matches as one phrase)
+ *   white:carlsen                substring of a field; quote values with spaces
+ *   white:="Carlsen, Magnus"     exact (case-insensitive) match
+ *   player:nakamura color:black  player is either side; color narrows the
+ *                                player terms in the same group
+ *   eco:B90-B99  eco:B9          ECO range or prefix
+ *   date:>=2020.01.01  date:2020 date comparison or prefix
+ *   year:2018-2020  elo:>2600    numeric comparison or range
+ *   result:1-0  result:draw      result
+ *   flags:D  flags:WE            SCID flags, all of those given (see
+ *                                USER_FLAG_LETTERS)
+ *   a OR b, a AND b, NOT a, (a OR b) c
+ *
+ * Any other field name matches the PGN header of that name, e.g.
+ * timecontrol:600.
+ */
+
+export class GameQueryError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "GameQueryError";
+	}
+}
+
+type CompareOp = ">" | ">=" | "<" | "<=" | "=";
+
+type Matcher =
+	| { kind: "contains"; value: string }
+	| { kind: "equals"; value: string }
+	| { kind: "prefix"; value: string }
+	| { kind: "compare"; op: CompareOp; value: string }
+	| { kind: "range"; min: string; max: string }
+	| { kind: "numeric"; op: CompareOp; value: number }
+	| { kind: "numericRange"; min: number; max: number }
+	| { kind: "allOf"; value: string };
+
+export interface GameQueryTerm {
+	type: "term";
+	field: string | null;     // query field name, null = any header
+	headers: string[];        // header names to test; empty = all headers
+	matcher: Matcher;
+	yearOnly?: boolean;       // compare only the year part of the header
+}
+
+export type GameQuery =
+	| GameQueryTerm
+	| { type: "and"; children: GameQuery[] }
+	| { type: "or"; children: GameQuery[] }
+	| { type: "not"; child: GameQuery }
+	| { type: "all" };
+
+type FieldKind = "text" | "eco" | "date" | "year" | "number" | "result" | "color" | "flags";
+
+const FIELDS: Record<string, { headers: string[]; kind: FieldKind }> = {
+	white: { headers: ["White"], kind: "text" },
+	black: { headers: ["Black"], kind: "text" },
+	player: { headers: ["White", "Black"], kind: "text" },
+	event: { headers: ["Event"], kind: "text" },
+	site: { headers: ["Site"], kind: "text" },
+	round: { headers: ["Round"], kind: "text" },
+	eco: { headers: ["ECO"], kind: "eco" },
+	date: { headers: ["Date"], kind: "date" },
+	year: { headers: ["Date"], kind: "year" },
+	elo: { headers: ["WhiteElo", "BlackElo"], kind: "number" },
+	whiteelo: { headers: ["WhiteElo"], kind: "number" },
+	blackelo: { headers: ["BlackElo"], kind: "number" },
+	result: { headers: ["Result"], kind: "result" },
+	color: { headers: [], kind: "color" },
+	flags: { headers: ["Flags"], kind: "flags" },
+};
+
+const RESULT_ALIASES: Record<string, string> = {
+	"1-0": "1-0",
+	"0-1": "0-1",
+	"1/2-1/2": "1/2-1/2",
+	"½-½": "1/2-1/2",
+	"draw": "1/2-1/2",
+	"*": "*",
+};
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type Token =
+	| { type: "word"; field: string | null; value: string; quoted: boolean }
+	| { type: "and" | "or" | "not" | "open" | "close" };
+
+function tokenize(query: string): Token[] {
+	const tokens: Token[] = [];
+	let pos = 0;
+
+	const readValue = (): { value: string; quoted: boolean } => {
+		// Optional comparison operator before a quoted value
+		const opMatch = /^(>=|<=|>|<|=)"/.exec(query.substring(pos));
+		let prefix = "";
+		if (opMatch) {
+			prefix = opMatch[1];
+			pos += prefix.length;
+		}
+		if (query[pos] === "\"") {
+			const end = query.indexOf("\"", pos + 1);
+			if (end < 0) throw new GameQueryError("Unterminated quote");
+			const value = query.substring(pos + 1, end);
+			pos = end + 1;
+			return { value: prefix + value, quoted: true };
+		}
+		const match = /^[^\s()"]*/.exec(query.substring(pos));
+		const value = match ? match[0] : "";
+		pos += value.length;
+		return { value, quoted: false };
+	};
+
+	while (pos < query.length) {
+		const ch = query[pos];
+		if (/\s/.test(ch)) {
+			pos++;
+		} else if (ch === "(") {
+			tokens.push({ type: "open" });
+			pos++;
+		} else if (ch === ")") {
+			tokens.push({ type: "close" });
+			pos++;
+		} else if (ch === "\"") {
+			const { value } = readValue();
+			tokens.push({ type: "word", field: null, value, quoted: true });
+		} else {
+			const fieldMatch = /^([A-Za-z][\w]*):/.exec(query.substring(pos));
+			if (fieldMatch) {
+				pos += fieldMatch[0].length;
+				const { value, quoted } = readValue();
+				if (!value) throw new GameQueryError(`Missing value for ${fieldMatch[1]}:`);
+				tokens.push({ type: "word", field: fieldMatch[1].toLowerCase(), value, quoted });
+				continue;
+			}
+			const { value } = readValue();
+			if (value === "AND") tokens.push({ type: "and" });
+			else if (value === "OR") tokens.push({ type: "or" });
+			else if (value === "NOT") tokens.push({ type: "not" });
+			else tokens.push({ type: "word", field: null, value, quoted: false });
+		}
+	}
+
+	return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+function splitOperator(value: string): { op: CompareOp | null; rest: string } {
+	const match = /^(>=|<=|>|<|=)(.*)$/.exec(value);
+	if (!match) return { op: null, rest: value };
+	return { op: match[1] as CompareOp, rest: match[2] };
+}
+
+function parseNumber(field: string, value: string): number {
+	if (!/^\d+$/.test(value)) throw new GameQueryError(`${field}: expects a number, got "${value}"`);
+	return parseInt(value, 10);
+}
+
+/** Accept YYYY, YYYY.MM, YYYY.MM.DD and the ISO YYYY-MM(-DD) forms. */
+function parseDate(value: string): string {
+	const iso = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/.exec(value);
+	if (iso) value = iso[3] ? `${iso[1]}.${iso[2]}.${iso[3]}` : `${iso[1]}.${iso[2]}`;
+	if (!/^\d{4}(\.\d{2}(\.\d{2})?)?$/.test(value)) {
+		throw new GameQueryError(`date: expects YYYY.MM.DD, got "${value}"`);
+	}
+	return value;
+}
+
+function parseEco(value: string): string {
+	const upper = value.toUpperCase();
+	if (!/^[A-E](\d{1,2}[a-z]?)?$/i.test(upper)) {
+		throw new GameQueryError(`eco: expects a code like B90, got "${value}"`);
+	}
+	return upper;
+}
+
+function buildTerm(field: string | null, value: string): GameQueryTerm {
+	if (field === null) {
+		return { type: "term", field: null, headers: [], matcher: { kind: "contains", value: value.toLowerCase() } };
+	}
+
+	const def = FIELDS[field];
+	if (!def) {
+		// Any other field name matches the header with that name
+		const { op, rest } = splitOperator(value);
+		const matcher: Matcher = op === "="
+			? { kind: "equals", value: rest.toLowerCase() }
+			: { kind: "contains", value: value.toLowerCase() };
+		return { type: "term", field, headers: [field], matcher };
+	}
+
+	const term = (matcher: Matcher): GameQueryTerm => ({ type: "term", field, headers: def.headers, matcher });
+	const { op, rest } = splitOperator(value);
+
+	switch (def.kind) {
+		case "text":
+			if (op === "=") return term({ kind: "equals", value: rest.toLowerCase() });
+			if (op) throw new GameQueryError(`${field}: does not support ${op}`);
+			return term({ kind: "contains", value: rest.toLowerCase() });
+
+		case "eco": {
+			const range = /^([^-]+)-([^-]+)$/.exec(rest);
+			if (range && !op) return term({ kind: "range", min: parseEco(range[1]), max: parseEco(range[2]) });
+			const eco = parseEco(rest);
+			if (op === null) return term({ kind: "prefix", value: eco });
+			return term({ kind: "compare", op, value: eco });
+		}
+
+		case "date": {
+			const range = /^(\d{4}(?:\.\d{2}(?:\.\d{2})?)?)-(\d{4}(?:\.\d{2}(?:\.\d{2})?)?)$/.exec(rest);
+			if (range && !op) return term({ kind: "range", min: range[1], max: range[2] });
+			const date = parseDate(rest);
+			if (op === null) return term({ kind: "prefix", value: date });
+			return term({ kind: "compare", op, value: date });
+		}
+
+		case "year":
+		case "number": {
+			const range = /^(\d+)-(\d+)$/.exec(rest);
+			const t = range && !op
+				? term({ kind: "numericRange", min: parseInt(range[1], 10), max: parseInt(range[2], 10) })
+				: term({ kind: "numeric", op: op ?? "=", value: parseNumber(field, rest) });
+			if (def.kind === "year") t.yearOnly = true;
+			return t;
+		}
+
+		case "result": {
+			const result = RESULT_ALIASES[rest.toLowerCase()];
+			if (!result) throw new GameQueryError(`result: expects 1-0, 0-1, 1/2-1/2 or draw, got "${rest}"`);
+			return term({ kind: "equals", value: result });
+		}
+
+		case "color": {
+			const color = rest.toLowerCase();
+			if (color !== "white" && color !== "black") {
+				throw new GameQueryError(`color: expects white or black, got "${rest}"`);
+			}
+			return term({ kind: "equals", value: color });
+		}
+
+		case "flags": {
+			const letters = rest.toUpperCase();
+			if (op || [...letters].some(ch => !USER_FLAG_LETTERS.includes(ch))) {
+				throw new GameQueryError(`flags: expects letters from ${USER_FLAG_LETTERS}, got "${value}"`);
+			}
+			return term({ kind: "allOf", value: letters });
+		}
+	}
+}
+
+/**
+ * Apply color: terms to the player: terms in the same AND group, turning
+ * them into white: or black: terms.
+ */
+function applyColor(children: GameQuery[]): GameQuery[] {
+	const colorTerms = children.filter((c): c is GameQueryTerm => c.type === "term" && c.field === "color");
+	if (colorTerms.length === 0) return children;
+
+	const colors = new Set(colorTerms.map(t => (t.matcher as { value: string }).value));
+	if (colors.size > 1) throw new GameQueryError("color: can only be white or black, not both");
+	const players = children.filter((c): c is GameQueryTerm => c.type === "term" && c.field === "player");
+	if (players.length === 0) throw new GameQueryError("color: needs a player: term alongside it");
+
+	const header = colors.has("white") ? "White" : "Black";
+	for (const p of players) {
+		p.headers = [header];
+	}
+	return children.filter(c => !colorTerms.includes(c as GameQueryTerm));
+}
+
+class Parser {
+	private pos = 0;
+
+	constructor(private tokens: Token[]) {}
+
+	parse(): GameQuery {
+		if (this.tokens.length === 0) return { type: "all" };
+		const node = this.parseOr();
+		if (this.pos < this.tokens.length) {
+			throw new GameQueryError("Unexpected )");
+		}
+		return node;
+	}
+
+	private peek(): Token | undefined {
+		return this.tokens[this.pos];
+	}
+
+	private parseOr(): GameQuery {
+		const children = [this.parseAnd()];
+		while (this.peek()?.type === "or") {
+			this.pos++;
+			children.push(this.parseAnd());
+		}
+		return children.length === 1 ? children[0] : { type: "or", children };
+	}
+
+	private parseAnd(): GameQuery {
+		const children: GameQuery[] = [];
+		for (;;) {
+			const token = this.peek();
+			if (!token || token.type === "or" || token.type === "close") break;
+			if (token.type === "and") {
+				if (children.length === 0) throw new GameQueryError("AND needs a term before it");
+				this.pos++;
+				const next = this.peek();
+				if (!next || next.type === "or" || next.type === "close" || next.type === "and") {
+					throw new GameQueryError("AND needs a term after it");
+				}
+				continue;
+			}
+			children.push(this.parseUnary());
+		}
+		if (children.length === 0) {
+			const token = this.peek();
+			throw new GameQueryError(token?.type === "or" || !token ? "OR needs a term on both sides" : "Empty parentheses");
+		}
+		const applied = applyColor(children);
+		return applied.length === 1 ? applied[0] : { type: "and", children: applied };
+	}
+
+	private parseUnary(): GameQuery {
+		const token = this.tokens[this.pos++];
+		switch (token.type) {
+			case "not": {
+				const next = this.peek();
+				if (!next || next.type === "or" || next.type === "and" || next.type === "close") {
+					throw new GameQueryError("NOT needs a term after it");
+				}
+				return { type: "not", child: this.parseUnary() };
+			}
+			case "open": {
+				const inner = this.parseOr();
+				if (this.peek()?.type !== "close") throw new GameQueryError("Missing )");
+				this.pos++;
+				return inner;
+			}
+			case "word":
+				return buildTerm(token.field, token.value);
+			default:
+				throw new GameQueryError("Unexpected )");
+		}
+	}
+}
+
+/**
+ * Parse a search query. Throws GameQueryError if the query is malformed.
+ * Plain text without fields, keywords or parentheses is matched as a single
+ * phrase against every header, as the original substring search did.
+ */
+export function parseGameQuery(query: string): GameQuery {
+	const trimmed = query.trim();
+	const tokens = tokenize(trimmed);
+	if (isPlainText(tokens)) {
+		return buildTerm(null, trimmed);
+	}
+	return new Parser(tokens).parse();
+}
+
+/**
+ * A query for the games matching both `filter` and `query`. Plain text in
+ * `query` is quoted, so it still matches as one phrase.
+ */
+export function narrowGameQuery(filter: string, query: string): string {
+	const trimmed = query.trim();
+	if (!filter || !trimmed) return filter || trimmed;
+	let plain: boolean;
+	try {
+		plain = isPlainText(tokenize(trimmed));
+	} catch {
+		// Left for parseGameQuery to report
+		plain = false;
+	}
+	return plain ? `${filter} "${trimmed}"` : `${filter} (${trimmed})`;
+}
+
+function isPlainText(tokens: Token[]): boolean {
+	return tokens.length > 0 && tokens.every(t => t.type === "word" && t.field === null && !t.quoted);
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+function compare(a: string | number, b: string | number, op: CompareOp): boolean {
+	switch (op) {
+		case ">": return a > b;
+		case ">=": return a >= b;
+		case "<": return a < b;
+		case "<=": return a <= b;
+		case "=": return a === b;
+	}
+}
+
+function getHeader(headers: GameHeaders, name: string): string | undefined {
+	if (name in headers) return headers[name];
+	const lower = name.toLowerCase();
+	for (const key of Object.keys(headers)) {
+		if (key.toLowerCase() === lower) return headers[key];
+	}
+	return undefined;
+}
+
+function matchValue(term: GameQueryTerm, raw: string): boolean {
+	const m = term.matcher;
+	switch (m.kind) {
+		case "contains":
+			return raw.toLowerCase().includes(m.value);
+		case "equals":
+			return raw.toLowerCase() === m.value;
+		case "prefix":
+			return raw.toUpperCase().startsWith(m.value.toUpperCase());
+		case "compare": {
+			// Compare only as much of the header as the query specifies, so
+			// date:<=2020 includes all of 2020
+			const part = raw.substring(0, m.value.length).toUpperCase();
+			if (part.length < m.value.length || part.includes("?")) return false;
+			return compare(part, m.value.toUpperCase(), m.op);
+		}
+		case "range": {
+			const lo = raw.substring(0, m.min.length).toUpperCase();
+			const hi = raw.substring(0, m.max.length).toUpperCase();
+			if (lo.includes("?") || hi.includes("?") || lo.length < m.min.length) return false;
+			return lo >= m.min.toUpperCase() && hi <= m.max.toUpperCase();
+		}
+		case "numeric":
+		case "numericRange": {
+			const text = term.yearOnly ? raw.substring(0, 4) : raw;
+			if (!/^\d+$/.test(text)) return false;
+			const n = parseInt(text, 10);
+			if (!term.yearOnly && n === 0) return false; // unrated
+			return m.kind === "numeric" ? compare(n, m.value, m.op) : n >= m.min && n <= m.max;
+		}
+		case "allOf": {
+			const upper = raw.toUpperCase();
+			return [...m.value].every(ch => upper.includes(ch));
+		}
+	}
+}
+
+/** Test whether a game's headers satisfy a parsed query. */
+export function matchesGameQuery(query: GameQuery, headers: GameHeaders): boolean {
+	return evaluateGameQuery(query, term => matchesGameQueryTerm(term, headers));
+}
+
+/** Test whether a game's headers satisfy a single term. */
+export function matchesGameQueryTerm(term: GameQueryTerm, headers: GameHeaders): boolean {
+	if (term.headers.length === 0) {
+		return Object.values(headers).some(v => matchValue(term, v));
+	}
+	return term.headers.some(name => {
+		const value = getHeader(headers, name);
+		return value !== undefined && matchValue(term, value);
+	});
+}
+
+/**
+ * Evaluate a parsed query with `matchTerm` deciding each term, for sources
+ * that can test some terms without building the headers of every game.
+ */
+export function evaluateGameQuery(query: GameQuery, matchTerm: (term: GameQueryTerm) => boolean): boolean {
+	switch (query.type) {
+		case "all":
+			return true;
+		case "and":
+			return query.children.every(c => evaluateGameQuery(c, matchTerm));
+		case "or":
+			return query.children.some(c => evaluateGameQuery(c, matchTerm));
+		case "not":
+			return !evaluateGameQuery(query.child, matchTerm);
+		case "term":
+			return matchTerm(query);
+	}
+}
+
+/** Every term of a parsed query. */
+export function gameQueryTerms(query: GameQuery): GameQueryTerm[] {
+	switch (query.type) {
+		case "all":
+			return [];
+		case "and":
+		case "or":
+			return query.children.flatMap(gameQueryTerms);
+		case "not":
+			return gameQueryTerms(query.child);
+		case "term":
+			return [query];
+	}
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { GameEntry } from "./GameProvider";
+import { SortOrderCache, sortEntries, sortOrder, sortValue } from "./GameSort";
+
+function entries(...headers: Record<string, string>[]): GameEntry[] {
+	return headers.map((h, index) => ({ index, headers: h }));
+}
+
+describe("sortValue", () => {
+	it("compares text case-insensitively and ignores unknown values", () => {
+		expect(sortValue("White", { White: "Carlsen, Magnus" })).toBe("carlsen, magnus");
+		expect(sortValue("White", { White: "?" })).toBeNull();
+		expect(sortValue("Event", {})).toBeNull();
+	});
+
+	it("averages the players' ratings", () => {
+		expect(sortValue("Elo", { WhiteElo: "2800", BlackElo: "2700" })).toBe(2750);
+		expect(sortValue("Elo", { WhiteElo: "2800", BlackElo: "0" })).toBe(2800);
+		expect(sortValue("Elo", { WhiteElo: "-" })).toBeNull();
+	});
+
+	it("orders time controls by estimated duration", () => {
+		expect(sortValue("TimeControl", { TimeControl: "180+2" })).toBe(260);
+		expect(sortValue("TimeControl", { TimeControl: "600" })).toBe(600);
+		expect(sortValue("TimeControl", { TimeControl: "1/86400" })).toBe(86400);
+		expect(sortValue("TimeControl", { TimeControl: "-" })).toBeNull();
+	});
+
+	it("reads ply counts and dates", () => {
+		expect(sortValue("PlyCount", { PlyCount: "84" })).toBe(84);
+		expect(sortValue("Date", { Date: "2024.03.??" })).toBe("2024.03.??");
+		expect(sortValue("Date", { Date: "????.??.??" })).toBeNull();
+	});
+});
+
+describe("sortEntries", () => {
+	const games = entries(
+		{ White: "b", WhiteElo: "2500" },
+		{ White: "A" },
+		{ White: "c", WhiteElo: "2700" },
+		{ WhiteElo: "2600" },
+		{ White: "a" },
+	);
+
+	it("sorts ascending with ties in source order", () => {
+		expect(sortEntries(games, { field: "White", descending: false }).map(e => e.index)).toEqual([1, 4, 0, 2, 3]);
+	});
+
+	it("keeps games without a value last when descending", () => {
+		expect(sortEntries(games, { field: "Elo", descending: true }).map(e => e.index)).toEqual([2, 3, 0, 1, 4]);
+	});
+});
+
+describe("SortOrderCache", () => {
+	it("sorts once per sort", () => {
+		const headers = [{ Date: "2024.02.01" }, { Date: "2024.01.01" }];
+		let calls = 0;
+		const headersAt = (i: number) => {
+			calls++;
+			return headers[i];
+		};
+		const cache = new SortOrderCache();
+		const byDate = { field: "Date", descending: false } as const;
+
+		expect(cache.get(2, headersAt, byDate)).toEqual([1, 0]);
+		expect(cache.get(2, headersAt, byDate)).toEqual([1, 0]);
+		expect(calls).toBe(2);
+
+		expect(cache.get(2, headersAt, { field: "Date", descending: true })).toEqual([0, 1]);
+		expect(calls).toBe(4);
+		expect(sortOrder(2, headersAt, byDate)).toEqual([1, 0]);
+	});
+});
@@ -0,0 +1,108 @@
+import { GameEntry, GameHeaders } from "./GameProvider";
+
+export const SORT_FIELDS = ["White", "Black", "Elo", "Result", "Date", "Event", "ECO", "PlyCount", "TimeControl"] as const;
+
+export type SortField = typeof SORT_FIELDS[number];
+
+export interface GameSort {
+	field: SortField;
+	descending: boolean;
+}
+
+export function isSortField(value: unknown): value is SortField {
+	return (SORT_FIELDS as readonly unknown[]).includes(value);
+}
+
+/**
+ * The value games are ordered by, or null when a game has none. Text compares
+ * case-insensitively; Elo is the players' average, and a time control sorts
+ * by its estimated duration (base + 40 × increment), as Lichess classifies it.
+ */
+export function sortValue(field: SortField, headers: GameHeaders): string | number | null {
+	switch (field) {
+		case "Elo": {
+			const elos = [headers["WhiteElo"], headers["BlackElo"]]
+				.map(v => parseInt(v ?? "", 10))
+				.filter(v => v > 0);
+			return elos.length ? elos.reduce((a, b) => a + b, 0) / elos.length : null;
+		}
+		case "PlyCount": {
+			const plies = parseInt(headers["PlyCount"] ?? "", 10);
+			return isNaN(plies) ? null : plies;
+		}
+		case "TimeControl":
+			return timeControlSeconds(headers["TimeControl"] ?? "");
+		case "Date": {
+			const date = headers["Date"] ?? "";
+			return date && date !== "????.??.??" ? date : null;
+		}
+		default: {
+			const value = headers[field] ?? "";
+			return value && value !== "?" ? value.toLowerCase() : null;
+		}
+	}
+}
+
+function timeControlSeconds(tc: string): number | null {
+	// Correspondence: "1/86400" (moves per period / seconds)
+	const daily = tc.match(/^\d+\/(\d+)$/);
+	if (daily) return parseInt(daily[1], 10);
+	const match = tc.match(/^(\d+)(?:\+(\d+))?/);
+	if (!match) return null;
+	return parseInt(match[1], 10) + 40 * parseInt(match[2] ?? "0", 10);
+}
+
+/** Games without a value come last in either direction; ties keep source order. */
+function compareValues(a: string | number | null, b: string | number | null, descending: boolean): number {
+	if (a === b) return 0;
+	if (a === null) return 1;
+	if (b === null) return -1;
+	const cmp = a < b ? -1 : 1;
+	return descending ? -cmp : cmp;
+}
+
+/** Compare two games for `sort`; games without a value come last. */
+export function compareGames(a: GameHeaders, b: GameHeaders, sort: GameSort): number {
+	return compareValues(sortValue(sort.field, a), sortValue(sort.field, b), sort.descending);
+}
+
+/** Indices 0..count-1 in `sort` order; `headersAt` is called once per game. */
+export function sortOrder(count: number, headersAt: (index: number) => GameHeaders, sort: GameSort): number[] {
+	const values = new Array<string | number | null>(count);
+	const order = new Array<number>(count);
+	for (let i = 0; i < count; i++) {
+		values[i] = sortValue(sort.field, headersAt(i));
+		order[i] = i;
+	}
+	order.sort((a, b) => compareValues(values[a], values[b], sort.descending) || a - b);
+	return order;
+}
+
+/** A sorted copy of `entries`. */
+export function sortEntries(entries: GameEntry[], sort: GameSort): GameEntry[] {
+	const order = sortOrder(entries.length, i => entries[i].headers, sort);
+	return order.map(i => entries[i]);
+}
+
+/**
+ * Caches the order of a provider's games for the last sort used, so paging
+ * through a sorted list sorts only once.
+ */
+export class SortOrderCache {
+	private key: string | null = null;
+	private order: number[] = [];
+
+	get(count: number, headersAt: (index: number) => GameHeaders, sort: GameSort): number[] {
+		const key = `${sort.field}:${sort.descending}:${count}`;
+		if (key !== this.key) {
+			this.order = sortOrder(count, headersAt, sort);
+			this.key = key;
+		}
+		return this.order;
+	}
+
+	clear(): void {
+		this.key = null;
+		this.order = [];
+	}
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { OpeningStatsIndex, GameSourceExplorerProvider } from "./GameSourceExplorerProvider";
+import { PgnProvider } from "./PgnProvider";
+
+const START_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+const AFTER_E4 = "rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1";
+const AFTER_NF3_NF6 = "rnbqkb1r/pppppppp/5n2/8/8/5N2/PPPPPPPP/RNBQKB1R w KQkq - 2 2";
+
+function game(moves: string, result: string, whiteElo = "", blackElo = ""): string {
+	const elo = (whiteElo ? `[WhiteElo "${whiteElo}"]\n` : "") + (blackElo ? `[BlackElo "${blackElo}"]\n` : "");
+	return `[Result "${result}"]\n${elo}\n${moves} ${result}`;
+}
+
+describe("OpeningStatsIndex", () => {
+	it("counts results for positions and moves", () => {
+		const index = new OpeningStatsIndex();
+		index.addGame(game("1.e4 e5", "1-0"));
+		index.addGame(game("1.e4 c5", "0-1"));
+		index.addGame(game("1.d4 d5", "1/2-1/2"));
+
+		const start = index.getMoves(START_FEN);
+		expect(start).toMatchObject({ white: 1, draws: 1, black: 1 });
+		expect(start.moves[0]).toMatchObject({ uci: "e2e4", san: "e4", white: 1, draws: 0, black: 1 });
+		expect(start.moves[1]).toMatchObject({ uci: "d2d4", san: "d4", white: 0, draws: 1, black: 0 });
+
+		const e4 = index.getMoves(AFTER_E4);
+		expect(e4.moves.map(m => m.san).sort()).toEqual(["c5", "e5"]);
+		expect(index.getGameCount()).toBe(3);
+	});
+
+	it("merges transpositions", () => {
+		const index = new OpeningStatsIndex();
+		index.addGame(game("1.Nf3 Nf6 2.g3", "1-0"));
+		index.addGame(game("1.Nf3 Nf6 2.c4", "1-0"));
+
+		const result = index.getMoves(AFTER_NF3_NF6);
+		expect(result.white).toBe(2);
+		expect(result.moves.map(m => m.san).sort()).toEqual(["c4", "g3"]);
+	});
+
+	it("skips unfinished and unparseable games", () => {
+		const index = new OpeningStatsIndex();
+		index.addGame(game("1.e4 e5", "*"));
+		index.addGame(game("1.e4 e5 2.Ke3", "1-0"));
+		expect(index.getGameCount()).toBe(0);
+		expect(index.getMoves(START_FEN).moves).toEqual([]);
+	});
+
+	it("averages ratings of games with both Elos", () => {
+		const index = new OpeningStatsIndex();
+		index.addGame(game("1.e4", "1-0", "2000", "1800"));
+		index.addGame(game("1.e4", "1-0", "2200", "2200"));
+		index.addGame(game("1.e4", "1-0", "2500"));
+
+		const [move] = index.getMoves(START_FEN).moves;
+		expect(move.averageRating).toBe(2050);
+	});
+
+	it("stops indexing after maxPlies", () => {
+		const index = new OpeningStatsIndex(1);
+		index.addGame(game("1.e4 e5", "1-0"));
+		expect(index.getMoves(START_FEN).moves).toHaveLength(1);
+		expect(index.getMoves(AFTER_E4).moves).toEqual([]);
+	});
+
+	it("sorts moves by game count", () => {
+		const index = new OpeningStatsIndex();
+		index.addGame(game("1.d4", "1-0"));
+		index.addGame(game("1.e4", "1-0"));
+		index.addGame(game("1.e4", "0-1"));
+		expect(index.getMoves(START_FEN).moves.map(m => m.san)).toEqual(["e4", "d4"]);
+	});
+});
+
+describe("GameSourceExplorerProvider", () => {
+	function sourceOf(content: string): () => PgnProvider {
+		return () => {
+			const provider = new PgnProvider();
+			provider.loadContent(content);
+			return provider;
+		};
+	}
+
+	it("builds statistics from the source's games", async () => {
+		const content = [game("1.e4 e5", "1-0"), game("1.e4 c5", "1/2-1/2")].join("\n\n");
+		const explorer = new GameSourceExplorerProvider("My games", sourceOf(content));
+
+		const result = await explorer.getMoves(START_FEN);
+		expect(result).toMatchObject({ white: 1, draws: 1, black: 0 });
+		expect(result.moves).toHaveLength(1);
+		expect(explorer.name).toBe("My games");
+	});
+
+	it("reads the source only once", async () => {
+		let opened = 0;
+		const open = sourceOf(game("1.e4 e5", "1-0"));
+		const explorer = new GameSourceExplorerProvider("My games", () => {
+			opened++;
+			return open();
+		});
+
+		await explorer.getMoves(START_FEN);
+		await explorer.getMoves(AFTER_E4);
+		expect(opened).toBe(1);
+	});
+
+	it("retries after a failed build", async () => {
+		let attempts = 0;
+		const open = sourceOf(game("1.e4 e5", "1-0"));
+		const explorer = new GameSourceExplorerProvider("My games", () => {
+			if (attempts++ === 0) throw new Error("unavailable");
+			return open();
+		});
+
+		await expect(explorer.getMoves(START_FEN)).rejects.toThrow("unavailable");
+		expect((await explorer.getMoves(START_FEN)).white).toBe(1);
+	});
+});
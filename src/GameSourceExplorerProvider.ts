@@ -0,0 +1,168 @@
+import { Chess } from "chess.js";
+import { GameProvider } from "./GameProvider";
+import { OpeningExplorerProvider, OpeningExplorerResult, OpeningExplorerMove } from "./OpeningExplorerProvider";
+import { parsePgnTree } from "./PgnTree";
+
+/** How deep into each game positions are indexed. */
+const DEFAULT_MAX_PLIES = 40;
+const BATCH_SIZE = 500;
+
+interface MoveStats {
+	uci: string;
+	san: string;
+	white: number;
+	draws: number;
+	black: number;
+	ratingSum: number;
+	ratedGames: number;
+}
+
+interface PositionStats {
+	white: number;
+	draws: number;
+	black: number;
+	moves: Map<string, MoveStats>;
+}
+
+/**
+ * Positions are keyed on placement, side to move and castling rights; the en
+ * passant square is dropped so FENs from different writers agree.
+ */
+function explorerKey(fen: string): string {
+	return fen.split(" ").slice(0, 3).join(" ");
+}
+
+/** Win/draw/loss statistics for every position reached in a set of games. */
+export class OpeningStatsIndex {
+	private positions = new Map<string, PositionStats>();
+	private gameCount = 0;
+
+	constructor(private readonly maxPlies: number = DEFAULT_MAX_PLIES) {}
+
+	getGameCount(): number {
+		return this.gameCount;
+	}
+
+	/**
+	 * Add the main line of a game. Games without a decisive or drawn result,
+	 * and games that fail to parse, are skipped.
+	 */
+	addGame(pgn: string): void {
+		let tree;
+		try {
+			tree = parsePgnTree(pgn);
+		} catch {
+			return;
+		}
+
+		const outcome = tree.result === "1-0" ? "white"
+			: tree.result === "0-1" ? "black"
+			: tree.result === "1/2-1/2" ? "draws"
+			: null;
+		if (!outcome) return;
+
+		const rating = averageRating(tree.headers["WhiteElo"], tree.headers["BlackElo"]);
+		const chess = new Chess(tree.startFen);
+		let fen = tree.startFen;
+		let node = tree.moves[0];
+
+		for (let ply = 0; node && ply < this.maxPlies; ply++) {
+			const move = chess.move(node.san);
+			const stats = this.getOrCreate(explorerKey(fen));
+			stats[outcome]++;
+
+			const uci = move.from + move.to + (move.promotion ?? "");
+			let moveStats = stats.moves.get(uci);
+			if (!moveStats) {
+				moveStats = { uci, san: move.san, white: 0, draws: 0, black: 0, ratingSum: 0, ratedGames: 0 };
+				stats.moves.set(uci, moveStats);
+			}
+			moveStats[outcome]++;
+			if (rating !== null) {
+				moveStats.ratingSum += rating;
+				moveStats.ratedGames++;
+			}
+
+			fen = node.fen;
+			node = node.children[0];
+		}
+
+		this.gameCount++;
+	}
+
+	getMoves(fen: string): OpeningExplorerResult {
+		const stats = this.positions.get(explorerKey(fen));
+		if (!stats) return { white: 0, draws: 0, black: 0, moves: [] };
+
+		const moves: OpeningExplorerMove[] = [...stats.moves.values()].map(m => {
+			const move: OpeningExplorerMove = { uci: m.uci, san: m.san, white: m.white, draws: m.draws, black: m.black };
+			if (m.ratedGames > 0) move.averageRating = Math.round(m.ratingSum / m.ratedGames);
+			return move;
+		});
+		moves.sort((a, b) => (b.white + b.draws + b.black) - (a.white + a.draws + a.black));
+
+		return { white: stats.white, draws: stats.draws, black: stats.black, moves };
+	}
+
+	private getOrCreate(key: string): PositionStats {
+		let stats = this.positions.get(key);
+		if (!stats) {
+			stats = { white: 0, draws: 0, black: 0, moves: new Map() };
+			this.positions.set(key, stats);
+		}
+		return stats;
+	}
+}
+
+function averageRating(whiteElo: string | undefined, blackElo: string | undefined): number | null {
+	const white = parseInt(whiteElo ?? "", 10);
+	const black = parseInt(blackElo ?? "", 10);
+	if (white > 0 && black > 0) return (white + black) / 2;
+	return null;
+}
+
+/**
+ * Opening explorer backed by a game source (a PGN file, SCID base or
+ * Chess.com games). The source is read once, on the first query, and the
+ * statistics are kept in memory so later lookups work offline.
+ */
+export class GameSourceExplorerProvider implements OpeningExplorerProvider {
+	readonly name: string;
+	private index: Promise<OpeningStatsIndex> | null = null;
+
+	constructor(
+		name: string,
+		private readonly openSource: () => GameProvider,
+		private readonly maxPlies: number = DEFAULT_MAX_PLIES,
+	) {
+		this.name = name;
+	}
+
+	async getMoves(fen: string): Promise<OpeningExplorerResult> {
+		if (!this.index) {
+			this.index = this.buildIndex();
+			// Allow a retry after a failed build, e.g. when the source was unavailable
+			this.index.catch(() => { this.index = null; });
+		}
+		return (await this.index).getMoves(fen);
+	}
+
+	private async buildIndex(): Promise<OpeningStatsIndex> {
+		const provider = this.openSource();
+		await provider.open();
+		try {
+			const index = new OpeningStatsIndex(this.maxPlies);
+			const count = await provider.getGameCount();
+			for (let offset = 0; offset < count; offset += BATCH_SIZE) {
+				for (const entry of await provider.getGames(offset, BATCH_SIZE)) {
+					index.addGame(await provider.getGamePgn(entry.index));
+				}
+				// Yield between batches so a large source doesn't freeze the UI
+				await new Promise<void>(resolve => setTimeout(resolve, 0));
+			}
+			return index;
+		} finally {
+			provider.close();
+		}
+	}
+}
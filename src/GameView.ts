@@ -1,20 +1,69 @@
-import { ItemView, Notice, WorkspaceLeaf } from "obsidian";
+import { App, ItemView, Menu, Modal, Notice, Setting, TFile, WorkspaceLeaf } from "obsidian";
 import { PgnViewer } from "./PgnViewer";
-import { ChessJournalSettings } from "./settings";
+import { ChessJournalSettings, sourceDisplayName } from "./settings";
 import { createGameNote } from "./createGameNote";
 import { createPositionNote } from "./createPositionNote";
+import { openPositionSearch } from "./openPositionSearch";
+import { GameNoteIndex } from "./GameNoteIndex";
+import { openPlayerStats } from "./openPlayerStats";
+import { appendGameToScid } from "./appendGameToScid";
 
 export const VIEW_TYPE_GAME = "chess-journal-game-view";
 
+/** Offers to open the notes already holding a game rather than saving it again. */
+class ExistingGameNoteModal extends Modal {
+	constructor(app: App, private notes: TFile[], private onCreateAnyway: () => void) {
+		super(app);
+	}
+
+	onOpen(): void {
+		this.titleEl.setText("Game already saved");
+		this.contentEl.createEl("p", {
+			text: this.notes.length === 1
+				? "This game is already saved in a note."
+				: `This game is already saved in ${this.notes.length} notes.`,
+		});
+
+		for (const file of this.notes) {
+			new Setting(this.contentEl)
+				.setName(file.basename)
+				.setDesc(file.path)
+				.addButton(btn => btn
+					.setButtonText("Open")
+					.setCta()
+					.onClick(async () => {
+						this.close();
+						await this.app.workspace.getLeaf("tab").openFile(file);
+					}));
+		}
+
+		new Setting(this.contentEl)
+			.addButton(btn => btn
+				.setButtonText("Create anyway")
+				.onClick(() => {
+					this.close();
+					this.onCreateAnyway();
+				}));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
+
 export class GameView extends ItemView {
 	private pgn: string = "";
 	private title: string = "Game";
+	/** The database source the game was opened from, for player statistics; "" if none. */
+	private sourceKey: string = "";
 	private settings: ChessJournalSettings;
 	private viewer: PgnViewer | null = null;
+	private noteIndex: GameNoteIndex;
 
-	constructor(leaf: WorkspaceLeaf, settings: ChessJournalSettings) {
+	constructor(leaf: WorkspaceLeaf, settings: ChessJournalSettings, noteIndex: GameNoteIndex) {
 		super(leaf);
 		this.settings = settings;
+		this.noteIndex = noteIndex;
 	}
 
 	getViewType(): string {
@@ -29,20 +78,24 @@ export class GameView extends ItemView {
 		return "crown";
 	}
 
-	async setState(state: { pgn: string; title: string }, result: any): Promise<void> {
+	async setState(state: { pgn: string; title: string; sourceKey?: string }, result: any): Promise<void> {
 		this.pgn = state.pgn;
 		this.title = state.title;
+		this.sourceKey = state.sourceKey ?? "";
 		await super.setState(state, result);
 		this.render();
 	}
 
 	getState(): any {
-		return { pgn: this.pgn, title: this.title };
+		return { pgn: this.pgn, title: this.title, sourceKey: this.sourceKey };
 	}
 
 	async onOpen(): Promise<void> {
 		this.addAction("file-plus", "Create note", () => this.onCreateNote());
 		this.addAction("map-pin", "Create position note", () => this.onCreatePositionNote());
+		this.addAction("search", "Find games with this position", () => this.onFindPosition());
+		this.addAction("user", "Player statistics", (e) => this.onPlayerStats(e));
+		this.addAction("database", "Append game to SCID base", (e) => this.onAppendToScid(e));
 
 		if (this.pgn) {
 			this.render();
@@ -72,11 +125,77 @@ export class GameView extends ItemView {
 		}
 	}
 
+	private async onFindPosition(): Promise<void> {
+		if (!this.viewer) {
+			new Notice("No game loaded");
+			return;
+		}
+		await openPositionSearch(this.app, this.viewer.getCurrentFen());
+	}
+
+	private onPlayerStats(e: MouseEvent): void {
+		if (!this.viewer) {
+			new Notice("No game loaded");
+			return;
+		}
+		if (!this.sourceKey) {
+			new Notice("Open the game from the game database to see player statistics");
+			return;
+		}
+		const headers = this.viewer.getHeaders();
+		const menu = new Menu();
+		for (const side of ["White", "Black"]) {
+			const player = headers[side];
+			if (!player || player === "?") continue;
+			menu.addItem(item => item
+				.setTitle(`Statistics for ${player}`)
+				.setIcon("user")
+				.onClick(() => openPlayerStats(this.app, player, this.sourceKey)));
+		}
+		menu.showAtMouseEvent(e);
+	}
+
+	private onAppendToScid(e: MouseEvent): void {
+		if (!this.pgn) {
+			new Notice("No game loaded");
+			return;
+		}
+		const sources = this.settings.externalSources.flatMap(s => s.type === "scid" ? [s] : []);
+		if (sources.length === 0) {
+			new Notice("Add a SCID database in the settings to append games to it");
+			return;
+		}
+		const menu = new Menu();
+		for (const source of sources) {
+			menu.addItem(item => item
+				.setTitle(`Append to ${sourceDisplayName(source)}`)
+				.setIcon("database")
+				.onClick(async () => {
+					try {
+						const index = await appendGameToScid(this.app, this.settings, source, this.pgn);
+						new Notice(`Added as game ${index + 1} of ${sourceDisplayName(source)}`);
+					} catch (err) {
+						new Notice(`Failed to append game: ${err.message}`);
+					}
+				}));
+		}
+		menu.showAtMouseEvent(e);
+	}
+
 	private async onCreateNote(): Promise<void> {
 		if (!this.pgn) {
 			new Notice("No game loaded");
 			return;
 		}
+		const existing = await this.noteIndex.findNotesForPgn(this.pgn);
+		if (existing.length) {
+			new ExistingGameNoteModal(this.app, existing, () => this.createNote()).open();
+			return;
+		}
+		await this.createNote();
+	}
+
+	private async createNote(): Promise<void> {
 		try {
 			const file = await createGameNote(this.app, this.settings.notesFolder, this.pgn);
 			const leaf = this.app.workspace.getLeaf("tab");
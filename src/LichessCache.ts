@@ -0,0 +1,67 @@
+const DB_NAME = "chess-journal-lichess";
+const DB_VERSION = 1;
+const STORE_NAME = "user-games";
+
+/** The games of one Lichess user fetched so far. */
+export interface LichessCacheEntry {
+	pgn: string;
+	/** Creation time (ms since epoch) to resume the export from. */
+	since: number;
+}
+
+export interface LichessGameStore {
+	open(): Promise<void>;
+	close(): void;
+	get(username: string): Promise<LichessCacheEntry | undefined>;
+	put(username: string, entry: LichessCacheEntry): Promise<void>;
+}
+
+export class LichessCache implements LichessGameStore {
+	private db: IDBDatabase | null = null;
+
+	async open(): Promise<void> {
+		return new Promise((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, DB_VERSION);
+			request.onupgradeneeded = () => {
+				const db = request.result;
+				if (!db.objectStoreNames.contains(STORE_NAME)) {
+					db.createObjectStore(STORE_NAME);
+				}
+			};
+			request.onsuccess = () => {
+				this.db = request.result;
+				resolve();
+			};
+			request.onerror = () => reject(request.error);
+		});
+	}
+
+	close(): void {
+		if (this.db) {
+			this.db.close();
+			this.db = null;
+		}
+	}
+
+	async get(username: string): Promise<LichessCacheEntry | undefined> {
+		if (!this.db) return undefined;
+		return new Promise((resolve, reject) => {
+			const tx = this.db!.transaction(STORE_NAME, "readonly");
+			const store = tx.objectStore(STORE_NAME);
+			const request = store.get(username.toLowerCase());
+			request.onsuccess = () => resolve(request.result as LichessCacheEntry | undefined);
+			request.onerror = () => reject(request.error);
+		});
+	}
+
+	async put(username: string, entry: LichessCacheEntry): Promise<void> {
+		if (!this.db) return;
+		return new Promise((resolve, reject) => {
+			const tx = this.db!.transaction(STORE_NAME, "readwrite");
+			const store = tx.objectStore(STORE_NAME);
+			const request = store.put(entry, username.toLowerCase());
+			request.onsuccess = () => resolve();
+			request.onerror = () => reject(request.error);
+		});
+	}
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { LichessProvider } from "./LichessProvider";
+import { LichessCacheEntry, LichessGameStore } from "./LichessCache";
+
+class MemoryStore implements LichessGameStore {
+	entries = new Map<string, LichessCacheEntry>();
+	async open(): Promise<void> {}
+	close(): void {}
+	async get(username: string): Promise<LichessCacheEntry | undefined> {
+		return this.entries.get(username.toLowerCase());
+	}
+	async put(username: string, entry: LichessCacheEntry): Promise<void> {
+		this.entries.set(username.toLowerCase(), entry);
+	}
+}
+
+function game(id: string, white: string, black: string, date: string, createdAt: number) {
+	const pgn = `[Event "Rated blitz game"]\n[Site "https://lichess.org/${id}"]\n[Date "${date}"]\n` +
+		`[White "${white}"]\n[Black "${black}"]\n[Result "1-0"]\n\n1. e4 e5 2. Qh5 Nc6 3. Bc4 Nf6 4. Qxf7# 1-0\n\n\n`;
+	return { id, createdAt, pgn };
+}
+
+/** Stands in for the Lichess export endpoint, honouring `since`. */
+const USER_GAMES: Record<string, ReturnType<typeof game>[]> = {
+	alice: [
+		game("a1", "alice", "carol", "2024.01.05", 1000),
+		game("a2", "dave", "alice", "2024.03.01", 3000),
+	],
+	bob: [
+		game("b1", "bob", "erin", "2024.02.10", 2000),
+	],
+};
+
+let server: http.Server;
+let baseUrl: string;
+let requests: { path: string; since: number; auth?: string }[] = [];
+let failAfter: number | null = null;
+
+beforeAll(async () => {
+	server = http.createServer((req, res) => {
+		const url = new URL(req.url ?? "", "http://localhost");
+		const match = url.pathname.match(/^\/api\/games\/user\/([^/]+)$/);
+		const since = Number(url.searchParams.get("since") ?? 0);
+		requests.push({ path: url.pathname, since, auth: req.headers.authorization });
+
+		const games = match ? USER_GAMES[decodeURIComponent(match[1]).toLowerCase()] : undefined;
+		if (!games) {
+			res.writeHead(404);
+			res.end();
+			return;
+		}
+
+		res.writeHead(200, { "Content-Type": "application/x-ndjson" });
+		const lines = games.filter(g => g.createdAt >= since).map(g => JSON.stringify(g) + "\n");
+		if (failAfter !== null) {
+			// Send some games, then cut the connection mid-line
+			res.write(lines.slice(0, failAfter).join("") + lines[failAfter].slice(0, 10));
+			setTimeout(() => res.destroy(), 20);
+			return;
+		}
+		// Split lines across chunks to exercise buffering
+		const body = lines.join("");
+		res.write(body.slice(0, 25));
+		res.end(body.slice(25));
+	});
+	await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+	await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+	requests = [];
+	failAfter = null;
+});
+
+describe("LichessProvider", () => {
+	it("streams and combines games of several users by date", async () => {
+		const provider = new LichessProvider(["alice", "bob"], { baseUrl, cache: new MemoryStore() });
+		await provider.open();
+
+		expect(await provider.getGameCount()).toBe(3);
+		expect((await provider.getGames(0, 3)).map(g => g.headers.Site)).toEqual([
+			"https://lichess.org/a1",
+			"https://lichess.org/b1",
+			"https://lichess.org/a2",
+		]);
+		expect(await provider.getGamePgn(1)).toContain("[White \"bob\"]");
+		provider.close();
+	});
+
+	it("filters by username", async () => {
+		const provider = new LichessProvider(["alice", "bob"], { baseUrl, cache: new MemoryStore() });
+		await provider.open();
+
+		provider.setUsernameFilter("alice");
+		expect(await provider.getGameCount()).toBe(2);
+		expect((await provider.search("white:dave", 0, 10)).total).toBe(1);
+		expect((await provider.search("white:bob", 0, 10)).total).toBe(0);
+
+		provider.setUsernameFilter(null);
+		expect((await provider.search("white:bob", 0, 10)).total).toBe(1);
+		provider.close();
+	});
+
+	it("sends the API key", async () => {
+		const provider = new LichessProvider(["alice"], { baseUrl, apiKey: "lip_secret", cache: new MemoryStore() });
+		await provider.open();
+		expect(requests).toEqual([{ path: "/api/games/user/alice", since: 0, auth: "Bearer lip_secret" }]);
+		provider.close();
+	});
+
+	it("only fetches games newer than the cached ones", async () => {
+		const cache = new MemoryStore();
+		const first = new LichessProvider(["alice"], { baseUrl, cache });
+		await first.open();
+		first.close();
+		expect(cache.entries.get("alice")?.since).toBe(3001);
+
+		requests = [];
+		const second = new LichessProvider(["Alice"], { baseUrl, cache });
+		await second.open();
+		expect(requests[0].since).toBe(3001);
+		expect(await second.getGameCount()).toBe(2);
+		second.close();
+	});
+
+	it("keeps games received before the stream broke off", async () => {
+		const cache = new MemoryStore();
+		failAfter = 1;
+		const provider = new LichessProvider(["alice"], { baseUrl, cache });
+		await expect(provider.open()).rejects.toThrow();
+		provider.close();
+
+		expect(cache.entries.get("alice")?.since).toBe(1001);
+		expect(cache.entries.get("alice")?.pgn).toContain("lichess.org/a1");
+	});
+
+	it("reports unknown users", async () => {
+		const provider = new LichessProvider(["nobody"], { baseUrl, cache: new MemoryStore() });
+		await expect(provider.open()).rejects.toThrow("Lichess user not found: nobody");
+	});
+});
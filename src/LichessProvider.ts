@@ -0,0 +1,108 @@
+import { UserGamesProvider } from "./UserGamesProvider";
+import { ProviderTask } from "./ProviderTask";
+import { LichessCache, LichessGameStore } from "./LichessCache";
+
+const API_BASE = "https://lichess.org";
+
+export interface LichessProviderOptions {
+	/** Personal API token; raises the export rate limit. */
+	apiKey?: string;
+	/** Server to export from, for tests. */
+	baseUrl?: string;
+	cache?: LichessGameStore;
+}
+
+interface ExportedGame {
+	createdAt: number;
+	pgn?: string;
+}
+
+/**
+ * Games of Lichess users, streamed from the game export endpoint. Finished
+ * games never change, so each user's games are cached and later opens only
+ * fetch games created since the newest cached one.
+ */
+export class LichessProvider extends UserGamesProvider {
+	private apiKey: string;
+	private baseUrl: string;
+	private cache: LichessGameStore;
+
+	constructor(usernames: string[], options: LichessProviderOptions = {}) {
+		super(usernames);
+		this.apiKey = options.apiKey ?? "";
+		this.baseUrl = options.baseUrl ?? API_BASE;
+		this.cache = options.cache ?? new LichessCache();
+	}
+
+	async open(task?: ProviderTask): Promise<void> {
+		await this.cache.open();
+		await super.open(task);
+	}
+
+	close(): void {
+		super.close();
+		this.cache.close();
+	}
+
+	protected async fetchUserPgn(username: string): Promise<string> {
+		const cached = await this.cache.get(username);
+		const parts = cached?.pgn ? [cached.pgn] : [];
+		let since = cached?.since ?? 0;
+
+		try {
+			await this.streamGames(username, since, game => {
+				if (game.pgn?.trim()) parts.push(game.pgn.trim());
+				since = Math.max(since, game.createdAt + 1);
+			});
+		} finally {
+			// Games arrive oldest first, so whatever arrived before a failure
+			// is kept and the next open resumes after it
+			if (since !== (cached?.since ?? 0)) {
+				await this.cache.put(username, { pgn: parts.join("\n\n"), since });
+			}
+		}
+
+		return parts.join("\n\n");
+	}
+
+	private async streamGames(username: string, since: number, onGame: (game: ExportedGame) => void): Promise<void> {
+		const params = new URLSearchParams({
+			since: String(since),
+			sort: "dateAsc",
+			pgnInJson: "true",
+			clocks: "true",
+			opening: "true",
+		});
+		const url = `${this.baseUrl}/api/games/user/${encodeURIComponent(username)}?${params}`;
+		const headers: Record<string, string> = { Accept: "application/x-ndjson" };
+		if (this.apiKey) {
+			headers["Authorization"] = `Bearer ${this.apiKey}`;
+		}
+
+		const response = await fetch(url, { headers });
+		if (response.status === 404) {
+			throw new Error(`Lichess user not found: ${username}`);
+		}
+		if (!response.ok || !response.body) {
+			throw Object.assign(new Error(`HTTP ${response.status}`), { status: response.status });
+		}
+
+		const handleLine = (line: string) => {
+			if (!line.trim()) return;
+			onGame(JSON.parse(line) as ExportedGame);
+		};
+
+		const reader = response.body.getReader();
+		const decoder = new TextDecoder();
+		let buffered = "";
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			buffered += decoder.decode(value, { stream: true });
+			const lines = buffered.split("\n");
+			buffered = lines.pop()!;
+			lines.forEach(handleLine);
+		}
+		handleLine(buffered + decoder.decode());
+	}
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { ListSelection } from "./ListSelection";
+
+describe("ListSelection", () => {
+	it("merges touching and overlapping ranges", () => {
+		const selection = new ListSelection();
+		selection.add(5, 10);
+		selection.add(0, 2);
+		selection.add(10, 12);
+		selection.add(1, 3);
+		expect(selection.getRanges()).toEqual([[0, 3], [5, 12]]);
+		expect(selection.count()).toBe(10);
+		expect(selection.has(2)).toBe(true);
+		expect(selection.has(3)).toBe(false);
+		expect(selection.has(11)).toBe(true);
+	});
+
+	it("splits ranges when positions are removed", () => {
+		const selection = new ListSelection();
+		selection.set(0, 1000000);
+		selection.toggle(500);
+		selection.remove(0, 10);
+		expect(selection.getRanges()).toEqual([[10, 500], [501, 1000000]]);
+		expect(selection.count()).toBe(999989);
+		selection.toggle(500);
+		expect(selection.getRanges()).toEqual([[10, 1000000]]);
+	});
+
+	it("replaces the selection with set and empties it with clear", () => {
+		const selection = new ListSelection();
+		selection.add(3, 4);
+		selection.set(7, 9);
+		expect(selection.getRanges()).toEqual([[7, 9]]);
+		selection.clear();
+		expect(selection.isEmpty()).toBe(true);
+		selection.set(4, 4);
+		expect(selection.isEmpty()).toBe(true);
+	});
+});
@@ -0,0 +1,75 @@
+/**
+ * Selected positions in a list, kept as sorted, disjoint [start, end) ranges
+ * so that selecting every result of a large search stays cheap.
+ */
+export class ListSelection {
+	private ranges: [number, number][] = [];
+
+	getRanges(): readonly (readonly [number, number])[] {
+		return this.ranges;
+	}
+
+	count(): number {
+		return this.ranges.reduce((sum, [start, end]) => sum + end - start, 0);
+	}
+
+	isEmpty(): boolean {
+		return this.ranges.length === 0;
+	}
+
+	has(position: number): boolean {
+		let lo = 0;
+		let hi = this.ranges.length - 1;
+		while (lo <= hi) {
+			const mid = (lo + hi) >> 1;
+			const [start, end] = this.ranges[mid];
+			if (position < start) hi = mid - 1;
+			else if (position >= end) lo = mid + 1;
+			else return true;
+		}
+		return false;
+	}
+
+	clear(): void {
+		this.ranges = [];
+	}
+
+	/** Select exactly the positions from `start` to `end` (exclusive). */
+	set(start: number, end: number): void {
+		this.ranges = end > start ? [[start, end]] : [];
+	}
+
+	add(start: number, end: number): void {
+		if (end <= start) return;
+		const kept: [number, number][] = [];
+		for (const range of this.ranges) {
+			// Ranges that touch the new one are merged into it
+			if (range[1] < start || range[0] > end) {
+				kept.push(range);
+			} else {
+				start = Math.min(start, range[0]);
+				end = Math.max(end, range[1]);
+			}
+		}
+		kept.push([start, end]);
+		this.ranges = kept.sort((a, b) => a[0] - b[0]);
+	}
+
+	remove(start: number, end: number): void {
+		if (end <= start) return;
+		const kept: [number, number][] = [];
+		for (const [s, e] of this.ranges) {
+			if (s < start) kept.push([s, Math.min(e, start)]);
+			if (e > end) kept.push([Math.max(s, end), e]);
+		}
+		this.ranges = kept;
+	}
+
+	toggle(position: number): void {
+		if (this.has(position)) {
+			this.remove(position, position + 1);
+		} else {
+			this.add(position, position + 1);
+		}
+	}
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { BoardPattern, parseBoardPattern, gameMatchesPattern, describeBoardPattern } from "./MaterialSearch";
+import { PositionSearchError } from "./PositionSearch";
+
+// KRP vs KRP; 1.exd5 gives KRP vs KR, 2...Rxd5 KR vs KR and 3.Rxd5 KR vs K
+const ENDGAME = `[SetUp "1"]
+[FEN "r3k3/8/8/3p4/4P3/8/8/4K2R w - - 0 1"]
+
+1. exd5 Rd8 2. Rh5 Rxd5 3. Rxd5 *`;
+
+const OPENING = "1. e4 e5 2. d4 exd4 3. Qxd4 *";
+
+function material(material: string, options: Partial<{ final: boolean; eitherSide: boolean }> = {}): BoardPattern {
+	return { kind: "material", material, final: false, eitherSide: false, ...options };
+}
+
+function matches(pgn: string, pattern: BoardPattern): boolean {
+	return gameMatchesPattern(pgn, parseBoardPattern(pattern));
+}
+
+describe("parseBoardPattern", () => {
+	it("counts each side's material, kings optional", () => {
+		expect(parseBoardPattern(material("KRP vs KR"))).toEqual({
+			kind: "material", sides: [[[0, 1, 0, 0, 1], [0, 1, 0, 0, 0]]], final: false,
+		});
+		expect(parseBoardPattern(material("qpp - r"))).toEqual(parseBoardPattern(material("KQPP vs KR")));
+	});
+
+	it("adds the colours swapped when either side may have either", () => {
+		expect(parseBoardPattern(material("R v RP", { eitherSide: true }))).toMatchObject({
+			sides: [[[0, 1, 0, 0, 0], [0, 1, 0, 0, 1]], [[0, 1, 0, 0, 1], [0, 1, 0, 0, 0]]],
+		});
+		expect(parseBoardPattern(material("R vs R", { eitherSide: true }))).toMatchObject({ sides: [[[0, 1, 0, 0, 0], [0, 1, 0, 0, 0]]] });
+	});
+
+	it("keeps only the pawns of a placement", () => {
+		const target = parseBoardPattern({ kind: "pawns", fen: "4k3/3p4/8/8/8/8/4P3/4K3 w - - 0 1" });
+		expect(target).toEqual({ kind: "pawns", pawns: `${".".repeat(11)}p${".".repeat(40)}P${".".repeat(11)}` });
+	});
+
+	it("rejects malformed patterns", () => {
+		expect(() => parseBoardPattern(material("KRP"))).toThrow(PositionSearchError);
+		expect(() => parseBoardPattern(material("KRX vs K"))).toThrow(PositionSearchError);
+		expect(() => parseBoardPattern(material("PPPPPPPPP vs K"))).toThrow(PositionSearchError);
+		expect(() => parseBoardPattern({ kind: "pawns", fen: "8/8/8" })).toThrow(PositionSearchError);
+		expect(() => parseBoardPattern({ kind: "pawns", fen: "4k3/8/8/8/8/8/8/4K3" })).toThrow(PositionSearchError);
+		expect(() => parseBoardPattern({ kind: "pawns", fen: "P7/8/8/8/8/8/8/8" })).toThrow(PositionSearchError);
+	});
+});
+
+describe("gameMatchesPattern", () => {
+	it("finds material reached at any point", () => {
+		expect(matches(ENDGAME, material("KRP vs KR"))).toBe(true);
+		expect(matches(ENDGAME, material("KR vs KR"))).toBe(true);
+		expect(matches(ENDGAME, material("KR vs KRP"))).toBe(false);
+		expect(matches(ENDGAME, material("KR vs KRP", { eitherSide: true }))).toBe(true);
+		expect(matches(ENDGAME, material("KQ vs K"))).toBe(false);
+	});
+
+	it("compares only the final material when asked", () => {
+		expect(matches(ENDGAME, material("KR vs K", { final: true }))).toBe(true);
+		expect(matches(ENDGAME, material("KR vs KR", { final: true }))).toBe(false);
+		expect(matches(ENDGAME, material("K vs KR", { final: true, eitherSide: true }))).toBe(true);
+	});
+
+	it("finds a pawn structure whatever the pieces", () => {
+		const afterD4 = "rnbqkbnr/pppp1ppp/8/4p3/3PP3/8/PPP2PPP/RNBQKBNR";
+		expect(matches(OPENING, { kind: "pawns", fen: afterD4 })).toBe(true);
+		expect(matches(OPENING, { kind: "pawns", fen: afterD4.replace("RNBQKBNR", "8").replace("rnbqkbnr", "8") })).toBe(true);
+		expect(matches(OPENING, { kind: "pawns", fen: "8/pppp1ppp/8/4p3/2P1P3/8/PP1P1PPP/8" })).toBe(false);
+	});
+
+	it("never matches unparseable games", () => {
+		expect(matches("1. e5 *", material("K vs K", { final: true }))).toBe(false);
+	});
+});
+
+describe("describeBoardPattern", () => {
+	it("says what the list is narrowed to", () => {
+		expect(describeBoardPattern(material("KRP vs KR", { eitherSide: true }))).toBe("Material: KRP vs KR at any point, either side");
+		expect(describeBoardPattern({ kind: "pawns", fen: "8/pp6/8/8/8/8/PP6/8 w - -" })).toBe("Pawns: 8/pp6/8/8/8/8/PP6/8");
+	});
+});
@@ -0,0 +1,126 @@
+import { PgnTree, parsePgnTree } from "./PgnTree";
+import { PositionSearchError, expandPlacement } from "./PositionSearch";
+import { BoardPatternTarget, MaterialCount, hasMaterial, materialStillReachable } from "./scid/pattern";
+
+/**
+ * Material and pawn structure search: find games whose main line reaches a
+ * position with the given material, like "R vs RP", or ends with it, or
+ * that reaches a position with pawns on the given squares whatever the
+ * pieces. SCID bases rule out most games from their index signatures (see
+ * scid/pattern.ts); PGN games are replayed.
+ */
+
+export type BoardPattern =
+	/** `material` is White's pieces, "vs", then Black's, e.g. "KRP vs KR"; kings may be left out. */
+	| { kind: "material"; material: string; final: boolean; eitherSide: boolean }
+	/** Pawns of `fen` (a FEN, EPD or just the placement); its pieces are ignored. */
+	| { kind: "pawns"; fen: string };
+
+export type { BoardPatternTarget } from "./scid/pattern";
+
+const MATERIAL_LETTERS = "QRBNP";
+
+/** Parse and validate a pattern. Throws PositionSearchError if it is malformed. */
+export function parseBoardPattern(pattern: BoardPattern): BoardPatternTarget {
+	if (pattern.kind === "pawns") return { kind: "pawns", pawns: parsePawnStructure(pattern.fen) };
+
+	const sides = pattern.material.trim().split(/\s+vs?\.?\s+|\s*-\s*/i);
+	if (sides.length !== 2) {
+		throw new PositionSearchError(`Enter the material of both sides, like "KRP vs KR", not "${pattern.material.trim()}"`);
+	}
+	const white = parseMaterial(sides[0]);
+	const black = parseMaterial(sides[1]);
+	const pairs: [MaterialCount, MaterialCount][] = [[white, black]];
+	if (pattern.eitherSide && white.join() !== black.join()) pairs.push([black, white]);
+	return { kind: "material", sides: pairs, final: pattern.final };
+}
+
+/** A short description of a pattern, as shown above the list it filters. */
+export function describeBoardPattern(pattern: BoardPattern): string {
+	if (pattern.kind === "pawns") return `Pawns: ${pattern.fen.trim().split(/\s+/)[0]}`;
+	const when = pattern.final ? "at the end" : "at any point";
+	return `Material: ${pattern.material.trim()} ${when}${pattern.eitherSide ? ", either side" : ""}`;
+}
+
+/** One side's pieces, like "KRP": K at most once, then any of Q, R, B, N and P. */
+function parseMaterial(text: string): MaterialCount {
+	const counts: MaterialCount = [0, 0, 0, 0, 0];
+	const letters = text.trim().toUpperCase().replace("K", "");
+	for (const letter of letters) {
+		const index = MATERIAL_LETTERS.indexOf(letter);
+		if (index < 0) throw new PositionSearchError(`Unknown piece "${letter}" in "${text.trim()}"; use K, Q, R, B, N and P`);
+		counts[index]++;
+	}
+	if (counts[4] > 8 || counts.reduce((a, b) => a + b, 0) > 15) {
+		throw new PositionSearchError(`Too much material for one side: "${text.trim()}"`);
+	}
+	return counts;
+}
+
+/** The pawns of a FEN placement as 64 squares, a8 first: "P", "p" or ".". */
+function parsePawnStructure(fen: string): string {
+	const placement = fen.trim().split(/\s+/)[0] ?? "";
+	if (!placement) throw new PositionSearchError("Enter a FEN with the pawns to search for");
+	const ranks = placement.split("/");
+	const board = expandPlacement(placement);
+	if (ranks.length !== 8 || ranks.some(rank => expandPlacement(rank).length !== 8) || !/^[.pnbrqkPNBRQK]{64}$/.test(board)) {
+		throw new PositionSearchError(`Invalid placement: ${placement}`);
+	}
+	const pawns = board.replace(/[^Pp]/g, ".");
+	if (/[Pp]/.test(pawns.substring(0, 8) + pawns.substring(56))) {
+		throw new PositionSearchError("Pawns cannot stand on the first or last rank");
+	}
+	if (!/[Pp]/.test(pawns)) throw new PositionSearchError("The position has no pawns to search for");
+	return pawns;
+}
+
+/** Whether the main line of a PGN game matches a pattern. Unparseable games never match. */
+export function gameMatchesPattern(pgn: string, target: BoardPatternTarget): boolean {
+	let tree: PgnTree;
+	try {
+		tree = parsePgnTree(pgn);
+	} catch {
+		return false;
+	}
+
+	const fens = [tree.startFen];
+	for (let node = tree.moves[0]; node; node = node.children[0]) fens.push(node.fen);
+	const boardAt = (i: number) => expandPlacement(fens[i].split(" ")[0]);
+
+	if (target.kind === "material") {
+		if (target.final) return hasMaterial(materialOf(boardAt(fens.length - 1)), target.sides);
+		for (let i = 0; i < fens.length; i++) {
+			const material = materialOf(boardAt(i));
+			if (hasMaterial(material, target.sides)) return true;
+			if (!materialStillReachable(material, target.sides)) return false;
+		}
+		return false;
+	}
+
+	const key = target.pawns;
+	const pawnCount = (s: string, pawn: string) => s.split(pawn).length - 1;
+	const targetPawns = [pawnCount(key, "P"), pawnCount(key, "p")];
+	for (let i = 0; i < fens.length; i++) {
+		const pawns = boardAt(i).replace(/[^Pp]/g, ".");
+		if (pawns === key) return true;
+		// Captures and pawn moves are irreversible: stop once a pawn the target needs is gone
+		if (pawnCount(pawns, "P") < targetPawns[0] || pawnCount(pawns, "p") < targetPawns[1]) return false;
+		for (let file = 0; file < 8; file++) {
+			if ((key[48 + file] === "P" && pawns[48 + file] !== "P") || (key[8 + file] === "p" && pawns[8 + file] !== "p")) {
+				return false;
+			}
+		}
+	}
+	return false;
+}
+
+function materialOf(board: string): [MaterialCount, MaterialCount] {
+	const white: MaterialCount = [0, 0, 0, 0, 0];
+	const black: MaterialCount = [0, 0, 0, 0, 0];
+	for (const ch of board) {
+		const index = MATERIAL_LETTERS.indexOf(ch.toUpperCase());
+		if (index < 0) continue;
+		(ch === ch.toUpperCase() ? white : black)[index]++;
+	}
+	return [white, black];
+}
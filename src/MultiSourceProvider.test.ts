@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { PgnProvider } from "./PgnProvider";
+import { MultiSourceProvider } from "./MultiSourceProvider";
+import { GameQueryError } from "./GameQuery";
+import { ScidProvider, pgnToScidGame } from "./ScidProvider";
+import { ScidDatabase, FLAG_DELETED } from "./scid/index";
+
+function game(white: string, date: string, result = "1-0"): string {
+	return `[White "${white}"]\n[Black "Opponent"]\n[Date "${date}"]\n[Result "${result}"]\n\n1.e4 e5 ${result}`;
+}
+
+function pgnSource(...games: string[]): PgnProvider {
+	const provider = new PgnProvider();
+	provider.loadContent(games.join("\n\n"));
+	return provider;
+}
+
+let provider: MultiSourceProvider;
+
+beforeEach(async () => {
+	provider = new MultiSourceProvider([
+		{ name: "club.pgn", provider: pgnSource(game("Adams", "2024.03.01"), game("Brown", "2024.01.01")) },
+		{ name: "empty.pgn", provider: pgnSource() },
+		{ name: "online", provider: pgnSource(game("Carter", "2024.02.01"), game("Adams", "2023.12.01", "0-1")) },
+	]);
+	await provider.open();
+});
+
+describe("MultiSourceProvider", () => {
+	it("lists the games of every source in turn, naming their source", async () => {
+		expect(await provider.getGameCount()).toBe(4);
+		const games = await provider.getGames(1, 2);
+		expect(games.map(g => [g.index, g.headers["White"], g.source])).toEqual([
+			[1, "Brown", "club.pgn"],
+			[2, "Carter", "online"],
+		]);
+	});
+
+	it("opens games from the source they came from", async () => {
+		expect(await provider.getGamePgn(3)).toContain("Adams");
+		expect(await provider.getGamePgn(3)).toContain("0-1");
+		expect(await provider.getGamePgn(4)).toBe("");
+	});
+
+	it("pages through search results across sources", async () => {
+		const first = await provider.search("white:adams", 0, 1);
+		expect(first.total).toBe(2);
+		expect(first.games.map(g => g.source)).toEqual(["club.pgn"]);
+
+		const second = await provider.search("white:adams", 1, 1);
+		expect(second.games.map(g => [g.index, g.source])).toEqual([[3, "online"]]);
+	});
+
+	it("merges sorted lists", async () => {
+		const sort = { field: "Date", descending: false } as const;
+		const all = await provider.getGames(0, 10, sort);
+		expect(all.map(g => g.headers["Date"])).toEqual(["2023.12.01", "2024.01.01", "2024.02.01", "2024.03.01"]);
+		expect(all.map(g => g.index)).toEqual([3, 1, 2, 0]);
+
+		const page = await provider.search("", 1, 2, undefined, { field: "Date", descending: true });
+		expect(page.total).toBe(4);
+		expect(page.games.map(g => g.headers["White"])).toEqual(["Carter", "Brown"]);
+	});
+
+	it("serves merged pages from the entries it merged", async () => {
+		const sort = { field: "White", descending: false } as const;
+		await provider.getGames(0, 2, sort);
+		const getGames = vi.spyOn(PgnProvider.prototype, "getGames");
+		const page = await provider.getGames(1, 3, sort);
+		expect(page.map(g => [g.headers["White"], g.source])).toEqual([
+			["Adams", "online"], ["Brown", "club.pgn"], ["Carter", "online"],
+		]);
+		// Further chunks are read with the sort; nothing is fetched row by row
+		expect(getGames.mock.calls.every(call => call[2] === sort)).toBe(true);
+		getGames.mockRestore();
+	});
+
+	it("seeks far pages of merged lists instead of merging up to them", async () => {
+		// Few distinct dates, so many games sort alike across and within sources
+		const dates = ["2024.01.01", "2024.02.01", "2024.03.01", "2024.04.01"];
+		const sources = [4000, 3000, 5000].map((count, s) => pgnSource(...Array.from({ length: count }, (_, i) =>
+			game(`S${s} G${i}`, dates[(i * 7 + s) % dates.length]))));
+		const large = new MultiSourceProvider(sources.map((source, s) => ({ name: `s${s}.pgn`, provider: source })));
+		await large.open();
+		const sort = { field: "Date", descending: true } as const;
+
+		// The merge takes games that sort alike by source, then in each source's own order
+		const sorted = await Promise.all(sources.map(source => source.getGames(0, 5000, sort)));
+		const expected: string[] = [];
+		for (const date of [...dates].reverse()) {
+			for (const entries of sorted) {
+				for (const entry of entries) {
+					if (entry.headers["Date"] === date) expected.push(entry.headers["White"]);
+				}
+			}
+		}
+
+		const getGames = vi.spyOn(PgnProvider.prototype, "getGames");
+		const names = async (offset: number, limit: number) =>
+			(await large.getGames(offset, limit, sort)).map(g => g.headers["White"]);
+		expect(await names(10000, 50)).toEqual(expected.slice(10000, 10050));
+		expect(await names(10050, 50)).toEqual(expected.slice(10050, 10100));
+		expect(await names(4321, 20)).toEqual(expected.slice(4321, 4341));
+		expect(await names(11990, 50)).toEqual(expected.slice(11990));
+		// Far less than the 12,000 games merging from the start would read
+		const read = getGames.mock.calls.reduce((sum, call) => sum + call[1], 0);
+		expect(read).toBeLessThan(4000);
+		getGames.mockRestore();
+		large.close();
+	});
+
+	it("adds up names found in several sources", async () => {
+		expect(await provider.searchNames("player", "", 2)).toEqual([
+			{ name: "Opponent", games: 4 },
+			{ name: "Adams", games: 2 },
+		]);
+	});
+
+	it("passes query errors on", async () => {
+		await expect(provider.search("white:(", 0, 10)).rejects.toThrow(GameQueryError);
+	});
+
+	it("leaves out sources that fail to open", async () => {
+		const partial = new MultiSourceProvider([
+			{ name: "missing.pgn", provider: new PgnProvider("/nonexistent/missing.pgn") },
+			{ name: "club.pgn", provider: pgnSource(game("Adams", "2024.03.01")) },
+		]);
+		await partial.open();
+		expect(await partial.getGameCount()).toBe(1);
+		expect(partial.getUnavailableSources().map(s => s.name)).toEqual(["missing.pgn"]);
+		expect((await partial.getGames(0, 10))[0].source).toBe("club.pgn");
+	});
+
+	it("passes flag filters on to its SCID sources only", async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "multi-source-test-"));
+		try {
+			const dbPath = path.join(dir, "games.si4");
+			ScidDatabase.create(dbPath);
+			const db = new ScidDatabase();
+			db.open(dbPath);
+			for (const [white, flags] of [["Deleted", FLAG_DELETED], ["Kept", 0]] as const) {
+				const scidGame = pgnToScidGame(game(white, "2024.04.01"));
+				db.appendGame({ ...scidGame, headers: { ...scidGame.headers, flags } });
+			}
+			db.close();
+
+			// Like a PGN file in the provider worker, which refuses flag filters
+			const pgn = pgnSource(game("Adams", "2024.03.01"));
+			const setPgnFilter = vi.fn(() => Promise.reject(new Error("Only SCID bases have flags to filter by")));
+			Object.assign(pgn, { setFlagFilter: setPgnFilter });
+			const all = new MultiSourceProvider([
+				{ name: "club.pgn", provider: pgn },
+				{ name: "games.si4", provider: new ScidProvider(dbPath), flagged: true },
+			]);
+			await all.open();
+			expect(await all.getGameCount()).toBe(3);
+
+			await all.setFlagFilter({ require: 0, exclude: FLAG_DELETED });
+			expect(setPgnFilter).not.toHaveBeenCalled();
+			expect(await all.getGameCount()).toBe(2);
+			expect((await all.getGames(0, 10)).map(g => g.headers["White"])).toEqual(["Adams", "Kept"]);
+			const sort = { field: "White", descending: true } as const;
+			expect((await all.getGames(0, 10, sort)).map(g => g.headers["White"])).toEqual(["Kept", "Adams"]);
+			expect((await all.search("", 0, 10)).total).toBe(2);
+			// The SCID game keeps its place after the games of the sources before it
+			const [, kept] = await all.getGames(0, 10);
+			expect(kept.index).toBe(2);
+			expect(await all.getGamePgn(kept.index)).toContain("Kept");
+			all.close();
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+});
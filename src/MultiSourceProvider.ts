@@ -0,0 +1,400 @@
+import { GameProvider, GameEntry, GameSearchResult } from "./GameProvider";
+import { GameSort, compareGames } from "./GameSort";
+import { ProviderTask, CancelledError, TaskTicker, throwIfCancelled } from "./ProviderTask";
+import { searchKey } from "./SearchCache";
+import { NameCount, NameType, mergeNameCounts } from "./NameIndex";
+import { BoardPattern } from "./MaterialSearch";
+import { ScidFlagFilter } from "./scid/index";
+
+export interface NamedProvider {
+	name: string;
+	provider: GameProvider;
+	/** Whether the source is a SCID base, whose games setFlagFilter filters. */
+	flagged?: boolean;
+}
+
+export interface UnavailableSource {
+	name: string;
+	error: string;
+}
+
+/** A listing or search of one source: games `offset` to `offset + limit` of it, and their total. */
+type SourceFetch = (source: number, offset: number, limit: number, task?: ProviderTask) => Promise<GameSearchResult>;
+
+/** Games pulled from each source at a time while merging sorted lists. */
+const MERGE_CHUNK = 200;
+
+/** How far past the merged games a page may start before the sources are sought rather than merged through. */
+const SEEK_DISTANCE = 5 * MERGE_CHUNK;
+
+interface MergeCursor {
+	chunk: GameEntry[];
+	next: number;
+	/** Position in the source's list of the first game after the chunk. */
+	fetched: number;
+	total: number;
+}
+
+/**
+ * Several sources' sorted lists merged into one. Only the cursors and the
+ * last page asked for are kept: the next page is merged on from there, and a
+ * page far from it is sought in each source by binary search. Games that sort
+ * alike are ordered by source, then by place in their source, as the merge
+ * takes them.
+ */
+class MergedList {
+	/** Merged games from `windowStart` to `position`. */
+	private entries: GameEntry[] = [];
+	private windowStart = 0;
+	/** Place in the merged list of the game the cursors give next. */
+	private position = 0;
+
+	constructor(
+		private readonly cursors: MergeCursor[],
+		private readonly sort: GameSort,
+		private readonly fetch: SourceFetch,
+		private readonly toCombined: (source: number, entry: GameEntry) => GameEntry,
+	) {}
+
+	get total(): number {
+		return this.cursors.reduce((sum, c) => sum + c.total, 0);
+	}
+
+	/** Games `offset` to `offset + limit` of the merged list. */
+	async page(offset: number, limit: number, task?: ProviderTask): Promise<GameEntry[]> {
+		if (offset >= this.total) return [];
+		if (offset < this.windowStart || offset > this.position + SEEK_DISTANCE) {
+			await this.seek(offset, task);
+		}
+		await this.extendTo(offset + limit, task);
+		// Earlier games are dropped; the view caches the pages it shows
+		this.entries = this.entries.slice(offset - this.windowStart);
+		this.windowStart = offset;
+		return this.entries.slice(0, limit);
+	}
+
+	/** Merge until `count` games are known or every source is used up. */
+	private async extendTo(count: number, task?: ProviderTask): Promise<void> {
+		const target = Math.min(count, this.total);
+		const ticker = new TaskTicker(task, target - this.position);
+		const from = this.position;
+
+		while (this.position < target) {
+			if (ticker.due()) await ticker.tick(this.position - from);
+			let best = -1;
+			for (let i = 0; i < this.cursors.length; i++) {
+				const cursor = this.cursors[i];
+				if (cursor.next === cursor.chunk.length && cursor.fetched < cursor.total) {
+					cursor.chunk = (await this.fetch(i, cursor.fetched, MERGE_CHUNK, task)).games;
+					cursor.next = 0;
+					cursor.fetched += cursor.chunk.length;
+					// The source has fewer games than it said; stop asking
+					if (cursor.chunk.length === 0) cursor.total = cursor.fetched;
+				}
+				if (cursor.next === cursor.chunk.length) continue;
+				if (best < 0 || compareGames(cursor.chunk[cursor.next].headers, this.head(best).headers, this.sort) < 0) {
+					best = i;
+				}
+			}
+			if (best < 0) break;
+			this.entries.push(this.toCombined(best, this.head(best)));
+			this.cursors[best].next++;
+			this.position++;
+		}
+	}
+
+	/** Move the cursors so the merge goes on from the game at `offset`. */
+	private async seek(offset: number, task?: ProviderTask): Promise<void> {
+		const splits = await this.splitsAt(offset, task);
+		this.cursors.forEach((cursor, i) => {
+			cursor.chunk = [];
+			cursor.next = 0;
+			cursor.fetched = splits[i];
+		});
+		this.entries = [];
+		this.windowStart = offset;
+		this.position = offset;
+	}
+
+	/**
+	 * How many games of each source come before the game at `offset` of the
+	 * merged list. Each step takes the middle game of the widest range left as
+	 * a pivot, counts the games before it in every source, and narrows every
+	 * range to the side of it that `offset` falls on.
+	 */
+	private async splitsAt(offset: number, task?: ProviderTask): Promise<number[]> {
+		const lo = this.cursors.map(() => 0);
+		const hi = this.cursors.map(c => c.total);
+		for (;;) {
+			throwIfCancelled(task);
+			let widest = -1;
+			for (let i = 0; i < lo.length; i++) {
+				if (hi[i] > lo[i] && (widest < 0 || hi[i] - lo[i] > hi[widest] - lo[widest])) widest = i;
+			}
+			if (widest < 0) return lo;
+
+			const mid = Math.floor((lo[widest] + hi[widest]) / 2);
+			const pivot = await this.gameAt(widest, mid, task);
+			if (!pivot) {
+				// The source has fewer games than it said
+				hi[widest] = mid;
+				continue;
+			}
+			const before: number[] = [];
+			for (let i = 0; i < lo.length; i++) {
+				before.push(i === widest ? mid : await this.countBefore(i, pivot, widest, lo[i], hi[i], task));
+			}
+			const sum = before.reduce((total, n) => total + n, 0);
+			if (sum === offset) return before;
+			if (sum < offset) {
+				// The pivot and every game before it come before `offset`
+				before.forEach((n, i) => { lo[i] = n; });
+				lo[widest] = mid + 1;
+			} else {
+				before.forEach((n, i) => { hi[i] = n; });
+			}
+		}
+	}
+
+	/** Where in `source`'s list, between `lo` and `hi`, its games stop coming before `pivot`, a game of `pivotSource`. */
+	private async countBefore(
+		source: number, pivot: GameEntry, pivotSource: number, lo: number, hi: number, task?: ProviderTask,
+	): Promise<number> {
+		while (lo < hi) {
+			const mid = Math.floor((lo + hi) / 2);
+			const game = await this.gameAt(source, mid, task);
+			const order = game ? compareGames(game.headers, pivot.headers, this.sort) || source - pivotSource : 1;
+			if (order < 0) lo = mid + 1;
+			else hi = mid;
+		}
+		return lo;
+	}
+
+	private async gameAt(source: number, position: number, task?: ProviderTask): Promise<GameEntry | undefined> {
+		return (await this.fetch(source, position, 1, task)).games[0];
+	}
+
+	private head(source: number): GameEntry {
+		const cursor = this.cursors[source];
+		return cursor.chunk[cursor.next];
+	}
+}
+
+/**
+ * Every configured source as a single list, for searching without knowing
+ * where a game came from. Unsorted, games are listed source by source;
+ * sorted, the sources' own sorted lists are merged. An entry's index is the
+ * number of games in the sources before it plus its index in its own source,
+ * and its `source` names that source. Sources keep their indices when a flag
+ * filter lists fewer of their games, so the ranges are set when they open. Sources that fail to open are left out
+ * and reported by getUnavailableSources.
+ */
+export class MultiSourceProvider implements GameProvider {
+	private readonly sources: NamedProvider[];
+	/** The sources that opened, with the combined index of each one's first game. */
+	private available: NamedProvider[] = [];
+	private starts: number[] = [];
+	/** How many indices each source's games span: its game count when opened, before any filter. */
+	private sizes: number[] = [];
+	/** How many games each source lists. */
+	private counts: number[] = [];
+	private unavailable: UnavailableSource[] = [];
+	private merged: { key: string; list: MergedList } | null = null;
+
+	constructor(sources: NamedProvider[]) {
+		this.sources = sources;
+	}
+
+	async open(task?: ProviderTask): Promise<void> {
+		const outcomes = await this.fanOut(this.sources, async (source, sourceTask) => {
+			try {
+				await source.provider.open(sourceTask);
+				return null;
+			} catch (e) {
+				return e instanceof Error ? e : new Error(String(e));
+			}
+		}, task);
+
+		if (task?.signal?.aborted) {
+			for (const source of this.sources) source.provider.close();
+			throw new CancelledError();
+		}
+
+		this.sources.forEach((source, i) => {
+			const error = outcomes[i];
+			if (error) {
+				this.unavailable.push({ name: source.name, error: error.message });
+			} else {
+				this.available.push(source);
+			}
+		});
+		this.sizes = await this.countGames();
+		this.counts = [...this.sizes];
+		let start = 0;
+		this.starts = this.sizes.map(size => {
+			const first = start;
+			start += size;
+			return first;
+		});
+	}
+
+	close(): void {
+		for (const source of this.available) source.provider.close();
+		this.available = [];
+		this.starts = [];
+		this.sizes = [];
+		this.counts = [];
+		this.unavailable = [];
+		this.merged = null;
+	}
+
+	/** List only the games of the SCID sources that pass `filter`; other sources are unaffected. */
+	async setFlagFilter(filter: ScidFlagFilter | null): Promise<void> {
+		await Promise.all(this.available.filter(s => s.flagged).map(s => s.provider.setFlagFilter?.(filter)));
+		this.merged = null;
+		this.counts = await this.countGames();
+	}
+
+	/** Sources left out because they could not be opened. */
+	getUnavailableSources(): UnavailableSource[] {
+		return this.unavailable;
+	}
+
+	async getGameCount(): Promise<number> {
+		return this.counts.reduce((sum, count) => sum + count, 0);
+	}
+
+	async getGames(offset: number, limit: number, sort?: GameSort): Promise<GameEntry[]> {
+		const fetch: SourceFetch = async (source, from, count) => ({
+			games: await this.available[source].provider.getGames(from, count, sort),
+			total: this.counts[source],
+		});
+		return (await this.page(searchKey("games", sort), fetch, offset, limit, undefined, sort)).games;
+	}
+
+	async getGamePgn(index: number): Promise<string> {
+		const source = this.sourceOf(index);
+		if (source < 0) return "";
+		return this.available[source].provider.getGamePgn(index - this.starts[source]);
+	}
+
+	search(query: string, offset: number, limit: number, task?: ProviderTask, sort?: GameSort): Promise<GameSearchResult> {
+		const fetch: SourceFetch = (source, from, count, sourceTask) =>
+			this.available[source].provider.search(query, from, count, sourceTask, sort);
+		return this.page(searchKey("query", query, sort), fetch, offset, limit, task, sort);
+	}
+
+	searchPosition(
+		fen: string, query: string, offset: number, limit: number, task?: ProviderTask, sort?: GameSort,
+	): Promise<GameSearchResult> {
+		const fetch: SourceFetch = (source, from, count, sourceTask) =>
+			this.available[source].provider.searchPosition(fen, query, from, count, sourceTask, sort);
+		return this.page(searchKey("position", fen, query, sort), fetch, offset, limit, task, sort);
+	}
+
+	searchPattern(
+		pattern: BoardPattern, query: string, offset: number, limit: number, task?: ProviderTask, sort?: GameSort,
+	): Promise<GameSearchResult> {
+		const fetch: SourceFetch = (source, from, count, sourceTask) =>
+			this.available[source].provider.searchPattern(pattern, query, from, count, sourceTask, sort);
+		return this.page(searchKey("pattern", pattern, query, sort), fetch, offset, limit, task, sort);
+	}
+
+	async searchNames(type: NameType, prefix: string, limit: number): Promise<NameCount[]> {
+		const lists = await Promise.all(this.available.map(source => source.provider.searchNames(type, prefix, limit)));
+		return mergeNameCounts(lists, limit);
+	}
+
+	private page(
+		key: string, fetch: SourceFetch, offset: number, limit: number, task?: ProviderTask, sort?: GameSort,
+	): Promise<GameSearchResult> {
+		return sort
+			? this.mergedPage(key, fetch, offset, limit, sort, task)
+			: this.concatenatedPage(fetch, offset, limit, task);
+	}
+
+	private async concatenatedPage(
+		fetch: SourceFetch, offset: number, limit: number, task?: ProviderTask,
+	): Promise<GameSearchResult> {
+		// Totals first; repeating a search for the page itself is cheap as providers keep their last result
+		const totals = (await this.fanOut(this.available, (_, sourceTask, i) => fetch(i, 0, 0, sourceTask), task))
+			.map(result => result.total);
+		throwIfCancelled(task);
+
+		const games: GameEntry[] = [];
+		let start = 0;
+		for (let i = 0; i < totals.length && games.length < limit; i++) {
+			const end = start + totals[i];
+			const position = offset + games.length;
+			if (position < end) {
+				const result = await fetch(i, position - start, limit - games.length, { signal: task?.signal });
+				games.push(...result.games.map(entry => this.toCombined(i, entry)));
+			}
+			start = end;
+		}
+		return { games, total: totals.reduce((sum, total) => sum + total, 0) };
+	}
+
+	private async mergedPage(
+		key: string, fetch: SourceFetch, offset: number, limit: number, sort: GameSort, task?: ProviderTask,
+	): Promise<GameSearchResult> {
+		if (this.merged?.key !== key) {
+			const firstChunks = await this.fanOut(this.available, (_, sourceTask, i) => fetch(i, 0, MERGE_CHUNK, sourceTask), task);
+			throwIfCancelled(task);
+			const cursors = firstChunks.map(result => ({
+				chunk: result.games, next: 0, fetched: result.games.length, total: result.total,
+			}));
+			const list = new MergedList(cursors, sort, fetch, (source, entry) => this.toCombined(source, entry));
+			this.merged = { key, list };
+		}
+
+		const list = this.merged.list;
+		try {
+			return { games: await list.page(offset, limit, task), total: list.total };
+		} catch (e) {
+			// A merge cut short leaves its cursors behind the merged games
+			this.merged = null;
+			throw e;
+		}
+	}
+
+	/**
+	 * Run `call` on every source at once, reporting their combined progress.
+	 * The task's signal is passed on, so a cancelled task cancels them all.
+	 */
+	private fanOut<S, T>(
+		sources: S[], call: (source: S, task: ProviderTask, index: number) => Promise<T>, task?: ProviderTask,
+	): Promise<T[]> {
+		const fractions = sources.map(() => 0);
+		const report = () => {
+			const done = fractions.reduce((sum, f) => sum + f, 0);
+			task?.onProgress?.(Math.round(done * 1000), sources.length * 1000);
+		};
+		return Promise.all(sources.map((source, i) => call(source, {
+			signal: task?.signal,
+			onProgress: (done, total) => {
+				fractions[i] = total > 0 ? done / total : 0;
+				report();
+			},
+		}, i)));
+	}
+
+	private toCombined(source: number, entry: GameEntry): GameEntry {
+		return {
+			index: this.starts[source] + entry.index,
+			headers: entry.headers,
+			source: this.available[source].name,
+		};
+	}
+
+	private countGames(): Promise<number[]> {
+		return Promise.all(this.available.map(s => s.provider.getGameCount()));
+	}
+
+	private sourceOf(index: number): number {
+		for (let i = this.starts.length - 1; i >= 0; i--) {
+			if (index >= this.starts[i]) return index < this.starts[i] + this.sizes[i] ? i : -1;
+		}
+		return -1;
+	}
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { applyNameCompletion, nameCompletionAt } from "./NameCompletion";
+
+function at(query: string) {
+	return nameCompletionAt(query, query.length);
+}
+
+describe("nameCompletionAt", () => {
+	it("completes plain words as any kind of name", () => {
+		expect(at("carl")).toEqual({ start: 0, end: 4, field: null, types: ["player", "event", "site"], prefix: "carl" });
+		expect(at("eco:B90 carl")).toMatchObject({ start: 8, prefix: "carl" });
+		expect(at("(carl")).toMatchObject({ start: 1, prefix: "carl" });
+	});
+
+	it("completes name fields, quoted or not", () => {
+		expect(at("white:carl")).toMatchObject({ start: 0, field: "white", types: ["player"], prefix: "carl" });
+		expect(at("result:1-0 Event:\"World Ch")).toMatchObject({
+			start: 11, field: "event", types: ["event"], prefix: "World Ch",
+		});
+		expect(at("site:=lon")).toMatchObject({ field: "site", types: ["site"], prefix: "lon" });
+	});
+
+	it("leaves other fields, keywords and short words alone", () => {
+		expect(at("eco:B9")).toBeNull();
+		expect(at("white:")).toBeNull();
+		expect(at("carlsen ")).toBeNull();
+		expect(at("c")).toBeNull();
+		expect(at("carlsen OR")).toBeNull();
+	});
+
+	it("takes in the rest of the word after the caret", () => {
+		const query = "white:carlsen result:1-0";
+		expect(nameCompletionAt(query, 10)).toMatchObject({ start: 0, end: 13, prefix: "carl" });
+		expect(nameCompletionAt("white:\"carl sen\" x", 11)).toMatchObject({ end: 16, prefix: "carl" });
+	});
+});
+
+describe("applyNameCompletion", () => {
+	it("puts an exact term in place of what was typed", () => {
+		const query = "eco:B90 carl";
+		expect(applyNameCompletion(query, at(query)!, "player", "Carlsen, Magnus")).toEqual({
+			query: "eco:B90 player:=\"Carlsen, Magnus\" ",
+			caret: 34,
+		});
+	});
+
+	it("keeps a white: or black: field", () => {
+		const query = "black:carl result:1-0";
+		const completion = nameCompletionAt(query, 10)!;
+		expect(applyNameCompletion(query, completion, "player", "Carlsen, Magnus").query)
+			.toBe("black:=\"Carlsen, Magnus\" result:1-0");
+	});
+
+	it("names the field after the kind of name picked", () => {
+		const query = "(lond";
+		expect(applyNameCompletion(query, at(query)!, "site", "London ENG").query).toBe("(site:=\"London ENG\" ");
+	});
+});
@@ -0,0 +1,78 @@
+import { NameType } from "./NameIndex";
+
+/** The name being typed in a search query, found by nameCompletionAt. */
+export interface NameCompletion {
+	/** Start and end of the term to replace, field included. */
+	start: number;
+	end: number;
+	/** Query field typed before the name, lower case, or null for plain text. */
+	field: string | null;
+	/** Kinds of names that fit the field. */
+	types: NameType[];
+	/** What has been typed of the name. */
+	prefix: string;
+}
+
+/** Kinds of names each name field takes. */
+const FIELD_TYPES: Record<string, NameType[]> = {
+	player: ["player"],
+	white: ["player"],
+	black: ["player"],
+	event: ["event"],
+	site: ["site"],
+};
+
+const ALL_TYPES: NameType[] = ["player", "event", "site"];
+
+/** Plain words shorter than this are not completed; they are too common to narrow anything down. */
+const MIN_PLAIN_PREFIX = 2;
+
+/**
+ * The name being typed at `caret` in `query`: a plain word or phrase, or the
+ * value of a player:, white:, black:, event: or site: term, quoted or not.
+ * Null where no name is being typed, e.g. in an eco: term or after a space.
+ */
+export function nameCompletionAt(query: string, caret: number): NameCompletion | null {
+	const before = query.substring(0, caret);
+	const match = /(^|[\s(])((?:([A-Za-z]\w*):=?)?(?:"([^"]*)|([^\s"()]*)))$/.exec(before);
+	if (!match) return null;
+
+	const field = match[3] !== undefined ? match[3].toLowerCase() : null;
+	const quoted = match[4] !== undefined;
+	const prefix = quoted ? match[4] : match[5];
+	const types = field === null ? ALL_TYPES : FIELD_TYPES[field];
+	if (!types) return null;
+	if (field === null && (prefix.trim().length < MIN_PLAIN_PREFIX || /^(AND|OR|NOT)$/.test(prefix))) return null;
+	if (!prefix.trim()) return null;
+
+	// Replace the rest of the word, or of the quoted value, after the caret as well
+	const rest = /^[^"]*"?/.exec(query.substring(caret))![0];
+	const tail = quoted ? rest : /^[^\s"()]*/.exec(rest)![0];
+	return {
+		start: match.index + match[1].length,
+		end: caret + tail.length,
+		field,
+		types,
+		prefix: prefix.trimStart(),
+	};
+}
+
+/**
+ * Put an exact match on `name` in place of the typed term. A white: or black:
+ * field is kept; otherwise the field is the kind of name. Returns the new
+ * query and where the caret goes, after the term.
+ */
+export function applyNameCompletion(
+	query: string, completion: NameCompletion, type: NameType, name: string,
+): { query: string; caret: number } {
+	const field = type === "player" && completion.field && FIELD_TYPES[completion.field]?.[0] === "player"
+		? completion.field
+		: type;
+	const term = `${field}:="${name}"`;
+	const after = query.substring(completion.end);
+	const separator = after === "" || !/^[\s)]/.test(after) ? " " : "";
+	return {
+		query: query.substring(0, completion.start) + term + separator + after,
+		caret: completion.start + term.length + separator.length,
+	};
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { NameIndex, mergeNameCounts } from "./NameIndex";
+
+function index(counts: Record<string, number>): NameIndex {
+	return new NameIndex(new Map(Object.entries(counts)));
+}
+
+describe("NameIndex", () => {
+	const names = index({
+		"Carlsen, Magnus": 40,
+		"Caruana, Fabiano": 55,
+		"carlsen, m": 3,
+		"Nakamura, Hikaru": 70,
+		"Carr, Alan": 3,
+		"?": 100,
+		"": 5,
+	});
+
+	it("matches prefixes ignoring case, most games first", () => {
+		expect(names.matchPrefix("car", 10)).toEqual([
+			{ name: "Caruana, Fabiano", games: 55 },
+			{ name: "Carlsen, Magnus", games: 40 },
+			{ name: "carlsen, m", games: 3 },
+			{ name: "Carr, Alan", games: 3 },
+		]);
+		expect(names.matchPrefix("CARLSEN", 10).map(n => n.name)).toEqual(["Carlsen, Magnus", "carlsen, m"]);
+	});
+
+	it("keeps the names in the most games up to the limit", () => {
+		expect(names.matchPrefix("car", 2).map(n => n.name)).toEqual(["Caruana, Fabiano", "Carlsen, Magnus"]);
+		expect(names.matchPrefix("", 1).map(n => n.name)).toEqual(["Nakamura, Hikaru"]);
+		expect(names.matchPrefix("car", 0)).toEqual([]);
+	});
+
+	it("leaves out unknown names", () => {
+		expect(names.size).toBe(5);
+		expect(names.matchPrefix("?", 10)).toEqual([]);
+	});
+
+	it("counts names in game headers once per game", () => {
+		const players = NameIndex.fromHeaders([
+			{ White: "Adams", Black: "Brown" },
+			{ White: "Brown", Black: "Adams" },
+			{ White: "Adams", Black: "Adams" },
+			{ Event: "Club" },
+		], "player");
+		expect(players.matchPrefix("", 10)).toEqual([{ name: "Adams", games: 3 }, { name: "Brown", games: 2 }]);
+	});
+});
+
+describe("mergeNameCounts", () => {
+	it("adds up the games of names from several sources", () => {
+		const merged = mergeNameCounts([
+			[{ name: "Adams", games: 2 }, { name: "Brown", games: 1 }],
+			[{ name: "Carter", games: 2 }, { name: "Brown", games: 2 }],
+		], 2);
+		expect(merged).toEqual([{ name: "Brown", games: 3 }, { name: "Adams", games: 2 }]);
+	});
+});
@@ -0,0 +1,128 @@
+import { GameHeaders } from "./GameProvider";
+
+/** The kinds of names a provider can complete. */
+export type NameType = "player" | "event" | "site";
+
+export interface NameCount {
+	name: string;
+	/** Number of games with the name. */
+	games: number;
+}
+
+/** Headers holding each kind of name. */
+export const NAME_HEADERS: Record<NameType, string[]> = {
+	player: ["White", "Black"],
+	event: ["Event"],
+	site: ["Site"],
+};
+
+/**
+ * Names of one kind with their game counts, sorted case-insensitively so a
+ * prefix is found by binary search. Unknown names ("?" or empty) are left
+ * out, as there is nothing to complete them to.
+ */
+export class NameIndex {
+	private names: NameCount[];
+	private keys: string[];
+
+	constructor(counts: Map<string, number>) {
+		this.names = [];
+		counts.forEach((games, name) => {
+			if (isKnownName(name) && games > 0) this.names.push({ name, games });
+		});
+		this.names.sort((a, b) => compareKeys(a.name.toLowerCase(), b.name.toLowerCase()) || compareKeys(a.name, b.name));
+		this.keys = this.names.map(n => n.name.toLowerCase());
+	}
+
+	/** Count the names of `type` in a list of games; a game counts once per name. */
+	static fromHeaders(games: GameHeaders[], type: NameType): NameIndex {
+		const counts = new Map<string, number>();
+		const headers = NAME_HEADERS[type];
+		for (const game of games) {
+			const seen = headers.map(h => game[h]).filter((name, i, all) => name !== undefined && all.indexOf(name) === i);
+			for (const name of seen) counts.set(name, (counts.get(name) ?? 0) + 1);
+		}
+		return new NameIndex(counts);
+	}
+
+	get size(): number {
+		return this.names.length;
+	}
+
+	/**
+	 * Up to `limit` names starting with `prefix` (ignoring case), those in the
+	 * most games first and ties by name.
+	 */
+	matchPrefix(prefix: string, limit: number): NameCount[] {
+		const key = prefix.toLowerCase();
+		const top: NameCount[] = [];
+		if (limit <= 0) return top;
+
+		for (let i = this.lowerBound(key); i < this.keys.length && this.keys[i].startsWith(key); i++) {
+			const candidate = this.names[i];
+			if (top.length === limit && !ranksBefore(candidate, top[limit - 1])) continue;
+			// Keep `top` sorted; it is short, so insert by scanning
+			let at = top.length;
+			while (at > 0 && ranksBefore(candidate, top[at - 1])) at--;
+			top.splice(at, 0, candidate);
+			if (top.length > limit) top.pop();
+		}
+		return top;
+	}
+
+	private lowerBound(key: string): number {
+		let lo = 0;
+		let hi = this.keys.length;
+		while (lo < hi) {
+			const mid = (lo + hi) >>> 1;
+			if (this.keys[mid] < key) lo = mid + 1;
+			else hi = mid;
+		}
+		return lo;
+	}
+}
+
+/** Name indexes built on first use, one per kind, kept until cleared. */
+export class NameIndexCache {
+	private indexes = new Map<NameType, NameIndex>();
+
+	async get(type: NameType, build: () => NameIndex | Promise<NameIndex>): Promise<NameIndex> {
+		let index = this.indexes.get(type);
+		if (!index) {
+			index = await build();
+			this.indexes.set(type, index);
+		}
+		return index;
+	}
+
+	clear(): void {
+		this.indexes.clear();
+	}
+}
+
+/**
+ * Merge name counts from several sources, adding up the games of names
+ * found in more than one, and keep the `limit` in the most games.
+ */
+export function mergeNameCounts(lists: NameCount[][], limit: number): NameCount[] {
+	const games = new Map<string, number>();
+	for (const list of lists) {
+		for (const { name, games: n } of list) games.set(name, (games.get(name) ?? 0) + n);
+	}
+	const merged: NameCount[] = [];
+	games.forEach((n, name) => merged.push({ name, games: n }));
+	return merged.sort((a, b) => ranksBefore(a, b) ? -1 : ranksBefore(b, a) ? 1 : 0).slice(0, limit);
+}
+
+function isKnownName(name: string): boolean {
+	const trimmed = name.trim();
+	return trimmed !== "" && trimmed !== "?";
+}
+
+function ranksBefore(a: NameCount, b: NameCount): boolean {
+	return a.games !== b.games ? a.games > b.games : compareKeys(a.name.toLowerCase(), b.name.toLowerCase()) < 0;
+}
+
+function compareKeys(a: string, b: string): number {
+	return a < b ? -1 : a > b ? 1 : 0;
+}
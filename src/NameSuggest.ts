@@ -0,0 +1,159 @@
+import { GameProvider } from "./GameProvider";
+import { NameCount, NameType } from "./NameIndex";
+import { NameCompletion, applyNameCompletion, nameCompletionAt } from "./NameCompletion";
+
+/** Names shown at most, and asked for of each kind when several fit. */
+const MAX_SUGGESTIONS = 8;
+const SUGGEST_DELAY_MS = 100;
+
+const TYPE_LABELS: Record<NameType, string> = {
+	player: "Player",
+	event: "Event",
+	site: "Site",
+};
+
+interface Suggestion extends NameCount {
+	type: NameType;
+}
+
+/**
+ * Completes the player, event or site name being typed in a search input
+ * from the open provider's names, in a list drawn below the input. Picking
+ * a name (click, or arrows and Enter or Tab) puts an exact term for it in
+ * place of what was typed and calls `onPick`.
+ */
+export class NameSuggest {
+	private listEl: HTMLElement;
+	private suggestions: Suggestion[] = [];
+	private completion: NameCompletion | null = null;
+	private selected = -1;
+	private timer: number | null = null;
+	/** Increases with every lookup, so a slow answer to an earlier one is dropped. */
+	private lookup = 0;
+
+	constructor(
+		private inputEl: HTMLInputElement,
+		container: HTMLElement,
+		private getProvider: () => GameProvider | null,
+		private onPick: () => void,
+	) {
+		this.listEl = container.createDiv("chess-journal-db-suggest");
+		this.listEl.style.display = "none";
+		inputEl.addEventListener("input", () => this.schedule());
+		inputEl.addEventListener("keydown", e => this.onKeyDown(e));
+		inputEl.addEventListener("blur", () => this.close());
+	}
+
+	close(): void {
+		if (this.timer !== null) {
+			window.clearTimeout(this.timer);
+			this.timer = null;
+		}
+		this.lookup++;
+		this.suggestions = [];
+		this.completion = null;
+		this.selected = -1;
+		this.listEl.style.display = "none";
+	}
+
+	private schedule(): void {
+		if (this.timer !== null) window.clearTimeout(this.timer);
+		this.timer = window.setTimeout(() => {
+			this.timer = null;
+			void this.update();
+		}, SUGGEST_DELAY_MS);
+	}
+
+	private async update(): Promise<void> {
+		const lookup = ++this.lookup;
+		const provider = this.getProvider();
+		const completion = nameCompletionAt(this.inputEl.value, this.inputEl.selectionStart ?? this.inputEl.value.length);
+		if (!provider || !completion) {
+			this.close();
+			return;
+		}
+
+		let suggestions: Suggestion[];
+		try {
+			const lists = await Promise.all(completion.types.map(async type =>
+				(await provider.searchNames(type, completion.prefix, MAX_SUGGESTIONS)).map(n => ({ ...n, type }))));
+			suggestions = ([] as Suggestion[]).concat(...lists)
+				// A query cannot quote a name holding a quote
+				.filter(s => !s.name.includes("\""))
+				.sort((a, b) => b.games - a.games)
+				.slice(0, MAX_SUGGESTIONS);
+		} catch {
+			// Suggestions are a convenience; the search itself reports problems with the source
+			suggestions = [];
+		}
+		if (lookup !== this.lookup) return;
+
+		if (suggestions.length === 0) {
+			this.close();
+			return;
+		}
+		this.suggestions = suggestions;
+		this.completion = completion;
+		this.selected = -1;
+		this.render();
+	}
+
+	private render(): void {
+		this.listEl.empty();
+		this.suggestions.forEach((s, i) => {
+			const item = this.listEl.createDiv({ cls: "chess-journal-db-suggest-item" });
+			item.toggleClass("is-selected", i === this.selected);
+			item.createSpan({ cls: "chess-journal-db-suggest-name", text: s.name });
+			item.createSpan({
+				cls: "chess-journal-db-suggest-meta",
+				text: `${TYPE_LABELS[s.type]} · ${s.games.toLocaleString()} ${s.games === 1 ? "game" : "games"}`,
+			});
+			// mousedown rather than click, which would come after the input's blur has closed the list
+			item.addEventListener("mousedown", e => {
+				e.preventDefault();
+				this.pick(i);
+			});
+		});
+		this.listEl.style.display = "";
+	}
+
+	private onKeyDown(e: KeyboardEvent): void {
+		if (this.suggestions.length === 0) return;
+		switch (e.key) {
+			case "ArrowDown":
+			case "ArrowUp": {
+				const step = e.key === "ArrowDown" ? 1 : -1;
+				// Past either end the selection goes back to the text as typed
+				const count = this.suggestions.length;
+				this.selected = (this.selected + 1 + step + count + 1) % (count + 1) - 1;
+				this.render();
+				break;
+			}
+			case "Enter":
+			case "Tab":
+				if (this.selected < 0) {
+					if (e.key === "Enter") this.close();
+					return;
+				}
+				this.pick(this.selected);
+				break;
+			case "Escape":
+				this.close();
+				break;
+			default:
+				return;
+		}
+		e.preventDefault();
+	}
+
+	private pick(i: number): void {
+		const suggestion = this.suggestions[i];
+		const completion = this.completion;
+		if (!suggestion || !completion) return;
+		const { query, caret } = applyNameCompletion(this.inputEl.value, completion, suggestion.type, suggestion.name);
+		this.close();
+		this.inputEl.value = query;
+		this.inputEl.setSelectionRange(caret, caret);
+		this.onPick();
+	}
+}
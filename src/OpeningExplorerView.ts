@@ -5,6 +5,9 @@ import { ChessJournalSettings } from "./settings";
 import { createOpeningNote } from "./createOpeningNote";
 import { ECO_DATA, EcoEntry } from "./eco-data";
 import { RepertoireData, RepertoireNode } from "./RepertoireTypes";
+import { LichessMastersProvider } from "./LichessMastersProvider";
+import { ExplorerStatsSection } from "./ExplorerStatsSection";
+import { getGameSourceExplorer } from "./getGameSourceExplorer";
 
 export const VIEW_TYPE_OPENING_EXPLORER = "chess-journal-opening-explorer";
 
@@ -115,6 +118,8 @@ function buildMoveTree(): { roots: MoveTreeNode[], lookup: Map<string, MoveTreeN
 
 const { roots: MOVE_TREE, lookup: MOVE_NODE_LOOKUP } = buildMoveTree();
 
+const START_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
 // ---------------------------------------------------------------------------
 // View
 // ---------------------------------------------------------------------------
@@ -140,9 +145,15 @@ export class OpeningExplorerView extends ItemView {
 	private currentBoard: Chessboard | null = null;
 	private boardRafId: number | null = null;
 
+	// Move statistics
+	private showStats = false;
+	private readonly mastersSection: ExplorerStatsSection;
+	private personalSection: ExplorerStatsSection | null = null;
+
 	constructor(leaf: WorkspaceLeaf, settings: ChessJournalSettings) {
 		super(leaf);
 		this.settings = settings;
+		this.mastersSection = new ExplorerStatsSection(new LichessMastersProvider(settings), "Masters", () => this.render());
 	}
 
 	getViewType(): string { return VIEW_TYPE_OPENING_EXPLORER; }
@@ -158,6 +169,7 @@ export class OpeningExplorerView extends ItemView {
 			expandedMovePaths: [...this.expandedMovePaths],
 			selectedNodeKey: this.selectedNodeKey,
 			showBoard: this.showBoard,
+			showStats: this.showStats,
 		};
 	}
 
@@ -169,6 +181,7 @@ export class OpeningExplorerView extends ItemView {
 		if (Array.isArray(state.expandedMovePaths)) this.expandedMovePaths = new Set(state.expandedMovePaths as string[]);
 		if (typeof state.selectedNodeKey === "string") this.selectedNodeKey = state.selectedNodeKey;
 		if (typeof state.showBoard === "boolean") this.showBoard = state.showBoard;
+		if (typeof state.showStats === "boolean") this.showStats = state.showStats;
 		this.render();
 		return super.setState(state, result);
 	}
@@ -180,6 +193,8 @@ export class OpeningExplorerView extends ItemView {
 	async onClose(): Promise<void> {
 		if (this.searchTimeout !== null) window.clearTimeout(this.searchTimeout);
 		this.destroyBoard();
+		this.mastersSection.cancel();
+		this.personalSection?.cancel();
 	}
 
 	private destroyBoard(): void {
@@ -220,10 +235,7 @@ export class OpeningExplorerView extends ItemView {
 			if (this.showBoard && this.viewMode === "moves") {
 				const boardEl = this.contentEl.querySelector<HTMLElement>(".chess-journal-explorer-board");
 				if (boardEl) {
-					const node = this.selectedNodeKey ? MOVE_NODE_LOOKUP.get(this.selectedNodeKey) : null;
-					const fen = node?.entry.epd
-						? node.entry.epd + " 0 1"
-						: "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+					const fen = this.getSelectedFen();
 					this.currentBoard = new Chessboard(boardEl, {
 						position: fen,
 						assetsUrl: "",
@@ -436,12 +448,64 @@ export class OpeningExplorerView extends ItemView {
 			boardWrap.createDiv({ cls: "chess-journal-explorer-board" });
 		}
 
+		// Collapsible move statistics for the selected position
+		const statsHeader = container.createDiv({ cls: "chess-journal-explorer-board-header" });
+		const statsToggle = statsHeader.createSpan({ cls: "chess-journal-explorer-toggle" });
+		setIcon(statsToggle, this.showStats ? "chevron-down" : "chevron-right");
+		statsHeader.createSpan({ text: "Statistics" });
+		statsHeader.addEventListener("click", () => {
+			this.showStats = !this.showStats;
+			this.render();
+		});
+
+		if (this.showStats) {
+			const statsEl = container.createDiv({ cls: "chess-journal-explorer-stats" });
+			this.renderStatsSections(statsEl);
+		}
+
 		const tree = container.createDiv({ cls: "chess-journal-explorer-tree" });
 		for (const root of MOVE_TREE) {
 			this.renderMoveNode(tree, root, 0);
 		}
 	}
 
+	private getSelectedFen(): string {
+		const node = this.selectedNodeKey ? MOVE_NODE_LOOKUP.get(this.selectedNodeKey) : null;
+		return node?.entry.epd ? node.entry.epd + " 0 1" : START_FEN;
+	}
+
+	private renderStatsSections(container: HTMLElement): void {
+		const personal = getGameSourceExplorer(this.settings);
+		if (personal !== this.personalSection?.provider) {
+			this.personalSection?.cancel();
+			this.personalSection = personal
+				? new ExplorerStatsSection(personal, personal.name, () => this.render())
+				: null;
+		}
+
+		const fen = this.getSelectedFen();
+		const key = this.selectedNodeKey ?? "";
+		const onMove = (san: string) => this.playStatsMove(fen, san);
+		this.mastersSection.render(container, fen, key, onMove);
+		this.personalSection?.render(container, fen, key, onMove);
+	}
+
+	/** Select the named opening reached by playing `san`, if there is one. */
+	private playStatsMove(fen: string, san: string): void {
+		const chess = new Chess(fen);
+		try {
+			chess.move(san);
+		} catch {
+			return;
+		}
+		const epd = chess.fen().split(" ").slice(0, 4).join(" ");
+		if (!ECO_DATA.some(e => e.epd === epd)) {
+			new Notice(`No named opening after ${san}`);
+			return;
+		}
+		this.navigateToEpd(epd);
+	}
+
 	private async addLineToRepertoire(moves: string[], repFile: TFile): Promise<void> {
 		try {
 			const raw = await this.app.vault.read(repFile);
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { PgnIndexer, PgnGameIndex, buildPgnIndex, readPgnIndex, readPgnTags, writePgnIndex } from "./PgnIndex";
+import { PgnProvider } from "./PgnProvider";
+
+const GAME_1 = `[Event "Café Open"]
+[White "Müller"]
+[Black "Smith"]
+[Result "1-0"]
+
+1.e4 e5 2.Nf3 1-0`;
+
+const GAME_2 = `[Event "Club"]
+[White "Jones"]
+[Black "Brown"]
+[Result "0-1"]
+
+1.d4 {A comment
+
+with a blank line} d5 0-1`;
+
+const CONTENT = GAME_1 + "\n\n" + GAME_2 + "\n";
+
+function indexText(text: string, chunkSize = Infinity): PgnGameIndex[] {
+	const bytes = Buffer.from(text, "utf8");
+	const indexer = new PgnIndexer();
+	for (let i = 0; i < bytes.length; i += chunkSize) {
+		indexer.push(bytes.subarray(i, Math.min(bytes.length, i + chunkSize)));
+	}
+	return indexer.finish();
+}
+
+function gameText(text: string, game: PgnGameIndex): string {
+	return Buffer.from(text, "utf8").toString("utf8", game.start, game.end);
+}
+
+describe("PgnIndexer", () => {
+	it("finds games and their tags", () => {
+		const games = indexText(CONTENT);
+		expect(games).toHaveLength(2);
+		expect(games[0].headers).toEqual({ Event: "Café Open", White: "Müller", Black: "Smith", Result: "1-0" });
+		expect(games[1].headers.White).toBe("Jones");
+	});
+
+	it("records byte offsets of each game", () => {
+		const games = indexText(CONTENT);
+		expect(gameText(CONTENT, games[0])).toBe(GAME_1);
+		expect(gameText(CONTENT, games[1])).toBe(GAME_2);
+	});
+
+	it("gives the same result however the text is chunked", () => {
+		const whole = indexText(CONTENT);
+		for (const size of [1, 2, 3, 7, 64]) {
+			expect(indexText(CONTENT, size)).toEqual(whole);
+		}
+	});
+
+	it("handles CRLF line endings and a byte order mark", () => {
+		const text = "﻿" + CONTENT.replace(/\n/g, "\r\n");
+		const games = indexText(text, 5);
+		expect(games).toHaveLength(2);
+		expect(games[0].headers.Result).toBe("1-0");
+		expect(gameText(text, games[0])).toBe(GAME_1.replace(/\n/g, "\r\n"));
+	});
+
+	it("skips text without tags", () => {
+		const games = indexText("Some notes about the file\n\n" + CONTENT);
+		expect(games).toHaveLength(2);
+	});
+
+	it("keeps only the indexed tags", () => {
+		const games = indexText(`[Event "Blitz"]\n[Link "https://example.com/1"]\n[White "A"]\n\n1.e4 *\n\n` +
+			`[Annotator "B"]\n\n1.d4 *`);
+		expect(games).toHaveLength(2);
+		expect(games[0].headers).toEqual({ Event: "Blitz", White: "A" });
+		expect(games[1].headers).toEqual({});
+	});
+});
+
+describe("readPgnTags", () => {
+	it("reads every tag before the movetext", () => {
+		expect(readPgnTags(`[Event "Blitz"]\r\n[Link "https://example.com/1"]\r\n\r\n1.e4 {[%clk 0:03:00]} *`))
+			.toEqual({ Event: "Blitz", Link: "https://example.com/1" });
+	});
+});
+
+describe("saved index", () => {
+	let dir: string;
+	let pgnPath: string;
+	let indexDir: string;
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "pgn-index-test-"));
+		pgnPath = path.join(dir, "games.pgn");
+		indexDir = path.join(dir, "index");
+		fs.writeFileSync(pgnPath, CONTENT);
+	});
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("streams a file", async () => {
+		expect(await buildPgnIndex(pgnPath)).toEqual(indexText(CONTENT));
+	});
+
+	it("round-trips through the index file", async () => {
+		const games = await buildPgnIndex(pgnPath);
+		const stamp = { size: 100, mtimeMs: 12345.5 };
+		await writePgnIndex(indexDir, pgnPath, stamp, games);
+		expect(await readPgnIndex(indexDir, pgnPath, stamp)).toEqual(games);
+	});
+
+	it("ignores an index built from another version of the file", async () => {
+		const games = await buildPgnIndex(pgnPath);
+		await writePgnIndex(indexDir, pgnPath, { size: 100, mtimeMs: 1 }, games);
+		expect(await readPgnIndex(indexDir, pgnPath, { size: 101, mtimeMs: 1 })).toBeNull();
+		expect(await readPgnIndex(indexDir, pgnPath, { size: 100, mtimeMs: 2 })).toBeNull();
+	});
+
+	it("returns null when there is no index", async () => {
+		expect(await readPgnIndex(indexDir, pgnPath, { size: 1, mtimeMs: 1 })).toBeNull();
+	});
+
+	it("returns null for a corrupt index", async () => {
+		const games = await buildPgnIndex(pgnPath);
+		const stamp = { size: 100, mtimeMs: 1 };
+		await writePgnIndex(indexDir, pgnPath, stamp, games);
+		const [file] = fs.readdirSync(indexDir);
+		fs.appendFileSync(path.join(indexDir, file), "[12, 3");
+		expect(await readPgnIndex(indexDir, pgnPath, stamp)).toBeNull();
+	});
+
+	describe("PgnProvider", () => {
+		it("reads games from the file by offset", async () => {
+			const provider = new PgnProvider(pgnPath, indexDir);
+			await provider.open();
+			expect(await provider.getGameCount()).toBe(2);
+			expect(await provider.getGamePgn(0)).toBe(GAME_1);
+			expect(await provider.getGamePgn(1)).toBe(GAME_2);
+			provider.close();
+		});
+
+		it("reuses the saved index for an unchanged file", async () => {
+			const first = new PgnProvider(pgnPath, indexDir);
+			await first.open();
+			first.close();
+			expect(fs.readdirSync(indexDir)).toHaveLength(1);
+
+			// Tamper with the saved tags to show they are what the second open uses
+			const [file] = fs.readdirSync(indexDir);
+			const indexPath = path.join(indexDir, file);
+			fs.writeFileSync(indexPath, fs.readFileSync(indexPath, "utf8").replace("Jones", "Cached"));
+
+			const second = new PgnProvider(pgnPath, indexDir);
+			await second.open();
+			expect((await second.getGames(1, 1))[0].headers.White).toBe("Cached");
+			second.close();
+		});
+
+		it("searches plain text in the index and other tags in the file", async () => {
+			const provider = new PgnProvider(pgnPath, indexDir);
+			await provider.open();
+			// Same-length edits after indexing tell the index and the file apart
+			const edited = fs.readFileSync(pgnPath, "utf8").replace("Müller", "Zzzzzzz").replace('[Event "Club"]', '[Annot "Club"]');
+			fs.writeFileSync(pgnPath, edited);
+
+			expect((await provider.search("zzzz", 0, 10)).total).toBe(0);
+			expect((await provider.search("müller", 0, 10)).games.map(g => g.index)).toEqual([0]);
+			expect((await provider.search("annot:club", 0, 10)).games.map(g => g.index)).toEqual([1]);
+			provider.close();
+		});
+
+		it("reindexes a file that has changed", async () => {
+			const first = new PgnProvider(pgnPath, indexDir);
+			await first.open();
+			first.close();
+
+			fs.appendFileSync(pgnPath, "\n" + GAME_1.replace("Müller", "Nakamura") + "\n");
+			const second = new PgnProvider(pgnPath, indexDir);
+			await second.open();
+			expect(await second.getGameCount()).toBe(3);
+			expect(await second.getGamePgn(2)).toContain("Nakamura");
+			second.close();
+		});
+	});
+});
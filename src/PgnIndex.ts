@@ -0,0 +1,279 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+import { createHash } from "crypto";
+import { GameHeaders } from "./GameProvider";
+import { ProviderTask, CancelledError } from "./ProviderTask";
+
+/**
+ * Byte range of one game in a PGN file, with its INDEXED_TAGS. The other
+ * tags are read back from the file when needed (readPgnTags).
+ */
+export interface PgnGameIndex {
+	start: number;
+	end: number;
+	headers: GameHeaders;
+}
+
+/** Identifies the version of a file an index was built from. */
+export interface PgnFileStamp {
+	size: number;
+	mtimeMs: number;
+}
+
+/**
+ * Tags kept in the index: the Seven Tag Roster and those the game list shows
+ * and sorts on and player statistics read. Keeping only these holds memory
+ * down for files of millions of games.
+ */
+export const INDEXED_TAGS: readonly string[] = [
+	"Event", "Site", "Date", "Round", "White", "Black", "Result",
+	"WhiteElo", "BlackElo", "ECO", "Opening", "PlyCount", "TimeControl",
+];
+const INDEXED_TAG_SET = new Set(INDEXED_TAGS);
+
+const INDEX_VERSION = 2;
+const READ_CHUNK_SIZE = 1 << 20;
+const HEADER_REGEX = /^\[(\w+)\s+"(.*)"\]/;
+
+const LF = 0x0a;
+const CR = 0x0d;
+const SPACE = 0x20;
+const TAB = 0x09;
+const OPEN_BRACKET = 0x5b;
+
+/**
+ * Finds the games in PGN text fed to it in chunks. A game starts at a tag
+ * line at the beginning of the text or after a blank line, and ends at its
+ * last non-blank line. Offsets are in bytes so games can be read back from
+ * the file directly.
+ */
+export class PgnIndexer {
+	private games: PgnGameIndex[] = [];
+	private current: PgnGameIndex | null = null;
+	/** Whether the current game has any tag, indexed or not. */
+	private currentHasTags = false;
+	private inHeaders = false;
+	private prevBlank = true;
+	private carry: Buffer | null = null;
+	/** Byte offset of the start of `carry`, or of the next chunk. */
+	private offset = 0;
+
+	push(chunk: Buffer): void {
+		const buf = this.carry ? Buffer.concat([this.carry, chunk]) : chunk;
+		let lineStart = 0;
+		for (;;) {
+			const newline = buf.indexOf(LF, lineStart);
+			if (newline === -1) break;
+			this.processLine(buf, lineStart, newline);
+			lineStart = newline + 1;
+		}
+		this.offset += lineStart;
+		this.carry = lineStart < buf.length ? buf.subarray(lineStart) : null;
+	}
+
+	finish(): PgnGameIndex[] {
+		if (this.carry) {
+			this.processLine(this.carry, 0, this.carry.length);
+			this.carry = null;
+		}
+		this.endGame();
+		return this.games;
+	}
+
+	private processLine(buf: Buffer, start: number, end: number): void {
+		// Skip a UTF-8 byte order mark at the start of the file
+		if (this.offset + start === 0 && buf[0] === 0xef && buf[1] === 0xbb && buf[2] === 0xbf) {
+			start = 3;
+		}
+		if (end > start && buf[end - 1] === CR) end--;
+
+		let first = start;
+		while (first < end && (buf[first] === SPACE || buf[first] === TAB)) first++;
+		if (first === end) {
+			this.prevBlank = true;
+			this.inHeaders = false;
+			return;
+		}
+
+		const isTag = buf[start] === OPEN_BRACKET;
+		if (isTag && this.prevBlank) {
+			this.endGame();
+			this.current = { start: this.offset + start, end: this.offset + end, headers: {} };
+			this.currentHasTags = false;
+			this.inHeaders = true;
+		} else if (!isTag) {
+			this.inHeaders = false;
+		}
+
+		if (this.current) {
+			if (this.inHeaders) {
+				const match = HEADER_REGEX.exec(buf.toString("utf8", start, end));
+				if (match) {
+					this.currentHasTags = true;
+					if (INDEXED_TAG_SET.has(match[1])) this.current.headers[match[1]] = match[2];
+				}
+			}
+			this.current.end = this.offset + end;
+		}
+		this.prevBlank = false;
+	}
+
+	private endGame(): void {
+		// Only index games that have at least one header
+		if (this.current && this.currentHasTags) {
+			this.games.push(this.current);
+		}
+		this.current = null;
+	}
+}
+
+/** Stream a PGN file and index its games, reporting progress in bytes. */
+export function buildPgnIndex(pgnPath: string, task?: ProviderTask): Promise<PgnGameIndex[]> {
+	return new Promise((resolve, reject) => {
+		const indexer = new PgnIndexer();
+		const total = fs.statSync(pgnPath).size;
+		const stream = fs.createReadStream(pgnPath, { highWaterMark: READ_CHUNK_SIZE });
+		const onAbort = () => {
+			stream.destroy();
+			reject(new CancelledError());
+		};
+		if (task?.signal?.aborted) return onAbort();
+		task?.signal?.addEventListener("abort", onAbort);
+
+		stream.on("data", chunk => {
+			indexer.push(chunk as Buffer);
+			task?.onProgress?.(stream.bytesRead, total);
+		});
+		stream.on("error", reject);
+		stream.on("end", () => resolve(indexer.finish()));
+		stream.on("close", () => task?.signal?.removeEventListener("abort", onAbort));
+	});
+}
+
+/** Every tag pair at the start of a game's text, as the indexer reads them. */
+export function readPgnTags(pgn: string): GameHeaders {
+	const headers: GameHeaders = {};
+	for (const line of pgn.split("\n")) {
+		const match = HEADER_REGEX.exec(line.trim());
+		if (!match) break;
+		headers[match[1]] = match[2];
+	}
+	return headers;
+}
+
+function indexFilePath(indexDir: string, pgnPath: string): string {
+	const hash = createHash("sha1").update(path.resolve(pgnPath)).digest("hex");
+	return path.join(indexDir, `${hash}.idx`);
+}
+
+/**
+ * Load the saved index for `pgnPath`, or null if there is none or it was
+ * built from a different version of the file.
+ *
+ * The index file is a JSON header line followed by one JSON array per game:
+ * start, end, then alternating tag names and values.
+ */
+export function readPgnIndex(
+	indexDir: string, pgnPath: string, stamp: PgnFileStamp, task?: ProviderTask,
+): Promise<PgnGameIndex[] | null> {
+	return new Promise((resolve, reject) => {
+		const games: PgnGameIndex[] = [];
+		let valid: boolean | null = null;
+
+		const file = indexFilePath(indexDir, pgnPath);
+		const stream = fs.createReadStream(file);
+		const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+		const fail = () => {
+			valid = false;
+			lines.close();
+			stream.destroy();
+		};
+		const onAbort = () => {
+			fail();
+			reject(new CancelledError());
+		};
+		if (task?.signal?.aborted) return onAbort();
+		task?.signal?.addEventListener("abort", onAbort);
+		stream.on("close", () => task?.signal?.removeEventListener("abort", onAbort));
+		if (task?.onProgress) {
+			const total = fs.existsSync(file) ? fs.statSync(file).size : 0;
+			stream.on("data", () => task.onProgress!(stream.bytesRead, total));
+		}
+
+		lines.on("line", line => {
+			if (valid === false) return;
+			try {
+				if (valid === null) {
+					const header = JSON.parse(line);
+					valid = header.version === INDEX_VERSION &&
+						header.path === path.resolve(pgnPath) &&
+						header.size === stamp.size &&
+						header.mtimeMs === stamp.mtimeMs;
+					if (!valid) fail();
+					return;
+				}
+				const fields = JSON.parse(line) as (number | string)[];
+				const headers: GameHeaders = {};
+				for (let i = 2; i + 1 < fields.length; i += 2) {
+					headers[fields[i] as string] = fields[i + 1] as string;
+				}
+				games.push({ start: fields[0] as number, end: fields[1] as number, headers });
+			} catch {
+				fail();
+			}
+		});
+		// A missing index shows up as a read error (forwarded by readline on newer Node)
+		stream.on("error", () => resolve(null));
+		lines.on("error", () => resolve(null));
+		lines.on("close", () => resolve(valid ? games : null));
+	});
+}
+
+/** Save the index for `pgnPath`, replacing any earlier one. */
+export async function writePgnIndex(
+	indexDir: string, pgnPath: string, stamp: PgnFileStamp, games: PgnGameIndex[],
+): Promise<void> {
+	await fs.promises.mkdir(indexDir, { recursive: true });
+	const target = indexFilePath(indexDir, pgnPath);
+	const temp = `${target}.${process.pid}.tmp`;
+
+	try {
+		await writeIndexFile(temp, pgnPath, stamp, games);
+		// Rename into place so a reader never sees a partly written index
+		await fs.promises.rename(temp, target);
+	} catch (e) {
+		await fs.promises.unlink(temp).catch(() => {});
+		throw e;
+	}
+}
+
+function writeIndexFile(file: string, pgnPath: string, stamp: PgnFileStamp, games: PgnGameIndex[]): Promise<void> {
+	return new Promise<void>((resolve, reject) => {
+		const out = fs.createWriteStream(file);
+		out.on("error", reject);
+		out.on("finish", resolve);
+
+		const header = { version: INDEX_VERSION, path: path.resolve(pgnPath), size: stamp.size, mtimeMs: stamp.mtimeMs };
+		let i = 0;
+		const writeGames = () => {
+			let ok = true;
+			while (i < games.length && ok) {
+				const game = games[i++];
+				const fields: (number | string)[] = [game.start, game.end];
+				for (const key of Object.keys(game.headers)) {
+					fields.push(key, game.headers[key]);
+				}
+				ok = out.write(JSON.stringify(fields) + "\n");
+			}
+			if (i < games.length) {
+				out.once("drain", writeGames);
+			} else {
+				out.end();
+			}
+		};
+
+		out.write(JSON.stringify(header) + "\n");
+		writeGames();
+	});
+}
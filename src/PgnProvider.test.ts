@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { PgnProvider } from "./PgnProvider";
+import { GameQueryError } from "./GameQuery";
+import { PositionSearchError } from "./PositionSearch";
 
 function createProvider(content: string): PgnProvider {
 	const provider = new PgnProvider();
@@ -42,27 +44,27 @@ const GAME_3 = `[Event "Other Event"]
 
 describe("PgnProvider", () => {
 	describe("game splitting with Unix line endings (LF)", () => {
-		it("parses a single game", () => {
+		it("parses a single game", async () => {
 			const provider = createProvider(GAME_1);
-			expect(provider.getGameCount()).toBe(1);
+			expect(await provider.getGameCount()).toBe(1);
 		});
 
-		it("parses multiple games separated by blank lines", () => {
+		it("parses multiple games separated by blank lines", async () => {
 			const content = GAME_1 + "\n\n" + GAME_2 + "\n\n" + GAME_3;
 			const provider = createProvider(content);
-			expect(provider.getGameCount()).toBe(3);
+			expect(await provider.getGameCount()).toBe(3);
 		});
 
-		it("handles extra blank lines between games", () => {
+		it("handles extra blank lines between games", async () => {
 			const content = GAME_1 + "\n\n\n\n" + GAME_2;
 			const provider = createProvider(content);
-			expect(provider.getGameCount()).toBe(2);
+			expect(await provider.getGameCount()).toBe(2);
 		});
 
-		it("handles trailing newlines", () => {
+		it("handles trailing newlines", async () => {
 			const content = GAME_1 + "\n\n" + GAME_2 + "\n\n";
 			const provider = createProvider(content);
-			expect(provider.getGameCount()).toBe(2);
+			expect(await provider.getGameCount()).toBe(2);
 		});
 	});
 
@@ -71,28 +73,28 @@ describe("PgnProvider", () => {
 			return s.replace(/\n/g, "\r\n");
 		}
 
-		it("parses a single game with CRLF", () => {
+		it("parses a single game with CRLF", async () => {
 			const provider = createProvider(toCRLF(GAME_1));
-			expect(provider.getGameCount()).toBe(1);
+			expect(await provider.getGameCount()).toBe(1);
 		});
 
-		it("parses multiple games separated by CRLF blank lines", () => {
+		it("parses multiple games separated by CRLF blank lines", async () => {
 			const content = toCRLF(GAME_1) + "\r\n\r\n" + toCRLF(GAME_2) + "\r\n\r\n" + toCRLF(GAME_3);
 			const provider = createProvider(content);
-			expect(provider.getGameCount()).toBe(3);
+			expect(await provider.getGameCount()).toBe(3);
 		});
 
-		it("handles extra CRLF blank lines between games", () => {
+		it("handles extra CRLF blank lines between games", async () => {
 			const content = toCRLF(GAME_1) + "\r\n\r\n\r\n\r\n" + toCRLF(GAME_2);
 			const provider = createProvider(content);
-			expect(provider.getGameCount()).toBe(2);
+			expect(await provider.getGameCount()).toBe(2);
 		});
 	});
 
 	describe("header parsing", () => {
-		it("extracts all headers from a game", () => {
+		it("extracts all headers from a game", async () => {
 			const provider = createProvider(GAME_1);
-			const games = provider.getGames(0, 1);
+			const games = await provider.getGames(0, 1);
 			expect(games[0].headers["Event"]).toBe("Test Tournament");
 			expect(games[0].headers["White"]).toBe("Player A");
 			expect(games[0].headers["Black"]).toBe("Player B");
@@ -103,9 +105,9 @@ describe("PgnProvider", () => {
 			expect(games[0].headers["Round"]).toBe("1");
 		});
 
-		it("parses headers with CRLF line endings", () => {
+		it("parses headers with CRLF line endings", async () => {
 			const provider = createProvider(GAME_1.replace(/\n/g, "\r\n"));
-			const games = provider.getGames(0, 1);
+			const games = await provider.getGames(0, 1);
 			expect(games[0].headers["White"]).toBe("Player A");
 			expect(games[0].headers["Black"]).toBe("Player B");
 		});
@@ -119,25 +121,25 @@ describe("PgnProvider", () => {
 			provider = createProvider(content);
 		});
 
-		it("returns all games when limit exceeds count", () => {
-			const games = provider.getGames(0, 100);
+		it("returns all games when limit exceeds count", async () => {
+			const games = await provider.getGames(0, 100);
 			expect(games.length).toBe(3);
 		});
 
-		it("returns correct slice with offset and limit", () => {
-			const games = provider.getGames(1, 1);
+		it("returns correct slice with offset and limit", async () => {
+			const games = await provider.getGames(1, 1);
 			expect(games.length).toBe(1);
 			expect(games[0].headers["White"]).toBe("Player C");
 			expect(games[0].index).toBe(1);
 		});
 
-		it("returns empty array when offset is past end", () => {
-			const games = provider.getGames(10, 10);
+		it("returns empty array when offset is past end", async () => {
+			const games = await provider.getGames(10, 10);
 			expect(games.length).toBe(0);
 		});
 
-		it("assigns correct indices", () => {
-			const games = provider.getGames(0, 3);
+		it("assigns correct indices", async () => {
+			const games = await provider.getGames(0, 3);
 			expect(games[0].index).toBe(0);
 			expect(games[1].index).toBe(1);
 			expect(games[2].index).toBe(2);
@@ -152,40 +154,40 @@ describe("PgnProvider", () => {
 			provider = createProvider(content);
 		});
 
-		it("returns full PGN text for a game", () => {
-			const pgn = provider.getGamePgn(0);
+		it("returns full PGN text for a game", async () => {
+			const pgn = await provider.getGamePgn(0);
 			expect(pgn).toContain('[White "Player A"]');
 			expect(pgn).toContain("1.e4 d5");
 			expect(pgn).toContain("1-0");
 		});
 
-		it("returns correct PGN for second game", () => {
-			const pgn = provider.getGamePgn(1);
+		it("returns correct PGN for second game", async () => {
+			const pgn = await provider.getGamePgn(1);
 			expect(pgn).toContain('[White "Player C"]');
 			expect(pgn).toContain("1.e4 e5");
 		});
 
-		it("returns correct PGN for third game", () => {
-			const pgn = provider.getGamePgn(2);
+		it("returns correct PGN for third game", async () => {
+			const pgn = await provider.getGamePgn(2);
 			expect(pgn).toContain('[White "Smith, John"]');
 			expect(pgn).toContain("1.d4 d5");
 		});
 
-		it("does not include content from adjacent games", () => {
-			const pgn = provider.getGamePgn(0);
+		it("does not include content from adjacent games", async () => {
+			const pgn = await provider.getGamePgn(0);
 			expect(pgn).not.toContain("Player C");
 			expect(pgn).not.toContain("Player D");
 		});
 
-		it("returns empty string for invalid index", () => {
-			expect(provider.getGamePgn(99)).toBe("");
-			expect(provider.getGamePgn(-1)).toBe("");
+		it("returns empty string for invalid index", async () => {
+			expect(await provider.getGamePgn(99)).toBe("");
+			expect(await provider.getGamePgn(-1)).toBe("");
 		});
 
-		it("returns valid PGN for games with CRLF endings", () => {
+		it("returns valid PGN for games with CRLF endings", async () => {
 			const crlfContent = content.replace(/\n/g, "\r\n");
 			const crlfProvider = createProvider(crlfContent);
-			const pgn = crlfProvider.getGamePgn(1);
+			const pgn = await crlfProvider.getGamePgn(1);
 			expect(pgn).toContain('[White "Player C"]');
 			expect(pgn).toContain("1.e4 e5");
 		});
@@ -199,76 +201,158 @@ describe("PgnProvider", () => {
 			provider = createProvider(content);
 		});
 
-		it("finds games by player name", () => {
-			const result = provider.search("Player A", 0, 50);
+		it("finds games by player name", async () => {
+			const result = await provider.search("Player A", 0, 50);
 			expect(result.total).toBe(1);
 			expect(result.games[0].headers["White"]).toBe("Player A");
 		});
 
-		it("search is case-insensitive", () => {
-			const result = provider.search("player a", 0, 50);
+		it("search is case-insensitive", async () => {
+			const result = await provider.search("player a", 0, 50);
 			expect(result.total).toBe(1);
 		});
 
-		it("finds games by event name", () => {
-			const result = provider.search("Other Event", 0, 50);
+		it("finds games by event name", async () => {
+			const result = await provider.search("Other Event", 0, 50);
 			expect(result.total).toBe(1);
 			expect(result.games[0].headers["White"]).toBe("Smith, John");
 		});
 
-		it("finds games by site", () => {
-			const result = provider.search("Paris", 0, 50);
+		it("finds games by site", async () => {
+			const result = await provider.search("Paris", 0, 50);
 			expect(result.total).toBe(1);
 		});
 
-		it("finds games by ECO code", () => {
-			const result = provider.search("C50", 0, 50);
+		it("finds games by ECO code", async () => {
+			const result = await provider.search("C50", 0, 50);
 			expect(result.total).toBe(1);
 			expect(result.games[0].headers["White"]).toBe("Player C");
 		});
 
-		it("returns multiple matches", () => {
-			const result = provider.search("Test Tournament", 0, 50);
+		it("returns multiple matches", async () => {
+			const result = await provider.search("Test Tournament", 0, 50);
 			expect(result.total).toBe(2);
 		});
 
-		it("returns empty results for no match", () => {
-			const result = provider.search("nonexistent", 0, 50);
+		it("matches tags that are not indexed", async () => {
+			const game = `[White "Player D"]\n[Black "Player E"]\n[Annotator "Kasparov"]\n\n1. e4 *`;
+			provider = createProvider(GAME_1 + "\n\n" + game);
+			expect((await provider.getGames(1, 1))[0].headers["Annotator"]).toBeUndefined();
+			expect((await provider.getGameHeaders(1))["Annotator"]).toBe("Kasparov");
+			expect((await provider.search("annotator:kasparov", 0, 50)).games.map(g => g.index)).toEqual([1]);
+			// Plain text only searches the indexed tags
+			expect((await provider.search("Kasparov", 0, 50)).total).toBe(0);
+			expect((await provider.search("Player D", 0, 50)).total).toBe(1);
+			expect((await provider.search("white:\"player d\" OR annotator:nobody", 0, 50)).total).toBe(1);
+		});
+
+		it("returns empty results for no match", async () => {
+			const result = await provider.search("nonexistent", 0, 50);
 			expect(result.total).toBe(0);
 			expect(result.games.length).toBe(0);
 		});
 
-		it("paginates search results", () => {
-			const result = provider.search("Test Tournament", 0, 1);
+		it("paginates search results", async () => {
+			const result = await provider.search("Test Tournament", 0, 1);
 			expect(result.total).toBe(2);
 			expect(result.games.length).toBe(1);
 
-			const page2 = provider.search("Test Tournament", 1, 1);
+			const page2 = await provider.search("Test Tournament", 1, 1);
 			expect(page2.total).toBe(2);
 			expect(page2.games.length).toBe(1);
 			expect(page2.games[0].headers["White"]).not.toBe(result.games[0].headers["White"]);
 		});
 
-		it("preserves original indices in search results", () => {
-			const result = provider.search("Other Event", 0, 50);
+		it("preserves original indices in search results", async () => {
+			const result = await provider.search("Other Event", 0, 50);
 			expect(result.games[0].index).toBe(2);
 		});
+
+		it("supports field queries", async () => {
+			expect((await provider.search("black:\"player d\"", 0, 50)).total).toBe(1);
+			expect((await provider.search("eco:B00-C99 result:0-1", 0, 50)).total).toBe(1);
+			expect((await provider.search("date:>=2024.01.02 OR white:\"player a\"", 0, 50)).total).toBe(3);
+			expect((await provider.search("player:smith color:black", 0, 50)).total).toBe(0);
+		});
+
+		it("throws GameQueryError for malformed queries", async () => {
+			await expect(provider.search("white:carlsen)", 0, 50)).rejects.toThrow(GameQueryError);
+		});
+	});
+
+	describe("searchPosition", () => {
+		let provider: PgnProvider;
+		const AFTER_E4 = "rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq -";
+
+		beforeEach(() => {
+			const content = GAME_1 + "\n\n" + GAME_2 + "\n\n" + GAME_3;
+			provider = createProvider(content);
+		});
+
+		it("finds games reaching a position", async () => {
+			const result = await provider.searchPosition(AFTER_E4, "", 0, 50);
+			expect(result.total).toBe(2);
+			expect(result.games.map(g => g.index)).toEqual([0, 1]);
+		});
+
+		it("combines the position with a query", async () => {
+			const result = await provider.searchPosition(AFTER_E4, "eco:C50", 0, 50);
+			expect(result.total).toBe(1);
+			expect(result.games[0].headers["White"]).toBe("Player C");
+		});
+
+		it("throws PositionSearchError for malformed positions", async () => {
+			await expect(provider.searchPosition("not a fen", "", 0, 50)).rejects.toThrow(PositionSearchError);
+		});
+	});
+
+	describe("sorting", () => {
+		let provider: PgnProvider;
+
+		beforeEach(() => {
+			provider = createProvider(GAME_2 + "\n\n" + GAME_3 + "\n\n" + GAME_1);
+		});
+
+		it("lists games in the requested order, keeping their indices", async () => {
+			const games = await provider.getGames(0, 10, { field: "Date", descending: true });
+			expect(games.map(g => g.headers["Date"])).toEqual(["2024.02.15", "2024.01.02", "2024.01.01"]);
+			expect(games.map(g => g.index)).toEqual([1, 0, 2]);
+		});
+
+		it("pages through a sorted list", async () => {
+			const sort = { field: "White", descending: false } as const;
+			const first = await provider.getGames(0, 2, sort);
+			const rest = await provider.getGames(2, 2, sort);
+			expect([...first, ...rest].map(g => g.headers["White"])).toEqual(["Player A", "Player C", "Smith, John"]);
+		});
+
+		it("sorts search results before paginating", async () => {
+			const result = await provider.search("Test Tournament", 0, 1, undefined, { field: "ECO", descending: false });
+			expect(result.total).toBe(2);
+			expect(result.games[0].headers["ECO"]).toBe("B01");
+		});
+
+		it("sorts position search results", async () => {
+			const afterE4 = "rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq -";
+			const result = await provider.searchPosition(afterE4, "", 0, 10, undefined, { field: "Result", descending: true });
+			expect(result.games.map(g => g.headers["Result"])).toEqual(["1-0", "0-1"]);
+		});
 	});
 
 	describe("sortByDate", () => {
-		it("sorts games into chronological order", () => {
+		it("sorts games into chronological order", async () => {
 			// Load games out of date order: Feb, Jan, Mar
 			const feb = `[Event "Feb"]\n[Date "2024.02.15"]\n\n1.e4 e5 1-0`;
 			const jan = `[Event "Jan"]\n[Date "2024.01.10"]\n\n1.d4 d5 0-1`;
 			const mar = `[Event "Mar"]\n[Date "2024.03.20"]\n\n1.c4 c5 1/2-1/2`;
 			const provider = createProvider(feb + "\n\n" + jan + "\n\n" + mar);
 
-			expect(provider.getGames(0, 3).map(g => g.headers["Event"]))
+			expect((await provider.getGames(0, 3)).map(g => g.headers["Event"]))
 				.toEqual(["Feb", "Jan", "Mar"]);
 
 			const perm = provider.sortByDate();
 
-			expect(provider.getGames(0, 3).map(g => g.headers["Event"]))
+			expect((await provider.getGames(0, 3)).map(g => g.headers["Event"]))
 				.toEqual(["Jan", "Feb", "Mar"]);
 			expect(perm).toEqual([1, 0, 2]);
 		});
@@ -280,29 +364,29 @@ describe("PgnProvider", () => {
 			expect(perm).toEqual([0, 1, 2]);
 		});
 
-		it("preserves getGamePgn after sorting", () => {
+		it("preserves getGamePgn after sorting", async () => {
 			const feb = `[Event "Feb"]\n[Date "2024.02.15"]\n\n1.e4 e5 1-0`;
 			const jan = `[Event "Jan"]\n[Date "2024.01.10"]\n\n1.d4 d5 0-1`;
 			const provider = createProvider(feb + "\n\n" + jan);
 
 			provider.sortByDate();
 
-			const pgn0 = provider.getGamePgn(0);
+			const pgn0 = await provider.getGamePgn(0);
 			expect(pgn0).toContain('[Event "Jan"]');
 			expect(pgn0).toContain("1.d4 d5");
 
-			const pgn1 = provider.getGamePgn(1);
+			const pgn1 = await provider.getGamePgn(1);
 			expect(pgn1).toContain('[Event "Feb"]');
 			expect(pgn1).toContain("1.e4 e5");
 		});
 	});
 
 	describe("close", () => {
-		it("clears all data", () => {
+		it("clears all data", async () => {
 			const provider = createProvider(GAME_1 + "\n\n" + GAME_2);
-			expect(provider.getGameCount()).toBe(2);
+			expect(await provider.getGameCount()).toBe(2);
 			provider.close();
-			expect(provider.getGameCount()).toBe(0);
+			expect(await provider.getGameCount()).toBe(0);
 		});
 	});
 });
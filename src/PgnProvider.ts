@@ -1,67 +1,186 @@
 import * as fs from "fs";
 import { GameProvider, GameHeaders, GameEntry, GameSearchResult } from "./GameProvider";
-
-interface GameIndex {
-	start: number;
-	end: number;
-	headers: GameHeaders;
-}
-
+import {
+	GameQuery, GameQueryTerm, parseGameQuery, evaluateGameQuery, matchesGameQueryTerm,
+} from "./GameQuery";
+import { parsePositionTarget, gameReachesPosition } from "./PositionSearch";
+import { BoardPattern, parseBoardPattern, gameMatchesPattern } from "./MaterialSearch";
+import { ProviderTask, TaskTicker } from "./ProviderTask";
+import { GameSort, SortOrderCache, sortEntries } from "./GameSort";
+import { SearchCache, searchKey } from "./SearchCache";
+import { NameCount, NameIndex, NameIndexCache, NameType } from "./NameIndex";
+import {
+	INDEXED_TAGS, PgnGameIndex, PgnIndexer, buildPgnIndex, readPgnIndex, readPgnTags, writePgnIndex,
+} from "./PgnIndex";
+
+const INDEXED_TAG_KEYS = new Set(INDEXED_TAGS.map(tag => tag.toLowerCase()));
+
+/**
+ * Games in a PGN file. On open the file is streamed once to index the byte
+ * range and main tags (INDEXED_TAGS) of every game; given a directory, the
+ * index is saved there (keyed by path, size and modification time) so
+ * reopening an unchanged file skips the scan. Game text, and the tags a
+ * search needs beyond the indexed ones, are read from the file on demand.
+ */
 export class PgnProvider implements GameProvider {
 	private path: string;
-	private fileContent: string = "";
-	private games: GameIndex[] = [];
-
-	constructor(path: string = "") {
+	private indexDir: string | null;
+	private fd: number | null = null;
+	/** Text given to `loadContent`, read instead of the file. */
+	private content: Buffer | null = null;
+	private games: PgnGameIndex[] = [];
+	private sortOrder = new SortOrderCache();
+	private lastSearch = new SearchCache<GameEntry[]>();
+	private nameIndexes = new NameIndexCache();
+
+	constructor(path: string = "", indexDir: string | null = null) {
 		this.path = path;
+		this.indexDir = indexDir;
 	}
 
-	async open(): Promise<void> {
+	async open(task?: ProviderTask): Promise<void> {
 		if (!this.path) return;
-		const raw = fs.readFileSync(this.path, "utf-8");
-		this.loadContent(raw);
+		const fd = fs.openSync(this.path, "r");
+		try {
+			const { size, mtimeMs } = fs.fstatSync(fd);
+			const indexDir = this.indexDir;
+			let games = indexDir ? await readPgnIndex(indexDir, this.path, { size, mtimeMs }, task) : null;
+			if (!games) {
+				games = await buildPgnIndex(this.path, task);
+				// The saved index only speeds up the next open, so failing to write it is not an error
+				if (indexDir) {
+					await writePgnIndex(indexDir, this.path, { size, mtimeMs }, games).catch(e => {
+						console.warn(`Could not save PGN index for ${this.path}:`, e);
+					});
+				}
+			}
+			this.games = games;
+			this.sortOrder.clear();
+			this.lastSearch.clear();
+			this.nameIndexes.clear();
+			this.fd = fd;
+		} catch (e) {
+			fs.closeSync(fd);
+			throw e;
+		}
 	}
 
 	loadContent(raw: string): void {
-		this.fileContent = raw.replace(/\r\n/g, "\n");
-		this.indexGames();
+		this.content = Buffer.from(raw, "utf8");
+		const indexer = new PgnIndexer();
+		indexer.push(this.content);
+		this.games = indexer.finish();
+		this.sortOrder.clear();
+		this.lastSearch.clear();
+		this.nameIndexes.clear();
 	}
 
 	close(): void {
-		this.fileContent = "";
+		if (this.fd !== null) {
+			fs.closeSync(this.fd);
+			this.fd = null;
+		}
+		this.content = null;
 		this.games = [];
+		this.sortOrder.clear();
+		this.lastSearch.clear();
+		this.nameIndexes.clear();
 	}
 
-	getGameCount(): number {
+	async getGameCount(): Promise<number> {
 		return this.games.length;
 	}
 
-	getGames(offset: number, limit: number): GameEntry[] {
+	async getGames(offset: number, limit: number, sort?: GameSort): Promise<GameEntry[]> {
+		if (sort) {
+			const order = this.sortOrder.get(this.games.length, i => this.games[i].headers, sort);
+			return order.slice(offset, offset + limit).map(i => ({ index: i, headers: this.games[i].headers }));
+		}
 		return this.games.slice(offset, offset + limit).map((g, i) => ({
 			index: offset + i,
 			headers: g.headers,
 		}));
 	}
 
-	getGamePgn(index: number): string {
-		const game = this.games[index];
-		if (!game) return "";
-		return this.fileContent.substring(game.start, game.end).trim();
+	async getGamePgn(index: number): Promise<string> {
+		return this.readGame(index);
 	}
 
-	search(query: string, offset: number, limit: number): GameSearchResult {
-		const lowerQuery = query.toLowerCase();
-		const matches: GameEntry[] = [];
+	/** Every tag of a game, not only the indexed ones getGames lists. */
+	async getGameHeaders(index: number): Promise<GameHeaders> {
+		return readPgnTags(this.readGame(index));
+	}
 
-		for (let i = 0; i < this.games.length; i++) {
-			const headers = this.games[i].headers;
-			const found = Object.values(headers).some(
-				v => v.toLowerCase().includes(lowerQuery)
-			);
-			if (found) {
-				matches.push({ index: i, headers });
+	async search(
+		query: string, offset: number, limit: number, task?: ProviderTask, sort?: GameSort,
+	): Promise<GameSearchResult> {
+		const matches = this.compileQuery(parseGameQuery(query));
+		return this.filterGames(searchKey("query", query, sort), i => matches(i), offset, limit, task, sort);
+	}
+
+	async searchPosition(
+		fen: string, query: string, offset: number, limit: number, task?: ProviderTask, sort?: GameSort,
+	): Promise<GameSearchResult> {
+		const target = parsePositionTarget(fen);
+		const matches = this.compileQuery(parseGameQuery(query));
+		return this.filterGames(
+			searchKey("position", target.fen, query, sort),
+			i => matches(i) && gameReachesPosition(this.readGame(i), target),
+			offset, limit, task, sort,
+		);
+	}
+
+	async searchPattern(
+		pattern: BoardPattern, query: string, offset: number, limit: number, task?: ProviderTask, sort?: GameSort,
+	): Promise<GameSearchResult> {
+		const target = parseBoardPattern(pattern);
+		const matches = this.compileQuery(parseGameQuery(query));
+		return this.filterGames(
+			searchKey("pattern", pattern, query, sort),
+			i => matches(i) && gameMatchesPattern(this.readGame(i), target),
+			offset, limit, task, sort,
+		);
+	}
+
+	async searchNames(type: NameType, prefix: string, limit: number): Promise<NameCount[]> {
+		const index = await this.nameIndexes.get(type, () => NameIndex.fromHeaders(this.games.map(g => g.headers), type));
+		return index.matchPrefix(prefix, limit);
+	}
+
+	/**
+	 * A test of game indices against a parsed query. Plain text and terms on
+	 * indexed tags use the index; so plain text does not find a game by a tag
+	 * left out of it (Annotator, Link), which takes naming the tag
+	 * (annotator:kasparov), as does a SCID base's extra tags. Terms on other
+	 * tags read the game's tags from the file.
+	 */
+	compileQuery(query: GameQuery): (index: number) => boolean {
+		return index => {
+			let headers: GameHeaders | null = null;
+			return evaluateGameQuery(query, term => {
+				if (isIndexedTerm(term)) return matchesGameQueryTerm(term, this.games[index].headers);
+				if (!headers) headers = readPgnTags(this.readGame(index));
+				return matchesGameQueryTerm(term, headers);
+			});
+		};
+	}
+
+	private async filterGames(
+		key: string, predicate: (index: number) => boolean,
+		offset: number, limit: number, task?: ProviderTask, sort?: GameSort,
+	): Promise<GameSearchResult> {
+		const matches = await this.lastSearch.get(key, async () => {
+			const found: GameEntry[] = [];
+			const ticker = new TaskTicker(task, this.games.length);
+
+			for (let i = 0; i < this.games.length; i++) {
+				if (ticker.due()) await ticker.tick(i);
+				if (predicate(i)) {
+					found.push({ index: i, headers: this.games[i].headers });
+				}
 			}
-		}
+			return sort ? sortEntries(found, sort) : found;
+		});
 
 		return {
 			games: matches.slice(offset, offset + limit),
@@ -78,40 +197,29 @@ export class PgnProvider implements GameProvider {
 			return dateA.localeCompare(dateB);
 		});
 		this.games = indices.map(i => this.games[i]);
+		this.sortOrder.clear();
+		this.lastSearch.clear();
 		return indices;
 	}
 
-	private indexGames(): void {
-		this.games = [];
-		const chunks = this.fileContent.split(/\n\n(?=\[)/);
-		const headerRegex = /^\[(\w+)\s+"(.*)"\]/gm;
-
-		let position = 0;
-		for (const chunk of chunks) {
-			const trimmed = chunk.trim();
-			if (trimmed.length === 0) {
-				position += chunk.length + 2;
-				continue;
-			}
-
-			const headers: GameHeaders = {};
-			let match: RegExpExecArray | null;
-			headerRegex.lastIndex = 0;
-			while ((match = headerRegex.exec(trimmed)) !== null) {
-				headers[match[1]] = match[2];
-			}
-
-			// Only index chunks that have at least one header
-			if (Object.keys(headers).length > 0) {
-				const start = this.fileContent.indexOf(trimmed, position);
-				this.games.push({
-					start,
-					end: start + trimmed.length,
-					headers,
-				});
-			}
+	private readGame(index: number): string {
+		const game = this.games[index];
+		if (!game) return "";
+		return this.readRange(game.start, game.end).replace(/\r\n/g, "\n").trim();
+	}
 
-			position += chunk.length + 2; // +2 for the \n\n separator
+	private readRange(start: number, end: number): string {
+		if (this.content) {
+			return this.content.toString("utf8", start, end);
 		}
+		if (this.fd === null) return "";
+		const buf = Buffer.alloc(end - start);
+		fs.readSync(this.fd, buf, 0, buf.length, start);
+		return buf.toString("utf8");
 	}
 }
+
+/** Whether a query term only tests tags the index keeps; plain text tests all of those. */
+function isIndexedTerm(term: GameQueryTerm): boolean {
+	return term.headers.every(h => INDEXED_TAG_KEYS.has(h.toLowerCase()));
+}
@@ -0,0 +1,188 @@
+import { describe, it, expect } from "vitest";
+import { parsePgnTree, getLineEnd, getSiblings, writePgnMovetext } from "./PgnTree";
+
+const ANNOTATED = `[Event "Analysis"]
+[White "Player A"]
+[Black "Player B"]
+[Result "1-0"]
+
+{Opening comment} 1.e4 e5 (1...c5 2.Nf3 (2.Nc3 Nc6) d6) 2.Nf3! {Developing} Nc6 $6
+3.Bb5 a6 (3...Nf6 {Berlin} 4.O-O) 1-0`;
+
+describe("parsePgnTree", () => {
+	describe("main line", () => {
+		it("parses moves without variations", () => {
+			const tree = parsePgnTree(`[White "A"]\n\n1.e4 e5 2.Nf3 Nc6 *`);
+			const end = getLineEnd(tree.moves[0]);
+			expect(end.san).toBe("Nc6");
+			expect(end.moveNumber).toBe(2);
+			expect(end.color).toBe("b");
+			expect(tree.moves.length).toBe(1);
+		});
+
+		it("reads headers and result", () => {
+			const tree = parsePgnTree(ANNOTATED);
+			expect(tree.headers["White"]).toBe("Player A");
+			expect(tree.headers["Black"]).toBe("Player B");
+			expect(tree.result).toBe("1-0");
+		});
+
+		it("records the position after each move", () => {
+			const tree = parsePgnTree("1.e4 *");
+			expect(tree.moves[0].fen).toBe("rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1");
+		});
+
+		it("accepts move numbers without a space", () => {
+			const tree = parsePgnTree("1.e4 1...e5 2.Nf3");
+			expect(getLineEnd(tree.moves[0]).san).toBe("Nf3");
+		});
+
+		it("throws on an illegal move", () => {
+			expect(() => parsePgnTree("1.e4 e5 2.Ke3")).toThrow(/Invalid move/);
+		});
+	});
+
+	describe("custom start positions", () => {
+		const FEN = "4k3/8/8/8/8/8/4P3/4K3 b - - 0 37";
+
+		it("starts from the FEN header", () => {
+			const tree = parsePgnTree(`[SetUp "1"]\n[FEN "${FEN}"]\n\n37...Kd7 38.e4 *`);
+			expect(tree.startFen).toBe(FEN);
+			expect(tree.moves[0].san).toBe("Kd7");
+		});
+
+		it("numbers moves from the fullmove counter and handles Black to move", () => {
+			const tree = parsePgnTree(`[SetUp "1"]\n[FEN "${FEN}"]\n\n37...Kd7 38.e4 *`);
+			expect(tree.moves[0].color).toBe("b");
+			expect(tree.moves[0].moveNumber).toBe(37);
+			expect(tree.moves[0].children[0].color).toBe("w");
+			expect(tree.moves[0].children[0].moveNumber).toBe(38);
+		});
+
+		it("honours a FEN header without SetUp", () => {
+			const tree = parsePgnTree(`[FEN "${FEN}"]\n\nKd7 *`);
+			expect(tree.startFen).toBe(FEN);
+		});
+
+		it("ignores the FEN header when SetUp is 0", () => {
+			const tree = parsePgnTree(`[SetUp "0"]\n[FEN "${FEN}"]\n\n1.e4 *`);
+			expect(tree.startFen).toBe("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1");
+		});
+
+		it("starts variations on the first move from the custom position", () => {
+			const tree = parsePgnTree(`[FEN "${FEN}"]\n\n37...Kd7 (37...Kf7 38.e4) 38.e4 *`);
+			expect(tree.moves.map(m => m.san)).toEqual(["Kd7", "Kf7"]);
+		});
+
+		it("throws on an invalid FEN header", () => {
+			expect(() => parsePgnTree(`[FEN "not a fen"]\n\n1.e4 *`)).toThrow(/Invalid FEN/);
+		});
+	});
+
+	describe("variations", () => {
+		it("attaches variations as siblings of the move they replace", () => {
+			const tree = parsePgnTree(ANNOTATED);
+			const e4 = tree.moves[0];
+			expect(e4.children.map(c => c.san)).toEqual(["e5", "c5"]);
+			expect(getSiblings(tree, e4.children[1])).toBe(e4.children);
+		});
+
+		it("parses nested variations", () => {
+			const tree = parsePgnTree(ANNOTATED);
+			const c5 = tree.moves[0].children[1];
+			expect(c5.children.map(c => c.san)).toEqual(["Nf3", "Nc3"]);
+			expect(c5.children[0].children[0].san).toBe("d6");
+			expect(c5.children[1].children[0].san).toBe("Nc6");
+		});
+
+		it("resumes the main line after a variation", () => {
+			const tree = parsePgnTree(ANNOTATED);
+			const e5 = tree.moves[0].children[0];
+			expect(e5.children[0].san).toBe("Nf3");
+			expect(getLineEnd(tree.moves[0]).san).toBe("a6");
+		});
+
+		it("links variation moves to their parent", () => {
+			const tree = parsePgnTree(ANNOTATED);
+			const nc3 = tree.moves[0].children[1].children[1];
+			expect(nc3.parent?.san).toBe("c5");
+			expect(nc3.parent?.parent?.san).toBe("e4");
+		});
+
+		it("supports variations on the first move", () => {
+			const tree = parsePgnTree("1.e4 (1.d4 d5) e5");
+			expect(tree.moves.map(m => m.san)).toEqual(["e4", "d4"]);
+			expect(tree.moves[1].parent).toBeNull();
+			expect(getSiblings(tree, tree.moves[1])).toBe(tree.moves);
+		});
+	});
+
+	describe("annotations", () => {
+		it("keeps comments after moves", () => {
+			const tree = parsePgnTree(ANNOTATED);
+			const nf3 = tree.moves[0].children[0].children[0];
+			expect(nf3.comment).toBe("Developing");
+		});
+
+		it("keeps a comment before the first move", () => {
+			const tree = parsePgnTree(ANNOTATED);
+			expect(tree.comment).toBe("Opening comment");
+		});
+
+		it("keeps comments inside variations", () => {
+			const tree = parsePgnTree(ANNOTATED);
+			const bb5 = getLineEnd(tree.moves[0]).parent!;
+			expect(bb5.children[1].san).toBe("Nf6");
+			expect(bb5.children[1].comment).toBe("Berlin");
+		});
+
+		it("keeps a comment at the start of a variation as a pre-comment", () => {
+			const tree = parsePgnTree("1.e4 e5 ({Alternatively} 1...c5) 2.Nf3");
+			expect(tree.moves[0].children[1].preComment).toBe("Alternatively");
+		});
+
+		it("converts suffix annotations and $n into NAGs", () => {
+			const tree = parsePgnTree(ANNOTATED);
+			const nf3 = tree.moves[0].children[0].children[0];
+			expect(nf3.nags).toEqual([1]);
+			expect(nf3.children[0].nags).toEqual([6]);
+		});
+
+		it("reads rest-of-line comments", () => {
+			const tree = parsePgnTree("1.e4 ; not a move Nf3\ne5");
+			expect(tree.moves[0].comment).toBe("not a move Nf3");
+			expect(tree.moves[0].children[0].san).toBe("e5");
+		});
+
+		it("preserves clock annotations in comments", () => {
+			const tree = parsePgnTree("1.e4 {[%clk 0:09:58]} e5 {[%clk 0:09:57]}");
+			expect(tree.moves[0].comment).toBe("[%clk 0:09:58]");
+		});
+	});
+
+	describe("writePgnMovetext", () => {
+		it("writes a plain main line with the result", () => {
+			const tree = parsePgnTree("1.e4 e5 2.Nf3 Nc6 1-0");
+			expect(writePgnMovetext(tree)).toBe("1. e4 e5 2. Nf3 Nc6 1-0");
+		});
+
+		it("writes comments, NAGs and variations", () => {
+			const tree = parsePgnTree(ANNOTATED);
+			expect(writePgnMovetext(tree)).toBe(
+				"{Opening comment} 1. e4 e5 (1... c5 2. Nf3 (2. Nc3 Nc6) 2... d6) " +
+				"2. Nf3 $1 {Developing} 2... Nc6 $6 3. Bb5 a6 (3... Nf6 {Berlin} 4. O-O) 1-0"
+			);
+		});
+
+		it("round-trips through the parser", () => {
+			const tree = parsePgnTree(ANNOTATED);
+			const reparsed = parsePgnTree(writePgnMovetext(tree));
+			expect(writePgnMovetext(reparsed)).toBe(writePgnMovetext(tree));
+		});
+
+		it("numbers a Black-to-move start with an ellipsis", () => {
+			const tree = parsePgnTree(`[FEN "4k3/8/8/8/8/8/4P3/4K3 b - - 0 37"]\n\nKd7 38.e4 *`);
+			expect(writePgnMovetext(tree)).toBe("37... Kd7 38. e4 *");
+		});
+	});
+});
@@ -0,0 +1,312 @@
+import { Chess } from "chess.js";
+
+const DEFAULT_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+const RESULT_TOKENS = new Set(["1-0", "0-1", "1/2-1/2", "*"]);
+
+// Traditional move suffix annotations and their NAG equivalents
+const SUFFIX_NAGS: Record<string, number> = {
+	"!": 1,
+	"?": 2,
+	"!!": 3,
+	"??": 4,
+	"!?": 5,
+	"?!": 6,
+};
+
+export interface PgnTreeNode {
+	san: string;
+	fen: string;               // position after this move
+	color: "w" | "b";
+	moveNumber: number;        // fullmove number this move belongs to
+	nags: number[];
+	comment?: string;          // comment following the move
+	preComment?: string;       // comment preceding the first move of a variation
+	parent: PgnTreeNode | null;
+	children: PgnTreeNode[];   // children[0] continues the line, the rest are variations
+}
+
+export interface PgnTree {
+	headers: Record<string, string>;
+	startFen: string;
+	comment?: string;          // comment before the first move of the game
+	moves: PgnTreeNode[];      // moves[0] is the main line, the rest are variations on move one
+	result: string;
+}
+
+/** Alternatives to `node` at the same point in the game, including `node` itself. */
+export function getSiblings(tree: PgnTree, node: PgnTreeNode): PgnTreeNode[] {
+	return node.parent ? node.parent.children : tree.moves;
+}
+
+/** Follow the first child of each node from `node` to the end of its line. */
+export function getLineEnd(node: PgnTreeNode): PgnTreeNode {
+	let current = node;
+	while (current.children.length > 0) {
+		current = current.children[0];
+	}
+	return current;
+}
+
+type Token =
+	| { type: "move"; value: string }
+	| { type: "comment"; value: string }
+	| { type: "nag"; value: number }
+	| { type: "open" }
+	| { type: "close" }
+	| { type: "result"; value: string };
+
+function tokenize(movetext: string): Token[] {
+	const tokens: Token[] = [];
+	let pos = 0;
+
+	while (pos < movetext.length) {
+		const ch = movetext[pos];
+
+		if (/\s/.test(ch)) {
+			pos++;
+		} else if (ch === "{") {
+			const end = movetext.indexOf("}", pos + 1);
+			const stop = end < 0 ? movetext.length : end;
+			tokens.push({ type: "comment", value: movetext.substring(pos + 1, stop).replace(/\s+/g, " ").trim() });
+			pos = stop + 1;
+		} else if (ch === ";" || (ch === "%" && (pos === 0 || movetext[pos - 1] === "\n"))) {
+			// Rest-of-line comment or escape line
+			const end = movetext.indexOf("\n", pos);
+			const stop = end < 0 ? movetext.length : end;
+			if (ch === ";") {
+				tokens.push({ type: "comment", value: movetext.substring(pos + 1, stop).trim() });
+			}
+			pos = stop;
+		} else if (ch === "(") {
+			tokens.push({ type: "open" });
+			pos++;
+		} else if (ch === ")") {
+			tokens.push({ type: "close" });
+			pos++;
+		} else if (ch === "$") {
+			const match = /^\$(\d+)/.exec(movetext.substring(pos));
+			if (match) {
+				tokens.push({ type: "nag", value: parseInt(match[1], 10) });
+				pos += match[0].length;
+			} else {
+				pos++;
+			}
+		} else {
+			const match = /^[^\s{}();$]+/.exec(movetext.substring(pos));
+			const word = match ? match[0] : ch;
+			pos += word.length;
+			pushWordTokens(tokens, word);
+		}
+	}
+
+	return tokens;
+}
+
+/** Split a bare word into move-number, SAN, suffix-annotation and result tokens. */
+function pushWordTokens(tokens: Token[], word: string): void {
+	if (RESULT_TOKENS.has(word)) {
+		tokens.push({ type: "result", value: word });
+		return;
+	}
+
+	// Strip a leading move number ("12." / "12..." / "12.e4")
+	const numbered = /^\d+\.*(.*)$/.exec(word);
+	if (numbered) {
+		word = numbered[1];
+		if (!word) return;
+	}
+	word = word.replace(/^\.+/, "");
+	if (!word) return;
+
+	const suffix = /(!!|\?\?|!\?|\?!|!|\?)$/.exec(word);
+	if (suffix) {
+		word = word.substring(0, word.length - suffix[1].length);
+	}
+	if (word) {
+		tokens.push({ type: "move", value: word });
+	}
+	if (suffix) {
+		tokens.push({ type: "nag", value: SUFFIX_NAGS[suffix[1]] });
+	}
+}
+
+function parseHeaders(pgn: string): { headers: Record<string, string>; movetext: string } {
+	const headers: Record<string, string> = {};
+	const headerRegex = /^\s*\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]\s*$/;
+	const lines = pgn.replace(/\r\n/g, "\n").split("\n");
+	let i = 0;
+	for (; i < lines.length; i++) {
+		const line = lines[i];
+		if (!line.trim()) continue;
+		const match = headerRegex.exec(line);
+		if (!match) break;
+		headers[match[1]] = match[2].replace(/\\(["\\])/g, "$1");
+	}
+	return { headers, movetext: lines.slice(i).join("\n") };
+}
+
+/**
+ * The position a game starts from: the FEN header, unless SetUp explicitly
+ * says the game starts from the initial position.
+ */
+export function getStartFen(headers: Record<string, string>): string {
+	const fen = headers["FEN"]?.trim();
+	if (!fen || headers["SetUp"] === "0") return DEFAULT_FEN;
+	return fen;
+}
+
+function appendComment(existing: string | undefined, comment: string): string {
+	return existing ? `${existing} ${comment}` : comment;
+}
+
+/**
+ * Parse a PGN game into a tree of moves, keeping comments, NAGs and
+ * recursive annotation variations (RAV). Throws on illegal moves.
+ */
+export function parsePgnTree(pgn: string): PgnTree {
+	const { headers, movetext } = parseHeaders(pgn);
+	const startFen = getStartFen(headers);
+
+	const tree: PgnTree = {
+		headers,
+		startFen,
+		moves: [],
+		result: headers["Result"] || "*",
+	};
+
+	let chess: Chess;
+	try {
+		chess = new Chess(startFen);
+	} catch (e) {
+		throw new Error(`Invalid FEN header: ${e.message}`);
+	}
+
+	// The node the next move follows (null = start of game) and the most recent move
+	let parent: PgnTreeNode | null = null;
+	let last: PgnTreeNode | null = null;
+	let pendingComment: string | undefined;
+	const stack: { parent: PgnTreeNode | null; last: PgnTreeNode | null }[] = [];
+
+	for (const token of tokenize(movetext)) {
+		switch (token.type) {
+			case "move": {
+				const color = chess.turn();
+				const moveNumber = chess.moveNumber();
+				let san: string;
+				try {
+					san = chess.move(token.value).san;
+				} catch {
+					throw new Error(`Invalid move: ${moveNumber}${color === "w" ? "." : "..."} ${token.value}`);
+				}
+
+				const node: PgnTreeNode = {
+					san,
+					fen: chess.fen(),
+					color,
+					moveNumber,
+					nags: [],
+					parent,
+					children: [],
+				};
+				if (pendingComment !== undefined) {
+					node.preComment = pendingComment;
+					pendingComment = undefined;
+				}
+				(parent ? parent.children : tree.moves).push(node);
+				parent = node;
+				last = node;
+				break;
+			}
+			case "comment":
+				if (!token.value) break;
+				if (last) {
+					last.comment = appendComment(last.comment, token.value);
+				} else if (stack.length === 0) {
+					tree.comment = appendComment(tree.comment, token.value);
+				} else {
+					pendingComment = appendComment(pendingComment, token.value);
+				}
+				break;
+			case "nag":
+				if (last) last.nags.push(token.value);
+				break;
+			case "open": {
+				stack.push({ parent, last });
+				// A variation replaces the most recent move
+				if (last) parent = last.parent;
+				last = null;
+				chess.load(parent ? parent.fen : startFen);
+				break;
+			}
+			case "close": {
+				const saved = stack.pop();
+				if (!saved) break;
+				parent = saved.parent;
+				last = saved.last;
+				pendingComment = undefined;
+				chess.load(parent ? parent.fen : startFen);
+				break;
+			}
+			case "result":
+				if (stack.length === 0) tree.result = token.value;
+				break;
+		}
+	}
+
+	return tree;
+}
+
+function formatComment(comment: string): string {
+	return `{${comment.replace(/}/g, ")")}}`;
+}
+
+/** Serialise the line starting at alternatives[0], with the other alternatives as variations. */
+function writeLine(alternatives: PgnTreeNode[]): string[] {
+	const parts: string[] = [];
+	let siblings = alternatives;
+	let node: PgnTreeNode | undefined = alternatives[0];
+	let showNumber = true;
+
+	while (node) {
+		if (node.preComment) {
+			parts.push(formatComment(node.preComment));
+			showNumber = true;
+		}
+		if (node.color === "w") {
+			parts.push(`${node.moveNumber}.`);
+		} else if (showNumber) {
+			parts.push(`${node.moveNumber}...`);
+		}
+		parts.push(node.san);
+		for (const nag of node.nags) {
+			parts.push(`$${nag}`);
+		}
+		showNumber = false;
+
+		if (node.comment) {
+			parts.push(formatComment(node.comment));
+			showNumber = true;
+		}
+
+		for (const variation of siblings.slice(1)) {
+			parts.push(`(${writeLine([variation]).join(" ")})`);
+			showNumber = true;
+		}
+
+		siblings = node.children;
+		node = node.children[0];
+	}
+
+	return parts;
+}
+
+/** Serialise a move tree as PGN movetext with comments, NAGs, variations and the result. */
+export function writePgnMovetext(tree: PgnTree): string {
+	const parts: string[] = [];
+	if (tree.comment) {
+		parts.push(formatComment(tree.comment));
+	}
+	parts.push(...writeLine(tree.moves));
+	parts.push(tree.result);
+	return parts.join(" ");
+}
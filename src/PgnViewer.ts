@@ -1,18 +1,34 @@
 import { Chessboard } from "cm-chessboard";
-import { Chess, Move } from "chess.js";
 import { Notice, setIcon } from "obsidian";
 import { PieceSet } from "./settings";
+import { PgnTree, PgnTreeNode, parsePgnTree, getLineEnd } from "./PgnTree";
 
-const START_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
 const CLOCK_PATTERN = /\[%clk\s+[^\]]*\]/g;
 
+// Glyphs for the common move and position assessment NAGs
+const NAG_SYMBOLS: Record<number, string> = {
+	1: "!",
+	2: "?",
+	3: "!!",
+	4: "??",
+	5: "!?",
+	6: "?!",
+	10: "=",
+	13: "∞",
+	14: "⩲",
+	15: "⩱",
+	16: "±",
+	17: "∓",
+	18: "+-",
+	19: "-+",
+};
+
 export class PgnViewer {
 	private board: Chessboard;
-	private moves: Move[];
-	private comments: Map<string, string>;
+	private tree: PgnTree;
 	private result: string;
-	private currentMoveIndex: number = -1; // -1 = starting position
-	private moveElements: HTMLElement[] = [];
+	private currentNode: PgnTreeNode | null = null; // null = starting position
+	private moveElements: Map<PgnTreeNode, HTMLElement> = new Map();
 	private movesPanel: HTMLElement;
 	private hideClock: boolean;
 	private hasClock: boolean;
@@ -26,24 +42,12 @@ export class PgnViewer {
 	) {
 		this.hideClock = hideClock;
 
-		// Parse the PGN
-		const chess = new Chess();
-		chess.loadPgn(pgn);
-		this.moves = chess.history({ verbose: true });
-
-		// Get comments as a map from FEN to comment
-		this.comments = new Map();
-		this.hasClock = false;
-		for (const { fen, comment } of chess.getComments()) {
-			this.comments.set(fen, comment);
-			if (CLOCK_PATTERN.test(comment)) {
-				this.hasClock = true;
-			}
-			CLOCK_PATTERN.lastIndex = 0;
-		}
+		// Parse the PGN, including variations
+		this.tree = parsePgnTree(pgn);
+		this.hasClock = this.treeHasClock(this.tree.moves);
 
 		// Get headers
-		const headers = chess.header();
+		const headers = this.tree.headers;
 		const white = headers["White"] || "?";
 		const black = headers["Black"] || "?";
 		const date = headers["Date"] || "";
@@ -93,7 +97,7 @@ export class PgnViewer {
 
 		// Create the chessboard
 		this.board = new Chessboard(boardContainer, {
-			position: START_FEN,
+			position: this.tree.startFen,
 			assetsUrl: "",
 			assetsCache: true,
 			style: {
@@ -112,42 +116,28 @@ export class PgnViewer {
 		return stripped || null;
 	}
 
-	private renderMoves(container: HTMLElement) {
-		this.moveElements = [];
-
-		for (let i = 0; i < this.moves.length; i++) {
-			const move = this.moves[i];
-
-			// Add move number before white's move
-			if (move.color === "w") {
-				const moveNum = Math.floor(i / 2) + 1;
-				container.createEl("span", {
-					text: `${moveNum}.`,
-					cls: "chess-journal-move-number"
-				});
+	private treeHasClock(nodes: PgnTreeNode[]): boolean {
+		for (const node of nodes) {
+			for (const comment of [node.preComment, node.comment]) {
+				if (!comment) continue;
+				const found = CLOCK_PATTERN.test(comment);
+				CLOCK_PATTERN.lastIndex = 0;
+				if (found) return true;
 			}
+			if (this.treeHasClock(node.children)) return true;
+		}
+		return false;
+	}
 
-			const moveEl = container.createEl("span", {
-				text: move.san,
-				cls: "chess-journal-move"
-			});
+	private renderMoves(container: HTMLElement) {
+		this.moveElements = new Map();
 
-			moveEl.addEventListener("click", () => this.goToMove(i));
-			this.moveElements.push(moveEl);
-
-			// Add comment if present for this position
-			const rawComment = this.comments.get(move.after);
-			if (rawComment) {
-				const display = this.getDisplayComment(rawComment);
-				if (display) {
-					container.createEl("span", {
-						text: display,
-						cls: "chess-journal-comment"
-					});
-				}
-			}
+		if (this.tree.comment) {
+			this.renderComment(container, this.tree.comment);
 		}
 
+		this.renderLine(container, this.tree.moves);
+
 		// Add result
 		if (this.result && this.result !== "*") {
 			container.createEl("span", {
@@ -157,6 +147,71 @@ export class PgnViewer {
 		}
 	}
 
+	/**
+	 * Render the line starting at alternatives[0]. Any other alternatives are
+	 * variations on that first move, rendered in parentheses after it.
+	 */
+	private renderLine(container: HTMLElement, alternatives: PgnTreeNode[]) {
+		let siblings = alternatives;
+		let node: PgnTreeNode | undefined = alternatives[0];
+		let showNumber = true;
+
+		while (node) {
+			showNumber = this.renderMove(container, node, showNumber);
+
+			for (const variation of siblings.slice(1)) {
+				const varEl = container.createEl("span", { cls: "chess-journal-variation" });
+				varEl.createEl("span", { text: "(", cls: "chess-journal-variation-paren" });
+				this.renderLine(varEl, [variation]);
+				varEl.createEl("span", { text: ")", cls: "chess-journal-variation-paren" });
+				showNumber = true;
+			}
+
+			siblings = node.children;
+			node = node.children[0];
+		}
+	}
+
+	/** Render a single move and its comments. Returns whether the next move needs a move number. */
+	private renderMove(container: HTMLElement, node: PgnTreeNode, showNumber: boolean): boolean {
+		if (node.preComment && this.renderComment(container, node.preComment)) {
+			showNumber = true;
+		}
+
+		// Add move number before white's move, or black's when resuming a line
+		if (node.color === "w" || showNumber) {
+			container.createEl("span", {
+				text: node.color === "w" ? `${node.moveNumber}.` : `${node.moveNumber}...`,
+				cls: "chess-journal-move-number"
+			});
+		}
+
+		const glyphs = node.nags.map(n => NAG_SYMBOLS[n] ?? `$${n}`).join("");
+		const moveEl = container.createEl("span", {
+			text: node.san + glyphs,
+			cls: "chess-journal-move"
+		});
+
+		moveEl.addEventListener("click", () => this.goToNode(node));
+		this.moveElements.set(node, moveEl);
+
+		// Add comment if present for this move
+		if (node.comment && this.renderComment(container, node.comment)) {
+			return true;
+		}
+		return false;
+	}
+
+	private renderComment(container: HTMLElement, rawComment: string): boolean {
+		const display = this.getDisplayComment(rawComment);
+		if (!display) return false;
+		container.createEl("span", {
+			text: display,
+			cls: "chess-journal-comment"
+		});
+		return true;
+	}
+
 	private updateClockToggleState() {
 		this.clockToggleBtn?.classList.toggle("is-active", !this.hideClock);
 	}
@@ -166,66 +221,67 @@ export class PgnViewer {
 		this.updateClockToggleState();
 
 		// Re-render moves panel and restore highlighting
-		const savedIndex = this.currentMoveIndex;
 		this.movesPanel.empty();
 		this.renderMoves(this.movesPanel);
-		this.currentMoveIndex = savedIndex;
 		this.updateBoard();
 	}
 
 	private updateBoard() {
-		const fen = this.currentMoveIndex < 0
-			? START_FEN
-			: this.moves[this.currentMoveIndex].after;
-
-		this.board.setPosition(fen, true);
+		this.board.setPosition(this.getCurrentFen(), true);
 
 		// Update active move highlighting
-		this.moveElements.forEach((el, i) => {
-			el.classList.toggle("active", i === this.currentMoveIndex);
+		this.moveElements.forEach((el, node) => {
+			el.classList.toggle("active", node === this.currentNode);
 		});
 
 		// Scroll active move into view
-		if (this.currentMoveIndex >= 0 && this.moveElements[this.currentMoveIndex]) {
-			this.moveElements[this.currentMoveIndex].scrollIntoView({ block: "nearest" });
-		} else if (this.currentMoveIndex < 0) {
+		const activeEl = this.currentNode ? this.moveElements.get(this.currentNode) : undefined;
+		if (activeEl) {
+			activeEl.scrollIntoView({ block: "nearest" });
+		} else if (!this.currentNode) {
 			this.movesPanel.scrollTop = 0;
 		}
 	}
 
 	goToStart() {
-		this.currentMoveIndex = -1;
+		this.currentNode = null;
 		this.updateBoard();
 	}
 
+	/** Go to the end of the line currently being viewed. */
 	goToEnd() {
-		this.currentMoveIndex = this.moves.length - 1;
+		const first = this.currentNode ?? this.tree.moves[0];
+		if (!first) return;
+		this.currentNode = getLineEnd(first);
 		this.updateBoard();
 	}
 
 	goToPrev() {
-		if (this.currentMoveIndex >= 0) {
-			this.currentMoveIndex--;
+		if (this.currentNode) {
+			this.currentNode = this.currentNode.parent;
 			this.updateBoard();
 		}
 	}
 
 	goToNext() {
-		if (this.currentMoveIndex < this.moves.length - 1) {
-			this.currentMoveIndex++;
+		const next = this.currentNode ? this.currentNode.children[0] : this.tree.moves[0];
+		if (next) {
+			this.currentNode = next;
 			this.updateBoard();
 		}
 	}
 
-	goToMove(index: number) {
-		this.currentMoveIndex = index;
+	goToNode(node: PgnTreeNode | null) {
+		this.currentNode = node;
 		this.updateBoard();
 	}
 
+	getHeaders(): Record<string, string> {
+		return this.tree.headers;
+	}
+
 	getCurrentFen(): string {
-		return this.currentMoveIndex < 0
-			? START_FEN
-			: this.moves[this.currentMoveIndex].after;
+		return this.currentNode ? this.currentNode.fen : this.tree.startFen;
 	}
 
 	private copyFen() {
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FilePgnWriter, PgnWriter, writeProviderGames } from "./PgnWriter";
+import { GameProvider } from "./GameProvider";
+import { CancelledError } from "./ProviderTask";
+
+const GAME_1 = "[White \"Adams\"]\n[Black \"Brown\"]\n\n1. e4 e5 1-0\n";
+const GAME_2 = "\n[White \"Clark\"]\n[Black \"Davis\"]\n\n1. d4 d5 0-1";
+
+describe("FilePgnWriter", () => {
+	let dir: string;
+	let target: string;
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "pgn-writer-test-"));
+		target = path.join(dir, "export.pgn");
+	});
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("writes games separated by blank lines", async () => {
+		const writer = new FilePgnWriter(target);
+		await writer.write(GAME_1);
+		await writer.write(GAME_2);
+		await writer.finish();
+		expect(fs.readFileSync(target, "utf8")).toBe(`${GAME_1.trim()}\n\n${GAME_2.trim()}\n\n`);
+		expect(fs.readdirSync(dir)).toEqual(["export.pgn"]);
+	});
+
+	it("leaves an existing file alone when discarded", async () => {
+		fs.writeFileSync(target, "old");
+		const writer = new FilePgnWriter(target);
+		await writer.write(GAME_1);
+		await writer.discard();
+		expect(fs.readFileSync(target, "utf8")).toBe("old");
+		expect(fs.readdirSync(dir)).toEqual(["export.pgn"]);
+	});
+
+	it("reports a file that cannot be written", async () => {
+		const writer = new FilePgnWriter(path.join(dir, "missing", "export.pgn"));
+		await expect((async () => {
+			await writer.write(GAME_1);
+			await writer.finish();
+		})()).rejects.toThrow();
+	});
+});
+
+describe("writeProviderGames", () => {
+	function fakeProvider(games: string[], failAt = -1): GameProvider {
+		return {
+			getGameCount: async () => games.length,
+			getGamePgn: async (index: number) => {
+				if (index === failAt) throw new Error("Bad game");
+				return games[index];
+			},
+		} as GameProvider;
+	}
+
+	function memoryWriter(): PgnWriter & { games: string[]; state: string } {
+		return {
+			games: [],
+			state: "open",
+			async write(pgn) { this.games.push(pgn); },
+			async finish() { this.state = "finished"; },
+			async discard() { this.state = "discarded"; },
+		};
+	}
+
+	it("writes every game in order and finishes", async () => {
+		const writer = memoryWriter();
+		const progress: [number, number][] = [];
+		const count = await writeProviderGames(fakeProvider([GAME_1, GAME_2]), writer, {
+			onProgress: (done, total) => progress.push([done, total]),
+		});
+		expect(count).toBe(2);
+		expect(writer.games).toEqual([GAME_1, GAME_2]);
+		expect(writer.state).toBe("finished");
+		expect(progress[progress.length - 1]).toEqual([2, 2]);
+	});
+
+	it("discards the file when a game cannot be read", async () => {
+		const writer = memoryWriter();
+		await expect(writeProviderGames(fakeProvider([GAME_1, GAME_2], 1), writer)).rejects.toThrow("Bad game");
+		expect(writer.state).toBe("discarded");
+	});
+
+	it("discards the file when cancelled", async () => {
+		const writer = memoryWriter();
+		const controller = new AbortController();
+		controller.abort();
+		await expect(writeProviderGames(fakeProvider([GAME_1]), writer, { signal: controller.signal }))
+			.rejects.toBeInstanceOf(CancelledError);
+		expect(writer.state).toBe("discarded");
+	});
+});
@@ -0,0 +1,90 @@
+import * as fs from "fs";
+import { GameProvider } from "./GameProvider";
+import { ProviderTask, TaskTicker } from "./ProviderTask";
+
+/** Where exported games are written, one at a time. */
+export interface PgnWriter {
+	write(pgn: string): Promise<void>;
+	/** Finish the file; the writer is done with afterwards. */
+	finish(): Promise<void>;
+	/** Drop what was written, e.g. when an export is cancelled. */
+	discard(): Promise<void>;
+}
+
+/** A game as it is written to a PGN file: trimmed and followed by a blank line. */
+export function pgnFileEntry(pgn: string): string {
+	return `${pgn.trim()}\n\n`;
+}
+
+/**
+ * Writes games to a file on disk as they come, waiting whenever the stream
+ * is behind. Games go to a temporary file renamed into place when finished,
+ * so an existing file is only replaced by a complete export.
+ */
+export class FilePgnWriter implements PgnWriter {
+	private temp: string;
+	private out: fs.WriteStream;
+	private error: Error | null = null;
+
+	constructor(private target: string) {
+		this.temp = `${target}.${process.pid}.tmp`;
+		this.out = fs.createWriteStream(this.temp);
+		this.out.on("error", e => { this.error = e; });
+	}
+
+	async write(pgn: string): Promise<void> {
+		if (this.error) throw this.error;
+		if (!this.out.write(pgnFileEntry(pgn))) {
+			await new Promise<void>((resolve, reject) => {
+				this.out.once("drain", resolve);
+				this.out.once("error", reject);
+			});
+		}
+	}
+
+	async finish(): Promise<void> {
+		try {
+			await this.end();
+			await fs.promises.rename(this.temp, this.target);
+		} catch (e) {
+			await fs.promises.unlink(this.temp).catch(() => {});
+			throw e;
+		}
+	}
+
+	async discard(): Promise<void> {
+		await this.end().catch(() => {});
+		await fs.promises.unlink(this.temp).catch(() => {});
+	}
+
+	private end(): Promise<void> {
+		if (this.error) return Promise.reject(this.error);
+		return new Promise<void>((resolve, reject) => {
+			this.out.once("error", reject);
+			this.out.end(() => resolve());
+		});
+	}
+}
+
+/**
+ * Write every game of an open provider, in source order, and finish the
+ * writer; the progress unit is games. If anything fails or the task is
+ * cancelled the writer discards what it has and the error is rethrown.
+ * Resolves to the number of games written.
+ */
+export async function writeProviderGames(provider: GameProvider, writer: PgnWriter, task?: ProviderTask): Promise<number> {
+	try {
+		const count = await provider.getGameCount();
+		const ticker = new TaskTicker(task, count);
+		for (let i = 0; i < count; i++) {
+			if (ticker.due()) await ticker.tick(i);
+			await writer.write(await provider.getGamePgn(i));
+		}
+		task?.onProgress?.(count, count);
+		await writer.finish();
+		return count;
+	} catch (e) {
+		await writer.discard().catch(() => {});
+		throw e;
+	}
+}
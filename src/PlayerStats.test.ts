@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import type { GameHeaders } from "./GameProvider";
+import { computePlayerStats, playerColor, scoreRatio } from "./PlayerStats";
+
+const GAMES: GameHeaders[] = [
+	{ White: "Carlsen, Magnus", Black: "Caruana, Fabiano", Result: "1-0", ECO: "C65", Opening: "Ruy Lopez", Date: "2019.05.01", WhiteElo: "2875", BlackElo: "2819" },
+	{ White: "Caruana, Fabiano", Black: "Magnus Carlsen", Result: "1/2-1/2", ECO: "B33", Date: "2018.11.09", WhiteElo: "2832", BlackElo: "2835" },
+	{ White: "Nakamura, Hikaru", Black: "Carlsen, Magnus", Result: "1-0", ECO: "c65", Date: "2019.06.12", BlackElo: "2880" },
+	{ White: "Carlsen, Magnus", Black: "Nakamura, Hikaru", Result: "*", Date: "????.??.??" },
+	{ White: "Caruana, Fabiano", Black: "Nakamura, Hikaru", Result: "0-1", ECO: "A00", Date: "2019.01.01" },
+];
+
+describe("playerColor", () => {
+	it("matches names whatever their order or case", () => {
+		expect(playerColor("magnus carlsen", GAMES[0])).toBe("white");
+		expect(playerColor("Carlsen, Magnus", GAMES[1])).toBe("black");
+		expect(playerColor("Carlsen", GAMES[0])).toBeNull();
+	});
+});
+
+describe("computePlayerStats", () => {
+	const stats = computePlayerStats("Carlsen, Magnus", GAMES);
+
+	it("scores each colour from the player's side", () => {
+		expect(stats.total).toEqual({ games: 4, wins: 1, draws: 1, losses: 1 });
+		expect(stats.white).toEqual({ games: 2, wins: 1, draws: 0, losses: 0 });
+		expect(stats.black).toEqual({ games: 2, wins: 0, draws: 1, losses: 1 });
+		expect(scoreRatio(stats.black)).toBe(0.25);
+		expect(scoreRatio({ games: 0, wins: 0, draws: 0, losses: 0 })).toBeNull();
+	});
+
+	it("groups openings by ECO and opponents by normalized name, most frequent first", () => {
+		expect(stats.openings.map(o => [o.eco, o.games])).toEqual([["C65", 2], ["?", 1], ["B33", 1]]);
+		expect(stats.openings[0].name).toBe("Ruy Lopez");
+		expect(stats.opponents.map(o => [o.name, o.games, o.wins, o.losses])).toEqual([
+			["Caruana, Fabiano", 2, 1, 0],
+			["Nakamura, Hikaru", 2, 0, 1],
+		]);
+	});
+
+	it("lists ratings in date order and counts games by year", () => {
+		expect(stats.ratings).toEqual([
+			{ date: "2018.11.09", elo: 2835 },
+			{ date: "2019.05.01", elo: 2875 },
+			{ date: "2019.06.12", elo: 2880 },
+		]);
+		expect(stats.years).toEqual([{ year: "2018", games: 1 }, { year: "2019", games: 2 }]);
+	});
+});
@@ -0,0 +1,130 @@
+import { GameHeaders } from "./GameProvider";
+import { normalizePlayer } from "./GameFingerprint";
+
+/** Results from the player's point of view. */
+export interface ScoreLine {
+	games: number;
+	wins: number;
+	draws: number;
+	losses: number;
+}
+
+export interface OpeningLine extends ScoreLine {
+	eco: string;
+	/** The Opening header of the first game seen with this ECO, if any. */
+	name: string;
+}
+
+export interface OpponentLine extends ScoreLine {
+	name: string;
+}
+
+export interface RatingPoint {
+	date: string;
+	elo: number;
+}
+
+export interface PlayerStats {
+	player: string;
+	total: ScoreLine;
+	white: ScoreLine;
+	black: ScoreLine;
+	/** Most played first. */
+	openings: OpeningLine[];
+	/** Most met first. */
+	opponents: OpponentLine[];
+	/** The player's rating in each dated game with one, oldest first. */
+	ratings: RatingPoint[];
+	/** Games per year, oldest first; games without a year are left out. */
+	years: { year: string; games: number }[];
+}
+
+function emptyLine(): ScoreLine {
+	return { games: 0, wins: 0, draws: 0, losses: 0 };
+}
+
+/** Points per game, from 0 to 1, or null without games. */
+export function scoreRatio(line: ScoreLine): number | null {
+	return line.games ? (line.wins + line.draws / 2) / line.games : null;
+}
+
+function addResult(line: ScoreLine, outcome: "win" | "draw" | "loss" | null): void {
+	line.games++;
+	if (outcome === "win") line.wins++;
+	else if (outcome === "draw") line.draws++;
+	else if (outcome === "loss") line.losses++;
+}
+
+/** Which side `player` had in a game, or null if neither; names match as they do for duplicate detection. */
+export function playerColor(player: string, headers: GameHeaders): "white" | "black" | null {
+	const name = normalizePlayer(player);
+	if (!name) return null;
+	if (normalizePlayer(headers["White"] ?? "") === name) return "white";
+	if (normalizePlayer(headers["Black"] ?? "") === name) return "black";
+	return null;
+}
+
+/** Statistics for `player` over the games they played among `games`; other games are ignored. */
+export function computePlayerStats(player: string, games: Iterable<GameHeaders>): PlayerStats {
+	const total = emptyLine();
+	const white = emptyLine();
+	const black = emptyLine();
+	const openings = new Map<string, OpeningLine>();
+	const opponents = new Map<string, OpponentLine>();
+	const ratings: RatingPoint[] = [];
+	const years = new Map<string, number>();
+
+	for (const headers of games) {
+		const color = playerColor(player, headers);
+		if (!color) continue;
+
+		const result = headers["Result"] ?? "*";
+		const outcome = result === "1/2-1/2" ? "draw"
+			: result === "1-0" ? (color === "white" ? "win" : "loss")
+			: result === "0-1" ? (color === "black" ? "win" : "loss")
+			: null;
+		addResult(total, outcome);
+		addResult(color === "white" ? white : black, outcome);
+
+		const eco = (headers["ECO"] ?? "").trim().toUpperCase() || "?";
+		let opening = openings.get(eco);
+		if (!opening) {
+			opening = { eco, name: "", ...emptyLine() };
+			openings.set(eco, opening);
+		}
+		if (!opening.name && headers["Opening"]) opening.name = headers["Opening"];
+		addResult(opening, outcome);
+
+		const opponentName = headers[color === "white" ? "Black" : "White"] ?? "";
+		const opponentKey = normalizePlayer(opponentName);
+		if (opponentKey) {
+			let opponent = opponents.get(opponentKey);
+			if (!opponent) {
+				opponent = { name: opponentName.trim(), ...emptyLine() };
+				opponents.set(opponentKey, opponent);
+			}
+			addResult(opponent, outcome);
+		}
+
+		const date = headers["Date"] ?? "";
+		const year = date.slice(0, 4);
+		if (/^\d{4}$/.test(year)) {
+			years.set(year, (years.get(year) ?? 0) + 1);
+			const elo = parseInt(headers[color === "white" ? "WhiteElo" : "BlackElo"] ?? "", 10);
+			if (elo > 0) ratings.push({ date: date.replace(/[-/]/g, "."), elo });
+		}
+	}
+
+	const byGames = (a: ScoreLine, b: ScoreLine) => b.games - a.games;
+	return {
+		player,
+		total,
+		white,
+		black,
+		openings: [...openings.values()].sort((a, b) => byGames(a, b) || a.eco.localeCompare(b.eco)),
+		opponents: [...opponents.values()].sort((a, b) => byGames(a, b) || a.name.localeCompare(b.name)),
+		// Stable, so games on the same day keep their order
+		ratings: ratings.sort((a, b) => a.date < b.date ? -1 : a.date > b.date ? 1 : 0),
+		years: [...years.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([year, count]) => ({ year, games: count })),
+	};
+}
@@ -0,0 +1,261 @@
+import { ItemView, ViewStateResult, WorkspaceLeaf } from "obsidian";
+import { ALL_SOURCES_KEY, GameHeaders, GameProvider, createProviderForKey } from "./GameProvider";
+import { ChessJournalSettings, sourceDisplayName, sourceKey } from "./settings";
+import { CancelledError, ProviderTask } from "./ProviderTask";
+import { PlayerStats, RatingPoint, ScoreLine, computePlayerStats, scoreRatio } from "./PlayerStats";
+import { normalizePlayer } from "./GameFingerprint";
+
+export const VIEW_TYPE_PLAYER_STATS = "chess-journal-player-stats-view";
+
+/** Games fetched from the source per search call. */
+const FETCH_SIZE = 1000;
+/** Rows shown in the openings and opponents tables. */
+const TOP_ROWS = 15;
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+/**
+ * Statistics for one player over their games in a source: score by colour,
+ * results by opening, frequent opponents, rating over time and games per
+ * year. Opens its own provider for the source, so it keeps working when the
+ * database view moves on.
+ */
+export class PlayerStatsView extends ItemView {
+	private settings: ChessJournalSettings;
+	private player: string = "";
+	private sourceKey: string = "";
+	private stats: PlayerStats | null = null;
+	private pendingTask: AbortController | null = null;
+
+	constructor(leaf: WorkspaceLeaf, settings: ChessJournalSettings) {
+		super(leaf);
+		this.settings = settings;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_PLAYER_STATS;
+	}
+
+	getDisplayText(): string {
+		return this.player ? `${this.player} statistics` : "Player statistics";
+	}
+
+	getIcon(): string {
+		return "user";
+	}
+
+	getState(): Record<string, unknown> {
+		return { player: this.player, sourceKey: this.sourceKey };
+	}
+
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		const s = state as Record<string, unknown>;
+		const player = typeof s?.player === "string" ? s.player : "";
+		const key = typeof s?.sourceKey === "string" ? s.sourceKey : "";
+		await super.setState(state, result);
+		if (player !== this.player || key !== this.sourceKey || !this.pendingTask) {
+			this.player = player;
+			this.sourceKey = key;
+			this.leaf.updateHeader();
+			void this.loadStats();
+		}
+	}
+
+	async onOpen(): Promise<void> {
+		this.contentEl.addClass("chess-journal-player-stats");
+	}
+
+	async onClose(): Promise<void> {
+		this.pendingTask?.abort();
+	}
+
+	private sourceName(): string {
+		if (this.sourceKey === ALL_SOURCES_KEY) return "All sources";
+		const source = this.settings.externalSources.find(s => sourceKey(s) === this.sourceKey);
+		return source ? sourceDisplayName(source) : this.sourceKey;
+	}
+
+	private async loadStats(): Promise<void> {
+		this.pendingTask?.abort();
+		const controller = new AbortController();
+		this.pendingTask = controller;
+		this.stats = null;
+
+		const status = this.renderFrame();
+		if (!this.player) return;
+		const provider = createProviderForKey(this.sourceKey, this.settings);
+		if (!provider) {
+			status.setText("This source is no longer configured.");
+			return;
+		}
+
+		const task: ProviderTask = {
+			signal: controller.signal,
+			onProgress: (done, total) => {
+				if (!controller.signal.aborted && total) {
+					status.setText(`Loading games... ${Math.floor((done / total) * 100)}%`);
+				}
+			},
+		};
+		try {
+			status.setText("Loading games...");
+			await provider.open(task);
+			const games = await this.fetchPlayerGames(provider, task);
+			if (controller.signal.aborted) return;
+			this.stats = computePlayerStats(this.player, games);
+			this.render();
+		} catch (e) {
+			if (e instanceof CancelledError || controller.signal.aborted) return;
+			status.setText(`Error loading games: ${e.message}`);
+		} finally {
+			provider.close();
+		}
+	}
+
+	/**
+	 * Headers of the games that may be the player's. Searching for the longest
+	 * word of the name also finds the games that write it in another order;
+	 * computePlayerStats leaves out the rest.
+	 */
+	private async fetchPlayerGames(provider: GameProvider, task: ProviderTask): Promise<GameHeaders[]> {
+		const words = normalizePlayer(this.player).split(" ");
+		const word = words.reduce((longest, w) => w.length > longest.length ? w : longest, "");
+		if (!word) return [];
+		const query = `player:"${word}"`;
+
+		const games: GameHeaders[] = [];
+		for (let offset = 0; ; offset += FETCH_SIZE) {
+			const result = await provider.search(query, offset, FETCH_SIZE, offset === 0 ? task : { signal: task.signal });
+			games.push(...result.games.map(entry => entry.headers));
+			if (result.games.length === 0 || games.length >= result.total) return games;
+		}
+	}
+
+	/** Clear the view down to its title; returns the status line. */
+	private renderFrame(): HTMLElement {
+		const container = this.contentEl;
+		container.empty();
+		const header = container.createDiv("chess-journal-stats-header");
+		header.createDiv({ cls: "chess-journal-stats-player", text: this.player || "No player" });
+		header.createDiv({ cls: "chess-journal-stats-source", text: this.sourceName() });
+		return container.createDiv("chess-journal-stats-status");
+	}
+
+	private render(): void {
+		const status = this.renderFrame();
+		const stats = this.stats;
+		if (!stats) return;
+		if (stats.total.games === 0) {
+			status.setText("No games found for this player.");
+			return;
+		}
+		status.setText(`${stats.total.games.toLocaleString()} ${stats.total.games === 1 ? "game" : "games"}`);
+
+		const colours = this.section("Score by colour");
+		const colourTable = this.scoreTable(colours, []);
+		this.scoreRow(colourTable, ["White"], stats.white);
+		this.scoreRow(colourTable, ["Black"], stats.black);
+		this.scoreRow(colourTable, ["Total"], stats.total);
+
+		const openings = this.section("Openings");
+		const openingTable = this.scoreTable(openings, ["ECO"]);
+		for (const opening of stats.openings.slice(0, TOP_ROWS)) {
+			const row = this.scoreRow(openingTable, [opening.eco], opening);
+			if (opening.name) row.cells[0].setAttribute("title", opening.name);
+		}
+
+		const opponents = this.section("Most frequent opponents");
+		const opponentTable = this.scoreTable(opponents, []);
+		for (const opponent of stats.opponents.slice(0, TOP_ROWS)) {
+			const row = this.scoreRow(opponentTable, [opponent.name], opponent);
+			row.addClass("is-clickable");
+			row.addEventListener("click", () => {
+				void this.leaf.setViewState({
+					type: VIEW_TYPE_PLAYER_STATS,
+					active: true,
+					state: { player: opponent.name, sourceKey: this.sourceKey },
+				});
+			});
+		}
+
+		if (stats.ratings.length > 1) {
+			this.renderRatingChart(this.section("Rating"), stats.ratings);
+		}
+
+		if (stats.years.length === 0) return;
+		const years = this.section("Games by year");
+		const most = Math.max(...stats.years.map(y => y.games));
+		const yearTable = years.createEl("table", { cls: "chess-journal-stats-table" }).createEl("tbody");
+		for (const { year, games } of stats.years) {
+			const row = yearTable.createEl("tr");
+			row.createEl("td", { text: year });
+			row.createEl("td", { cls: "chess-journal-stats-number", text: games.toLocaleString() });
+			const bar = row.createEl("td").createDiv("chess-journal-stats-year-bar");
+			bar.style.width = `${((games / most) * 100).toFixed(1)}%`;
+		}
+	}
+
+	private section(title: string): HTMLElement {
+		const section = this.contentEl.createDiv("chess-journal-stats-section");
+		section.createDiv({ cls: "chess-journal-stats-section-title", text: title });
+		return section;
+	}
+
+	private scoreTable(container: HTMLElement, labels: string[]): HTMLTableSectionElement {
+		const table = container.createEl("table", { cls: "chess-journal-stats-table" });
+		const head = table.createEl("thead").createEl("tr");
+		for (const label of labels) head.createEl("th", { text: label });
+		if (!labels.length) head.createEl("th");
+		for (const label of ["Games", "+", "=", "−", "Score"]) {
+			head.createEl("th", { cls: "chess-journal-stats-number", text: label });
+		}
+		head.createEl("th");
+		return table.createEl("tbody");
+	}
+
+	private scoreRow(tbody: HTMLTableSectionElement, labels: string[], line: ScoreLine): HTMLTableRowElement {
+		const row = tbody.createEl("tr");
+		for (const label of labels) row.createEl("td", { text: label });
+		for (const value of [line.games, line.wins, line.draws, line.losses]) {
+			row.createEl("td", { cls: "chess-journal-stats-number", text: value.toLocaleString() });
+		}
+		const score = scoreRatio(line);
+		row.createEl("td", {
+			cls: "chess-journal-stats-number",
+			text: score === null ? "" : `${Math.round(score * 100)}%`,
+		});
+
+		const bar = row.createEl("td").createDiv("chess-journal-stats-score-bar");
+		if (line.games > 0) {
+			for (const [cls, count] of [["is-win", line.wins], ["is-draw", line.draws], ["is-loss", line.losses]] as const) {
+				if (count > 0) bar.createDiv({ cls }).style.width = `${((count / line.games) * 100).toFixed(1)}%`;
+			}
+		}
+		return row;
+	}
+
+	/** The player's rating as a line over their games in date order, with the range and dates labelled. */
+	private renderRatingChart(container: HTMLElement, ratings: RatingPoint[]): void {
+		const min = Math.min(...ratings.map(r => r.elo));
+		const max = Math.max(...ratings.map(r => r.elo));
+		const span = Math.max(1, max - min);
+		const points = ratings.map((r, i) => {
+			const x = (i / (ratings.length - 1)) * CHART_WIDTH;
+			const y = CHART_HEIGHT - ((r.elo - min) / span) * CHART_HEIGHT;
+			return `${x.toFixed(1)},${y.toFixed(1)}`;
+		});
+
+		const chart = container.createDiv("chess-journal-stats-chart");
+		const labels = chart.createDiv("chess-journal-stats-chart-range");
+		labels.createSpan({ text: String(max) });
+		labels.createSpan({ text: String(min) });
+		const svg = chart.createSvg("svg", {
+			attr: { viewBox: `0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`, preserveAspectRatio: "none" },
+		});
+		svg.createSvg("polyline", { attr: { points: points.join(" ") } });
+
+		const dates = container.createDiv("chess-journal-stats-chart-dates");
+		dates.createSpan({ text: ratings[0].date });
+		dates.createSpan({ text: ratings[ratings.length - 1].date });
+	}
+}
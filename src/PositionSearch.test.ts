@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { parsePositionTarget, gameReachesPosition, positionKey, PositionSearchError } from "./PositionSearch";
+
+const AFTER_E4_E5 = "rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2";
+const SICILIAN = "rnbqkbnr/pp1ppppp/8/2p5/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2";
+
+describe("parsePositionTarget", () => {
+	it("accepts a FEN", () => {
+		expect(parsePositionTarget(AFTER_E4_E5).key).toBe("rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w");
+	});
+
+	it("accepts an EPD with operations", () => {
+		const target = parsePositionTarget("rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - bm Nf3;");
+		expect(target.key).toBe(positionKey(AFTER_E4_E5));
+	});
+
+	it("counts material", () => {
+		const target = parsePositionTarget("4k3/8/8/8/8/8/4P3/R3K3 w Q - 0 1");
+		expect(target.pawns).toEqual([1, 0]);
+		expect(target.pieces).toEqual([2, 0]);
+	});
+
+	it("rejects malformed positions", () => {
+		expect(() => parsePositionTarget("")).toThrow(PositionSearchError);
+		expect(() => parsePositionTarget("not a fen")).toThrow(PositionSearchError);
+		expect(() => parsePositionTarget("8/8/8/8/8/8/8/8 w - -")).toThrow(PositionSearchError);
+	});
+});
+
+describe("gameReachesPosition", () => {
+	const target = parsePositionTarget(AFTER_E4_E5);
+
+	it("finds a position on the main line", () => {
+		expect(gameReachesPosition("1.e4 e5 2.Nf3 Nc6 *", target)).toBe(true);
+	});
+
+	it("finds a position reached by a different move order", () => {
+		const target = parsePositionTarget("rnbqkb1r/pppppppp/5n2/8/8/5N2/PPPPPPPP/RNBQKB1R w KQkq - 2 2");
+		expect(gameReachesPosition("1.Nf3 Nf6 *", target)).toBe(true);
+	});
+
+	it("ignores positions reached only in variations", () => {
+		expect(gameReachesPosition("1.e4 c5 (1...e5) 2.Nf3 *", target)).toBe(false);
+	});
+
+	it("ignores castling and en passant fields", () => {
+		const withEp = parsePositionTarget(SICILIAN.replace(" - ", " c6 "));
+		expect(gameReachesPosition("1.e4 c5 *", withEp)).toBe(true);
+	});
+
+	it("starts from the FEN header", () => {
+		const endgame = `[SetUp "1"]\n[FEN "4k3/8/8/8/8/8/4P3/4K3 w - - 0 1"]\n\n1.e4 Kd7 *`;
+		expect(gameReachesPosition(endgame, parsePositionTarget("8/3k4/8/8/4P3/8/8/4K3 w - - 0 2"))).toBe(true);
+	});
+
+	it("does not match unparseable games", () => {
+		expect(gameReachesPosition("1.e4 e5 2.Ke3 *", target)).toBe(false);
+	});
+});
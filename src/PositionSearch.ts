@@ -0,0 +1,112 @@
+import { Chess } from "chess.js";
+import { parsePgnTree } from "./PgnTree";
+
+/**
+ * Position search: find games whose main line reaches a position given as a
+ * FEN or EPD. Positions match on piece placement and side to move; castling
+ * rights, en passant and move counters are ignored.
+ */
+
+export class PositionSearchError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "PositionSearchError";
+	}
+}
+
+export interface PositionTarget {
+	fen: string;                 // normalised full FEN of the position
+	key: string;                 // placement and side to move
+	pawns: [number, number];     // white, black
+	pieces: [number, number];    // non-king pieces including pawns
+	homePawns: number[];         // indices into the expanded board of pawns still on their home square
+}
+
+/** Parse and validate a FEN or EPD. Throws PositionSearchError if it is not a legal position. */
+export function parsePositionTarget(fenOrEpd: string): PositionTarget {
+	const trimmed = fenOrEpd.trim();
+	if (!trimmed) throw new PositionSearchError("Enter a FEN or EPD to search for");
+
+	// EPD operations (e.g. `bm Nf3;`) follow the four position fields
+	const fields = trimmed.split(/\s+/);
+	const position = fields.length > 4 && !/^\d+$/.test(fields[4])
+		? fields.slice(0, 4).join(" ")
+		: trimmed;
+
+	let fen: string;
+	try {
+		fen = new Chess(position).fen();
+	} catch (e) {
+		throw new PositionSearchError(`Invalid position: ${e.message}`);
+	}
+
+	const board = expandPlacement(fen.split(" ")[0]);
+	const target: PositionTarget = {
+		fen,
+		key: positionKey(fen),
+		pawns: [0, 0],
+		pieces: [0, 0],
+		homePawns: [],
+	};
+	countMaterial(board, target.pawns, target.pieces);
+	for (let file = 0; file < 8; file++) {
+		if (board[48 + file] === "P") target.homePawns.push(48 + file);
+		if (board[8 + file] === "p") target.homePawns.push(8 + file);
+	}
+	return target;
+}
+
+/** Placement and side to move of a FEN: the part of a position that search compares. */
+export function positionKey(fen: string): string {
+	return fen.split(" ").slice(0, 2).join(" ");
+}
+
+/** Expand a FEN placement into 64 characters, a8 first, with "." for empty squares. */
+export function expandPlacement(placement: string): string {
+	return placement.replace(/\//g, "").replace(/\d/g, d => ".".repeat(parseInt(d, 10)));
+}
+
+function countMaterial(board: string, pawns: [number, number], pieces: [number, number]): void {
+	pawns[0] = pawns[1] = pieces[0] = pieces[1] = 0;
+	for (const ch of board) {
+		if (ch === "." || ch === "K" || ch === "k") continue;
+		const color = ch === ch.toUpperCase() ? 0 : 1;
+		pieces[color]++;
+		if (ch === "P" || ch === "p") pawns[color]++;
+	}
+}
+
+/** Whether the main line of a PGN game reaches the target position. Unparseable games never match. */
+export function gameReachesPosition(pgn: string, target: PositionTarget): boolean {
+	let tree;
+	try {
+		tree = parsePgnTree(pgn);
+	} catch {
+		return false;
+	}
+
+	const pawns: [number, number] = [0, 0];
+	const pieces: [number, number] = [0, 0];
+	let fen = tree.startFen;
+	let node = tree.moves[0];
+
+	for (;;) {
+		if (positionKey(fen) === target.key) return true;
+
+		// Captures and pawn moves are irreversible: once the game has less
+		// material or has moved a pawn the target still has at home, stop.
+		const board = expandPlacement(fen.split(" ")[0]);
+		countMaterial(board, pawns, pieces);
+		if (pawns[0] < target.pawns[0] || pawns[1] < target.pawns[1] ||
+			pieces[0] < target.pieces[0] || pieces[1] < target.pieces[1]) {
+			return false;
+		}
+		if (target.homePawns.some(i => board[i] !== (i >= 48 ? "P" : "p"))) {
+			return false;
+		}
+
+		if (!node) return false;
+		fen = node.fen;
+		node = node.children[0];
+	}
+}
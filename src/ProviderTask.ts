@@ -0,0 +1,49 @@
+/** Progress reporting and cancellation for long-running provider calls. */
+export interface ProviderTask {
+	signal?: AbortSignal;
+	/** `done` out of `total` units of work (bytes, games, ...). */
+	onProgress?: (done: number, total: number) => void;
+}
+
+export class CancelledError extends Error {
+	constructor() {
+		super("Cancelled");
+		this.name = "CancelledError";
+	}
+}
+
+export function throwIfCancelled(task: ProviderTask | undefined): void {
+	if (task?.signal?.aborted) throw new CancelledError();
+}
+
+const TICK_INTERVAL_MS = 50;
+
+/**
+ * Paces a long loop: every so often `tick` reports progress and yields to the
+ * event loop so a cancellation (or, in a worker, a cancel message) can arrive.
+ *
+ *     const ticker = new TaskTicker(task, count);
+ *     for (let i = 0; i < count; i++) {
+ *         if (ticker.due()) await ticker.tick(i);
+ *         ...
+ *     }
+ */
+export class TaskTicker {
+	private lastTick = Date.now();
+
+	constructor(private readonly task: ProviderTask | undefined, private readonly total: number) {
+		throwIfCancelled(task);
+	}
+
+	due(): boolean {
+		return Date.now() - this.lastTick >= TICK_INTERVAL_MS;
+	}
+
+	/** Report progress and yield. Throws CancelledError once the task is cancelled. */
+	async tick(done: number): Promise<void> {
+		this.task?.onProgress?.(done, this.total);
+		await new Promise(resolve => setTimeout(resolve, 0));
+		this.lastTick = Date.now();
+		throwIfCancelled(this.task);
+	}
+}
@@ -0,0 +1,109 @@
+import { GameProvider } from "./GameProvider";
+import { PgnProvider } from "./PgnProvider";
+import { ScidProvider } from "./ScidProvider";
+import { ProviderTask } from "./ProviderTask";
+import { PgnSource, ScidSource } from "./settings";
+
+export type FileSource = PgnSource | ScidSource;
+
+/** One end of a message channel: a worker, its parent port, or a MessagePort. */
+export interface MessageEndpoint {
+	postMessage(message: unknown): void;
+	on(event: "message", listener: (message: any) => void): unknown;
+}
+
+export type WorkerRequest =
+	| { type: "call"; id: number; providerId: number; method: string; args: unknown[] }
+	| { type: "cancel"; id: number };
+
+export type WorkerResponse =
+	| { type: "result"; id: number; value: unknown }
+	| { type: "error"; id: number; name: string; message: string }
+	| { type: "progress"; id: number; done: number; total: number };
+
+/** Settings file providers share, whichever thread they run on. */
+export interface FileProviderOptions {
+	/** Where PGN indexes are saved between opens; without it files are rescanned. */
+	pgnIndexDir?: string;
+}
+
+export function createLocalFileProvider(source: FileSource, options: FileProviderOptions = {}): GameProvider {
+	return source.type === "pgn"
+		? new PgnProvider(source.path, options.pgnIndexDir ?? null)
+		: new ScidProvider(source.path);
+}
+
+/**
+ * Run file providers on behalf of WorkerGameProvider instances on the other
+ * side of `endpoint`. Each call gets its own task, aborted by a "cancel"
+ * request with the call's id.
+ */
+export function serveProviders(endpoint: MessageEndpoint): void {
+	const providers = new Map<number, GameProvider>();
+	const running = new Map<number, AbortController>();
+
+	const call = async (provider: GameProvider | undefined, method: string, args: any[], task: ProviderTask): Promise<unknown> => {
+		if (!provider) throw new Error("Game source is not open");
+		switch (method) {
+			case "getGameCount":
+				return provider.getGameCount();
+			case "getGames":
+				return provider.getGames(args[0], args[1], args[2]);
+			case "getGamePgn":
+				return provider.getGamePgn(args[0]);
+			case "search":
+				return provider.search(args[0], args[1], args[2], task, args[3]);
+			case "searchPosition":
+				return provider.searchPosition(args[0], args[1], args[2], args[3], task, args[4]);
+			case "searchPattern":
+				return provider.searchPattern(args[0], args[1], args[2], args[3], task, args[4]);
+			case "searchNames":
+				return provider.searchNames(args[0], args[1], args[2]);
+			case "setFlagFilter":
+				if (!provider.setFlagFilter) throw new Error("Only SCID bases have flags to filter by");
+				return provider.setFlagFilter(args[0]);
+			case "appendGame":
+				if (!provider.appendGame) throw new Error("Games can only be appended to SCID bases");
+				return provider.appendGame(args[0]);
+			default:
+				throw new Error(`Unknown provider method: ${method}`);
+		}
+	};
+
+	const handle = async (id: number, providerId: number, method: string, args: any[]): Promise<void> => {
+		const controller = new AbortController();
+		running.set(id, controller);
+		const task: ProviderTask = {
+			signal: controller.signal,
+			onProgress: (done, total) => endpoint.postMessage({ type: "progress", id, done, total }),
+		};
+
+		try {
+			let value: unknown;
+			if (method === "open") {
+				const provider = createLocalFileProvider(args[0] as FileSource, args[1] as FileProviderOptions);
+				await provider.open(task);
+				providers.set(providerId, provider);
+			} else if (method === "close") {
+				providers.get(providerId)?.close();
+				providers.delete(providerId);
+			} else {
+				value = await call(providers.get(providerId), method, args, task);
+			}
+			endpoint.postMessage({ type: "result", id, value });
+		} catch (e) {
+			const error = e instanceof Error ? e : new Error(String(e));
+			endpoint.postMessage({ type: "error", id, name: error.name, message: error.message });
+		} finally {
+			running.delete(id);
+		}
+	};
+
+	endpoint.on("message", (request: WorkerRequest) => {
+		if (request.type === "cancel") {
+			running.get(request.id)?.abort();
+		} else {
+			void handle(request.id, request.providerId, request.method, request.args);
+		}
+	});
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { addLineToRepertoire, gameOpeningLine } from "./RepertoireLines";
+import { RepertoireNode } from "./RepertoireTypes";
+
+const START_EPD = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq -";
+
+describe("gameOpeningLine", () => {
+	it("takes the first moves of the main line with their positions", () => {
+		const line = gameOpeningLine("1. e4 c5 (1... e5) 2. Nf3 d6 3. d4 1-0", 3);
+		expect(line?.map(m => m.san)).toEqual(["e4", "c5", "Nf3"]);
+		expect(line?.[0].epd).toBe("rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq -");
+	});
+
+	it("is null for games from another position or that do not parse", () => {
+		expect(gameOpeningLine(`[FEN "8/8/8/4k3/8/8/4P3/4K3 w - - 0 1"]\n[SetUp "1"]\n\n1. e4 *`, 10)).toBeNull();
+		expect(gameOpeningLine("1. e5 *", 10)).toBeNull();
+	});
+});
+
+describe("addLineToRepertoire", () => {
+	it("adds only the moves the tree does not have", () => {
+		const root: RepertoireNode = { san: null, epd: START_EPD, children: [] };
+		expect(addLineToRepertoire(root, gameOpeningLine("1. e4 c5 2. Nf3 *", 10)!)).toBe(3);
+		expect(addLineToRepertoire(root, gameOpeningLine("1. e4 c5 2. Nc3 *", 10)!)).toBe(1);
+		expect(addLineToRepertoire(root, gameOpeningLine("1. e4 c5 *", 10)!)).toBe(0);
+		expect(root.children).toHaveLength(1);
+		expect(root.children[0].children[0].children.map(c => c.san)).toEqual(["Nf3", "Nc3"]);
+	});
+});
@@ -0,0 +1,49 @@
+import { RepertoireNode } from "./RepertoireTypes";
+import { parsePgnTree } from "./PgnTree";
+
+/** A move of a line with the position it leads to. */
+export interface LineMove {
+	san: string;
+	epd: string;
+}
+
+const START_EPD = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq -";
+
+/**
+ * The first `plies` moves of a game's main line, or null if the game cannot
+ * be parsed or does not start from the initial position (a repertoire always
+ * does).
+ */
+export function gameOpeningLine(pgn: string, plies: number): LineMove[] | null {
+	let tree;
+	try {
+		tree = parsePgnTree(pgn);
+	} catch {
+		return null;
+	}
+	if (tree.startFen.split(" ").slice(0, 4).join(" ") !== START_EPD) return null;
+
+	const line: LineMove[] = [];
+	let node = tree.moves[0];
+	while (node && line.length < plies) {
+		line.push({ san: node.san, epd: node.fen.split(" ").slice(0, 4).join(" ") });
+		node = node.children[0];
+	}
+	return line;
+}
+
+/** Merge a line into a repertoire tree from its root; returns the number of moves that were new. */
+export function addLineToRepertoire(root: RepertoireNode, line: LineMove[]): number {
+	let node = root;
+	let added = 0;
+	for (const move of line) {
+		let child = node.children.find(c => c.san === move.san);
+		if (!child) {
+			child = { san: move.san, epd: move.epd, children: [] };
+			node.children.push(child);
+			added++;
+		}
+		node = child;
+	}
+	return added;
+}
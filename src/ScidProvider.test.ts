@@ -0,0 +1,282 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ScidProvider, appendPgnToScid, pgnToScidGame } from "./ScidProvider";
+import { ScidDatabase, FLAG_DELETED, userFlagBits } from "./scid/index";
+import { parsePgnTree } from "./PgnTree";
+import { BoardPattern } from "./MaterialSearch";
+import { PositionSearchError } from "./PositionSearch";
+
+const ANNOTATED = `[Event "Club Championship"]
+[Site "Leeds"]
+[Date "2024.03.15"]
+[Round "3"]
+[White "Adams, Jane"]
+[Black "Brown, Tom"]
+[Result "1-0"]
+[WhiteElo "2150"]
+[BlackElo "1980"]
+[ECO "C42"]
+[Annotator "Coach"]
+
+{Petroff} 1. e4 e5 2. Nf3 Nf6 (2... Nc6 3. Bb5 {Spanish} (3. Bc4 Bc5) a6) 3. Nxe5 $1 d6 4. Nf3 Nxe4 5. d4 1-0`;
+
+const FROM_POSITION = `[Event "Study"]
+[Site "?"]
+[Date "????.??.??"]
+[Round "?"]
+[White "?"]
+[Black "?"]
+[Result "*"]
+[SetUp "1"]
+[FEN "4k3/P7/8/8/8/8/8/4K3 w - - 0 1"]
+
+1. a8=N Kd7 2. Nb6+ *`;
+
+describe("pgnToScidGame", () => {
+	it("keeps tags without an index field as extra tags", () => {
+		const game = pgnToScidGame(ANNOTATED);
+		expect(game.headers).toMatchObject({ white: "Adams, Jane", whiteElo: 2150, eco: "C42", result: "1-0" });
+		expect(game.extraTags).toEqual([["Annotator", "Coach"]]);
+		expect(game.startFen).toBeNull();
+	});
+
+	it("builds variations from the position before the move they replace", () => {
+		const game = pgnToScidGame(ANNOTATED);
+		const nf6 = game.tree.moves[3];
+		expect(nf6.move).toEqual({ from: "g8", to: "f6" });
+		expect(nf6.variations[0].moves.map(m => m.move.to)).toEqual(["c6", "b5", "a6"]);
+		expect(nf6.variations[0].moves[1].variations[0].moves.map(m => m.move.to)).toEqual(["c4", "c5"]);
+	});
+});
+
+describe("appendPgnToScid", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "scid-provider-test-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	for (const ext of [".si4", ".si5"]) {
+		it(`reads back what was appended (${ext})`, async () => {
+			const dbPath = path.join(dir, `games${ext}`);
+			ScidDatabase.create(dbPath);
+			expect(appendPgnToScid(dbPath, ANNOTATED)).toBe(0);
+			expect(appendPgnToScid(dbPath, FROM_POSITION)).toBe(1);
+
+			const provider = new ScidProvider(dbPath);
+			await provider.open();
+			for (const [index, pgn] of [ANNOTATED, FROM_POSITION].entries()) {
+				const expected = parsePgnTree(pgn);
+				const actual = parsePgnTree(await provider.getGamePgn(index));
+				expect(actual.headers).toEqual(expect.objectContaining(expected.headers));
+				expect(actual.startFen).toBe(expected.startFen);
+				expect(actual.comment).toBe(expected.comment);
+				expect(actual.moves).toEqual(expected.moves);
+			}
+			// Tags and movetext are separated by a blank line
+			expect(await provider.getGamePgn(0)).toContain('[Annotator "Coach"]\n\n{Petroff} 1. e4');
+			provider.close();
+		});
+	}
+
+	it("lists ply counts, event dates, rating types and Chess960", async () => {
+		const dbPath = path.join(dir, "games.si5");
+		ScidDatabase.create(dbPath);
+		appendPgnToScid(dbPath, ANNOTATED.replace('[WhiteElo "2150"]', '[WhiteUSCF "2150"]\n[EventDate "2024.03.10"]\n[Variant "Chess960"]'));
+
+		const provider = new ScidProvider(dbPath);
+		await provider.open();
+		const [entry] = await provider.getGames(0, 1);
+		expect(entry.headers).toMatchObject({
+			PlyCount: "9", EventDate: "2024.03.10", WhiteUSCF: "2150", BlackElo: "1980", Variant: "Chess960",
+		});
+		expect(entry.headers["WhiteElo"]).toBeUndefined();
+		expect(entry.headers["Flags"]).toBeUndefined();
+		const pgn = await provider.getGamePgn(0);
+		expect(pgn).toContain('[WhiteUSCF "2150"]');
+		expect(pgn).toContain('[PlyCount "9"]');
+		expect(pgn.match(/\[Variant /g)).toHaveLength(1);
+		provider.close();
+	});
+
+	for (const ext of [".si4", ".si5"]) {
+		it(`appends through an open provider and drops what it cached (${ext})`, async () => {
+			const dbPath = path.join(dir, `games${ext}`);
+			ScidDatabase.create(dbPath);
+			appendPgnToScid(dbPath, ANNOTATED);
+
+			const provider = new ScidProvider(dbPath);
+			await provider.open();
+			expect((await provider.search("adams", 0, 10)).total).toBe(1);
+			expect(await provider.searchNames("player", "adams", 10)).toEqual([{ name: "Adams, Jane", games: 1 }]);
+
+			// A new name sorts before the others in the SCID4 namebase
+			const added = ANNOTATED.replace("Brown, Tom", "Aaron, Ann");
+			expect(await provider.appendGame(added)).toBe(1);
+			expect(await provider.getGameCount()).toBe(2);
+			expect((await provider.search("adams", 0, 10)).total).toBe(2);
+			expect(await provider.searchNames("player", "a", 10)).toEqual([
+				{ name: "Adams, Jane", games: 2 },
+				{ name: "Aaron, Ann", games: 1 },
+			]);
+			expect((await provider.getGames(0, 10)).map(g => g.headers.Black)).toEqual(["Brown, Tom", "Aaron, Ann"]);
+			provider.close();
+
+			// What was written reads back the same in a provider opened afterwards
+			const reopened = new ScidProvider(dbPath);
+			await reopened.open();
+			expect((await reopened.getGames(0, 10)).map(g => g.headers.Black)).toEqual(["Brown, Tom", "Aaron, Ann"]);
+			reopened.close();
+		});
+	}
+
+	it("filters games by their index flags without resolving names", async () => {
+		const dbPath = path.join(dir, "games.si4");
+		ScidDatabase.create(dbPath);
+		const db = new ScidDatabase();
+		db.open(dbPath);
+		const endgame = userFlagBits("E");
+		for (const flags of [0, FLAG_DELETED, endgame, FLAG_DELETED | endgame]) {
+			const game = pgnToScidGame(ANNOTATED);
+			db.appendGame({ ...game, headers: { ...game.headers, flags } });
+		}
+		db.close();
+
+		const provider = new ScidProvider(dbPath);
+		await provider.open();
+		const getHeaders = vi.spyOn(ScidDatabase.prototype, "getHeaders");
+		await provider.setFlagFilter({ require: 0, exclude: FLAG_DELETED });
+		expect(await provider.getGameCount()).toBe(2);
+		expect((await provider.getGames(0, 1)).map(g => g.index)).toEqual([0]);
+		// Only the game listed
+		expect(getHeaders).toHaveBeenCalledTimes(1);
+		getHeaders.mockRestore();
+
+		const indices = (games: { index: number }[]) => games.map(g => g.index);
+		expect(indices(await provider.getGames(1, 10))).toEqual([2]);
+		expect(indices(await provider.getGames(0, 10, { field: "PlyCount", descending: true }))).toEqual([0, 2]);
+		await provider.setFlagFilter({ require: endgame, exclude: FLAG_DELETED });
+		expect(indices((await provider.search("adams", 0, 10)).games)).toEqual([2]);
+		const pawns: BoardPattern = { kind: "pawns", fen: "8/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/8" };
+		expect(indices((await provider.searchPattern(pawns, "", 0, 10)).games)).toEqual([2]);
+		await provider.setFlagFilter({ require: FLAG_DELETED, exclude: 0 });
+		expect(indices(await provider.getGames(0, 10))).toEqual([1, 3]);
+		await provider.setFlagFilter(null);
+		expect(await provider.getGameCount()).toBe(4);
+		provider.close();
+	});
+
+	it("suggests names and searches them by name ID", async () => {
+		const dbPath = path.join(dir, "games.si4");
+		ScidDatabase.create(dbPath);
+		appendPgnToScid(dbPath, ANNOTATED);
+		appendPgnToScid(dbPath, ANNOTATED.replace("Brown, Tom", "Adams, John").replace("Leeds", "York"));
+		appendPgnToScid(dbPath, ANNOTATED.replace("Adams, Jane", "Brown, Tom").replace("Brown, Tom\"]\n[Result", "Adams, Jim\"]\n[Result"));
+
+		const provider = new ScidProvider(dbPath);
+		await provider.open();
+		expect(await provider.searchNames("player", "ada", 10)).toEqual([
+			{ name: "Adams, Jane", games: 2 },
+			{ name: "Adams, Jim", games: 1 },
+			{ name: "Adams, John", games: 1 },
+		]);
+		expect(await provider.searchNames("site", "", 10)).toEqual([
+			{ name: "Leeds", games: 2 },
+			{ name: "York", games: 1 },
+		]);
+
+		const indices = async (query: string) => (await provider.search(query, 0, 10)).games.map(g => g.index);
+		expect(await indices('player:="brown, tom"')).toEqual([0, 2]);
+		expect(await indices('white:="Brown, Tom"')).toEqual([2]);
+		expect(await indices('player:="Adams, J"')).toEqual([]);
+		expect(await indices("black:adams NOT site:york")).toEqual([2]);
+		expect(await indices('player:="Adams, Jane" site:leeds')).toEqual([0]);
+		provider.close();
+	});
+
+	for (const ext of [".si4", ".si5"]) {
+		it(`searches by material and pawn structure (${ext})`, async () => {
+			const dbPath = path.join(dir, `games${ext}`);
+			ScidDatabase.create(dbPath);
+			appendPgnToScid(dbPath, ANNOTATED);
+			appendPgnToScid(dbPath, FROM_POSITION);
+
+			const provider = new ScidProvider(dbPath);
+			await provider.open();
+			const indices = async (pattern: BoardPattern, query = "") =>
+				(await provider.searchPattern(pattern, query, 0, 10)).games.map(g => g.index);
+			expect(await indices({ kind: "material", material: "KN vs K", final: false, eitherSide: false })).toEqual([1]);
+			expect(await indices({ kind: "material", material: "K vs KN", final: true, eitherSide: true })).toEqual([1]);
+			expect(await indices({ kind: "material", material: "KQRRBBNNPPPPPPP vs KQRRBBNNPPPPPPP", final: true, eitherSide: false }))
+				.toEqual([0]);
+			expect(await indices({ kind: "pawns", fen: "8/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/8" })).toEqual([0]);
+			expect(await indices({ kind: "pawns", fen: "8/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/8" }, "white:nobody")).toEqual([]);
+			await expect(provider.searchPattern({ kind: "pawns", fen: "8/8" }, "", 0, 10)).rejects.toThrow(PositionSearchError);
+			provider.close();
+		});
+	}
+
+	it("writes SAN from start positions chess.js rejects", async () => {
+		const dbPath = path.join(dir, "games.si4");
+		ScidDatabase.create(dbPath);
+		// A pawn on h1: legal for SCID, not for chess.js
+		const fen = "4k3/P7/8/8/8/8/8/4K2P w - - 0 1";
+		const game = pgnToScidGame(FROM_POSITION.replace('[Result "*"]', '[Result "*"]\n[Annotator "Coach"]'));
+		game.startFen = fen;
+		const db = new ScidDatabase();
+		db.open(dbPath);
+		db.appendGame(game);
+		db.close();
+
+		const provider = new ScidProvider(dbPath);
+		await provider.open();
+		const pgn = await provider.getGamePgn(0);
+		expect(pgn).toContain(`[SetUp "1"]\n[FEN "${fen}"]`);
+		expect(pgn).toContain('[Annotator "Coach"]');
+		expect(pgn.endsWith("\n\n1. a8=N Kd7 2. Nb6+ *")).toBe(true);
+		// The same movetext reads back from a position chess.js accepts
+		const legal = parsePgnTree(pgn.replace(fen, "4k3/P7/8/8/8/8/8/4K3 w - - 0 1"));
+		expect(legal.moves).toEqual(parsePgnTree(FROM_POSITION).moves);
+		provider.close();
+	});
+
+	it("marks where an illegal stored move cuts a line short", async () => {
+		const dbPath = path.join(dir, "games.si4");
+		ScidDatabase.create(dbPath);
+		const game = pgnToScidGame(ANNOTATED);
+		// Queen moves blocked by their own pawns, in the main line and at the start of a variation
+		game.tree.moves[6].move = { from: "d1", to: "d4" };
+		game.tree.moves[3].variations[0].moves[0].move = { from: "d8", to: "d5" };
+		const db = new ScidDatabase();
+		db.open(dbPath);
+		db.appendGame(game);
+		db.close();
+
+		const provider = new ScidProvider(dbPath);
+		await provider.open();
+		const pgn = await provider.getGamePgn(0);
+		expect(pgn.split("\n\n")[1]).toBe(
+			"{Petroff} 1. e4 e5 2. Nf3 Nf6 {Variation not shown: Illegal move d8d5; left out: d8d5 f1b5 a7a6} " +
+			"3. Nxe5 $1 d6 {Illegal move d1d4; left out: d1d4 f6e4 d2d4} 1-0",
+		);
+		expect(parsePgnTree(pgn).moves.map(m => m.san)).toEqual(["e4"]);
+		provider.close();
+	});
+
+	it("rejects illegal moves without writing", () => {
+		const dbPath = path.join(dir, "games.si4");
+		ScidDatabase.create(dbPath);
+		expect(() => appendPgnToScid(dbPath, ANNOTATED.replace("5. d4", "5. d5"))).toThrow();
+
+		const db = new ScidDatabase();
+		db.open(dbPath);
+		expect(db.getGameCount()).toBe(0);
+		db.close();
+	});
+});
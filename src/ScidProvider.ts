@@ -1,60 +1,257 @@
 import { Chess } from "chess.js";
 import { GameProvider, GameHeaders, GameEntry, GameSearchResult } from "./GameProvider";
-import { ScidDatabase, ScidGameHeaders, ScidMove } from "./scid/index";
+import {
+	ScidDatabase, ScidFlagFilter, ScidGameHeaders, ScidGameNameIds, ScidLine, ScidMove, ScidNewGame, RATING_TYPES,
+	userFlagLetters, passesFlagFilter,
+	NAME_PLAYER, NAME_EVENT, NAME_SITE, NAME_ROUND,
+} from "./scid/index";
+import { PgnTree, PgnTreeNode, parsePgnTree, writePgnMovetext } from "./PgnTree";
+import {
+	GameQuery, GameQueryTerm, parseGameQuery, evaluateGameQuery, gameQueryTerms, matchesGameQueryTerm,
+} from "./GameQuery";
+import { parsePositionTarget } from "./PositionSearch";
+import { BoardPattern, parseBoardPattern } from "./MaterialSearch";
+import { ProviderTask, TaskTicker, throwIfCancelled } from "./ProviderTask";
+import { GameSort, SortOrderCache, sortOrder } from "./GameSort";
+import { SearchCache, searchKey } from "./SearchCache";
+import { NameCount, NameIndex, NameIndexCache, NameType } from "./NameIndex";
+
+/** Namebase type of each kind of name a provider completes. */
+const SCID_NAME_TYPES: Record<NameType, number> = {
+	player: NAME_PLAYER,
+	event: NAME_EVENT,
+	site: NAME_SITE,
+};
+
+/** Headers whose values are namebase names, with the game's ID of each. */
+const NAME_ID_HEADERS: Record<string, { type: number; field: keyof ScidGameNameIds }> = {
+	White: { type: NAME_PLAYER, field: "white" },
+	Black: { type: NAME_PLAYER, field: "black" },
+	Event: { type: NAME_EVENT, field: "event" },
+	Site: { type: NAME_SITE, field: "site" },
+	Round: { type: NAME_ROUND, field: "round" },
+};
 
 export class ScidProvider implements GameProvider {
 	private path: string;
 	private db = new ScidDatabase();
+	private sortOrder = new SortOrderCache();
+	/** Indices of the games found by the last search, in sort order. */
+	private lastSearch = new SearchCache<number[]>();
+	private nameIndexes = new NameIndexCache();
+	private flagFilter: ScidFlagFilter | null = null;
+	/** Games passing the flag filter, found from the index flags alone; null without a filter. */
+	private filteredIndices: number[] | null = null;
+	private filteredOrder = new SortOrderCache();
 
 	constructor(path: string) {
 		this.path = path;
 	}
 
-	async open(): Promise<void> {
+	async open(task?: ProviderTask): Promise<void> {
+		throwIfCancelled(task);
 		this.db.open(this.path);
 	}
 
 	close(): void {
 		this.db.close();
+		this.sortOrder.clear();
+		this.lastSearch.clear();
+		this.nameIndexes.clear();
+		this.flagFilter = null;
+		this.filteredIndices = null;
+		this.filteredOrder.clear();
+	}
+
+	async setFlagFilter(filter: ScidFlagFilter | null): Promise<void> {
+		this.flagFilter = filter;
+		this.filteredOrder.clear();
+		this.lastSearch.clear();
+		this.filteredIndices = null;
+		if (!filter) return;
+		this.filteredIndices = [];
+		const count = this.db.getGameCount();
+		for (let i = 0; i < count; i++) {
+			if (passesFlagFilter(this.db.getFlags(i), filter)) this.filteredIndices.push(i);
+		}
+	}
+
+	/**
+	 * Add a PGN game at the end of the base and return its index. The lists,
+	 * searches and names cached for the old games are dropped.
+	 */
+	async appendGame(pgn: string): Promise<number> {
+		const index = this.db.appendGame(pgnToScidGame(pgn));
+		this.sortOrder.clear();
+		this.nameIndexes.clear();
+		await this.setFlagFilter(this.flagFilter);
+		return index;
 	}
 
-	getGameCount(): number {
-		return this.db.getGameCount();
+	async getGameCount(): Promise<number> {
+		return this.filteredIndices?.length ?? this.db.getGameCount();
 	}
 
-	getGames(offset: number, limit: number): GameEntry[] {
+	async getGames(offset: number, limit: number, sort?: GameSort): Promise<GameEntry[]> {
+		const filtered = this.filteredIndices;
+		if (filtered) {
+			// Positions in the filtered list, mapped back to game indices
+			const positions = sort
+				? this.filteredOrder.get(filtered.length, i => this.getGameHeaders(filtered[i]), sort).slice(offset, offset + limit)
+				: filtered.slice(offset, offset + limit).map((_, i) => offset + i);
+			return positions.map(p => ({ index: filtered[p], headers: this.getGameHeaders(filtered[p]) }));
+		}
+
 		const count = this.db.getGameCount();
+		if (sort) {
+			const order = this.sortOrder.get(count, i => this.getGameHeaders(i), sort);
+			return order.slice(offset, offset + limit).map(i => ({ index: i, headers: this.getGameHeaders(i) }));
+		}
 		const end = Math.min(offset + limit, count);
 		const entries: GameEntry[] = [];
 
 		for (let i = offset; i < end; i++) {
 			entries.push({
 				index: i,
-				headers: scidHeadersToGameHeaders(this.db.getHeaders(i)),
+				headers: this.getGameHeaders(i),
 			});
 		}
 
 		return entries;
 	}
 
-	getGamePgn(index: number): string {
+	async getGamePgn(index: number): Promise<string> {
 		const game = this.db.getGame(index);
 
-		const headerLines = buildPgnHeaders(game.headers);
-		const movetext = buildMovetext(game.moves);
+		const startFen = game.startFen ? completeFen(game.startFen) : null;
+		const headerLines = buildPgnHeaders(game.headers, game.extraTags, startFen);
+		const movetext = buildMovetext(game.tree, game.headers.result, startFen);
 
-		return headerLines + "\n" + movetext + " " + game.headers.result;
+		return headerLines + "\n\n" + movetext;
 	}
 
-	search(query: string, offset: number, limit: number): GameSearchResult {
-		const result = this.db.search(query, offset, limit);
+	async search(
+		query: string, offset: number, limit: number, task?: ProviderTask, sort?: GameSort,
+	): Promise<GameSearchResult> {
+		const parsed = parseGameQuery(query);
+		const matches = await this.lastSearch.get(searchKey("query", query, sort), async () => {
+			const count = this.db.getGameCount();
+			const found: number[] = [];
+			const ticker = new TaskTicker(task, count);
+			const matches = this.compileQuery(parsed);
 
-		const games: GameEntry[] = result.results.map(i => ({
-			index: i,
-			headers: scidHeadersToGameHeaders(this.db.getHeaders(i)),
-		}));
+			for (let i = 0; i < count; i++) {
+				if (ticker.due()) await ticker.tick(i);
+				if (this.isListed(i) && matches(i)) found.push(i);
+			}
+			return this.sortIndices(found, sort);
+		});
+		return this.resultPage(matches, offset, limit);
+	}
 
-		return { games, total: result.total };
+	async searchPosition(
+		fen: string, query: string, offset: number, limit: number, task?: ProviderTask, sort?: GameSort,
+	): Promise<GameSearchResult> {
+		// Validate here so a malformed position surfaces as a PositionSearchError
+		const target = parsePositionTarget(fen);
+		const parsed = parseGameQuery(query);
+		const matches = await this.lastSearch.get(searchKey("position", target.fen, query, sort), async () => {
+			const include = this.searchFilter(parsed, query);
+			const ticker = new TaskTicker(task, this.db.getGameCount());
+			const result = await this.db.searchPosition(
+				target.fen, 0, Infinity, include,
+				done => ticker.due() ? ticker.tick(done) : undefined,
+			);
+			return this.sortIndices(result.results, sort);
+		});
+		return this.resultPage(matches, offset, limit);
+	}
+
+	async searchPattern(
+		pattern: BoardPattern, query: string, offset: number, limit: number, task?: ProviderTask, sort?: GameSort,
+	): Promise<GameSearchResult> {
+		// Validate here so a malformed pattern surfaces as a PositionSearchError
+		const target = parseBoardPattern(pattern);
+		const parsed = parseGameQuery(query);
+		const matches = await this.lastSearch.get(searchKey("pattern", pattern, query, sort), async () => {
+			const include = this.searchFilter(parsed, query);
+			const ticker = new TaskTicker(task, this.db.getGameCount());
+			const result = await this.db.searchPattern(
+				target, 0, Infinity, include,
+				done => ticker.due() ? ticker.tick(done) : undefined,
+			);
+			return this.sortIndices(result.results, sort);
+		});
+		return this.resultPage(matches, offset, limit);
+	}
+
+	async searchNames(type: NameType, prefix: string, limit: number): Promise<NameCount[]> {
+		const index = await this.nameIndexes.get(type, () => {
+			const scidType = SCID_NAME_TYPES[type];
+			const counts = this.db.getNameCounts(scidType);
+			const games = new Map<string, number>();
+			this.db.getNames(scidType).forEach((name, id) => games.set(name, (games.get(name) ?? 0) + (counts[id] ?? 0)));
+			return new NameIndex(games);
+		});
+		return index.matchPrefix(prefix, limit);
+	}
+
+	/** Whether a game passes the flag filter. */
+	private isListed(index: number): boolean {
+		return !this.flagFilter || passesFlagFilter(this.db.getFlags(index), this.flagFilter);
+	}
+
+	/** The games a position or pattern search may return: those passing the flag filter and `query`. */
+	private searchFilter(parsed: GameQuery, query: string): ((index: number) => boolean) | undefined {
+		const matches = query.trim() ? this.compileQuery(parsed) : null;
+		if (!matches) return this.flagFilter ? i => this.isListed(i) : undefined;
+		return i => this.isListed(i) && matches(i);
+	}
+
+	/**
+	 * A test of game indices against a parsed query. Text terms on name
+	 * headers (white:, event:="...", ...) test each namebase name once and
+	 * then compare the games' name IDs; other terms need the game's headers.
+	 */
+	private compileQuery(query: GameQuery): (index: number) => boolean {
+		const idTests = new Map<GameQueryTerm, { field: keyof ScidGameNameIds; ids: Set<number> }[]>();
+		for (const term of gameQueryTerms(query)) {
+			const m = term.matcher;
+			if (m.kind !== "equals" && m.kind !== "contains") continue;
+			if (term.headers.length === 0 || !term.headers.every(h => h in NAME_ID_HEADERS)) continue;
+			const test = m.kind === "equals"
+				? (name: string) => name.toLowerCase() === m.value
+				: (name: string) => name.toLowerCase().includes(m.value);
+			idTests.set(term, term.headers.map(h => ({
+				field: NAME_ID_HEADERS[h].field,
+				ids: this.db.findNameIds(NAME_ID_HEADERS[h].type, test),
+			})));
+		}
+
+		return index => {
+			const nameIds = this.db.getGameNameIds(index);
+			let headers: GameHeaders | null = null;
+			return evaluateGameQuery(query, term => {
+				const tests = idTests.get(term);
+				if (tests) return tests.some(t => t.ids.has(nameIds[t.field]));
+				if (!headers) headers = this.getGameHeaders(index);
+				return matchesGameQueryTerm(term, headers);
+			});
+		};
+	}
+
+	private sortIndices(indices: number[], sort?: GameSort): number[] {
+		if (!sort) return indices;
+		return sortOrder(indices.length, i => this.getGameHeaders(indices[i]), sort).map(i => indices[i]);
+	}
+
+	private resultPage(matches: number[], offset: number, limit: number): GameSearchResult {
+		const games = matches.slice(offset, offset + limit).map(i => ({ index: i, headers: this.getGameHeaders(i) }));
+		return { games, total: matches.length };
+	}
+
+	private getGameHeaders(index: number): GameHeaders {
+		return scidHeadersToGameHeaders(this.db.getHeaders(index));
 	}
 }
 
@@ -68,13 +265,41 @@ function scidHeadersToGameHeaders(h: ScidGameHeaders): GameHeaders {
 		Black: h.black,
 		Result: h.result,
 	};
-	if (h.whiteElo > 0) headers["WhiteElo"] = String(h.whiteElo);
-	if (h.blackElo > 0) headers["BlackElo"] = String(h.blackElo);
+	if (h.whiteElo > 0) headers[ratingTag("White", h.whiteRatingType)] = String(h.whiteElo);
+	if (h.blackElo > 0) headers[ratingTag("Black", h.blackRatingType)] = String(h.blackElo);
 	if (h.eco) headers["ECO"] = h.eco;
+	if (h.eventDate !== UNKNOWN_DATE) headers["EventDate"] = h.eventDate;
+	headers["PlyCount"] = String(h.plyCount);
+	if (h.chess960) headers["Variant"] = "Chess960";
+	const flags = userFlagLetters(h.flags);
+	if (flags) headers["Flags"] = flags;
 	return headers;
 }
 
-function buildPgnHeaders(h: ScidGameHeaders): string {
+const UNKNOWN_DATE = "????.??.??";
+
+/** The PGN tag of a rating: WhiteElo for Elo ratings, otherwise named after the type, like WhiteUSCF. */
+function ratingTag(side: "White" | "Black", ratingType: string): string {
+	return side + ratingType;
+}
+
+/** Fill in any trailing FEN fields SCID omitted so chess.js accepts the position. */
+function completeFen(fen: string): string {
+	const defaults = ["8/8/8/8/8/8/8/8", "w", "-", "-", "0", "1"];
+	const fields = fen.trim().split(/\s+/);
+	while (fields.length < defaults.length) {
+		fields.push(defaults[fields.length]);
+	}
+	return fields.join(" ");
+}
+
+const ROSTER_TAGS = new Set(["Event", "Site", "Date", "Round", "White", "Black", "Result"]);
+
+function escapeTagValue(value: string): string {
+	return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+function buildPgnHeaders(h: ScidGameHeaders, extraTags: [string, string][], startFen: string | null): string {
 	const tags: [string, string][] = [
 		["Event", h.event],
 		["Site", h.site],
@@ -84,38 +309,215 @@ function buildPgnHeaders(h: ScidGameHeaders): string {
 		["Black", h.black],
 		["Result", h.result],
 	];
-	if (h.whiteElo > 0) tags.push(["WhiteElo", String(h.whiteElo)]);
-	if (h.blackElo > 0) tags.push(["BlackElo", String(h.blackElo)]);
+	if (h.whiteElo > 0) tags.push([ratingTag("White", h.whiteRatingType), String(h.whiteElo)]);
+	if (h.blackElo > 0) tags.push([ratingTag("Black", h.blackRatingType), String(h.blackElo)]);
 	if (h.eco) tags.push(["ECO", h.eco]);
+	if (h.eventDate !== UNKNOWN_DATE) tags.push(["EventDate", h.eventDate]);
+	tags.push(["PlyCount", String(h.plyCount)]);
+	if (h.chess960) tags.push(["Variant", "Chess960"]);
+
+	// Non-standard tags stored in the game file (Annotator, TimeControl, Opening, ...)
+	const written = new Set(tags.map(([k]) => k));
+	for (const [k, v] of extraTags) {
+		if (ROSTER_TAGS.has(k) || written.has(k) || k === "SetUp" || k === "FEN") continue;
+		tags.push([k, v]);
+		written.add(k);
+	}
 
-	return tags.map(([k, v]) => `[${k} "${v}"]`).join("\n");
+	if (startFen) {
+		tags.push(["SetUp", "1"]);
+		tags.push(["FEN", startFen]);
+	}
+
+	return tags.map(([k, v]) => `[${k} "${escapeTagValue(v)}"]`).join("\n");
 }
 
 /**
- * Convert ScidMove[] ({from, to, promotion}) to SAN movetext using chess.js.
+ * Convert a decoded SCID move tree ({from, to, promotion} moves) to PGN
+ * movetext with comments, NAGs and variations, using chess.js for SAN.
+ * A start position chess.js rejects (no king, pawns on the back rank) is
+ * replayed without its validation. A line with an illegal move ends there,
+ * with a comment naming the moves left out.
  */
-function buildMovetext(moves: ScidMove[]): string {
-	const chess = new Chess();
-	const sanMoves: string[] = [];
+function buildMovetext(line: ScidLine, result: string, startFen: string | null): string {
+	let chess: Chess;
+	let lenient = false;
+	try {
+		chess = startFen ? new Chess(startFen) : new Chess();
+	} catch {
+		lenient = true;
+		chess = new Chess(startFen!, { skipValidation: true });
+	}
+	const tree: PgnTree = {
+		headers: {},
+		startFen: chess.fen(),
+		comment: line.comment,
+		moves: [],
+		result,
+	};
+	const note = appendLine(line, tree.startFen, lenient, null, tree.moves);
+	if (note) tree.comment = joinComments(tree.comment, note);
+	return writePgnMovetext(tree);
+}
 
-	for (const m of moves) {
+/**
+ * Append the moves of `line`, played from `fen`, as a chain of nodes. The
+ * first node goes into `siblings` (alongside any moves it is a variation of).
+ * Returns the note on moves left out when the line's first move is illegal,
+ * as there is no node of the line to put it on.
+ */
+function appendLine(
+	line: ScidLine, fen: string, lenient: boolean, parent: PgnTreeNode | null, siblings: PgnTreeNode[],
+	preComment?: string,
+): string | null {
+	const chess = new Chess(fen, { skipValidation: lenient });
+	let prev = parent;
+	let container = siblings;
+
+	for (const [ply, m] of line.moves.entries()) {
+		const fenBefore = chess.fen();
+		const color = chess.turn();
+		const moveNumber = chess.moveNumber();
+		let san: string;
 		try {
-			const result = chess.move(m);
-			sanMoves.push(result.san);
+			san = chess.move(m.move).san;
 		} catch {
-			// If a move fails, stop here
-			break;
+			const note = `Illegal move ${coordinateMove(m.move)}; left out: ` +
+				line.moves.slice(ply).map(rest => coordinateMove(rest.move)).join(" ");
+			if (ply === 0) return note;
+			prev!.comment = joinComments(prev!.comment, note);
+			return null;
+		}
+
+		const node: PgnTreeNode = {
+			san,
+			fen: chess.fen(),
+			color,
+			moveNumber,
+			nags: m.nags,
+			comment: m.comment,
+			parent: prev,
+			children: [],
+		};
+		if (preComment) {
+			node.preComment = preComment;
+			preComment = undefined;
 		}
+		container.push(node);
+
+		for (const variation of m.variations) {
+			const note = appendLine(variation, fenBefore, lenient, prev, container, variation.comment);
+			if (note) node.comment = joinComments(node.comment, `Variation not shown: ${note}`);
+		}
+
+		prev = node;
+		container = node.children;
 	}
+	return null;
+}
 
-	// Format with move numbers
-	const parts: string[] = [];
-	for (let i = 0; i < sanMoves.length; i++) {
-		if (i % 2 === 0) {
-			parts.push(`${Math.floor(i / 2) + 1}.`);
+/** A stored move as "e2e4" or "e7e8q", the form SCID keeps it in. */
+function coordinateMove(move: ScidMove): string {
+	return move.from + move.to + (move.promotion ?? "");
+}
+
+function joinComments(existing: string | undefined, comment: string): string {
+	return existing ? `${existing} ${comment}` : comment;
+}
+
+const INDEX_TAGS = new Set([...ROSTER_TAGS, "ECO", "EventDate", "PlyCount", "SetUp", "FEN"]);
+const START_FEN = new Chess().fen();
+
+/**
+ * Convert a PGN game to what ScidDatabase.appendGame stores: the inverse of
+ * getGamePgn. Tags without a place in the index become extra tags, Variant
+ * included, as only SCID5 keeps the Chess960 bit. Throws on illegal moves.
+ */
+export function pgnToScidGame(pgn: string): ScidNewGame {
+	const tree = parsePgnTree(pgn);
+	const h = tree.headers;
+	const name = (tag: string) => h[tag]?.trim() || "?";
+	const date = (tag: string) => h[tag]?.trim() || UNKNOWN_DATE;
+	const indexed = new Set(INDEX_TAGS);
+	// The first rating tag with a rating, Elo before the other types
+	const rating = (side: "White" | "Black") => {
+		for (const type of RATING_TYPES) {
+			const tag = ratingTag(side, type);
+			const value = parseInt(h[tag] ?? "", 10);
+			if (value > 0) {
+				indexed.add(tag);
+				return { value, type };
+			}
 		}
-		parts.push(sanMoves[i]);
+		return { value: 0, type: RATING_TYPES[0] };
+	};
+	const white = rating("White");
+	const black = rating("Black");
+	const headers: ScidNewGame["headers"] = {
+		white: name("White"),
+		black: name("Black"),
+		event: name("Event"),
+		site: name("Site"),
+		round: name("Round"),
+		date: date("Date"),
+		eventDate: date("EventDate"),
+		result: tree.result,
+		whiteElo: white.value,
+		blackElo: black.value,
+		whiteRatingType: white.type,
+		blackRatingType: black.type,
+		eco: h["ECO"]?.trim() ?? "",
+		flags: 0,
+		chess960: /960/.test(h["Variant"] ?? ""),
+	};
+	const extraTags = Object.entries(h).filter(([tag]) => !indexed.has(tag));
+
+	const line = tree.moves.length ? treeToScidLine(tree.moves, tree.startFen) : { moves: [] };
+	if (tree.comment) line.comment = tree.comment;
+	return {
+		headers,
+		extraTags,
+		tree: line,
+		startFen: tree.startFen === START_FEN ? null : tree.startFen,
+	};
+}
+
+/**
+ * The line starting at alternatives[0], played from `fen`, with the other
+ * alternatives as its variations: the inverse of appendLine.
+ */
+function treeToScidLine(alternatives: PgnTreeNode[], fen: string): ScidLine {
+	const chess = new Chess(fen);
+	const line: ScidLine = { moves: [] };
+	if (alternatives[0].preComment) line.comment = alternatives[0].preComment;
+
+	let siblings = alternatives;
+	let node: PgnTreeNode | undefined = alternatives[0];
+	while (node) {
+		const fenBefore = chess.fen();
+		const move = chess.move(node.san);
+		line.moves.push({
+			move: move.promotion
+				? { from: move.from, to: move.to, promotion: move.promotion }
+				: { from: move.from, to: move.to },
+			nags: node.nags,
+			comment: node.comment,
+			variations: siblings.slice(1).map(variation => treeToScidLine([variation], fenBefore)),
+		});
+		siblings = node.children;
+		node = node.children[0];
 	}
+	return line;
+}
 
-	return parts.join(" ");
+/** Add a PGN game to the end of the SCID database at `path`; returns its game number. */
+export function appendPgnToScid(path: string, pgn: string): number {
+	const game = pgnToScidGame(pgn);
+	const db = new ScidDatabase();
+	db.open(path);
+	try {
+		return db.appendGame(game);
+	} finally {
+		db.close();
+	}
 }
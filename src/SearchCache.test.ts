@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { SearchCache, searchKey } from "./SearchCache";
+
+describe("SearchCache", () => {
+	it("reuses the result for the same key", async () => {
+		const cache = new SearchCache<number[]>();
+		let runs = 0;
+		const search = async () => {
+			runs++;
+			return [runs];
+		};
+
+		expect(await cache.get(searchKey("query", "carlsen"), search)).toEqual([1]);
+		expect(await cache.get(searchKey("query", "carlsen"), search)).toEqual([1]);
+		expect(await cache.get(searchKey("query", "caruana"), search)).toEqual([2]);
+		expect(await cache.get(searchKey("query", "carlsen"), search)).toEqual([3]);
+	});
+
+	it("does not keep a failed search", async () => {
+		const cache = new SearchCache<string>();
+		await expect(cache.get("a", async () => { throw new Error("cancelled"); })).rejects.toThrow("cancelled");
+		expect(await cache.get("a", async () => "found")).toBe("found");
+	});
+
+	it("keeps key parts apart", () => {
+		expect(searchKey("a:b", "c")).not.toBe(searchKey("a", "b:c"));
+	});
+});
@@ -0,0 +1,28 @@
+/**
+ * The result of a provider's last search, so that fetching further pages of
+ * the same search (as the database view does while scrolling) slices the
+ * saved matches instead of scanning every game again.
+ */
+export class SearchCache<T> {
+	private key: string | null = null;
+	private value: T | null = null;
+
+	/** The saved result for `key`, or `compute()`'s, which replaces it. Failed or cancelled searches are not saved. */
+	async get(key: string, compute: () => Promise<T>): Promise<T> {
+		if (this.key === key && this.value !== null) return this.value;
+		const value = await compute();
+		this.key = key;
+		this.value = value;
+		return value;
+	}
+
+	clear(): void {
+		this.key = null;
+		this.value = null;
+	}
+}
+
+/** A cache key for a search; the parts are joined unambiguously. */
+export function searchKey(...parts: unknown[]): string {
+	return JSON.stringify(parts);
+}
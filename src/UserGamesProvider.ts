@@ -0,0 +1,230 @@
+import { GameProvider, GameEntry, GameSearchResult } from "./GameProvider";
+import { PgnProvider } from "./PgnProvider";
+import { parseGameQuery } from "./GameQuery";
+import { parsePositionTarget, gameReachesPosition } from "./PositionSearch";
+import { BoardPattern, parseBoardPattern, gameMatchesPattern } from "./MaterialSearch";
+import { ProviderTask, TaskTicker, throwIfCancelled } from "./ProviderTask";
+import { GameSort, SortOrderCache, sortEntries } from "./GameSort";
+import { SearchCache, searchKey } from "./SearchCache";
+import { NameCount, NameIndex, NameIndexCache, NameType } from "./NameIndex";
+
+/**
+ * Games of one or more online accounts, combined into a single list sorted by
+ * date. Subclasses fetch the PGN for each username; the list can be filtered
+ * down to the games of a single user.
+ */
+export abstract class UserGamesProvider implements GameProvider {
+	private usernames: string[];
+	private inner = new PgnProvider();
+	private gameOwnership: string[] = [];
+	private usernameFilter: string | null = null;
+	private filteredIndices: number[] | null = null;
+	private filteredOrder = new SortOrderCache();
+	private filteredSearch = new SearchCache<GameEntry[]>();
+	private filteredNames = new NameIndexCache();
+
+	constructor(usernames: string[]) {
+		this.usernames = usernames;
+	}
+
+	/** All games of `username` as PGN, separated by blank lines. */
+	protected abstract fetchUserPgn(username: string): Promise<string>;
+
+	async open(task?: ProviderTask): Promise<void> {
+		// Fetch PGN per user and count games individually
+		const userPgns: { username: string; pgn: string; count: number }[] = [];
+		for (const username of this.usernames) {
+			task?.onProgress?.(userPgns.length, this.usernames.length);
+			const pgn = await this.fetchUserPgn(username);
+			throwIfCancelled(task);
+			if (!pgn.trim()) {
+				userPgns.push({ username, pgn: "", count: 0 });
+				continue;
+			}
+			const temp = new PgnProvider();
+			temp.loadContent(pgn);
+			const count = await temp.getGameCount();
+			temp.close();
+			userPgns.push({ username, pgn, count });
+		}
+
+		// Build combined PGN and ownership array
+		const allPgn: string[] = [];
+		for (const { username, pgn, count } of userPgns) {
+			if (pgn) allPgn.push(pgn);
+			for (let i = 0; i < count; i++) {
+				this.gameOwnership.push(username);
+			}
+		}
+
+		this.inner.loadContent(allPgn.join("\n\n"));
+
+		// Sort games by Date header so date-based ordering works correctly
+		const perm = this.inner.sortByDate();
+		this.gameOwnership = perm.map(i => this.gameOwnership[i]);
+	}
+
+	close(): void {
+		this.inner.close();
+		this.gameOwnership = [];
+		this.usernameFilter = null;
+		this.filteredIndices = null;
+		this.filteredOrder.clear();
+		this.filteredSearch.clear();
+		this.filteredNames.clear();
+	}
+
+	getUsernames(): string[] {
+		return this.usernames;
+	}
+
+	setUsernameFilter(username: string | null): void {
+		this.usernameFilter = username;
+		this.filteredOrder.clear();
+		this.filteredSearch.clear();
+		this.filteredNames.clear();
+		if (username === null) {
+			this.filteredIndices = null;
+		} else {
+			this.filteredIndices = [];
+			for (let i = 0; i < this.gameOwnership.length; i++) {
+				if (this.gameOwnership[i] === username) {
+					this.filteredIndices.push(i);
+				}
+			}
+		}
+	}
+
+	async getGameCount(): Promise<number> {
+		if (this.filteredIndices !== null) {
+			return this.filteredIndices.length;
+		}
+		return this.inner.getGameCount();
+	}
+
+	async getGames(offset: number, limit: number, sort?: GameSort): Promise<GameEntry[]> {
+		if (this.filteredIndices !== null) {
+			// Indices here are positions in the filtered list
+			let positions: number[];
+			if (sort) {
+				const owned = await this.getOwnedEntries();
+				positions = this.filteredOrder.get(owned.length, i => owned[i].headers, sort).slice(offset, offset + limit);
+			} else {
+				const end = Math.min(offset + limit, this.filteredIndices.length);
+				positions = [];
+				for (let i = offset; i < end; i++) positions.push(i);
+			}
+			const entries: GameEntry[] = [];
+			for (const position of positions) {
+				const [entry] = await this.inner.getGames(this.filteredIndices[position], 1);
+				entries.push({ index: position, headers: entry.headers });
+			}
+			return entries;
+		}
+		return this.inner.getGames(offset, limit, sort);
+	}
+
+	async getGamePgn(index: number): Promise<string> {
+		const realIndex = this.toRealIndex(index);
+		return this.inner.getGamePgn(realIndex);
+	}
+
+	async search(
+		query: string, offset: number, limit: number, task?: ProviderTask, sort?: GameSort,
+	): Promise<GameSearchResult> {
+		if (this.filteredIndices !== null) {
+			const matches = this.inner.compileQuery(parseGameQuery(query));
+			return this.filterOwnedGames(
+				searchKey("query", query, sort), async realIndex => matches(realIndex),
+				offset, limit, task, sort,
+			);
+		}
+		return this.inner.search(query, offset, limit, task, sort);
+	}
+
+	async searchPosition(
+		fen: string, query: string, offset: number, limit: number, task?: ProviderTask, sort?: GameSort,
+	): Promise<GameSearchResult> {
+		if (this.filteredIndices !== null) {
+			const target = parsePositionTarget(fen);
+			const matches = this.inner.compileQuery(parseGameQuery(query));
+			return this.filterOwnedGames(
+				searchKey("position", target.fen, query, sort),
+				async realIndex => matches(realIndex) &&
+					gameReachesPosition(await this.inner.getGamePgn(realIndex), target),
+				offset, limit, task, sort,
+			);
+		}
+		return this.inner.searchPosition(fen, query, offset, limit, task, sort);
+	}
+
+	async searchPattern(
+		pattern: BoardPattern, query: string, offset: number, limit: number, task?: ProviderTask, sort?: GameSort,
+	): Promise<GameSearchResult> {
+		if (this.filteredIndices !== null) {
+			const target = parseBoardPattern(pattern);
+			const matches = this.inner.compileQuery(parseGameQuery(query));
+			return this.filterOwnedGames(
+				searchKey("pattern", pattern, query, sort),
+				async realIndex => matches(realIndex) &&
+					gameMatchesPattern(await this.inner.getGamePgn(realIndex), target),
+				offset, limit, task, sort,
+			);
+		}
+		return this.inner.searchPattern(pattern, query, offset, limit, task, sort);
+	}
+
+	async searchNames(type: NameType, prefix: string, limit: number): Promise<NameCount[]> {
+		if (this.filteredIndices !== null) {
+			const index = await this.filteredNames.get(type, async () =>
+				NameIndex.fromHeaders((await this.getOwnedEntries()).map(e => e.headers), type));
+			return index.matchPrefix(prefix, limit);
+		}
+		return this.inner.searchNames(type, prefix, limit);
+	}
+
+	/** The selected user's games, indexed by position in the filtered list. */
+	private async getOwnedEntries(): Promise<GameEntry[]> {
+		const owned = this.filteredIndices ?? [];
+		const entries: GameEntry[] = [];
+		for (let i = 0; i < owned.length; i++) {
+			const [entry] = await this.inner.getGames(owned[i], 1);
+			entries.push({ index: i, headers: entry.headers });
+		}
+		return entries;
+	}
+
+	/** Filter the games of the selected user, returning filtered indices. */
+	private async filterOwnedGames(
+		key: string, predicate: (realIndex: number) => Promise<boolean>,
+		offset: number, limit: number, task?: ProviderTask, sort?: GameSort,
+	): Promise<GameSearchResult> {
+		const matches = await this.filteredSearch.get(key, async () => {
+			const found: GameEntry[] = [];
+			const owned = this.filteredIndices!;
+			const ticker = new TaskTicker(task, owned.length);
+
+			for (let i = 0; i < owned.length; i++) {
+				if (ticker.due()) await ticker.tick(i);
+				const realIndex = owned[i];
+				if (await predicate(realIndex)) {
+					const [entry] = await this.inner.getGames(realIndex, 1);
+					found.push({ index: i, headers: entry.headers });
+				}
+			}
+			return sort ? sortEntries(found, sort) : found;
+		});
+
+		return {
+			games: matches.slice(offset, offset + limit),
+			total: matches.length,
+		};
+	}
+
+	private toRealIndex(index: number): number {
+		if (this.filteredIndices !== null) {
+			return this.filteredIndices[index] ?? -1;
+		}
+		return index;
+	}
+}
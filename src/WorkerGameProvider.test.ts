@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { MessageChannel } from "worker_threads";
+import { serveProviders } from "./ProviderWorkerHost";
+import { ProviderWorkerConnection, WorkerGameProvider } from "./WorkerGameProvider";
+import { GameQueryError } from "./GameQuery";
+import { PositionSearchError } from "./PositionSearch";
+import { CancelledError } from "./ProviderTask";
+import { ScidDatabase, FLAG_DELETED } from "./scid/index";
+
+function game(n: number): string {
+	return `[Event "Game ${n}"]\n[White "Player ${n % 7}"]\n[Black "Player ${n % 5}"]\n[Result "1-0"]\n\n` +
+		`1.e4 e5 2.Nf3 Nc6 3.Bb5 a6 4.Ba4 Nf6 5.O-O Be7 1-0`;
+}
+
+const GAME_COUNT = 3000;
+
+let dir: string;
+let pgnPath: string;
+let channel: MessageChannel;
+let connection: ProviderWorkerConnection;
+
+beforeAll(() => {
+	dir = fs.mkdtempSync(path.join(os.tmpdir(), "provider-worker-test-"));
+	pgnPath = path.join(dir, "games.pgn");
+	fs.writeFileSync(pgnPath, Array.from({ length: GAME_COUNT }, (_, i) => game(i)).join("\n\n"));
+
+	// The host runs in-process here; in the plugin it sits behind a worker thread
+	channel = new MessageChannel();
+	serveProviders(channel.port1);
+	connection = new ProviderWorkerConnection(channel.port2);
+});
+
+afterAll(() => {
+	channel.port1.close();
+	fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function pgnProvider(): WorkerGameProvider {
+	return new WorkerGameProvider({ type: "pgn", path: pgnPath }, connection, { pgnIndexDir: path.join(dir, "index") });
+}
+
+async function openProvider(): Promise<WorkerGameProvider> {
+	const provider = pgnProvider();
+	await provider.open();
+	return provider;
+}
+
+describe("WorkerGameProvider", () => {
+	it("forwards calls to the provider on the other side", async () => {
+		const provider = await openProvider();
+		expect(await provider.getGameCount()).toBe(GAME_COUNT);
+		expect((await provider.getGames(1, 1))[0]).toEqual({
+			index: 1,
+			headers: { Event: "Game 1", White: "Player 1", Black: "Player 1", Result: "1-0" },
+		});
+		expect(await provider.getGamePgn(2)).toBe(game(2));
+		expect((await provider.search("white:\"player 3\"", 0, 5)).games).toHaveLength(5);
+		provider.close();
+	});
+
+	it("reports progress while opening", async () => {
+		const provider = pgnProvider();
+		const progress: [number, number][] = [];
+		await provider.open({ onProgress: (done, total) => progress.push([done, total]) });
+
+		// Bytes of the PGN file, or of its saved index once another test built it
+		expect(progress.length).toBeGreaterThan(0);
+		const [done, total] = progress[progress.length - 1];
+		expect(done).toBe(total);
+		provider.close();
+	});
+
+	it("rethrows query and position errors with their classes", async () => {
+		const provider = await openProvider();
+		await expect(provider.search("white:(", 0, 10)).rejects.toThrow(GameQueryError);
+		await expect(provider.searchPosition("not a fen", "", 0, 10)).rejects.toThrow(PositionSearchError);
+		provider.close();
+	});
+
+	it("cancels a running search", async () => {
+		const provider = await openProvider();
+		const controller = new AbortController();
+		const search = provider.searchPosition(
+			"rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2", "", 0, 10,
+			{ signal: controller.signal },
+		);
+		controller.abort();
+		await expect(search).rejects.toThrow(CancelledError);
+
+		// The provider is still usable afterwards
+		expect(await provider.getGameCount()).toBe(GAME_COUNT);
+		provider.close();
+	});
+
+	it("appends to and filters SCID bases, and only those", async () => {
+		const scidPath = path.join(dir, "games.si5");
+		ScidDatabase.create(scidPath);
+		const provider = new WorkerGameProvider({ type: "scid", path: scidPath }, connection);
+		await provider.open();
+		expect(await provider.appendGame(game(1))).toBe(0);
+		expect(await provider.appendGame(game(2))).toBe(1);
+		expect(await provider.getGameCount()).toBe(2);
+		await provider.setFlagFilter({ require: FLAG_DELETED, exclude: 0 });
+		expect(await provider.getGameCount()).toBe(0);
+		provider.close();
+
+		const pgn = await openProvider();
+		await expect(pgn.appendGame(game(3))).rejects.toThrow("Games can only be appended to SCID bases");
+		await expect(pgn.setFlagFilter(null)).rejects.toThrow("Only SCID bases have flags to filter by");
+		pgn.close();
+	});
+
+	it("fails calls on a closed provider", async () => {
+		const provider = await openProvider();
+		provider.close();
+		await expect(provider.getGameCount()).rejects.toThrow("Game source is not open");
+	});
+});
@@ -0,0 +1,154 @@
+import { GameProvider, GameEntry, GameSearchResult } from "./GameProvider";
+import { GameQueryError } from "./GameQuery";
+import { PositionSearchError } from "./PositionSearch";
+import { ProviderTask, CancelledError } from "./ProviderTask";
+import { GameSort } from "./GameSort";
+import { NameCount, NameType } from "./NameIndex";
+import { BoardPattern } from "./MaterialSearch";
+import { ScidFlagFilter } from "./scid/index";
+import { FileProviderOptions, FileSource, MessageEndpoint, WorkerResponse } from "./ProviderWorkerHost";
+
+interface PendingCall {
+	resolve: (value: any) => void;
+	reject: (error: Error) => void;
+	task?: ProviderTask;
+}
+
+/** Errors callers tell apart by class; anything else becomes a plain Error. */
+const ERROR_FACTORIES: Record<string, (message: string) => Error> = {
+	GameQueryError: message => new GameQueryError(message),
+	PositionSearchError: message => new PositionSearchError(message),
+	CancelledError: () => new CancelledError(),
+};
+
+/** The calling side of a channel to serveProviders, shared by the providers it hosts. */
+export class ProviderWorkerConnection {
+	private nextCallId = 1;
+	private nextProviderId = 1;
+	private pending = new Map<number, PendingCall>();
+
+	constructor(private readonly endpoint: MessageEndpoint) {
+		endpoint.on("message", (response: WorkerResponse) => this.onMessage(response));
+	}
+
+	allocateProviderId(): number {
+		return this.nextProviderId++;
+	}
+
+	call<T>(providerId: number, method: string, args: unknown[], task?: ProviderTask): Promise<T> {
+		if (task?.signal?.aborted) return Promise.reject(new CancelledError());
+
+		const id = this.nextCallId++;
+		return new Promise<T>((resolve, reject) => {
+			const onAbort = () => {
+				this.endpoint.postMessage({ type: "cancel", id });
+				// Settle now rather than when the worker gets round to it
+				this.settle(id)?.reject(new CancelledError());
+			};
+			task?.signal?.addEventListener("abort", onAbort);
+
+			this.pending.set(id, {
+				resolve: value => {
+					task?.signal?.removeEventListener("abort", onAbort);
+					resolve(value);
+				},
+				reject: error => {
+					task?.signal?.removeEventListener("abort", onAbort);
+					reject(error);
+				},
+				task,
+			});
+			this.endpoint.postMessage({ type: "call", id, providerId, method, args });
+		});
+	}
+
+	/** Reject every outstanding call, e.g. after the worker died. */
+	fail(error: Error): void {
+		const calls = [...this.pending.values()];
+		this.pending.clear();
+		for (const call of calls) call.reject(error);
+	}
+
+	private settle(id: number): PendingCall | undefined {
+		const call = this.pending.get(id);
+		this.pending.delete(id);
+		return call;
+	}
+
+	private onMessage(response: WorkerResponse): void {
+		if (response.type === "progress") {
+			this.pending.get(response.id)?.task?.onProgress?.(response.done, response.total);
+		} else if (response.type === "result") {
+			this.settle(response.id)?.resolve(response.value);
+		} else {
+			const factory = ERROR_FACTORIES[response.name];
+			this.settle(response.id)?.reject(factory ? factory(response.message) : new Error(response.message));
+		}
+	}
+}
+
+/** A PGN file or SCID base opened in a worker; every call is forwarded to it. */
+export class WorkerGameProvider implements GameProvider {
+	private readonly providerId: number;
+
+	constructor(
+		private readonly source: FileSource,
+		private readonly connection: ProviderWorkerConnection,
+		private readonly options: FileProviderOptions = {},
+	) {
+		this.providerId = connection.allocateProviderId();
+	}
+
+	open(task?: ProviderTask): Promise<void> {
+		return this.call("open", [this.source, this.options], task);
+	}
+
+	close(): void {
+		// Nothing to wait for: the worker drops the provider
+		this.call("close", []).catch(() => {});
+	}
+
+	getGameCount(): Promise<number> {
+		return this.call("getGameCount", []);
+	}
+
+	getGames(offset: number, limit: number, sort?: GameSort): Promise<GameEntry[]> {
+		return this.call("getGames", [offset, limit, sort]);
+	}
+
+	getGamePgn(index: number): Promise<string> {
+		return this.call("getGamePgn", [index]);
+	}
+
+	search(query: string, offset: number, limit: number, task?: ProviderTask, sort?: GameSort): Promise<GameSearchResult> {
+		return this.call("search", [query, offset, limit, sort], task);
+	}
+
+	searchPosition(
+		fen: string, query: string, offset: number, limit: number, task?: ProviderTask, sort?: GameSort,
+	): Promise<GameSearchResult> {
+		return this.call("searchPosition", [fen, query, offset, limit, sort], task);
+	}
+
+	searchPattern(
+		pattern: BoardPattern, query: string, offset: number, limit: number, task?: ProviderTask, sort?: GameSort,
+	): Promise<GameSearchResult> {
+		return this.call("searchPattern", [pattern, query, offset, limit, sort], task);
+	}
+
+	searchNames(type: NameType, prefix: string, limit: number): Promise<NameCount[]> {
+		return this.call("searchNames", [type, prefix, limit]);
+	}
+
+	setFlagFilter(filter: ScidFlagFilter | null): Promise<void> {
+		return this.call("setFlagFilter", [filter]);
+	}
+
+	appendGame(pgn: string): Promise<number> {
+		return this.call("appendGame", [pgn]);
+	}
+
+	private call<T>(method: string, args: unknown[], task?: ProviderTask): Promise<T> {
+		return this.connection.call(this.providerId, method, args, task);
+	}
+}
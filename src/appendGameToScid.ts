@@ -0,0 +1,44 @@
+import { App } from "obsidian";
+import { GameProvider, createProvider } from "./GameProvider";
+import { ChessJournalSettings, ScidSource, sourceKey } from "./settings";
+import { invalidateGameSourceExplorer } from "./getGameSourceExplorer";
+import { DatabaseView, VIEW_TYPE_DATABASE } from "./DatabaseView";
+
+/**
+ * Add a PGN game to the end of a SCID base and return its index. The game
+ * is written in the provider worker, through the database view's provider
+ * when one has the base open; open views of the base then show it.
+ */
+export async function appendGameToScid(
+	app: App, settings: ChessJournalSettings, source: ScidSource, pgn: string,
+): Promise<number> {
+	const key = sourceKey(source);
+	const views = app.workspace.getLeavesOfType(VIEW_TYPE_DATABASE)
+		.map(leaf => leaf.view)
+		.filter((view): view is DatabaseView => view instanceof DatabaseView);
+
+	let writer: GameProvider | null = null;
+	let index = -1;
+	for (const view of views) {
+		const provider = view.openProvider(key);
+		if (provider?.appendGame) {
+			index = await provider.appendGame(pgn);
+			writer = provider;
+			break;
+		}
+	}
+	if (!writer) {
+		const provider = createProvider(source, settings);
+		try {
+			await provider.open();
+			if (!provider.appendGame) throw new Error("Games can only be appended to SCID bases");
+			index = await provider.appendGame(pgn);
+		} finally {
+			provider.close();
+		}
+	}
+
+	invalidateGameSourceExplorer(key);
+	for (const view of views) void view.sourceChanged(key, writer);
+	return index;
+}
@@ -0,0 +1,77 @@
+import { App, FuzzySuggestModal, Notice } from "obsidian";
+import { ChessJournalSettings, ScidSource, sourceDisplayName } from "./settings";
+import { ExportPgnModal, PgnExportTarget, openPgnWriter } from "./ExportPgnModal";
+import { writeProviderGames } from "./PgnWriter";
+import { createFileProvider } from "./spawnProviderWorker";
+import { CancelledError } from "./ProviderTask";
+
+class ScidSourceSuggestModal extends FuzzySuggestModal<ScidSource> {
+	constructor(app: App, private sources: ScidSource[], private onChoose: (source: ScidSource) => void) {
+		super(app);
+		this.setPlaceholder("SCID database to convert");
+	}
+
+	getItems(): ScidSource[] {
+		return this.sources;
+	}
+
+	getItemText(source: ScidSource): string {
+		return sourceDisplayName(source);
+	}
+
+	onChooseItem(source: ScidSource): void {
+		this.onChoose(source);
+	}
+}
+
+/**
+ * Ask for one of the configured SCID databases and where to save it, then
+ * write all of its games to a PGN file.
+ */
+export function openScidToPgnConversion(app: App, settings: ChessJournalSettings): void {
+	const sources = settings.externalSources.flatMap(s => s.type === "scid" ? [s] : []);
+	if (sources.length === 0) {
+		new Notice("Add a SCID database in the settings to convert it");
+		return;
+	}
+	const askTarget = (source: ScidSource) => {
+		const name = sourceDisplayName(source).replace(/\.si[45]$/i, "");
+		const folder = settings.notesFolder ? `${settings.notesFolder}/` : "";
+		new ExportPgnModal(app, `Convert ${sourceDisplayName(source)} to PGN`, `${folder}${name}.pgn`,
+			target => { void convertScidToPgn(app, source, target); }).open();
+	};
+	if (sources.length === 1) {
+		askTarget(sources[0]);
+	} else {
+		new ScidSourceSuggestModal(app, sources, askTarget).open();
+	}
+}
+
+/**
+ * Stream every game of `source` into `target`. The base is decoded in the
+ * provider worker; progress shows in a notice, and clicking it cancels.
+ */
+async function convertScidToPgn(app: App, source: ScidSource, target: PgnExportTarget): Promise<void> {
+	const name = sourceDisplayName(source);
+	const controller = new AbortController();
+	const notice = new Notice(`Converting ${name}...`, 0);
+	notice.noticeEl.addEventListener("click", () => controller.abort());
+
+	const provider = createFileProvider(source);
+	try {
+		await provider.open({ signal: controller.signal });
+		const { writer, path } = await openPgnWriter(app, target);
+		const count = await writeProviderGames(provider, writer, {
+			signal: controller.signal,
+			onProgress: (done, total) => {
+				notice.setMessage(`Converting ${name}: ${done.toLocaleString()} of ${total.toLocaleString()} games. Click to cancel.`);
+			},
+		});
+		new Notice(`Converted ${count.toLocaleString()} ${count === 1 ? "game" : "games"} to ${path}`);
+	} catch (e) {
+		new Notice(e instanceof CancelledError ? `Stopped converting ${name}` : `Conversion failed: ${e.message}`);
+	} finally {
+		notice.hide();
+		provider.close();
+	}
+}
@@ -1,7 +1,14 @@
 import { App, TFile, TFolder } from "obsidian";
 import { Chess } from "chess.js";
 
-const FRONT_MATTER_KEYS = ["white", "black", "date", "event", "site", "result", "round", "eco"] as const;
+const FRONT_MATTER_KEYS = [
+	"white", "black", "date", "event", "site", "result", "round", "eco",
+	// Chess.com games (see archiveGameHeaders)
+	"timeclass", "rated", "rules", "whiteaccuracy", "blackaccuracy",
+] as const;
+
+/** Keys written unquoted so Obsidian types them as numbers or checkboxes. */
+const UNQUOTED_KEYS = new Set<string>(["rated", "whiteaccuracy", "blackaccuracy"]);
 
 function sanitizeFilename(name: string): string {
 	return name.replace(/[\\/:*?"<>|]/g, "_");
@@ -36,6 +43,8 @@ export async function createGameNote(app: App, folder: string, pgn: string): Pro
 			// Convert PGN date "2024.01.15" → "2024-01-15" for Obsidian date type
 			const isoDate = val.replace(/\./g, "-");
 			fmLines.push(`${key}: ${isoDate}`);
+		} else if (UNQUOTED_KEYS.has(key)) {
+			fmLines.push(`${key}: ${val}`);
 		} else {
 			fmLines.push(`${key}: "${val}"`);
 		}
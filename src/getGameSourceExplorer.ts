@@ -0,0 +1,32 @@
+import { createProvider } from "./GameProvider";
+import { GameSourceExplorerProvider } from "./GameSourceExplorerProvider";
+import { ChessJournalSettings, ExternalSource, isFileSource, sourceKey, sourceDisplayName } from "./settings";
+
+const explorerCache = new Map<string, GameSourceExplorerProvider>();
+
+/**
+ * The explorer for the source chosen in settings, or null if none is chosen.
+ * Instances are shared between views so each source is indexed once.
+ */
+export function getGameSourceExplorer(settings: ChessJournalSettings): GameSourceExplorerProvider | null {
+	const key = settings.explorerSource;
+	if (!key) return null;
+	const source = settings.externalSources.find(s => sourceKey(s) === key);
+	if (!source) return null;
+
+	let explorer = explorerCache.get(key);
+	if (!explorer) {
+		explorer = new GameSourceExplorerProvider(explorerName(source), () => createProvider(source, settings));
+		explorerCache.set(key, explorer);
+	}
+	return explorer;
+}
+
+/** Drop the explorer of a source whose games changed, so the next query reads them again. */
+export function invalidateGameSourceExplorer(key: string): void {
+	explorerCache.delete(key);
+}
+
+function explorerName(source: ExternalSource): string {
+	return isFileSource(source) ? sourceDisplayName(source) : `My ${sourceDisplayName(source)} games`;
+}
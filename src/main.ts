@@ -1,4 +1,5 @@
-import { Plugin } from "obsidian";
+import { FileSystemAdapter, Notice, Plugin } from "obsidian";
+import * as path from "path";
 import { Chessboard } from "cm-chessboard";
 import { Chess } from "chess.js";
 // @ts-ignore - imported as text via esbuild loader
@@ -13,7 +14,14 @@ import { VIEW_TYPE_DATABASE, DatabaseView } from "./DatabaseView";
 import { VIEW_TYPE_GAME, GameView } from "./GameView";
 import { VIEW_TYPE_OPENING_EXPLORER, OpeningExplorerView } from "./OpeningExplorerView";
 import { VIEW_TYPE_REPERTOIRE, RepertoireView } from "./RepertoireView";
+import { VIEW_TYPE_PLAYER_STATS, PlayerStatsView } from "./PlayerStatsView";
 import { NewRepertoireModal } from "./NewRepertoireModal";
+import { configureFileProviders, terminateProviderWorker } from "./spawnProviderWorker";
+import { GameNoteIndex } from "./GameNoteIndex";
+import { DuplicateGameNotesModal } from "./DuplicateGameNotesModal";
+import { startChessComSync, syncChessComGames, unsyncedChessComUsernames } from "./syncChessComGames";
+import { ChessComSyncStartModal } from "./ChessComSyncStartModal";
+import { openScidToPgnConversion } from "./convertScidToPgn";
 
 const SPRITE_WRAPPER_ID = "chess-journal-sprite";
 
@@ -26,6 +34,10 @@ export default class ChessJournalPlugin extends Plugin {
 	private boards: Chessboard[] = [];
 	private pgnViewers: PgnViewer[] = [];
 	settings: ChessJournalSettings;
+	/** Fingerprints of the game notes in the vault, for spotting games saved before. */
+	noteIndex: GameNoteIndex;
+	private chessComSyncTimer: number | null = null;
+	private chessComSyncRunning = false;
 
 	async onload() {
 		console.log("Loading Chess Journal plugin");
@@ -33,9 +45,22 @@ export default class ChessJournalPlugin extends Plugin {
 		await this.loadSettings();
 		this.addSettingTab(new ChessJournalSettingTab(this.app, this));
 
+		// PGN indexes are kept with the plugin's data, where they survive restarts
+		const adapter = this.app.vault.adapter;
+		if (adapter instanceof FileSystemAdapter && this.manifest.dir) {
+			configureFileProviders({
+				pgnIndexDir: path.join(adapter.getBasePath(), this.manifest.dir, "pgn-index"),
+			});
+		}
+
 		// Inject the pieces SVG sprite into the document
 		this.injectPiecesSprite();
 
+		this.noteIndex = new GameNoteIndex(this.app);
+		for (const ref of this.noteIndex.watch()) {
+			this.registerEvent(ref);
+		}
+
 		// FEN code block processor
 		this.registerMarkdownCodeBlockProcessor("fen", (source, el, ctx) => {
 			const fen = source.trim();
@@ -93,10 +118,13 @@ export default class ChessJournalPlugin extends Plugin {
 		this.registerExtensions(["pgn"], VIEW_TYPE_PGN);
 
 		// Database browser panel
-		this.registerView(VIEW_TYPE_DATABASE, (leaf) => new DatabaseView(leaf, this.settings));
+		this.registerView(VIEW_TYPE_DATABASE, (leaf) => new DatabaseView(leaf, this.settings, this.noteIndex));
 
 		// Game viewer (for games opened from database)
-		this.registerView(VIEW_TYPE_GAME, (leaf) => new GameView(leaf, this.settings));
+		this.registerView(VIEW_TYPE_GAME, (leaf) => new GameView(leaf, this.settings, this.noteIndex));
+
+		// Player statistics (opened from player names in the database and game views)
+		this.registerView(VIEW_TYPE_PLAYER_STATS, (leaf) => new PlayerStatsView(leaf, this.settings));
 
 		// Opening explorer panel
 		this.registerView(VIEW_TYPE_OPENING_EXPLORER, (leaf) => new OpeningExplorerView(leaf, this.settings));
@@ -177,6 +205,94 @@ export default class ChessJournalPlugin extends Plugin {
 				new NewRepertoireModal(this.app, this.settings).open();
 			},
 		});
+
+		// Command to list game notes holding the same game
+		this.addCommand({
+			id: "report-duplicate-game-notes",
+			name: "Report duplicate game notes",
+			callback: async () => {
+				const groups = await this.noteIndex.findDuplicateNotes();
+				if (groups.length === 0) {
+					new Notice("No duplicate game notes found");
+					return;
+				}
+				new DuplicateGameNotesModal(this.app, groups).open();
+			},
+		});
+
+		// Command to write a whole SCID database to a PGN file
+		this.addCommand({
+			id: "convert-scid-to-pgn",
+			name: "Convert SCID database to PGN",
+			callback: () => openScidToPgnConversion(this.app, this.settings),
+		});
+
+		// Command to create notes for new Chess.com games
+		this.addCommand({
+			id: "sync-chesscom-games",
+			name: "Sync Chess.com games",
+			callback: () => this.syncChessCom(true),
+		});
+		this.scheduleChessComSync();
+	}
+
+	/** Run the background Chess.com sync at the interval in settings, or stop it when off. */
+	scheduleChessComSync() {
+		if (this.chessComSyncTimer !== null) {
+			window.clearInterval(this.chessComSyncTimer);
+			this.chessComSyncTimer = null;
+		}
+		const minutes = this.settings.chessComSyncInterval;
+		if (minutes > 0) {
+			this.chessComSyncTimer = this.registerInterval(
+				window.setInterval(() => this.syncChessCom(false), minutes * 60 * 1000));
+		}
+	}
+
+	/** Sync Chess.com games into notes; in the background only new notes and failures are reported. */
+	private async syncChessCom(manual: boolean) {
+		if (this.chessComSyncRunning) {
+			if (manual) new Notice("A Chess.com sync is already running");
+			return;
+		}
+		if (!this.settings.externalSources.some(s => s.type === "chesscom")) {
+			if (manual) new Notice("Add a Chess.com username in settings to sync games");
+			return;
+		}
+
+		// A first sync only picks up games from a start: the user's choice, or now in the background
+		const unsynced = unsyncedChessComUsernames(this.settings);
+		if (unsynced.length > 0) {
+			if (manual) {
+				new ChessComSyncStartModal(this.app, unsynced, async start => {
+					startChessComSync(this.settings, unsynced, start);
+					await this.saveSettings();
+					await this.syncChessCom(true);
+				}).open();
+				return;
+			}
+			startChessComSync(this.settings, unsynced, Date.now());
+			await this.saveSettings();
+		}
+
+		this.chessComSyncRunning = true;
+		try {
+			if (manual) new Notice("Syncing Chess.com games...");
+			const { created, failed } = await syncChessComGames(
+				this.app, this.settings, this.noteIndex, () => this.saveSettings());
+			if (created > 0 || manual) {
+				new Notice(created > 0
+					? `Created ${created} Chess.com game ${created === 1 ? "note" : "notes"}`
+					: "No new Chess.com games");
+			}
+			for (const { username, error } of failed) {
+				new Notice(`Chess.com sync failed for ${username}: ${error}`);
+			}
+		} catch (e) {
+			new Notice(`Chess.com sync failed: ${e.message}`);
+		} finally {
+			this.chessComSyncRunning = false;
+		}
 	}
 
 	injectPiecesSprite() {
@@ -210,12 +326,15 @@ export default class ChessJournalPlugin extends Plugin {
 	onunload() {
 		console.log("Unloading Chess Journal plugin");
 
-		// Detach database, game, explorer, and repertoire views
+		// Detach database, game, statistics, explorer, and repertoire views
 		this.app.workspace.detachLeavesOfType(VIEW_TYPE_DATABASE);
 		this.app.workspace.detachLeavesOfType(VIEW_TYPE_GAME);
+		this.app.workspace.detachLeavesOfType(VIEW_TYPE_PLAYER_STATS);
 		this.app.workspace.detachLeavesOfType(VIEW_TYPE_OPENING_EXPLORER);
 		this.app.workspace.detachLeavesOfType(VIEW_TYPE_REPERTOIRE);
 
+		terminateProviderWorker();
+
 		// Remove the injected sprite
 		const wrapper = document.getElementById(SPRITE_WRAPPER_ID);
 		if (wrapper) {
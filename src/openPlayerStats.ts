@@ -0,0 +1,10 @@
+import { App } from "obsidian";
+import { VIEW_TYPE_PLAYER_STATS } from "./PlayerStatsView";
+
+/** Show statistics for `player` over their games in the source with `sourceKey`, reusing an open statistics tab. */
+export async function openPlayerStats(app: App, player: string, sourceKey: string): Promise<void> {
+	const existing = app.workspace.getLeavesOfType(VIEW_TYPE_PLAYER_STATS);
+	const leaf = existing.length > 0 ? existing[0] : app.workspace.getLeaf("tab");
+	await leaf.setViewState({ type: VIEW_TYPE_PLAYER_STATS, active: true, state: { player, sourceKey } });
+	app.workspace.revealLeaf(leaf);
+}
@@ -0,0 +1,21 @@
+import { App } from "obsidian";
+import { DatabaseView, VIEW_TYPE_DATABASE } from "./DatabaseView";
+
+/** Reveal the game database and list the games that reach `fen` in its current source. */
+export async function openPositionSearch(app: App, fen: string): Promise<void> {
+	const existing = app.workspace.getLeavesOfType(VIEW_TYPE_DATABASE);
+	if (existing.length > 0) {
+		const view = existing[0].view;
+		if (view instanceof DatabaseView) {
+			view.searchPosition(fen);
+		}
+		app.workspace.revealLeaf(existing[0]);
+		return;
+	}
+
+	const leaf = app.workspace.getRightLeaf(false);
+	if (leaf) {
+		await leaf.setViewState({ type: VIEW_TYPE_DATABASE, active: true, state: { positionFen: fen } });
+		app.workspace.revealLeaf(leaf);
+	}
+}
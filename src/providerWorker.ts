@@ -0,0 +1,6 @@
+// Entry point of the provider worker thread, bundled into main.js as a string
+// by esbuild.config.mjs and started from spawnProviderWorker.ts.
+import { parentPort } from "worker_threads";
+import { serveProviders } from "./ProviderWorkerHost";
+
+if (parentPort) serveProviders(parentPort);
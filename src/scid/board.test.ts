@@ -247,4 +247,23 @@ describe("Board", () => {
 			expect(clone.getSideToMove()).toBe(WHITE);
 		});
 	});
+
+	describe("getFenPlacement", () => {
+		it("writes the start position", () => {
+			const board = new Board();
+			board.setupStartPosition();
+			expect(board.getFenPlacement()).toBe("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR");
+		});
+
+		it("reflects moves and round-trips a FEN", () => {
+			const board = new Board();
+			board.setupStartPosition();
+			board.applyMove(12, 28, null, false, false); // e4
+			expect(board.getFenPlacement()).toBe("rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR");
+
+			const fen = "4k3/8/8/3pP3/8/8/8/4K2R";
+			board.setupFromFEN(fen + " w K d6 0 1");
+			expect(board.getFenPlacement()).toBe(fen);
+		});
+	});
 });
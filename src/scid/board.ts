@@ -55,6 +55,13 @@ export class Board {
 		return this.pieces[absIdx];
 	}
 
+	/** Index in its side's piece list of the piece on `sq`, or -1 if the square is empty. */
+	listIndexAt(sq: number): number {
+		const absIdx = this.board[sq];
+		if (absIdx < 0) return -1;
+		return this.list[this.pieces[absIdx].color].indexOf(absIdx);
+	}
+
 	getPieceCount(color: Color): number {
 		return this.listCount[color];
 	}
@@ -69,6 +76,31 @@ export class Board {
 		return this.pieces[idx];
 	}
 
+	/** The piece placement field of a FEN for the current position. */
+	getFenPlacement(): string {
+		const rows: string[] = [];
+		for (let rank = 7; rank >= 0; rank--) {
+			let row = "";
+			let empty = 0;
+			for (let file = 0; file < 8; file++) {
+				const piece = this.pieceAt(rank * 8 + file);
+				if (!piece) {
+					empty++;
+					continue;
+				}
+				if (empty > 0) {
+					row += empty;
+					empty = 0;
+				}
+				const ch = PIECE_CHARS[piece.type];
+				row += piece.color === WHITE ? ch : ch.toLowerCase();
+			}
+			if (empty > 0) row += empty;
+			rows.push(row);
+		}
+		return rows.join("/");
+	}
+
 	/**
 	 * Set up the standard starting position with SCID's hardcoded piece ordering.
 	 * Matches getStdStart() in position.cpp.
@@ -292,6 +324,16 @@ export class Board {
 	}
 }
 
+const PIECE_CHARS: Record<PieceType, string> = {
+	[KING]: "K",
+	[QUEEN]: "Q",
+	[ROOK]: "R",
+	[BISHOP]: "B",
+	[KNIGHT]: "N",
+	[PAWN]: "P",
+	[EMPTY]: "",
+};
+
 function charToPieceType(ch: string): PieceType {
 	switch (ch) {
 		case "K": return KING;
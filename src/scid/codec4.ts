@@ -1,7 +1,35 @@
-import { IndexEntry, ScidCodec, NAME_PLAYER, NAME_EVENT, NAME_SITE, NAME_ROUND } from "./types";
+import { IndexEntry, IndexRecord, ScidCodec, NAME_PLAYER, NAME_EVENT, NAME_SITE, NAME_ROUND, encodeCount } from "./types";
 
 const HEADER_SIZE = 182;
 const RECORD_SIZE = 47;
+const INDEX_MAGIC = "Scid.si\x1a";
+const INDEX_VERSION = 400;
+const NAMEBASE_MAGIC = "Scid.sn\0";
+const NAMEBASE_HEADER_SIZE = 36;
+const MAX_NAME_LENGTH = 255;
+
+// Widths of the name IDs in an index record, by name type
+const NAME_ID_BITS = [20, 19, 19, 18];
+const NAME_TYPE_LABELS = ["players", "events", "sites", "rounds"];
+
+/**
+ * The event date of a game dated `date`, from its 12-bit index form: the
+ * year as an offset from the game's (3 bits; 0 unknown, otherwise year + n - 4),
+ * then month (4 bits) and day (5 bits).
+ */
+function decodeEventDate(compact: number, date: number): number {
+	const yearOffset = compact >> 9;
+	const year = date >> 9;
+	if (yearOffset === 0 || year === 0) return 0;
+	return ((year + yearOffset - 4) << 9) | (compact & 0x1FF);
+}
+
+/** Inverse of decodeEventDate; event dates too far from the game's are not stored. */
+function encodeEventDate(eventDate: number, date: number): number {
+	const yearOffset = (eventDate >> 9) - (date >> 9) + 4;
+	if (eventDate >> 9 === 0 || date >> 9 === 0 || yearOffset < 1 || yearOffset > 7) return 0;
+	return (yearOffset << 9) | (eventDate & 0x1FF);
+}
 
 /**
  * SCID4 codec: reads .si4 index and .sn4 namebase files.
@@ -33,8 +61,8 @@ export const codec4: ScidCodec = {
 			const b6 = buf[base + 6];
 			const gameLength = (b4 << 9) | (b5 << 1) | (b6 >> 7);
 
-			// Bytes 7-8: flags (16 bits) — skip for now
-			// const flags = (buf[base + 7] << 8) | buf[base + 8];
+			// Bytes 7-8: flags (16 bits), with the custom flags above them
+			const flags = (buf[base + 7] << 8) | buf[base + 8] | (((b6 >> 1) & 0x3F) << 16);
 
 			// Bytes 9-13: name IDs
 			const b9 = buf[base + 9];
@@ -69,16 +97,35 @@ export const codec4: ScidCodec = {
 			const b27 = buf[base + 27];
 			const date = (b25 << 12) | (b26 << 4) | (b27 >> 4);
 
+			// Byte 28: eventDate low (8 bits)
+			const eventDate = decodeEventDate(((b27 & 0x0F) << 8) | buf[base + 28], date);
+
 			// Bytes 29-30: whiteElo(12) + whiteEloType(4)
 			const whiteElo = (buf[base + 29] << 4) | (buf[base + 30] >> 4);
+			const whiteRatingType = buf[base + 30] & 0x0F;
 
 			// Bytes 31-32: blackElo(12) + blackEloType(4)
 			const blackElo = (buf[base + 31] << 4) | (buf[base + 32] >> 4);
+			const blackRatingType = buf[base + 32] & 0x0F;
+
+			// Bytes 33-35: finalMatSig (24 bits)
+			const finalMatSig = (buf[base + 33] << 16) | (buf[base + 34] << 8) | buf[base + 35];
+
+			// Byte 36: storedLineCode
+			const storedLineCode = buf[base + 36];
+
+			// Bytes 37-38: numHalfMoves (10 bits) + padding (6 bits)
+			const numHalfMoves = buf.readUInt16BE(base + 37) >> 6;
+
+			// Bytes 39-46: home pawn change count, then 14 changes
+			const homePawnData = Array.from(buf.subarray(base + 39, base + 47));
 
 			entries[i] = {
 				whiteId, blackId, eventId, siteId, roundId,
 				whiteElo, blackElo, date, result, eco,
-				gameOffset, gameLength,
+				gameOffset, gameLength, finalMatSig, storedLineCode, homePawnData,
+				flags, numHalfMoves, eventDate, whiteRatingType, blackRatingType,
+				chess960: false,
 			};
 		}
 
@@ -161,4 +208,123 @@ export const codec4: ScidCodec = {
 	gameFileExt(): string {
 		return ".sg4";
 	},
+
+	indexHeaderSize(): number {
+		return HEADER_SIZE;
+	},
+
+	emptyIndex(): Buffer {
+		const buf = Buffer.alloc(HEADER_SIZE);
+		buf.write(INDEX_MAGIC, 0, "latin1");
+		buf.writeUInt16BE(INDEX_VERSION, 8);
+		// Auto-load the first game, as SCID does for new bases
+		buf.writeUInt32BE(1, 16);
+		return buf;
+	},
+
+	setIndexGameCount(header: Buffer, count: number): void {
+		if (count > 0xFFFFFF) throw new Error("A SCID4 database holds at most 16777215 games");
+		header[13] = (count >> 16) & 0xFF;
+		header[14] = (count >> 8) & 0xFF;
+		header[15] = count & 0xFF;
+	},
+
+	writeIndexRecord(r: IndexRecord): Buffer {
+		const ids = [r.whiteId, r.blackId, r.eventId, r.siteId, r.roundId];
+		const idTypes = [NAME_PLAYER, NAME_PLAYER, NAME_EVENT, NAME_SITE, NAME_ROUND];
+		ids.forEach((id, i) => {
+			const type = idTypes[i];
+			if (id >= 2 ** NAME_ID_BITS[type]) throw new Error(`Too many ${NAME_TYPE_LABELS[type]} for a SCID4 database`);
+		});
+		if (r.gameLength > 0x1FFFF) throw new Error("Game is too long for a SCID database");
+		if (r.gameOffset > 0xFFFFFFFF) throw new Error("Game file is too large for a SCID4 database");
+
+		const buf = Buffer.alloc(RECORD_SIZE);
+		buf.writeUInt32BE(r.gameOffset, 0);
+
+		// gameLength(17) + customFlags(6) + spare(1)
+		const customFlags = (r.flags >> 16) & 0x3F;
+		buf[4] = (r.gameLength >> 9) & 0xFF;
+		buf[5] = (r.gameLength >> 1) & 0xFF;
+		buf[6] = ((r.gameLength & 1) << 7) | (customFlags << 1);
+		buf.writeUInt16BE(r.flags & 0xFFFF, 7);
+
+		buf[9] = ((r.whiteId >> 16) << 4) | (r.blackId >> 16);
+		buf.writeUInt16BE(r.whiteId & 0xFFFF, 10);
+		buf.writeUInt16BE(r.blackId & 0xFFFF, 12);
+		buf[14] = ((r.eventId >> 16) << 5) | ((r.siteId >> 16) << 2) | (r.roundId >> 16);
+		buf.writeUInt16BE(r.eventId & 0xFFFF, 15);
+		buf.writeUInt16BE(r.siteId & 0xFFFF, 17);
+		buf.writeUInt16BE(r.roundId & 0xFFFF, 19);
+
+		buf[21] = (encodeCount(r.nVariations) << 4) | encodeCount(r.nComments);
+		buf[22] = (encodeCount(r.nNags) << 4) | (r.result & 0x0F);
+		buf.writeUInt16BE(r.eco & 0xFFFF, 23);
+
+		// date(20) + eventDate(12)
+		const eventDate = encodeEventDate(r.eventDate, r.date);
+		buf[25] = (r.date >> 12) & 0xFF;
+		buf[26] = (r.date >> 4) & 0xFF;
+		buf[27] = ((r.date & 0x0F) << 4) | (eventDate >> 8);
+		buf[28] = eventDate & 0xFF;
+
+		// Elo(12) + rating type(4)
+		buf.writeUInt16BE((Math.min(r.whiteElo, 0xFFF) << 4) | (r.whiteRatingType & 0x0F), 29);
+		buf.writeUInt16BE((Math.min(r.blackElo, 0xFFF) << 4) | (r.blackRatingType & 0x0F), 31);
+
+		buf[33] = (r.finalMatSig >> 16) & 0xFF;
+		buf[34] = (r.finalMatSig >> 8) & 0xFF;
+		buf[35] = r.finalMatSig & 0xFF;
+		buf[36] = r.storedLineCode & 0xFF;
+		buf.writeUInt16BE(Math.min(r.numHalfMoves, 0x3FF) << 6, 37);
+		// Count and the first 7 bytes of home pawn changes; only 14 changes fit
+		buf[39] = Math.min(r.homePawnData[0] ?? 0, 14);
+		for (let i = 1; i < 8; i++) buf[39 + i] = r.homePawnData[i] ?? 0;
+		return buf;
+	},
+
+	writeNamebase(names: string[][], frequencies: number[][]): Buffer {
+		const header = Buffer.alloc(NAMEBASE_HEADER_SIZE);
+		header.write(NAMEBASE_MAGIC, 0, "latin1");
+		header.writeUInt32BE(Math.floor(Date.now() / 1000), 8);
+		const parts = [header];
+
+		for (let type = 0; type < 4; type++) {
+			const typeNames = (names[type] ?? []).map(name => {
+				const bytes = Buffer.from(name, "latin1");
+				return bytes.length > MAX_NAME_LENGTH ? bytes.subarray(0, MAX_NAME_LENGTH) : bytes;
+			});
+			const count = typeNames.length;
+			const freqs = typeNames.map((_, id) => frequencies[type]?.[id] ?? 0);
+			const maxFreq = Math.min(freqs.reduce((max, f) => Math.max(max, f), 0), 0xFFFFFF);
+			header.writeUIntBE(count, 12 + type * 3, 3);
+			header.writeUIntBE(maxFreq, 24 + type * 3, 3);
+
+			const idSize = count > 65535 ? 3 : 2;
+			const freqSize = maxFreq > 65535 ? 3 : maxFreq > 255 ? 2 : 1;
+
+			// Sorted, each name stored as what it adds to the one before
+			const order = typeNames.map((_, id) => id).sort((a, b) => Buffer.compare(typeNames[a], typeNames[b]));
+			let prev = Buffer.alloc(0);
+			for (const id of order) {
+				const name = typeNames[id];
+				let prefix = 0;
+				while (prefix < name.length && prefix < prev.length && name[prefix] === prev[prefix]) prefix++;
+
+				const entry = Buffer.alloc(idSize + freqSize + 2);
+				entry.writeUIntBE(id, 0, idSize);
+				entry.writeUIntBE(Math.min(freqs[id], 0xFFFFFF), idSize, freqSize);
+				entry[idSize + freqSize] = name.length;
+				entry[idSize + freqSize + 1] = prefix;
+				parts.push(entry, name.subarray(prefix));
+				prev = name;
+			}
+		}
+		return Buffer.concat(parts);
+	},
+
+	appendNames(): Buffer | null {
+		// Names are kept sorted, so the file is rewritten
+		return null;
+	},
 };
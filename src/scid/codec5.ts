@@ -1,4 +1,4 @@
-import { IndexEntry, ScidCodec, NAME_PLAYER, NAME_EVENT, NAME_SITE, NAME_ROUND } from "./types";
+import { IndexEntry, IndexRecord, ScidCodec, NAME_PLAYER, NAME_EVENT, NAME_SITE, NAME_ROUND, encodeCount } from "./types";
 
 const RECORD_SIZE = 56; // 14 × uint32 = 56 bytes
 
@@ -27,10 +27,10 @@ export const codec5: ScidCodec = {
 			const w4 = readU32LE(buf, base + 16);   // chess960(1) + roundID(31)
 			const w5 = readU32LE(buf, base + 20);   // whiteElo(12) + date(20)
 			const w6 = readU32LE(buf, base + 24);   // blackElo(12) + eventDate(20)
-			// w7: numHalfMoves(10) + flags(22)
+			const w7 = readU32LE(buf, base + 28);   // numHalfMoves(10) + flags(22)
 			const w8 = readU32LE(buf, base + 32);   // gameDataSize(17) + offsetHigh(15)
 			const w9 = readU32LE(buf, base + 36);   // offsetLow(32)
-			// w10: storedLineCode(8) + finalMatSig(24)
+			const w10 = readU32LE(buf, base + 40);  // storedLineCode(8) + finalMatSig(24)
 			const w11 = readU32LE(buf, base + 44);  // homePawnCount(8) + ratingTypes(6) + result(2) + ECO(16)
 
 			const whiteId = w0 & 0x0FFFFFFF;
@@ -41,8 +41,18 @@ export const codec5: ScidCodec = {
 			const whiteElo = (w5 >>> 20) & 0xFFF;
 			const date = w5 & 0xFFFFF;
 			const blackElo = (w6 >>> 20) & 0xFFF;
+			const eventDate = w6 & 0xFFFFF;
+			const chess960 = (w4 >>> 31) === 1;
+			const numHalfMoves = (w7 >>> 22) & 0x3FF;
+			const flags = w7 & 0x3FFFFF;
+			const whiteRatingType = (w11 >>> 21) & 0x7;
+			const blackRatingType = (w11 >>> 18) & 0x7;
 			const result = (w11 >>> 16) & 0x3;
 			const eco = w11 & 0xFFFF;
+			const finalMatSig = w10 & 0xFFFFFF;
+			const storedLineCode = w10 >>> 24;
+			// Words 12-13: the home pawn changes, after their count in word 11
+			const homePawnData = [w11 >>> 24, ...Array.from(buf.subarray(base + 48, base + 56))];
 
 			// Offset: 47-bit value from high(15) + low(32)
 			const offsetHigh = w8 & 0x7FFF;
@@ -55,7 +65,8 @@ export const codec5: ScidCodec = {
 			entries[i] = {
 				whiteId, blackId, eventId, siteId, roundId,
 				whiteElo, blackElo, date, result, eco,
-				gameOffset, gameLength,
+				gameOffset, gameLength, finalMatSig, storedLineCode, homePawnData,
+				flags, numHalfMoves, eventDate, whiteRatingType, blackRatingType, chess960,
 			};
 		}
 
@@ -98,4 +109,71 @@ export const codec5: ScidCodec = {
 	gameFileExt(): string {
 		return ".sg5";
 	},
+
+	indexHeaderSize(): number {
+		return 0;
+	},
+
+	emptyIndex(): Buffer {
+		return Buffer.alloc(0);
+	},
+
+	setIndexGameCount(): void {
+		// The game count is the number of records
+	},
+
+	writeIndexRecord(r: IndexRecord): Buffer {
+		for (const id of [r.whiteId, r.blackId, r.eventId]) {
+			if (id > 0x0FFFFFFF) throw new Error("Too many names for a SCID5 database");
+		}
+		if (r.roundId > 0x7FFFFFFF) throw new Error("Too many rounds for a SCID5 database");
+		if (r.gameLength > 0x1FFFF) throw new Error("Game is too long for a SCID database");
+		if (r.gameOffset >= 2 ** 47) throw new Error("Game file is too large for a SCID5 database");
+
+		const words = [
+			(encodeCount(r.nComments) << 28) | r.whiteId,
+			(encodeCount(r.nVariations) << 28) | r.blackId,
+			(encodeCount(r.nNags) << 28) | r.eventId,
+			r.siteId,
+			((r.chess960 ? 1 : 0) << 31) | r.roundId,
+			(Math.min(r.whiteElo, 0xFFF) << 20) | r.date,
+			(Math.min(r.blackElo, 0xFFF) << 20) | r.eventDate,
+			(Math.min(r.numHalfMoves, 0x3FF) << 22) | (r.flags & 0x3FFFFF),
+			(r.gameLength << 15) | Math.floor(r.gameOffset / 0x100000000),
+			r.gameOffset % 0x100000000,
+			((r.storedLineCode & 0xFF) << 24) | (r.finalMatSig & 0xFFFFFF),
+			((r.homePawnData[0] ?? 0) << 24) | ((r.whiteRatingType & 0x7) << 21) | ((r.blackRatingType & 0x7) << 18) |
+				((r.result & 0x3) << 16) | (r.eco & 0xFFFF),
+		];
+		const buf = Buffer.alloc(RECORD_SIZE);
+		words.forEach((word, i) => buf.writeUInt32LE(word >>> 0, i * 4));
+		// Words 12-13: the home pawn change bytes, in order
+		for (let i = 1; i <= 8; i++) buf[47 + i] = r.homePawnData[i] ?? 0;
+		return buf;
+	},
+
+	writeNamebase(names: string[][]): Buffer {
+		const added: [number, string][] = [];
+		for (let type = 0; type < 4; type++) {
+			for (const name of names[type] ?? []) added.push([type, name]);
+		}
+		return this.appendNames(added)!;
+	},
+
+	appendNames(added: [number, string][]): Buffer | null {
+		const parts: Buffer[] = [];
+		for (const [type, name] of added) {
+			const bytes = Buffer.from(name, "utf8");
+			// LEB128 varint: (stringLength << 3) | nameType
+			let varint = bytes.length * 8 + type;
+			const header: number[] = [];
+			do {
+				const byte = varint & 0x7F;
+				varint = Math.floor(varint / 128);
+				header.push(varint > 0 ? byte | 0x80 : byte);
+			} while (varint > 0);
+			parts.push(Buffer.from(header), bytes);
+		}
+		return Buffer.concat(parts);
+	},
 };
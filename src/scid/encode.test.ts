@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { Chess } from "chess.js";
+import { Board } from "./board";
+import { decodeMoveOrMarker, DecodeResult } from "./decode";
+import { encodeMove } from "./encode";
+import { PieceType, QUEEN, ROOK, BISHOP, KNIGHT, algebraicToSquare } from "./types";
+
+const PROMO: Record<string, PieceType> = { q: QUEEN, r: ROOK, b: BISHOP, n: KNIGHT };
+
+const POSITIONS = [
+	"rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1",
+	// Castling both ways for both sides, queens and bishops in the open
+	"r3k2r/pppq1ppp/2npbn2/4p3/2B1P3/2NPBN2/PPPQ1PPP/R3K2R w KQkq - 0 1",
+	"r3k2r/pppq1ppp/2npbn2/4p3/2B1P3/2NPBN2/PPPQ1PPP/R3K2R b KQkq - 0 1",
+	// En passant and promotions with captures on both sides
+	"1n2k1n1/P6P/8/3pP3/8/8/p6p/1N2K1N1 w - d6 0 1",
+	"1n2k1n1/P6P/8/8/3Pp3/8/p6p/1N2K1N1 b - d3 0 1",
+	// A lone queen reaching every direction
+	"7k/8/8/3Q4/8/8/8/K7 w - - 0 1",
+];
+
+/** Encode every legal move of `fen` and decode it back on a fresh board. */
+function roundTrip(fen: string): void {
+	const chess = new Chess(fen);
+	for (const move of chess.moves({ verbose: true })) {
+		const board = new Board();
+		board.setupFromFEN(fen);
+		const from = algebraicToSquare(move.from);
+		const to = algebraicToSquare(move.to);
+		const promo = move.promotion ? PROMO[move.promotion] : null;
+
+		const encoded = encodeMove(board, from, to, promo);
+		const bytes = [...encoded.bytes];
+		const result = decodeMoveOrMarker(board, bytes.shift()!, () => bytes.shift()!);
+
+		expect(result.type, move.san).toBe("move");
+		const decoded = result as DecodeResult;
+		expect(decoded.move, move.san).toEqual(
+			move.promotion ? { from: move.from, to: move.to, promotion: move.promotion } : { from: move.from, to: move.to });
+		expect(decoded.isCastle, move.san).toBe(encoded.isCastle);
+		expect(bytes, move.san).toEqual([]);
+	}
+}
+
+describe("encodeMove", () => {
+	for (const fen of POSITIONS) {
+		it(`round-trips every legal move in ${fen}`, () => roundTrip(fen));
+	}
+
+	it("encodes a null move as the king staying put", () => {
+		const board = new Board();
+		board.setupStartPosition();
+		const encoded = encodeMove(board, 4, 4, null);
+		expect(encoded).toEqual({ bytes: [0x00], isCastle: false, isNull: true });
+	});
+
+	it("rejects a move without a piece of the side to move", () => {
+		const board = new Board();
+		board.setupStartPosition();
+		expect(() => encodeMove(board, algebraicToSquare("e4"), algebraicToSquare("e5"), null)).toThrow();
+		expect(() => encodeMove(board, algebraicToSquare("e7"), algebraicToSquare("e5"), null)).toThrow();
+	});
+
+	it("rejects a move the piece cannot make", () => {
+		const board = new Board();
+		board.setupStartPosition();
+		expect(() => encodeMove(board, algebraicToSquare("c1"), algebraicToSquare("c3"), null)).toThrow();
+	});
+});
@@ -0,0 +1,85 @@
+import { Board } from "./board";
+import {
+	KING, QUEEN, ROOK, BISHOP, KNIGHT, PAWN,
+	WHITE, PieceType,
+	squareFile, squareRank, squareToAlgebraic,
+} from "./types";
+
+export interface EncodedMove {
+	bytes: number[];
+	isCastle: boolean;
+	isNull: boolean;
+}
+
+/**
+ * Encode a move of the side to move as the byte(s) decodeMoveOrMarker reads
+ * back: the inverse of decoding. A king "moving" to its own square is a null
+ * move and a king moving two files is castling. Throws if the move cannot be
+ * made by the piece on `from`.
+ */
+export function encodeMove(board: Board, from: number, to: number, promo: PieceType | null): EncodedMove {
+	const color = board.getSideToMove();
+	const pieceIndex = board.listIndexAt(from);
+	const piece = pieceIndex >= 0 ? board.getPiece(color, pieceIndex) : null;
+	if (!piece || piece.color !== color) {
+		throw new Error(`No piece of the side to move on ${squareToAlgebraic(from)}`);
+	}
+
+	const bytes = (code: number, ...extra: number[]): number[] => [(pieceIndex << 4) | code, ...extra];
+	const invalid = () => new Error(`Cannot encode ${squareToAlgebraic(from)}-${squareToAlgebraic(to)}`);
+	const fileDiff = squareFile(to) - squareFile(from);
+	const rankDiff = squareRank(to) - squareRank(from);
+
+	switch (piece.type) {
+		case KING: {
+			if (to === from) return { bytes: bytes(0), isCastle: false, isNull: true };
+			if (rankDiff === 0 && Math.abs(fileDiff) === 2) {
+				return { bytes: bytes(fileDiff > 0 ? 10 : 9), isCastle: true, isNull: false };
+			}
+			const code = KING_DELTAS.indexOf(to - from);
+			if (code < 1 || Math.abs(fileDiff) > 1) throw invalid();
+			return move(bytes(code));
+		}
+		case QUEEN:
+			if (rankDiff === 0 && fileDiff !== 0) return move(bytes(squareFile(to)));
+			if (fileDiff === 0 && rankDiff !== 0) return move(bytes(8 + squareRank(to)));
+			// Diagonal: the queen's own file, then the destination in a second byte
+			if (Math.abs(fileDiff) !== Math.abs(rankDiff) || fileDiff === 0) throw invalid();
+			return move(bytes(squareFile(from), to + 64));
+		case ROOK:
+			if (rankDiff === 0 && fileDiff !== 0) return move(bytes(squareFile(to)));
+			if (fileDiff === 0 && rankDiff !== 0) return move(bytes(8 + squareRank(to)));
+			throw invalid();
+		case BISHOP:
+			if (fileDiff === 0 || Math.abs(fileDiff) !== Math.abs(rankDiff)) throw invalid();
+			return move(bytes(rankDiff === fileDiff ? squareFile(to) : 8 + squareFile(to)));
+		case KNIGHT: {
+			const code = KNIGHT_DELTAS.indexOf(to - from);
+			if (code < 1 || Math.abs(fileDiff) > 2) throw invalid();
+			return move(bytes(code));
+		}
+		case PAWN: {
+			const dir = color === WHITE ? 1 : -1;
+			if (promo === null && fileDiff === 0 && rankDiff === 2 * dir) return move(bytes(15));
+			if (rankDiff !== dir || Math.abs(fileDiff) > 1) throw invalid();
+			// 0 = capture left, 1 = forward, 2 = capture right, from the mover's side
+			const leftFile = color === WHITE ? -1 : 1;
+			const direction = fileDiff === 0 ? 1 : fileDiff === leftFile ? 0 : 2;
+			if (promo === null) return move(bytes(direction));
+			const promoIndex = PROMO_PIECES.indexOf(promo);
+			if (promoIndex < 0) throw invalid();
+			return move(bytes(3 + promoIndex * 3 + direction));
+		}
+		default:
+			throw invalid();
+	}
+}
+
+function move(bytes: number[]): EncodedMove {
+	return { bytes, isCastle: false, isNull: false };
+}
+
+// Same tables as decode.ts: the code is the index of the square delta
+const KING_DELTAS = [0, -9, -8, -7, -1, 1, 7, 8, 9];
+const KNIGHT_DELTAS = [0, -17, -15, -10, -6, 6, 10, 15, 17];
+const PROMO_PIECES: PieceType[] = [QUEEN, ROOK, BISHOP, KNIGHT];
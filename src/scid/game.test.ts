@@ -0,0 +1,189 @@
+import { describe, it, expect } from "vitest";
+import { parseGameData, encodeGameData } from "./game";
+import { ScidLine, FLAG_START, FLAG_PROMOTIONS, FLAG_UNDERPROMOTIONS } from "./types";
+
+// Move bytes from the standard start position (piece index << 4 | code)
+const E2E4 = 0xCF;    // pawn 12, double push
+const E7E5 = 0xCF;
+const C7C5 = 0xAF;    // pawn 10, double push
+const E7E6 = 0xC1;    // pawn 12, forward
+const G1F3 = 0x67;    // knight 6, +15
+const D2D4 = 0xBF;    // pawn 11, double push
+const NAG = 0x0B;
+const COMMENT = 0x0C;
+const START_VAR = 0x0D;
+const END_VAR = 0x0E;
+const END_GAME = 0x0F;
+
+function gameBuffer(moveBytes: number[], comments: string[] = []): Buffer {
+	const parts = [Buffer.from([0x00, 0x00, ...moveBytes, END_GAME])];
+	for (const c of comments) {
+		parts.push(Buffer.from(c + "\0", "latin1"));
+	}
+	return Buffer.concat(parts);
+}
+
+function parse(moveBytes: number[], comments: string[] = []) {
+	const buf = gameBuffer(moveBytes, comments);
+	return parseGameData(buf, 0, buf.length);
+}
+
+describe("parseGameData", () => {
+	it("decodes the main line", () => {
+		const game = parse([E2E4, E7E5, G1F3]);
+		expect(game.moves.map(m => m.to)).toEqual(["e4", "e5", "f3"]);
+		expect(game.tree.moves.map(m => m.move.to)).toEqual(["e4", "e5", "f3"]);
+	});
+
+	it("attaches NAGs to the preceding move", () => {
+		const game = parse([E2E4, NAG, 1, E7E5, NAG, 2, NAG, 14]);
+		expect(game.tree.moves[0].nags).toEqual([1]);
+		expect(game.tree.moves[1].nags).toEqual([2, 14]);
+	});
+
+	it("reads trailing comment strings in marker order", () => {
+		const game = parse([COMMENT, E2E4, COMMENT, E7E5, COMMENT], ["Start", "King pawn", "Symmetric"]);
+		expect(game.tree.comment).toBe("Start");
+		expect(game.tree.moves[0].comment).toBe("King pawn");
+		expect(game.tree.moves[1].comment).toBe("Symmetric");
+	});
+
+	it("decodes variations from the position before the move they replace", () => {
+		const game = parse([E2E4, E7E5, START_VAR, C7C5, G1F3, END_VAR, G1F3]);
+		expect(game.moves.map(m => m.to)).toEqual(["e4", "e5", "f3"]);
+		const variation = game.tree.moves[1].variations[0];
+		expect(variation.moves.map(m => `${m.move.from}${m.move.to}`)).toEqual(["c7c5", "g1f3"]);
+	});
+
+	it("decodes several variations on the same move", () => {
+		const game = parse([E2E4, E7E5, START_VAR, C7C5, G1F3, END_VAR, START_VAR, E7E6, END_VAR, G1F3]);
+		const variations = game.tree.moves[1].variations;
+		expect(variations.length).toBe(2);
+		expect(variations[1].moves[0].move).toEqual({ from: "e7", to: "e6" });
+		expect(game.tree.moves[2].move).toEqual({ from: "g1", to: "f3" });
+	});
+
+	it("decodes nested variations", () => {
+		const game = parse([E2E4, E7E5, START_VAR, C7C5, G1F3, START_VAR, D2D4, END_VAR, END_VAR, G1F3]);
+		const sicilian = game.tree.moves[1].variations[0];
+		expect(sicilian.moves[1].variations[0].moves[0].move).toEqual({ from: "d2", to: "d4" });
+		expect(game.tree.moves[2].move).toEqual({ from: "g1", to: "f3" });
+	});
+
+	it("assigns comments inside variations", () => {
+		const game = parse(
+			[E2E4, COMMENT, E7E5, START_VAR, COMMENT, C7C5, COMMENT, END_VAR],
+			["Best by test", "Instead", "Sicilian"],
+		);
+		const variation = game.tree.moves[1].variations[0];
+		expect(game.tree.moves[0].comment).toBe("Best by test");
+		expect(variation.comment).toBe("Instead");
+		expect(variation.moves[0].comment).toBe("Sicilian");
+	});
+
+	it("reads extra tags and a custom start position", () => {
+		const fen = "4k3/8/8/8/8/8/4P3/4K3 w - - 0 40";
+		const buf = Buffer.concat([
+			Buffer.from([241, 5]), Buffer.from("Coach", "latin1"),      // Annotator
+			Buffer.from([2]), Buffer.from("XY", "latin1"), Buffer.from([1]), Buffer.from("z", "latin1"),
+			Buffer.from([0x00, 0x01]), Buffer.from(fen + "\0", "latin1"),
+			// e2-e4: the pawn is list index 1 after the king
+			Buffer.from([0x1F, END_GAME]),
+		]);
+		const game = parseGameData(buf, 0, buf.length);
+		expect(game.extraTags).toEqual([["Annotator", "Coach"], ["XY", "z"]]);
+		expect(game.startFen).toBe(fen);
+		expect(game.moves).toEqual([{ from: "e2", to: "e4" }]);
+	});
+});
+
+describe("encodeGameData", () => {
+	function roundTrip(extraTags: [string, string][], tree: ScidLine, startFen: string | null = null) {
+		const encoded = encodeGameData({ extraTags, tree, startFen });
+		return { encoded, parsed: parseGameData(encoded.data, 0, encoded.data.length) };
+	}
+
+	const move = (from: string, to: string, promotion?: string) => promotion ? { from, to, promotion } : { from, to };
+
+	it("writes the bytes parseGameData reads", () => {
+		const { encoded } = roundTrip([], { moves: [
+			{ move: move("e2", "e4"), nags: [], variations: [] },
+			{ move: move("e7", "e5"), nags: [], variations: [] },
+			{ move: move("g1", "f3"), nags: [], variations: [] },
+		] });
+		expect([...encoded.data]).toEqual([...gameBuffer([E2E4, E7E5, G1F3])]);
+	});
+
+	it("round-trips tags, comments, NAGs and nested variations", () => {
+		const tree: ScidLine = {
+			comment: "Start",
+			moves: [
+				{ move: move("e2", "e4"), nags: [1], comment: "Best by test", variations: [] },
+				{
+					move: move("e7", "e5"), nags: [], variations: [
+						{
+							comment: "Instead",
+							moves: [
+								{ move: move("c7", "c5"), nags: [], comment: "Sicilian", variations: [] },
+								{ move: move("g1", "f3"), nags: [], variations: [
+									{ moves: [{ move: move("d2", "d4"), nags: [14], variations: [] }] },
+								] },
+							],
+						},
+						{ moves: [{ move: move("e7", "e6"), nags: [], variations: [] }] },
+					],
+				},
+				{ move: move("g1", "f3"), nags: [2, 146], variations: [] },
+			],
+		};
+		const tags: [string, string][] = [["Annotator", "Coach"], ["XY", "z"], ["TimeControl", "40/7200"]];
+		const { encoded, parsed } = roundTrip(tags, tree);
+		expect(parsed.extraTags).toEqual(tags);
+		expect(parsed.tree).toEqual(tree);
+		expect(parsed.startFen).toBeNull();
+		expect(encoded.numHalfMoves).toBe(3);
+		expect(encoded.nComments).toBe(4);
+		expect(encoded.nVariations).toBe(3);
+		expect(encoded.nNags).toBe(4);
+	});
+
+	it("round-trips a custom start position and flags promotions", () => {
+		const fen = "4k3/1P6/8/8/8/8/4P3/4K3 w - - 0 40";
+		const tree: ScidLine = { moves: [
+			{ move: move("b7", "b8", "n"), nags: [], variations: [] },
+			{ move: move("e8", "d7"), nags: [], variations: [] },
+			{ move: move("e2", "e4"), nags: [], variations: [] },
+		] };
+		const { encoded, parsed } = roundTrip([], tree, fen);
+		expect(parsed.startFen).toBe(fen);
+		expect(parsed.tree).toEqual(tree);
+		expect(encoded.flags).toBe(FLAG_START | FLAG_PROMOTIONS | FLAG_UNDERPROMOTIONS);
+		// White: a knight and a pawn; Black: nothing but the king
+		expect(encoded.finalMatSig).toBe(((1 << 4) | 1) << 12);
+	});
+
+	it("records home pawns in the order they leave", () => {
+		const { encoded } = roundTrip([], { moves: [
+			{ move: move("e2", "e4"), nags: [], variations: [] },
+			{ move: move("c7", "c5"), nags: [], variations: [
+				{ moves: [{ move: move("e7", "e5"), nags: [], variations: [] }] },
+			] },
+			{ move: move("g1", "f3"), nags: [], variations: [] },
+			{ move: move("d7", "d6"), nags: [], variations: [] },
+			{ move: move("d2", "d4"), nags: [], variations: [] },
+		] });
+		// e2 (4), c7 (8 + 2), d7 (8 + 3), d2 (3); the variation is left out
+		expect(encoded.homePawnData).toEqual([4, 0x4A, 0xB3, 0, 0, 0, 0, 0, 0]);
+	});
+
+	it("cuts tag values the format cannot hold", () => {
+		const { parsed } = roundTrip([["Source", "x".repeat(300)]], { moves: [] });
+		expect(parsed.extraTags).toEqual([["Source", "x".repeat(240)]]);
+	});
+
+	it("rejects an illegal move", () => {
+		expect(() => encodeGameData({ extraTags: [], startFen: null, tree: { moves: [
+			{ move: move("e2", "e5"), nags: [], variations: [] },
+		] } })).toThrow();
+	});
+});
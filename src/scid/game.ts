@@ -1,6 +1,13 @@
 import { Board } from "./board";
 import { decodeMoveOrMarker, DecodeResult } from "./decode";
-import { ScidMove } from "./types";
+import { encodeMove } from "./encode";
+import {
+	ScidMove, ScidAnnotatedMove, ScidLine, Color, PieceType,
+	KING, QUEEN, ROOK, BISHOP, KNIGHT, PAWN, EMPTY, WHITE, BLACK,
+	ENCODE_NAG, ENCODE_COMMENT, ENCODE_START_MARKER, ENCODE_END_MARKER, ENCODE_END_GAME,
+	FLAG_START, FLAG_PROMOTIONS, FLAG_UNDERPROMOTIONS,
+	algebraicToSquare,
+} from "./types";
 
 /**
  * Common tag name codes for SCID game files.
@@ -27,17 +34,25 @@ const COMMON_TAGS: Record<number, string> = {
 export interface ParsedGameData {
 	extraTags: [string, string][];
 	moves: ScidMove[];
+	tree: ScidLine;
 	startFen: string | null;
 }
 
-/**
- * Parse a single game's data from the game file (.sg4 / .sg5).
- * The format is identical between SCID4 and SCID5.
- */
-export function parseGameData(buf: Buffer, offset: number, length: number): ParsedGameData {
-	let pos = offset;
-	const end = offset + length;
+interface LineState {
+	line: ScidLine;
+	board: Board;
+	// Board before the line's most recent move, where a variation on that move starts
+	preMoveBoard: Board;
+}
 
+interface GamePrelude {
+	extraTags: [string, string][];
+	startFen: string | null;
+	pos: number;              // offset of the move stream
+}
+
+/** Read the extra tags and start position that precede the move stream. */
+function readPrelude(buf: Buffer, pos: number, end: number): GamePrelude {
 	// 1. Extra tags
 	const extraTags: [string, string][] = [];
 	while (pos < end) {
@@ -76,62 +91,359 @@ export function parseGameData(buf: Buffer, offset: number, length: number): Pars
 		}
 	}
 
-	// 3. Decode move stream
-	// Use a board stack: variations branch from the position BEFORE the last move.
-	// On startVariation, push a clone of the board at the pre-move state.
-	// On endVariation, pop the stack.
-	let board = new Board();
+	return { extraTags, startFen, pos };
+}
+
+function startBoard(startFen: string | null): Board {
+	const board = new Board();
 	if (startFen) {
 		board.setupFromFEN(startFen);
 	} else {
 		board.setupStartPosition();
 	}
+	return board;
+}
 
+/**
+ * Parse a single game's data from the game file (.sg4 / .sg5).
+ * The format is identical between SCID4 and SCID5.
+ */
+export function parseGameData(buf: Buffer, offset: number, length: number): ParsedGameData {
+	const end = offset + length;
+	const prelude = readPrelude(buf, offset, end);
+	const { extraTags, startFen } = prelude;
+	let pos = prelude.pos;
+
+	// 3. Decode move stream
+	// Variations branch from the position BEFORE the last move of the enclosing
+	// line. On startVariation, the enclosing line's state is pushed; on
+	// endVariation it is popped so further variations on the same move work.
+	const board = startBoard(startFen);
+
+	const tree: ScidLine = { moves: [] };
 	const moves: ScidMove[] = [];
-	let depth = 0;
-	// Stack of board states saved before the last main-line or variation move
-	const boardStack: Board[] = [];
-	// Save the board state before each move for variation branching
-	let preMoveBoard = board.clone();
+	const stack: LineState[] = [];
+	let current: LineState = { line: tree, board, preMoveBoard: board.clone() };
+	// Moves and lines awaiting their comment text, in stream order
+	const commentTargets: { comment?: string }[] = [];
 
 	while (pos < end) {
 		const byte = buf[pos++];
 
-		const result = decodeMoveOrMarker(board, byte, () => {
+		const result = decodeMoveOrMarker(current.board, byte, () => {
 			if (pos < end) return buf[pos++];
 			return 0;
 		});
 
+		const lastMove: ScidAnnotatedMove | undefined = current.line.moves[current.line.moves.length - 1];
+
 		if (result.type === "move") {
 			const decoded = result as DecodeResult;
-			if (depth === 0) {
+			if (stack.length === 0) {
 				moves.push(decoded.move);
 			}
-			preMoveBoard = board.clone();
-			board.applyMove(decoded.from, decoded.to, decoded.promo, decoded.isCastle, decoded.isNull);
+			current.line.moves.push({ move: decoded.move, nags: [], variations: [] });
+			current.preMoveBoard = current.board.clone();
+			current.board.applyMove(decoded.from, decoded.to, decoded.promo, decoded.isCastle, decoded.isNull);
 		} else {
 			switch (result.type) {
 				case "nag":
+					if (lastMove && result.nag) lastMove.nags.push(result.nag);
 					break;
 				case "comment":
+					commentTargets.push(lastMove ?? current.line);
 					break;
-				case "startVariation":
-					depth++;
-					// Variation branches from position before last move
-					boardStack.push(board);
-					board = preMoveBoard.clone();
+				case "startVariation": {
+					const variation: ScidLine = { moves: [] };
+					if (lastMove) lastMove.variations.push(variation);
+					stack.push(current);
+					current = {
+						line: variation,
+						board: current.preMoveBoard.clone(),
+						preMoveBoard: current.preMoveBoard.clone(),
+					};
 					break;
+				}
 				case "endVariation":
-					if (boardStack.length > 0) {
-						board = boardStack.pop()!;
+					if (stack.length > 0) {
+						current = stack.pop()!;
 					}
-					depth--;
 					break;
 				case "endGame":
-					return { extraTags, moves, startFen };
+					readComments(buf, pos, end, commentTargets);
+					return { extraTags, moves, tree, startFen };
+			}
+		}
+	}
+
+	return { extraTags, moves, tree, startFen };
+}
+
+/**
+ * Replay the main line of a game, calling `visit` with the start position and
+ * the position after each main-line move. Stops early when `visit` returns false.
+ * Variations are decoded (their moves depend on the board) but not visited.
+ */
+export function replayMainLine(buf: Buffer, offset: number, length: number, visit: (board: Board) => boolean): void {
+	const end = offset + length;
+	const prelude = readPrelude(buf, offset, end);
+	let pos = prelude.pos;
+
+	const mainBoard = startBoard(prelude.startFen);
+	if (!visit(mainBoard)) return;
+
+	const stack: { board: Board; preMoveBoard: Board }[] = [];
+	let current = { board: mainBoard, preMoveBoard: mainBoard.clone() };
+
+	while (pos < end) {
+		const byte = buf[pos++];
+		const result = decodeMoveOrMarker(current.board, byte, () => {
+			if (pos < end) return buf[pos++];
+			return 0;
+		});
+
+		switch (result.type) {
+			case "move": {
+				const decoded = result as DecodeResult;
+				current.preMoveBoard = current.board.clone();
+				current.board.applyMove(decoded.from, decoded.to, decoded.promo, decoded.isCastle, decoded.isNull);
+				if (stack.length === 0 && !visit(current.board)) return;
+				break;
+			}
+			case "startVariation":
+				stack.push(current);
+				current = {
+					board: current.preMoveBoard.clone(),
+					preMoveBoard: current.preMoveBoard.clone(),
+				};
+				break;
+			case "endVariation":
+				if (stack.length > 0) {
+					current = stack.pop()!;
+				}
+				break;
+			case "endGame":
+				return;
+		}
+	}
+}
+
+/**
+ * Read the comment section that follows the move stream: null-terminated
+ * strings in the order their comment markers appeared.
+ */
+function readComments(buf: Buffer, pos: number, end: number, targets: { comment?: string }[]): void {
+	for (const target of targets) {
+		if (pos >= end) break;
+		const commentStart = pos;
+		while (pos < end && buf[pos] !== 0) pos++;
+		const text = buf.toString("latin1", commentStart, pos).trim();
+		pos++; // skip null terminator
+		if (text) target.comment = text;
+	}
+}
+
+/** What encodeGameData needs: a game as parseGameData returns it, less the flat move list. */
+export interface GameDataInput {
+	extraTags: [string, string][];
+	tree: ScidLine;
+	startFen: string | null;
+}
+
+/** A game's bytes for the game file, with the index fields that describe them. */
+export interface EncodedGameData {
+	data: Buffer;
+	numHalfMoves: number;       // main line
+	nComments: number;
+	nVariations: number;
+	nNags: number;
+	flags: number;
+	finalMatSig: number;
+	homePawnData: number[];
+}
+
+/** Longest tag name or value, in bytes, the game file format can hold. */
+const MAX_TAG_LENGTH = 240;
+
+const COMMON_TAG_CODES = new Map(Object.keys(COMMON_TAGS).map(code => [COMMON_TAGS[+code], +code]));
+
+const PROMO_PIECES: Record<string, PieceType> = { q: QUEEN, r: ROOK, b: BISHOP, n: KNIGHT };
+
+/**
+ * Encode a game for the game file: the inverse of parseGameData. Strings are
+ * stored as latin1, as they are read, and tags are cut to MAX_TAG_LENGTH
+ * bytes. Throws if a move is not legal on the board it is played on.
+ */
+export function encodeGameData(game: GameDataInput): EncodedGameData {
+	const parts: Buffer[] = [];
+
+	// 1. Extra tags
+	for (const [name, value] of game.extraTags) {
+		const code = COMMON_TAG_CODES.get(name);
+		if (code !== undefined) {
+			parts.push(Buffer.from([code]));
+		} else {
+			const nameBytes = latin1(name, MAX_TAG_LENGTH);
+			if (nameBytes.length === 0) continue;
+			parts.push(Buffer.from([nameBytes.length]), nameBytes);
+		}
+		const valueBytes = latin1(value, MAX_TAG_LENGTH);
+		parts.push(Buffer.from([valueBytes.length]), valueBytes);
+	}
+	parts.push(Buffer.from([0]));
+
+	// 2. Start board
+	if (game.startFen) {
+		parts.push(Buffer.from([1]), Buffer.from(game.startFen + "\0", "latin1"));
+	} else {
+		parts.push(Buffer.from([0]));
+	}
+
+	// 3. Moves, then the comments in marker order
+	const board = startBoard(game.startFen);
+	const writer: LineWriter = {
+		bytes: [],
+		comments: [],
+		nVariations: 0,
+		nNags: 0,
+		mainLine: {
+			plies: 0,
+			flags: game.startFen ? FLAG_START : 0,
+			homePawns: homePawnMask(board),
+			homePawnChanges: [],
+		},
+	};
+	writeLine(writer, game.tree, board, true);
+	writer.bytes.push(ENCODE_END_GAME);
+	parts.push(Buffer.from(writer.bytes));
+	for (const comment of writer.comments) {
+		parts.push(Buffer.from(comment + "\0", "latin1"));
+	}
+
+	const { mainLine } = writer;
+	return {
+		data: Buffer.concat(parts),
+		numHalfMoves: mainLine.plies,
+		nComments: writer.comments.length,
+		nVariations: writer.nVariations,
+		nNags: writer.nNags,
+		flags: mainLine.flags,
+		finalMatSig: materialSignature(board),
+		homePawnData: packHomePawnChanges(mainLine.homePawnChanges),
+	};
+}
+
+interface LineWriter {
+	bytes: number[];
+	comments: string[];
+	nVariations: number;
+	nNags: number;
+	mainLine: {
+		plies: number;
+		flags: number;
+		homePawns: number;
+		homePawnChanges: number[];
+	};
+}
+
+/** Write the moves of `line` played on `board`, which is left at the line's end. */
+function writeLine(writer: LineWriter, line: ScidLine, board: Board, isMainLine: boolean): void {
+	if (line.comment) addComment(writer, line.comment);
+
+	for (const m of line.moves) {
+		const from = algebraicToSquare(m.move.from);
+		const to = algebraicToSquare(m.move.to);
+		const promo = m.move.promotion ? PROMO_PIECES[m.move.promotion.toLowerCase()] ?? null : null;
+		// Variations start from the position before the move they replace
+		const before = m.variations.length ? board.clone() : null;
+
+		const encoded = encodeMove(board, from, to, promo);
+		writer.bytes.push(...encoded.bytes);
+		board.applyMove(from, to, promo, encoded.isCastle, encoded.isNull);
+
+		for (const nag of m.nags) {
+			if (nag <= 0 || nag > 255) continue;
+			writer.bytes.push(ENCODE_NAG, nag);
+			writer.nNags++;
+		}
+		if (m.comment) addComment(writer, m.comment);
+
+		for (const variation of m.variations) {
+			writer.bytes.push(ENCODE_START_MARKER);
+			writeLine(writer, variation, before!.clone(), false);
+			writer.bytes.push(ENCODE_END_MARKER);
+			writer.nVariations++;
+		}
+
+		if (isMainLine) {
+			const { mainLine } = writer;
+			mainLine.plies++;
+			if (promo !== null) {
+				mainLine.flags |= FLAG_PROMOTIONS;
+				if (promo !== QUEEN) mainLine.flags |= FLAG_UNDERPROMOTIONS;
+			}
+			const homePawns = homePawnMask(board);
+			for (let i = 0; i < 16; i++) {
+				if ((mainLine.homePawns & ~homePawns) & (1 << i)) mainLine.homePawnChanges.push(i);
 			}
+			mainLine.homePawns = homePawns;
 		}
 	}
+}
+
+function addComment(writer: LineWriter, comment: string): void {
+	writer.bytes.push(ENCODE_COMMENT);
+	// A null byte would end the comment early
+	writer.comments.push(comment.replace(/\0/g, ""));
+}
+
+function latin1(s: string, maxLength: number): Buffer {
+	const buf = Buffer.from(s, "latin1");
+	return buf.length > maxLength ? buf.subarray(0, maxLength) : buf;
+}
+
+/**
+ * Pawns still on their home squares: bit i for White's pawn on file i of the
+ * 2nd rank, bit 8 + i for Black's on file i of the 7th.
+ */
+function homePawnMask(board: Board): number {
+	let mask = 0;
+	for (let file = 0; file < 8; file++) {
+		if (isPawn(board, 8 + file, WHITE)) mask |= 1 << file;
+		if (isPawn(board, 48 + file, BLACK)) mask |= 1 << (8 + file);
+	}
+	return mask;
+}
 
-	return { extraTags, moves, startFen };
+function isPawn(board: Board, sq: number, color: Color): boolean {
+	const piece = board.pieceAt(sq);
+	return piece !== null && piece.type === PAWN && piece.color === color;
+}
+
+/**
+ * homePawnData: the number of home pawns that left their squares in the main
+ * line, then the homePawnMask bit of each in the order they left, packed two
+ * to a byte with the first in the high nibble.
+ */
+function packHomePawnChanges(changes: number[]): number[] {
+	const data = [changes.length, 0, 0, 0, 0, 0, 0, 0, 0];
+	changes.forEach((bit, i) => {
+		data[1 + (i >> 1)] |= i % 2 === 0 ? bit << 4 : bit;
+	});
+	return data;
+}
+
+/** The finalMatSig of `board` (layout in position.ts), counts capped to fit. */
+function materialSignature(board: Board): number {
+	const side = (color: Color): number => {
+		const counts: Record<number, number> = { [QUEEN]: 0, [ROOK]: 0, [BISHOP]: 0, [KNIGHT]: 0, [PAWN]: 0 };
+		for (let i = 0; i < board.getPieceCount(color); i++) {
+			const type = board.getPiece(color, i).type;
+			if (type !== KING && type !== EMPTY) counts[type]++;
+		}
+		const cap = (n: number) => Math.min(n, 3);
+		return (cap(counts[QUEEN]) << 10) | (cap(counts[ROOK]) << 8) | (cap(counts[BISHOP]) << 6) |
+			(cap(counts[KNIGHT]) << 4) | Math.min(counts[PAWN], 15);
+	};
+	return (side(WHITE) << 12) | side(BLACK);
 }
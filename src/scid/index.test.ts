@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ScidDatabase, ScidNewGame } from "./index";
+import { codec4 } from "./codec4";
+import { codec5 } from "./codec5";
+import { FLAG_DELETED, FLAG_PROMOTIONS, userFlagLetters } from "./types";
+
+function newGame(white: string, black: string, overrides: Partial<ScidNewGame["headers"]> = {}): ScidNewGame {
+	return {
+		headers: {
+			white, black, event: "Club Championship", site: "Leeds", round: "1",
+			date: "2024.03.15", eventDate: "2024.03.14", result: "1-0",
+			whiteElo: 2150, blackElo: 1980, whiteRatingType: "Elo", blackRatingType: "Elo", eco: "C20",
+			flags: 0, chess960: false,
+			...overrides,
+		},
+		extraTags: [["Annotator", "Coach"]],
+		startFen: null,
+		tree: { moves: [
+			{ move: { from: "e2", to: "e4" }, nags: [1], comment: "Open game", variations: [] },
+			{ move: { from: "e7", to: "e5" }, nags: [], variations: [
+				{ moves: [{ move: { from: "c7", to: "c5" }, nags: [], variations: [] }] },
+			] },
+		] },
+	};
+}
+
+for (const ext of [".si4", ".si5"]) {
+	describe(`ScidDatabase writing (${ext})`, () => {
+		let dir: string;
+		let indexPath: string;
+
+		beforeEach(() => {
+			dir = fs.mkdtempSync(path.join(os.tmpdir(), "scid-write-test-"));
+			indexPath = path.join(dir, `club${ext}`);
+			ScidDatabase.create(indexPath);
+		});
+
+		afterEach(() => {
+			fs.rmSync(dir, { recursive: true, force: true });
+		});
+
+		function reopen(): ScidDatabase {
+			const db = new ScidDatabase();
+			db.open(indexPath);
+			return db;
+		}
+
+		it("creates an empty database", () => {
+			const db = reopen();
+			expect(db.getGameCount()).toBe(0);
+			db.close();
+		});
+
+		it("reads back appended games", () => {
+			const db = reopen();
+			const first = newGame("Adams, Jane", "Brown, Tom");
+			const second = newGame("Brown, Tom", "Clark, Ann", { result: "1/2-1/2", round: "2", eco: "B90a", whiteElo: 0 });
+			expect(db.appendGame(first)).toBe(0);
+			expect(db.appendGame(second)).toBe(1);
+			// Visible straight away, without reopening
+			expect(db.getHeaders(1).black).toBe("Clark, Ann");
+			db.close();
+
+			const reopened = reopen();
+			expect(reopened.getGameCount()).toBe(2);
+			for (const [n, game] of [first, second].entries()) {
+				const read = reopened.getGame(n);
+				expect(read.headers).toEqual({ ...game.headers, plyCount: 2 });
+				expect(read.tree).toEqual(game.tree);
+				expect(read.extraTags).toEqual(game.extraTags);
+				expect(read.moves).toEqual([{ from: "e2", to: "e4" }, { from: "e7", to: "e5" }]);
+			}
+			reopened.close();
+		});
+
+		it("keeps earlier games and names when appending after reopening", () => {
+			const db = reopen();
+			db.appendGame(newGame("Zeta, Max", "Adams, Jane"));
+			db.close();
+
+			const again = reopen();
+			again.appendGame(newGame("Adams, Jane", "Young, Bo", { event: "Blitz" }));
+			again.close();
+
+			const read = reopen();
+			expect(read.getHeaders(0)).toMatchObject({ white: "Zeta, Max", black: "Adams, Jane", event: "Club Championship" });
+			expect(read.getHeaders(1)).toMatchObject({ white: "Adams, Jane", black: "Young, Bo", event: "Blitz" });
+			expect(read.search("young", 0, 10).results).toEqual([1]);
+			read.close();
+		});
+
+		it("stores each name once", () => {
+			const db = reopen();
+			db.appendGame(newGame("Adams, Jane", "Brown, Tom"));
+			db.appendGame(newGame("Brown, Tom", "Adams, Jane"));
+			db.close();
+
+			const codec = ext === ".si4" ? codec4 : codec5;
+			const names = codec.readNamebase(fs.readFileSync(indexPath.slice(0, -4) + (ext === ".si4" ? ".sn4" : ".sn5")));
+			expect(names[0]).toEqual(["Adams, Jane", "Brown, Tom"]);
+			expect(names[1]).toEqual(["Club Championship"]);
+		});
+
+		it("writes what the index reader needs", () => {
+			const db = reopen();
+			db.appendGame(newGame("Adams, Jane", "Brown, Tom"));
+			db.close();
+
+			const codec = ext === ".si4" ? codec4 : codec5;
+			const [entry] = codec.readIndex(fs.readFileSync(indexPath));
+			const gameFile = fs.readFileSync(indexPath.slice(0, -4) + codec.gameFileExt());
+			expect(entry.gameOffset).toBe(0);
+			expect(entry.gameLength).toBe(gameFile.length);
+			// Both sides keep all their pieces
+			expect(entry.finalMatSig).toBe(0x6A86A8);
+			// e2 then e7 left home
+			expect(entry.homePawnData.slice(0, 2)).toEqual([2, 0x4C]);
+			expect(entry.storedLineCode).toBe(0);
+		});
+
+		it("keeps user flags, rating types and event dates", () => {
+			const db = reopen();
+			const flagged = newGame("Adams, Jane", "Brown, Tom", {
+				// Deleted, endgame and custom flag 6; the promotion flag comes from the moves
+				flags: FLAG_DELETED | (1 << 7) | (1 << 21) | FLAG_PROMOTIONS,
+				whiteRatingType: "USCF", blackRatingType: "DWZ", eventDate: "2015.06.??", chess960: true,
+			});
+			db.appendGame(flagged);
+			db.close();
+
+			const headers = reopen().getHeaders(0);
+			expect(userFlagLetters(headers.flags)).toBe("DE6");
+			expect(headers.flags & FLAG_PROMOTIONS).toBe(0);
+			expect(headers).toMatchObject({ whiteRatingType: "USCF", blackRatingType: "DWZ", plyCount: 2 });
+			// SCID4 stores event dates within a few years of the game's, and only SCID5 has the Chess960 bit
+			expect(headers.eventDate).toBe(ext === ".si4" ? "????.??.??" : "2015.06.??");
+			expect(headers.chess960).toBe(ext === ".si5");
+		});
+
+		it("leaves the database unchanged when a game cannot be encoded", () => {
+			const db = reopen();
+			const bad = newGame("Adams, Jane", "New, Name");
+			bad.tree.moves[0].move = { from: "e2", to: "e5" };
+			expect(() => db.appendGame(bad)).toThrow();
+			db.appendGame(newGame("Adams, Jane", "Brown, Tom"));
+			db.close();
+
+			const read = reopen();
+			expect(read.getGameCount()).toBe(1);
+			expect(read.getHeaders(0).black).toBe("Brown, Tom");
+			read.close();
+		});
+	});
+}
@@ -1,48 +1,105 @@
 import * as fs from "fs";
 import { codec4 } from "./codec4";
 import { codec5 } from "./codec5";
-import { parseGameData } from "./game";
+import { parseGameData, ParsedGameData, encodeGameData } from "./game";
+import { makePositionTarget, matSigCanReach, gameReachesPosition } from "./position";
+import { BoardPatternTarget, indexMatchesPattern, gameMatchesPattern, homePawnsCanReach, homePawnMaskOf } from "./pattern";
 import {
-	ScidCodec, IndexEntry, ScidGameHeaders, ScidMove, ScidGame,
+	ScidCodec, IndexEntry, IndexRecord, ScidGameHeaders, ScidMove, ScidGame,
 	NAME_PLAYER, NAME_EVENT, NAME_SITE, NAME_ROUND,
-	decodeDate, decodeEco, resultToString,
+	decodeDate, decodeEco, resultToString, encodeDate, encodeEco, resultFromString,
+	ratingTypeToString, ratingTypeFromString, GAME_FLAGS,
 } from "./types";
 
-export type { ScidGameHeaders, ScidMove, ScidGame } from "./types";
+export type { ScidGameHeaders, ScidMove, ScidGame, ScidLine, ScidAnnotatedMove, ScidFlagFilter } from "./types";
+export type { BoardPatternTarget, MaterialCount } from "./pattern";
+export {
+	RATING_TYPES, USER_FLAG_LETTERS, FLAG_DELETED, userFlagLetters, userFlagBits, passesFlagFilter,
+	NAME_PLAYER, NAME_EVENT, NAME_SITE, NAME_ROUND,
+} from "./types";
+
+const PROGRESS_INTERVAL = 1000;
+
+/**
+ * A game to add to a database: a game as getGame returns it, less the flat
+ * move list and the ply count, which comes from the moves. Of the flags only
+ * the user flags are kept; the others are also set from the moves.
+ */
+export type ScidNewGame = Omit<ScidGame, "moves" | "headers"> & { headers: Omit<ScidGameHeaders, "plyCount"> };
+
+/** The namebase IDs of a game's names, to test against findNameIds. */
+export interface ScidGameNameIds {
+	white: number;
+	black: number;
+	event: number;
+	site: number;
+	round: number;
+}
+
+interface ScidPaths {
+	codec: ScidCodec;
+	index: string;
+	namebase: string;
+	games: string;
+}
+
+function scidPaths(path: string): ScidPaths {
+	const ext = path.substring(path.lastIndexOf(".")).toLowerCase();
+	if (ext !== ".si5" && ext !== ".si4") {
+		throw new Error(`Unsupported SCID file extension: ${ext}`);
+	}
+	const codec = ext === ".si5" ? codec5 : codec4;
+	const basePath = path.substring(0, path.length - 4);
+	return {
+		codec,
+		index: path,
+		namebase: basePath + (ext === ".si5" ? ".sn5" : ".sn4"),
+		games: basePath + codec.gameFileExt(),
+	};
+}
 
 export class ScidDatabase {
 	private codec: ScidCodec | null = null;
 	private names: string[][] = [];
 	private entries: IndexEntry[] = [];
 	private gameFilePath: string = "";
+	private indexPath: string = "";
+	private namebasePath: string = "";
+	/** ID of each name by type, built when a game is first added. */
+	private nameIds: Map<string, number>[] | null = null;
+	/** Games using each name, by type and ID, counted when first asked for. */
+	private nameCounts: number[][] | null = null;
+
+	/**
+	 * Create an empty database at `path` (.si4 or .si5), with its namebase and
+	 * game file. Existing files are replaced.
+	 */
+	static create(path: string): void {
+		const paths = scidPaths(path);
+		fs.writeFileSync(paths.games, Buffer.alloc(0));
+		fs.writeFileSync(paths.namebase, paths.codec.writeNamebase([[], [], [], []], [[], [], [], []]));
+		fs.writeFileSync(paths.index, paths.codec.emptyIndex());
+	}
 
 	/**
 	 * Open a SCID database given the path to the index file (.si4 or .si5).
 	 * Reads the index and namebase files into memory.
 	 */
 	open(path: string): void {
-		const ext = path.substring(path.lastIndexOf(".")).toLowerCase();
-		let basePath: string;
-
-		if (ext === ".si5") {
-			this.codec = codec5;
-			basePath = path.substring(0, path.length - 4);
-		} else if (ext === ".si4") {
-			this.codec = codec4;
-			basePath = path.substring(0, path.length - 4);
-		} else {
-			throw new Error(`Unsupported SCID file extension: ${ext}`);
-		}
+		const paths = scidPaths(path);
+		this.codec = paths.codec;
 
-		const indexBuf = fs.readFileSync(path);
+		const indexBuf = fs.readFileSync(paths.index);
 		this.entries = this.codec.readIndex(indexBuf);
 
-		const nbExt = ext === ".si5" ? ".sn5" : ".sn4";
-		const nbPath = basePath + nbExt;
-		const nbBuf = fs.readFileSync(nbPath);
+		const nbBuf = fs.readFileSync(paths.namebase);
 		this.names = this.codec.readNamebase(nbBuf);
 
-		this.gameFilePath = basePath + this.codec.gameFileExt();
+		this.gameFilePath = paths.games;
+		this.indexPath = paths.index;
+		this.namebasePath = paths.namebase;
+		this.nameIds = null;
+		this.nameCounts = null;
 	}
 
 	close(): void {
@@ -50,6 +107,10 @@ export class ScidDatabase {
 		this.names = [];
 		this.entries = [];
 		this.gameFilePath = "";
+		this.indexPath = "";
+		this.namebasePath = "";
+		this.nameIds = null;
+		this.nameCounts = null;
 	}
 
 	getGameCount(): number {
@@ -61,8 +122,9 @@ export class ScidDatabase {
 		if (!e) {
 			return {
 				white: "?", black: "?", event: "?", site: "?",
-				round: "?", date: "????.??.??", result: "*",
-				whiteElo: 0, blackElo: 0, eco: "",
+				round: "?", date: "????.??.??", eventDate: "????.??.??", result: "*",
+				whiteElo: 0, blackElo: 0, whiteRatingType: "Elo", blackRatingType: "Elo", eco: "",
+				plyCount: 0, flags: 0, chess960: false,
 			};
 		}
 
@@ -73,57 +135,103 @@ export class ScidDatabase {
 			site: this.resolveName(NAME_SITE, e.siteId),
 			round: this.resolveName(NAME_ROUND, e.roundId),
 			date: decodeDate(e.date),
+			eventDate: decodeDate(e.eventDate),
 			result: resultToString(e.result),
 			whiteElo: e.whiteElo,
 			blackElo: e.blackElo,
+			whiteRatingType: ratingTypeToString(e.whiteRatingType),
+			blackRatingType: ratingTypeToString(e.blackRatingType),
 			eco: decodeEco(e.eco),
+			plyCount: e.numHalfMoves,
+			flags: e.flags,
+			chess960: e.chess960,
 		};
 	}
 
+	/** The FLAG_* bits of a game, without resolving any of its names. */
+	getFlags(n: number): number {
+		return this.entries[n]?.flags ?? 0;
+	}
+
+	getGameNameIds(n: number): ScidGameNameIds {
+		const e = this.entries[n];
+		if (!e) return { white: -1, black: -1, event: -1, site: -1, round: -1 };
+		return { white: e.whiteId, black: e.blackId, event: e.eventId, site: e.siteId, round: e.roundId };
+	}
+
+	/** The names of a type (NAME_PLAYER, NAME_EVENT, ...), by ID. */
+	getNames(type: number): readonly string[] {
+		return this.names[type] ?? [];
+	}
+
+	/** How many games use each name of a type, by ID. */
+	getNameCounts(type: number): readonly number[] {
+		if (!this.nameCounts) this.nameCounts = this.countNames(this.entries);
+		return this.nameCounts[type] ?? [];
+	}
+
+	/**
+	 * IDs of the names of a type that pass `test`. Each name is tested once,
+	 * so matching games by these IDs is much cheaper than resolving the names
+	 * of every game. Empty names are tested as "?", as getHeaders gives them.
+	 */
+	findNameIds(type: number, test: (name: string) => boolean): Set<number> {
+		const ids = new Set<number>();
+		this.getNames(type).forEach((name, id) => {
+			if (test(name || "?")) ids.add(id);
+		});
+		return ids;
+	}
+
 	getMoves(n: number): ScidMove[] {
+		return this.readGameData(n)?.moves ?? [];
+	}
+
+	getGame(n: number): ScidGame {
+		const parsed = this.readGameData(n);
+		return {
+			headers: this.getHeaders(n),
+			moves: parsed?.moves ?? [],
+			tree: parsed?.tree ?? { moves: [] },
+			extraTags: parsed?.extraTags ?? [],
+			startFen: parsed?.startFen ?? null,
+		};
+	}
+
+	private readGameData(n: number): ParsedGameData | null {
 		const e = this.entries[n];
-		if (!e || e.gameLength === 0) return [];
+		if (!e || e.gameLength === 0) return null;
 
 		const fd = fs.openSync(this.gameFilePath, "r");
 		try {
 			const buf = Buffer.alloc(e.gameLength);
 			fs.readSync(fd, buf, 0, e.gameLength, e.gameOffset);
-			const parsed = parseGameData(buf, 0, e.gameLength);
-			return parsed.moves;
+			return parseGameData(buf, 0, e.gameLength);
 		} finally {
 			fs.closeSync(fd);
 		}
 	}
 
-	getGame(n: number): ScidGame {
-		return {
-			headers: this.getHeaders(n),
-			moves: this.getMoves(n),
-		};
-	}
-
 	/**
 	 * Search games by player name, event, site, or ECO.
 	 * Returns matching game indices.
 	 */
 	search(query: string, offset: number, limit: number): { results: number[]; total: number } {
 		const lowerQuery = query.toLowerCase();
+		const test = (name: string) => name.toLowerCase().includes(lowerQuery);
+		const players = this.findNameIds(NAME_PLAYER, test);
+		const events = this.findNameIds(NAME_EVENT, test);
+		const sites = this.findNameIds(NAME_SITE, test);
 		const matches: number[] = [];
 
 		for (let i = 0; i < this.entries.length; i++) {
 			const e = this.entries[i];
-			const white = this.resolveName(NAME_PLAYER, e.whiteId);
-			const black = this.resolveName(NAME_PLAYER, e.blackId);
-			const event = this.resolveName(NAME_EVENT, e.eventId);
-			const site = this.resolveName(NAME_SITE, e.siteId);
-			const eco = decodeEco(e.eco);
-
 			if (
-				white.toLowerCase().includes(lowerQuery) ||
-				black.toLowerCase().includes(lowerQuery) ||
-				event.toLowerCase().includes(lowerQuery) ||
-				site.toLowerCase().includes(lowerQuery) ||
-				eco.toLowerCase().includes(lowerQuery)
+				players.has(e.whiteId) ||
+				players.has(e.blackId) ||
+				events.has(e.eventId) ||
+				sites.has(e.siteId) ||
+				decodeEco(e.eco).toLowerCase().includes(lowerQuery)
 			) {
 				matches.push(i);
 			}
@@ -135,9 +243,230 @@ export class ScidDatabase {
 		};
 	}
 
+	/**
+	 * Find games whose main line reaches the position in `fen` (piece
+	 * placement and side to move). Games are pruned by their final material
+	 * signature and the order their home pawns moved before any game data is
+	 * read. `include` restricts the search to a subset of game indices.
+	 * `onProgress` is called every PROGRESS_INTERVAL games and awaited, so a
+	 * caller can yield or abort.
+	 */
+	async searchPosition(
+		fen: string, offset: number, limit: number,
+		include?: (n: number) => boolean,
+		onProgress?: (done: number, total: number) => Promise<void> | void,
+	): Promise<{ results: number[]; total: number }> {
+		const target = makePositionTarget(fen);
+		const homeMask = homePawnMaskOf(target.homePawns);
+		return this.scanGames(
+			e => matSigCanReach(e.finalMatSig, target) && homePawnsCanReach(e, homeMask) ? null : false,
+			(buf, length) => gameReachesPosition(buf, 0, length, target),
+			offset, limit, include, onProgress,
+		);
+	}
+
+	/**
+	 * Find games matching a material or pawn structure pattern, taking what
+	 * the index records settle (see indexMatchesPattern) and replaying only
+	 * the other games. Arguments as for searchPosition.
+	 */
+	async searchPattern(
+		target: BoardPatternTarget, offset: number, limit: number,
+		include?: (n: number) => boolean,
+		onProgress?: (done: number, total: number) => Promise<void> | void,
+	): Promise<{ results: number[]; total: number }> {
+		return this.scanGames(
+			e => indexMatchesPattern(e, target),
+			(buf, length) => gameMatchesPattern(buf, 0, length, target),
+			offset, limit, include, onProgress,
+		);
+	}
+
+	/**
+	 * Games for which `fromIndex` says true, or says null and `fromGame`
+	 * then finds a match in the game data. Games without data never match.
+	 */
+	private async scanGames(
+		fromIndex: (e: IndexEntry) => boolean | null,
+		fromGame: (buf: Buffer, length: number) => boolean,
+		offset: number, limit: number,
+		include?: (n: number) => boolean,
+		onProgress?: (done: number, total: number) => Promise<void> | void,
+	): Promise<{ results: number[]; total: number }> {
+		const matches: number[] = [];
+
+		const fd = fs.openSync(this.gameFilePath, "r");
+		try {
+			let buf = Buffer.alloc(4096);
+			for (let i = 0; i < this.entries.length; i++) {
+				if (onProgress && i % PROGRESS_INTERVAL === 0) await onProgress(i, this.entries.length);
+				const e = this.entries[i];
+				if (e.gameLength === 0) continue;
+				const known = fromIndex(e);
+				if (known === false || (include && !include(i))) continue;
+				if (known === null) {
+					if (buf.length < e.gameLength) buf = Buffer.alloc(e.gameLength);
+					fs.readSync(fd, buf, 0, e.gameLength, e.gameOffset);
+					if (!fromGame(buf, e.gameLength)) continue;
+				}
+				matches.push(i);
+			}
+		} finally {
+			fs.closeSync(fd);
+		}
+
+		return {
+			results: matches.slice(offset, offset + limit),
+			total: matches.length,
+		};
+	}
+
+	/**
+	 * Add a game at the end of the database and return its number. The game
+	 * data is appended to the game file, new names to the namebase (SCID4
+	 * namebases are sorted, so theirs is rewritten) and the index record last,
+	 * so an interrupted write never leaves the index pointing at missing data.
+	 */
+	appendGame(game: ScidNewGame): number {
+		const codec = this.codec;
+		if (!codec) throw new Error("Database is not open");
+
+		const encoded = encodeGameData(game);
+		const h = game.headers;
+		const added: [number, string][] = [];
+		const nameId = (type: number, name: string): number => {
+			const ids = this.getNameIdMaps()[type];
+			let id = ids.get(name);
+			if (id === undefined) {
+				id = this.names[type].length + added.filter(([t]) => t === type).length;
+				ids.set(name, id);
+				added.push([type, name]);
+			}
+			return id;
+		};
+
+		const nameCounts = this.names.map(typeNames => typeNames.length);
+		try {
+			const record: IndexRecord = {
+				whiteId: nameId(NAME_PLAYER, h.white),
+				blackId: nameId(NAME_PLAYER, h.black),
+				eventId: nameId(NAME_EVENT, h.event),
+				siteId: nameId(NAME_SITE, h.site),
+				roundId: nameId(NAME_ROUND, h.round),
+				whiteElo: h.whiteElo,
+				blackElo: h.blackElo,
+				date: encodeDate(h.date),
+				result: resultFromString(h.result),
+				eco: encodeEco(h.eco),
+				gameOffset: fs.statSync(this.gameFilePath).size,
+				gameLength: encoded.data.length,
+				finalMatSig: encoded.finalMatSig,
+				storedLineCode: 0,
+				flags: encoded.flags | (h.flags & ~GAME_FLAGS),
+				numHalfMoves: encoded.numHalfMoves,
+				eventDate: encodeDate(h.eventDate),
+				whiteRatingType: ratingTypeFromString(h.whiteRatingType),
+				blackRatingType: ratingTypeFromString(h.blackRatingType),
+				chess960: h.chess960,
+				nComments: encoded.nComments,
+				nVariations: encoded.nVariations,
+				nNags: encoded.nNags,
+				homePawnData: encoded.homePawnData,
+			};
+			// Encoded before anything is written, as it rejects IDs and offsets the format cannot hold
+			const recordBuf = codec.writeIndexRecord(record);
+
+			fs.appendFileSync(this.gameFilePath, encoded.data);
+
+			for (const [type, name] of added) this.names[type].push(name);
+			if (added.length) {
+				const appended = codec.appendNames(added);
+				if (appended) {
+					fs.appendFileSync(this.namebasePath, appended);
+				} else {
+					writeFileAtomic(this.namebasePath, codec.writeNamebase(this.names, this.countNames([...this.entries, record])));
+				}
+			}
+
+			this.writeIndexRecord(recordBuf);
+			this.entries.push(record);
+			this.nameCounts = null;
+			return this.entries.length - 1;
+		} catch (e) {
+			// Forget the names of a game that was not added
+			this.names.forEach((typeNames, type) => { typeNames.length = nameCounts[type]; });
+			this.nameIds = null;
+			throw e;
+		}
+	}
+
+	/** Write the record of a new game after the last one, and the new game count where the index keeps it. */
+	private writeIndexRecord(recordBuf: Buffer): void {
+		const codec = this.codec!;
+		const headerSize = codec.indexHeaderSize();
+		const fd = fs.openSync(this.indexPath, "r+");
+		try {
+			fs.writeSync(fd, recordBuf, 0, recordBuf.length, headerSize + this.entries.length * recordBuf.length);
+			if (headerSize > 0) {
+				const header = Buffer.alloc(headerSize);
+				fs.readSync(fd, header, 0, headerSize, 0);
+				codec.setIndexGameCount(header, this.entries.length + 1);
+				fs.writeSync(fd, header, 0, headerSize, 0);
+			}
+		} finally {
+			fs.closeSync(fd);
+		}
+	}
+
+	private getNameIdMaps(): Map<string, number>[] {
+		if (!this.nameIds) {
+			this.nameIds = this.names.map(typeNames => {
+				const ids = new Map<string, number>();
+				// The first of any duplicates, as SCID would match
+				typeNames.forEach((name, id) => {
+					if (!ids.has(name)) ids.set(name, id);
+				});
+				return ids;
+			});
+		}
+		return this.nameIds;
+	}
+
+	/** Games among `entries` using each name, by type and ID. */
+	private countNames(entries: IndexEntry[]): number[][] {
+		const freqs = this.names.map(typeNames => new Array<number>(typeNames.length).fill(0));
+		const count = (type: number, id: number) => {
+			if (id < freqs[type].length) freqs[type][id]++;
+		};
+		for (const e of entries) {
+			count(NAME_PLAYER, e.whiteId);
+			count(NAME_PLAYER, e.blackId);
+			count(NAME_EVENT, e.eventId);
+			count(NAME_SITE, e.siteId);
+			count(NAME_ROUND, e.roundId);
+		}
+		return freqs;
+	}
+
 	private resolveName(type: number, id: number): string {
 		const typeNames = this.names[type];
 		if (!typeNames || id >= typeNames.length) return "?";
 		return typeNames[id] || "?";
 	}
 }
+
+/** Replace `path` with `data` through a temporary file, so it is never left half written. */
+function writeFileAtomic(path: string, data: Buffer): void {
+	const temp = `${path}.${process.pid}.tmp`;
+	try {
+		fs.writeFileSync(temp, data);
+		fs.renameSync(temp, path);
+	} catch (e) {
+		try {
+			fs.unlinkSync(temp);
+		} catch {
+			// Never created
+		}
+		throw e;
+	}
+}
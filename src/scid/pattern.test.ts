@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { encodeGameData } from "./game";
+import { BoardPatternTarget, MaterialCount, indexMatchesPattern, homePawnsCanReach, gameMatchesPattern } from "./pattern";
+import { IndexEntry, ScidLine, FLAG_START } from "./types";
+
+function line(...moves: string[]): ScidLine {
+	return {
+		moves: moves.map(m => ({ move: { from: m.substring(0, 2), to: m.substring(2, 4) }, nags: [], variations: [] })),
+	};
+}
+
+/** A game's data and the index entry fields the pattern search reads. */
+function game(startFen: string | null, ...moves: string[]): { buf: Buffer; entry: IndexEntry } {
+	const encoded = encodeGameData({ extraTags: [], startFen, tree: line(...moves) });
+	const entry = {
+		finalMatSig: encoded.finalMatSig,
+		homePawnData: encoded.homePawnData,
+		flags: encoded.flags,
+	} as IndexEntry;
+	return { buf: encoded.data, entry };
+}
+
+function material(white: MaterialCount, black: MaterialCount, final = false): BoardPatternTarget {
+	return { kind: "material", sides: [[white, black]], final };
+}
+
+// Rook and pawn each; exd5, Rd8, Rh5, Rxd5, Rxd5 leaves a rook against a bare king
+const ENDGAME = game("r3k3/8/8/3p4/4P3/8/8/4K2R w - - 0 1", "e4d5", "a8d8", "h1h5", "d8d5", "h5d5");
+const R: MaterialCount = [0, 1, 0, 0, 0];
+const RP: MaterialCount = [0, 1, 0, 0, 1];
+const NONE: MaterialCount = [0, 0, 0, 0, 0];
+
+function matches({ buf, entry }: { buf: Buffer; entry: IndexEntry }, target: BoardPatternTarget): boolean {
+	const known = indexMatchesPattern(entry, target);
+	return known ?? gameMatchesPattern(buf, 0, buf.length, target);
+}
+
+describe("indexMatchesPattern", () => {
+	it("settles final material from the signature", () => {
+		expect(indexMatchesPattern(ENDGAME.entry, material(R, NONE, true))).toBe(true);
+		expect(indexMatchesPattern(ENDGAME.entry, material(R, R, true))).toBe(false);
+	});
+
+	it("rules out material the game ended with too much of", () => {
+		expect(indexMatchesPattern(ENDGAME.entry, material(NONE, NONE))).toBe(false);
+		expect(indexMatchesPattern(ENDGAME.entry, material(RP, R))).toBeNull();
+		// A pawn could have promoted to the rook
+		expect(indexMatchesPattern(ENDGAME.entry, material([0, 0, 0, 0, 1], NONE))).toBeNull();
+		expect(indexMatchesPattern(ENDGAME.entry, material(R, NONE))).toBe(true);
+	});
+});
+
+describe("gameMatchesPattern", () => {
+	it("finds material reached on the way", () => {
+		expect(matches(ENDGAME, material(RP, R))).toBe(true);
+		expect(matches(ENDGAME, material(R, R))).toBe(true);
+		expect(matches(ENDGAME, material(R, RP))).toBe(false);
+		expect(matches(ENDGAME, material([0, 0, 0, 0, 1], NONE))).toBe(false);
+	});
+
+	it("finds pawn structures", () => {
+		const opening = game(null, "e2e4", "e7e5", "d2d4", "e5d4");
+		const pawns = (placement: string) => placement.replace(/\//g, "").replace(/\d/g, d => ".".repeat(+d));
+		expect(matches(opening, { kind: "pawns", pawns: pawns("8/pppp1ppp/8/4p3/3PP3/8/PPP2PPP/8") })).toBe(true);
+		expect(matches(opening, { kind: "pawns", pawns: pawns("8/pppp1ppp/8/4p3/2P1P3/8/PP1P1PPP/8") })).toBe(false);
+		expect(matches(opening, { kind: "pawns", pawns: pawns("8/pppp1ppp/8/8/3pP3/8/PPP2PPP/8") })).toBe(true);
+	});
+});
+
+describe("homePawnsCanReach", () => {
+	// e2, e7 and d2 left home in that order
+	const entry = game(null, "e2e4", "e7e5", "d2d4").entry;
+	const all = 0xFFFF;
+	const E2 = 1 << 4;
+	const D2 = 1 << 3;
+	const C2 = 1 << 2;
+	const E7 = 1 << 12;
+
+	it("allows the home pawns of a position the game passed through", () => {
+		expect(homePawnsCanReach(entry, all)).toBe(true);
+		expect(homePawnsCanReach(entry, all & ~E2)).toBe(true);
+		expect(homePawnsCanReach(entry, all & ~E2 & ~E7)).toBe(true);
+		expect(homePawnsCanReach(entry, all & ~E2 & ~E7 & ~D2)).toBe(true);
+	});
+
+	it("rules out home pawns that left in another order or never left", () => {
+		expect(homePawnsCanReach(entry, all & ~D2)).toBe(false);
+		expect(homePawnsCanReach(entry, all & ~E2 & ~D2)).toBe(false);
+		expect(homePawnsCanReach(entry, all & ~E2 & ~E7 & ~D2 & ~C2)).toBe(false);
+	});
+
+	it("cannot tell for games from another position", () => {
+		expect(homePawnsCanReach({ ...entry, flags: FLAG_START }, all & ~D2)).toBe(true);
+	});
+
+	it("cannot tell past the changes a full record holds", () => {
+		const full = { ...entry, homePawnData: [14, 0x01, 0x23, 0x45, 0x67, 0x89, 0xAB, 0xCD] };
+		expect(homePawnsCanReach(full, 0)).toBe(true);
+		expect(homePawnsCanReach(full, all & ~1 & ~2)).toBe(true);
+		expect(homePawnsCanReach(full, all & ~2)).toBe(false);
+	});
+});
@@ -0,0 +1,232 @@
+import { Board } from "./board";
+import { replayMainLine } from "./game";
+import { IndexEntry, QUEEN, ROOK, BISHOP, KNIGHT, PAWN, WHITE, BLACK, Color, FLAG_START } from "./types";
+
+/** Queens, rooks, bishops, knights and pawns of one side, in that order. */
+export type MaterialCount = [number, number, number, number, number];
+
+/**
+ * A search by material or by pawn structure. Material matches a position
+ * with exactly the given pieces besides the kings; `sides` lists the White
+ * and Black material of each position that counts (two when either side may
+ * have either). A pawn structure matches a position with pawns on exactly
+ * the given squares, whatever the pieces.
+ */
+export type BoardPatternTarget =
+	| { kind: "material"; sides: [MaterialCount, MaterialCount][]; final: boolean }
+	| { kind: "pawns"; pawns: string };   // 64 squares, a8 first: "P", "p" or "."
+
+const MATERIAL_TYPES = [QUEEN, ROOK, BISHOP, KNIGHT, PAWN];
+
+/**
+ * What a game's index record alone tells about a pattern: false if the game
+ * cannot match, true if it surely does, null if its moves must be replayed.
+ * Material and pawn counts never grow except by promotion, so the final
+ * material signature rules out games that ended with too much; the order in
+ * which home pawns left (homePawnData) rules out pawn structures the game
+ * never passed through.
+ */
+export function indexMatchesPattern(entry: IndexEntry, target: BoardPatternTarget): boolean | null {
+	const final = decodeMatSig(entry.finalMatSig);
+	if (target.kind === "material") {
+		if (target.final) {
+			const match = target.sides.find(([w, b]) => encodeMatSig(w, b) === entry.finalMatSig);
+			if (!match) return false;
+			// Counts above the signature's caps only show as the cap
+			return isCapped(match[0]) || isCapped(match[1]) ? null : true;
+		}
+		const reachable = target.sides.filter(([w, b]) => canReach(final[WHITE], w) && canReach(final[BLACK], b));
+		if (reachable.length === 0) return false;
+		// The final position has the material, so the game reached it
+		return reachable.some(([w, b]) => !isCapped(w) && !isCapped(b) && encodeMatSig(w, b) === entry.finalMatSig)
+			? true : null;
+	}
+
+	const pawns = countPawns(target.pawns);
+	if (final[WHITE][4] > pawns[WHITE] || final[BLACK][4] > pawns[BLACK]) return false;
+	return homePawnsCanReach(entry, pawnKeyHomeMask(target.pawns)) ? null : false;
+}
+
+/**
+ * Whether a game could pass through a position whose home pawns (bit i for
+ * White's pawn on file i of the 2nd rank, 8 + i for Black's on the 7th) are
+ * `homeMask`. Home pawns only ever leave, so the pawns gone from the target
+ * must be exactly the first ones to leave in the game. Games from another
+ * start position are not ruled out.
+ */
+export function homePawnsCanReach(entry: IndexEntry, homeMask: number): boolean {
+	if (entry.flags & FLAG_START) return true;
+	const gone = ~homeMask & 0xFFFF;
+	let needed = 0;
+	for (let bits = gone; bits; bits &= bits - 1) needed++;
+
+	const data = entry.homePawnData;
+	const count = data[0] ?? 0;
+	const stored = Math.max(0, (data.length - 1) * 2);
+	// A full record may have lost later changes, which cannot be checked
+	if (needed > stored) return count >= stored;
+	if (count < needed) return false;
+
+	let left = 0;
+	for (let i = 0; i < needed; i++) {
+		const byte = data[1 + (i >> 1)];
+		left |= 1 << (i % 2 === 0 ? byte >> 4 : byte & 0x0F);
+	}
+	return left === gone;
+}
+
+/** The homePawnsCanReach mask of the pawns on the 2nd and 7th ranks of a position. */
+export function homePawnMaskOf(squares: number[]): number {
+	let mask = 0;
+	for (const sq of squares) mask |= 1 << (sq < 32 ? sq - 8 : sq - 40);
+	return mask;
+}
+
+/** Whether the main line of a game matches the pattern, replaying its moves. */
+export function gameMatchesPattern(buf: Buffer, offset: number, length: number, target: BoardPatternTarget): boolean {
+	let found = false;
+	if (target.kind === "material" && target.final) {
+		let last = null as Board | null;
+		replayMainLine(buf, offset, length, board => {
+			last = board;
+			return true;
+		});
+		return last !== null && hasMaterial(materialOf(last), target.sides);
+	}
+
+	if (target.kind === "material") {
+		replayMainLine(buf, offset, length, board => {
+			const material = materialOf(board);
+			if (hasMaterial(material, target.sides)) {
+				found = true;
+				return false;
+			}
+			return materialStillReachable(material, target.sides);
+		});
+		return found;
+	}
+
+	const pawns = countPawns(target.pawns);
+	const homeSquares = homeSquaresOf(target.pawns);
+	replayMainLine(buf, offset, length, board => {
+		const material = materialOf(board);
+		if (material[WHITE][4] < pawns[WHITE] || material[BLACK][4] < pawns[BLACK]) return false;
+		for (const [sq, color] of homeSquares) {
+			const piece = board.pieceAt(sq);
+			if (piece === null || piece.type !== PAWN || piece.color !== color) return false;
+		}
+		if (pawnKey(board) === target.pawns) {
+			found = true;
+			return false;
+		}
+		return true;
+	});
+	return found;
+}
+
+/**
+ * Counts in a finalMatSig (layout in position.ts). Piece counts are capped
+ * at 3 and pawns at 15, so they are lower bounds.
+ */
+function decodeMatSig(sig: number): [MaterialCount, MaterialCount] {
+	const side = (s: number): MaterialCount => [(s >> 10) & 3, (s >> 8) & 3, (s >> 6) & 3, (s >> 4) & 3, s & 0x0F];
+	return [side(sig >> 12), side(sig & 0xFFF)];
+}
+
+function encodeMatSig(white: MaterialCount, black: MaterialCount): number {
+	const side = ([q, r, b, n, p]: MaterialCount): number => {
+		const cap = (count: number) => Math.min(count, 3);
+		return (cap(q) << 10) | (cap(r) << 8) | (cap(b) << 6) | (cap(n) << 4) | Math.min(p, 15);
+	};
+	return (side(white) << 12) | side(black);
+}
+
+function isCapped(m: MaterialCount): boolean {
+	return m[0] >= 3 || m[1] >= 3 || m[2] >= 3 || m[3] >= 3 || m[4] >= 15;
+}
+
+/**
+ * Whether a side that ends with `final` could have had `target` before:
+ * no more pawns or pieces in all, and no more of a piece than the target
+ * has plus the pawns promoted since.
+ */
+function canReach(final: MaterialCount, target: MaterialCount): boolean {
+	const promoted = target[4] - final[4];
+	if (promoted < 0 || sum(final) > sum(target)) return false;
+	for (let i = 0; i < 4; i++) {
+		if (final[i] > target[i] + promoted) return false;
+	}
+	return true;
+}
+
+/** Whether White and Black `material` is one of `sides`. */
+export function hasMaterial(material: [MaterialCount, MaterialCount], sides: [MaterialCount, MaterialCount][]): boolean {
+	return sides.some(([w, b]) => sameCount(material[WHITE], w) && sameCount(material[BLACK], b));
+}
+
+/**
+ * Whether a game with `material` now could still come down to one of
+ * `sides`: captures and promotions only take away pawns and pieces in all.
+ */
+export function materialStillReachable(material: [MaterialCount, MaterialCount], sides: [MaterialCount, MaterialCount][]): boolean {
+	const canStill = (current: MaterialCount, target: MaterialCount) => current[4] >= target[4] && sum(current) >= sum(target);
+	return sides.some(([w, b]) => canStill(material[WHITE], w) && canStill(material[BLACK], b));
+}
+
+function sameCount(a: MaterialCount, b: MaterialCount): boolean {
+	return a.every((n, i) => n === b[i]);
+}
+
+function sum(m: MaterialCount): number {
+	return m[0] + m[1] + m[2] + m[3] + m[4];
+}
+
+function materialOf(board: Board): [MaterialCount, MaterialCount] {
+	const side = (color: Color): MaterialCount => {
+		const counts: MaterialCount = [0, 0, 0, 0, 0];
+		for (let i = 0; i < board.getPieceCount(color); i++) {
+			const index = MATERIAL_TYPES.indexOf(board.getPiece(color, i).type);
+			if (index >= 0) counts[index]++;
+		}
+		return counts;
+	};
+	return [side(WHITE), side(BLACK)];
+}
+
+/** The pawns of a board in the BoardPatternTarget form. */
+function pawnKey(board: Board): string {
+	let key = "";
+	for (let i = 0; i < 64; i++) {
+		const piece = board.pieceAt(keySquare(i));
+		key += piece === null || piece.type !== PAWN ? "." : piece.color === WHITE ? "P" : "p";
+	}
+	return key;
+}
+
+/** The board square (a1 = 0) of position `i` in a pawn key, which starts at a8. */
+function keySquare(i: number): number {
+	return (7 - (i >> 3)) * 8 + (i & 7);
+}
+
+function countPawns(key: string): [number, number] {
+	const counts: [number, number] = [0, 0];
+	for (const ch of key) {
+		if (ch === "P") counts[WHITE]++;
+		else if (ch === "p") counts[BLACK]++;
+	}
+	return counts;
+}
+
+/** Home squares (2nd rank for White, 7th for Black) holding a pawn in a pawn key. */
+function homeSquaresOf(key: string): [number, Color][] {
+	const squares: [number, Color][] = [];
+	for (let file = 0; file < 8; file++) {
+		if (key[48 + file] === "P") squares.push([8 + file, WHITE]);
+		if (key[8 + file] === "p") squares.push([48 + file, BLACK]);
+	}
+	return squares;
+}
+
+function pawnKeyHomeMask(key: string): number {
+	return homePawnMaskOf(homeSquaresOf(key).map(([sq]) => sq));
+}
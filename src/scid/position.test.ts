@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { makePositionTarget, matSigCanReach, gameReachesPosition } from "./position";
+
+// Move bytes from the standard start position (piece index << 4 | code)
+const E2E4 = 0xCF;
+const E7E5 = 0xCF;
+const G1F3 = 0x67;
+const D2D4 = 0xBF;
+const START_VAR = 0x0D;
+const END_VAR = 0x0E;
+const END_GAME = 0x0F;
+
+const START = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+const AFTER_E4_E5 = "rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq e6 0 2";
+const AFTER_D4 = "rnbqkbnr/pppppppp/8/8/3P4/8/PPP1PPPP/RNBQKBNR b KQkq - 0 1";
+
+function reaches(moveBytes: number[], fen: string): boolean {
+	const buf = Buffer.from([0x00, 0x00, ...moveBytes, END_GAME]);
+	return gameReachesPosition(buf, 0, buf.length, makePositionTarget(fen));
+}
+
+// WQ WR WB WN WP | BQ BR BB BN BP
+function matSig(white: number[], black: number[]): number {
+	const side = ([q, r, b, n, p]: number[]) => (q << 10) | (r << 8) | (b << 6) | (n << 4) | p;
+	return (side(white) << 12) | side(black);
+}
+
+describe("makePositionTarget", () => {
+	it("counts material and home pawns", () => {
+		const target = makePositionTarget(AFTER_D4);
+		expect(target.placement).toBe("rnbqkbnr/pppppppp/8/8/3P4/8/PPP1PPPP/RNBQKBNR");
+		expect(target.pawns).toEqual([8, 8]);
+		expect(target.pieces).toEqual([15, 15]);
+		expect(target.homePawns.length).toBe(15);
+	});
+});
+
+describe("matSigCanReach", () => {
+	const full = [1, 2, 2, 2, 8];
+
+	it("accepts games ending with no more material than the target", () => {
+		const target = makePositionTarget(START);
+		expect(matSigCanReach(matSig(full, full), target)).toBe(true);
+		expect(matSigCanReach(matSig([0, 1, 0, 0, 3], [0, 0, 1, 0, 2]), target)).toBe(true);
+	});
+
+	it("rejects games ending with more pawns than the target", () => {
+		const target = makePositionTarget("4k3/8/8/8/8/8/4P3/4K3 w - - 0 1");
+		expect(matSigCanReach(matSig([0, 0, 0, 0, 2], [0, 0, 0, 0, 0]), target)).toBe(false);
+	});
+
+	it("rejects games ending with more pieces than the target", () => {
+		const target = makePositionTarget("4k3/8/8/8/8/8/4P3/4K3 w - - 0 1");
+		expect(matSigCanReach(matSig([1, 0, 0, 0, 0], [0, 0, 0, 0, 0]), target)).toBe(true);
+		expect(matSigCanReach(matSig([1, 0, 0, 0, 1], [0, 0, 0, 0, 0]), target)).toBe(false);
+	});
+});
+
+describe("gameReachesPosition", () => {
+	it("finds a position on the main line", () => {
+		expect(reaches([E2E4, E7E5, G1F3], AFTER_E4_E5)).toBe(true);
+	});
+
+	it("matches the start position", () => {
+		expect(reaches([E2E4], START)).toBe(true);
+	});
+
+	it("requires the same side to move", () => {
+		const blackToMove = AFTER_E4_E5.replace(" w ", " b ");
+		expect(reaches([E2E4, E7E5, G1F3], blackToMove)).toBe(false);
+	});
+
+	it("ignores positions reached only in variations", () => {
+		expect(reaches([E2E4, START_VAR, D2D4, END_VAR, E7E5], AFTER_D4)).toBe(false);
+	});
+
+	it("continues the main line after a variation", () => {
+		expect(reaches([E2E4, START_VAR, D2D4, END_VAR, E7E5], AFTER_E4_E5)).toBe(true);
+	});
+});
@@ -0,0 +1,97 @@
+import { Board } from "./board";
+import { replayMainLine } from "./game";
+import { PAWN, WHITE, BLACK, Color } from "./types";
+
+/**
+ * A position to search for, with the material and home-pawn facts used to
+ * rule out games that can no longer reach it.
+ */
+export interface ScidPositionTarget {
+	placement: string;
+	sideToMove: Color;
+	pawns: [number, number];     // pawn count per colour
+	pieces: [number, number];    // non-king piece count (pawns included) per colour
+	homePawns: number[];         // squares on the 2nd/7th rank holding a pawn of the home colour
+}
+
+export function makePositionTarget(fen: string): ScidPositionTarget {
+	const board = new Board();
+	board.setupFromFEN(fen);
+	const target: ScidPositionTarget = {
+		placement: board.getFenPlacement(),
+		sideToMove: board.getSideToMove(),
+		pawns: [0, 0],
+		pieces: [0, 0],
+		homePawns: [],
+	};
+	countMaterial(board, target.pawns, target.pieces);
+	for (let file = 0; file < 8; file++) {
+		if (isHomePawn(board, WHITE, 8 + file)) target.homePawns.push(8 + file);
+		if (isHomePawn(board, BLACK, 48 + file)) target.homePawns.push(48 + file);
+	}
+	return target;
+}
+
+function countMaterial(board: Board, pawns: [number, number], pieces: [number, number]): void {
+	for (const color of [WHITE, BLACK] as Color[]) {
+		const count = board.getPieceCount(color);
+		let p = 0;
+		for (let i = 0; i < count; i++) {
+			if (board.getPiece(color, i).type === PAWN) p++;
+		}
+		pawns[color] = p;
+		pieces[color] = count - 1;
+	}
+}
+
+function isHomePawn(board: Board, color: Color, sq: number): boolean {
+	const piece = board.pieceAt(sq);
+	return piece !== null && piece.type === PAWN && piece.color === color;
+}
+
+/**
+ * Whether a game whose final material signature is `matSig` could have
+ * passed through the target. Pawn and piece counts never increase (a
+ * promotion swaps a pawn for a piece), so a game that ends with more of
+ * either than the target never reached it.
+ *
+ * finalMatSig layout (24 bits, counts capped at 3 for pieces, 15 for pawns):
+ * WQ(23:22) WR(21:20) WB(19:18) WN(17:16) WP(15:12) BQ(11:10) BR(9:8) BB(7:6) BN(5:4) BP(3:0)
+ */
+export function matSigCanReach(matSig: number, target: ScidPositionTarget): boolean {
+	const whitePawns = (matSig >> 12) & 0x0F;
+	const blackPawns = matSig & 0x0F;
+	const whitePieces = whitePawns + ((matSig >> 22) & 3) + ((matSig >> 20) & 3) + ((matSig >> 18) & 3) + ((matSig >> 16) & 3);
+	const blackPieces = blackPawns + ((matSig >> 10) & 3) + ((matSig >> 8) & 3) + ((matSig >> 6) & 3) + ((matSig >> 4) & 3);
+
+	return whitePawns <= target.pawns[WHITE] && blackPawns <= target.pawns[BLACK] &&
+		whitePieces <= target.pieces[WHITE] && blackPieces <= target.pieces[BLACK];
+}
+
+/** Whether the main line of a game reaches the target position. */
+export function gameReachesPosition(buf: Buffer, offset: number, length: number, target: ScidPositionTarget): boolean {
+	let found = false;
+	const pawns: [number, number] = [0, 0];
+	const pieces: [number, number] = [0, 0];
+
+	replayMainLine(buf, offset, length, board => {
+		countMaterial(board, pawns, pieces);
+		// Captures and pawn moves are irreversible: once the game has less
+		// material or has moved a pawn the target still has at home, stop.
+		if (pawns[WHITE] < target.pawns[WHITE] || pawns[BLACK] < target.pawns[BLACK] ||
+			pieces[WHITE] < target.pieces[WHITE] || pieces[BLACK] < target.pieces[BLACK]) {
+			return false;
+		}
+		for (const sq of target.homePawns) {
+			if (!isHomePawn(board, sq < 32 ? WHITE : BLACK, sq)) return false;
+		}
+
+		if (board.getSideToMove() === target.sideToMove && board.getFenPlacement() === target.placement) {
+			found = true;
+			return false;
+		}
+		return true;
+	});
+
+	return found;
+}
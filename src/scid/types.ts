@@ -40,6 +40,18 @@ export interface ScidMove {
 	promotion?: string;
 }
 
+export interface ScidAnnotatedMove {
+	move: ScidMove;
+	nags: number[];
+	comment?: string;
+	variations: ScidLine[];   // alternatives to this move
+}
+
+export interface ScidLine {
+	comment?: string;         // comment before the first move of the line
+	moves: ScidAnnotatedMove[];
+}
+
 export interface ScidGameHeaders {
 	white: string;
 	black: string;
@@ -47,15 +59,24 @@ export interface ScidGameHeaders {
 	site: string;
 	round: string;
 	date: string;
+	eventDate: string;
 	result: string;
 	whiteElo: number;
 	blackElo: number;
+	whiteRatingType: string;  // one of RATING_TYPES
+	blackRatingType: string;
 	eco: string;
+	plyCount: number;         // length of the main line
+	flags: number;            // FLAG_* bits
+	chess960: boolean;
 }
 
 export interface ScidGame {
 	headers: ScidGameHeaders;
 	moves: ScidMove[];
+	tree: ScidLine;           // main line with comments, NAGs and variations
+	extraTags: [string, string][];
+	startFen: string | null;  // null = standard starting position
 }
 
 // Internal types for codec strategy
@@ -72,12 +93,37 @@ export interface IndexEntry {
 	eco: number;
 	gameOffset: number;
 	gameLength: number;
+	finalMatSig: number;      // material signature of the final position (layout in position.ts)
+	storedLineCode: number;   // SCID's table of common opening lines, 0 = none; not used here
+	homePawnData: number[];   // count byte, then the home pawn changes packed two to a byte
+	flags: number;            // FLAG_* bits, custom flags included
+	numHalfMoves: number;
+	eventDate: number;        // encoded like date
+	whiteRatingType: number;  // index into RATING_TYPES
+	blackRatingType: number;
+	chess960: boolean;        // SCID5 only
+}
+
+// Fields written with a new index record that reading does not return yet
+export interface IndexRecord extends IndexEntry {
+	nComments: number;        // exact counts; the codec stores them coded (see encodeCount)
+	nVariations: number;
+	nNags: number;
 }
 
 export interface ScidCodec {
 	readIndex(buf: Buffer): IndexEntry[];
 	readNamebase(buf: Buffer): string[][];   // names[type][id]
 	gameFileExt(): string;                   // ".sg4" or ".sg5"
+
+	indexHeaderSize(): number;               // bytes before the first record
+	emptyIndex(): Buffer;                    // index file of a new database
+	setIndexGameCount(header: Buffer, count: number): void;
+	writeIndexRecord(record: IndexRecord): Buffer;
+	// Whole namebase file; frequencies[type][id] = games using the name
+	writeNamebase(names: string[][], frequencies: number[][]): Buffer;
+	// Bytes to append for names added after `names`, or null if the whole file must be rewritten
+	appendNames(added: [number, string][]): Buffer | null;
 }
 
 // Name type indices (match SCID5 varint encoding)
@@ -114,6 +160,23 @@ export function decodeDate(d: number): string {
 	return `${ys}.${ms}.${ds}`;
 }
 
+export function resultFromString(s: string): number {
+	switch (s) {
+		case "1-0": return RESULT_WHITE;
+		case "0-1": return RESULT_BLACK;
+		case "1/2-1/2": return RESULT_DRAW;
+		default: return RESULT_NONE;
+	}
+}
+
+// Inverse of decodeDate; unknown parts ("??") are stored as 0
+export function encodeDate(s: string): number {
+	const parts = s.trim().split(".");
+	const [y, m, d] = [0, 1, 2].map(i => /^\d+$/.test(parts[i] ?? "") ? parseInt(parts[i], 10) : 0);
+	if (y >= 2048 || m > 12 || d > 31) return 0;
+	return (y << 9) | (m << 5) | d;
+}
+
 // ECO encoding: eco = (letter - 'A') * 100 * 4 + digits * 4 + subcode
 export function decodeEco(eco: number): string {
 	if (eco === 0) return "";
@@ -126,6 +189,85 @@ export function decodeEco(eco: number): string {
 	return base + String.fromCharCode(96 + subcode); // a, b, c
 }
 
+// Inverse of decodeEco; anything that is not an ECO code is stored as 0
+export function encodeEco(s: string): number {
+	const match = s.trim().match(/^([A-E])(\d\d)([a-c])?$/);
+	if (!match) return 0;
+	const letter = match[1].charCodeAt(0) - 65;
+	const subcode = match[3] ? match[3].charCodeAt(0) - 96 : 0;
+	return letter * 400 + parseInt(match[2], 10) * 4 + subcode;
+}
+
+// Comment, variation and NAG counts are stored in 4 bits, exact up to 10
+const COUNT_CODES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 15, 20, 30, 40, 50];
+
+export function encodeCount(n: number): number {
+	if (n <= 10) return n;
+	let code = 10;
+	// Nearest code, rounding halfway counts down
+	while (code < 15 && n - COUNT_CODES[code] > COUNT_CODES[code + 1] - n) code++;
+	return code;
+}
+
+export function decodeCount(code: number): number {
+	return COUNT_CODES[code & 15];
+}
+
+// Index flag bits; the first three are set from the game, the rest by users
+export const FLAG_START = 1 << 0;         // non-standard start position
+export const FLAG_PROMOTIONS = 1 << 1;
+export const FLAG_UNDERPROMOTIONS = 1 << 2;
+export const FLAG_DELETED = 1 << 3;
+export const GAME_FLAGS = FLAG_START | FLAG_PROMOTIONS | FLAG_UNDERPROMOTIONS;
+
+// Letters SCID shows for the user flags, from FLAG_DELETED up: deleted,
+// White opening, Black opening, middlegame, endgame, novelty, pawn
+// structure, tactics, kingside, queenside, brilliancy, blunder, user and
+// the six custom flags
+export const USER_FLAG_LETTERS = "DWBMENPTKQ!?U123456";
+
+// The user flags set in `flags`, as letters
+export function userFlagLetters(flags: number): string {
+	let letters = "";
+	for (let i = 0; i < USER_FLAG_LETTERS.length; i++) {
+		if (flags & (FLAG_DELETED << i)) letters += USER_FLAG_LETTERS[i];
+	}
+	return letters;
+}
+
+// The user flag bits of `letters` (see USER_FLAG_LETTERS); other characters are ignored
+export function userFlagBits(letters: string): number {
+	let flags = 0;
+	for (const ch of letters.toUpperCase()) {
+		const i = USER_FLAG_LETTERS.indexOf(ch);
+		if (i >= 0) flags |= FLAG_DELETED << i;
+	}
+	return flags;
+}
+
+// Games listed under a flag filter: those with every flag in `require` and
+// none in `exclude` (FLAG_* bits)
+export interface ScidFlagFilter {
+	require: number;
+	exclude: number;
+}
+
+export function passesFlagFilter(flags: number, filter: ScidFlagFilter): boolean {
+	return (flags & filter.require) === filter.require && (flags & filter.exclude) === 0;
+}
+
+// Rating types, by code; "Elo" is the PGN WhiteElo/BlackElo tag, the others
+// go in tags like WhiteUSCF
+export const RATING_TYPES = ["Elo", "Rating", "Rapid", "ICCF", "USCF", "DWZ", "ECF"];
+
+export function ratingTypeToString(code: number): string {
+	return RATING_TYPES[code] ?? "Elo";
+}
+
+export function ratingTypeFromString(s: string): number {
+	return Math.max(0, RATING_TYPES.indexOf(s));
+}
+
 // Special marker codes in move stream (lower nibble when piece index = 0)
 export const ENCODE_NAG = 11;
 export const ENCODE_COMMENT = 12;
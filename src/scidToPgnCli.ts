@@ -0,0 +1,49 @@
+// Converts a SCID database to PGN from the command line, without Obsidian.
+// Bundled and run by scripts/scid-to-pgn.mjs.
+import { ScidProvider } from "./ScidProvider";
+import { FilePgnWriter, writeProviderGames } from "./PgnWriter";
+import { CancelledError } from "./ProviderTask";
+
+const USAGE = "Usage: npm run scid-to-pgn -- <base.si4|base.si5> [output.pgn]";
+
+/** Run the conversion for command line `args`; resolves to the exit code. */
+export async function main(args: string[]): Promise<number> {
+	if (args.length < 1 || args.length > 2 || !/\.si[45]$/i.test(args[0])) {
+		console.error(USAGE);
+		return 2;
+	}
+	const input = args[0];
+	const output = args[1] ?? `${input.slice(0, -".si4".length)}.pgn`;
+
+	// Ctrl+C stops the conversion and removes the partial file
+	const controller = new AbortController();
+	const onInterrupt = () => controller.abort();
+	process.on("SIGINT", onInterrupt);
+
+	const progress = process.stderr.isTTY
+		? (done: number, total: number) => process.stderr.write(`\r${done.toLocaleString()} of ${total.toLocaleString()} games`)
+		: undefined;
+	const started = Date.now();
+	const provider = new ScidProvider(input);
+	try {
+		await provider.open();
+		const count = await writeProviderGames(provider, new FilePgnWriter(output), {
+			signal: controller.signal,
+			onProgress: progress,
+		});
+		const seconds = ((Date.now() - started) / 1000).toFixed(1);
+		console.error(`${progress ? "\r" : ""}Wrote ${count.toLocaleString()} games to ${output} in ${seconds}s`);
+		return 0;
+	} catch (e) {
+		if (progress) process.stderr.write("\n");
+		if (e instanceof CancelledError) {
+			console.error("Cancelled");
+			return 130;
+		}
+		console.error(`Conversion failed: ${e.message}`);
+		return 1;
+	} finally {
+		provider.close();
+		process.off("SIGINT", onInterrupt);
+	}
+}
@@ -1,4 +1,6 @@
 import { App, Notice, PluginSettingTab, Setting } from "obsidian";
+import { ChessComSyncMark } from "./ChessComSync";
+import { CachedMonthInfo, ChessComCache } from "./ChessComCache";
 
 export type PieceSet = "standard" | "staunty";
 
@@ -17,7 +19,15 @@ export interface ChessComSource {
 	usernames: string[];
 }
 
-export type ExternalSource = PgnSource | ScidSource | ChessComSource;
+export interface LichessSource {
+	type: "lichess";
+	usernames: string[];
+}
+
+/** A source backed by accounts on a chess site rather than a file. */
+export type AccountSource = ChessComSource | LichessSource;
+
+export type ExternalSource = PgnSource | ScidSource | AccountSource;
 
 export type ExternalSourceType = ExternalSource["type"];
 
@@ -32,13 +42,18 @@ export function detectSourceType(path: string): "pgn" | "scid" | null {
 	return SUPPORTED_EXTENSIONS[ext] ?? null;
 }
 
+export function isFileSource(source: ExternalSource): source is PgnSource | ScidSource {
+	return source.type === "pgn" || source.type === "scid";
+}
+
 export function sourceKey(source: ExternalSource): string {
 	switch (source.type) {
 		case "pgn":
 		case "scid":
 			return source.path;
 		case "chesscom":
-			return "chesscom";
+		case "lichess":
+			return source.type;
 	}
 }
 
@@ -49,6 +64,8 @@ export function sourceDisplayName(source: ExternalSource): string {
 			return source.path.split(/[/\\]/).pop() || source.path;
 		case "chesscom":
 			return "Chess.com";
+		case "lichess":
+			return "Lichess";
 	}
 }
 
@@ -61,6 +78,10 @@ export interface ChessJournalSettings {
 	repertoireNotesFolder: string;
 	hideClock: boolean;
 	lichessApiKey: string;
+	explorerSource: string;      // sourceKey of the source behind the personal opening explorer
+	chessComSyncInterval: number;   // minutes between background Chess.com syncs, 0 = off
+	chessComSync: Record<string, ChessComSyncMark>;   // last synced game, by lowercased username
+	chessComCacheMaxAgeDays: number;   // refetch cached Chess.com months older than this, 0 = never
 }
 
 export const DEFAULT_SETTINGS: ChessJournalSettings = {
@@ -72,12 +93,38 @@ export const DEFAULT_SETTINGS: ChessJournalSettings = {
 	repertoireNotesFolder: "",
 	hideClock: true,
 	lichessApiKey: "",
+	explorerSource: "",
+	chessComSyncInterval: 0,
+	chessComSync: {},
+	chessComCacheMaxAgeDays: 0,
+};
+
+const CACHE_MAX_AGES: Record<string, string> = {
+	"0": "Never",
+	"7": "After a week",
+	"30": "After a month",
+	"365": "After a year",
+};
+
+function formatSize(chars: number): string {
+	if (chars < 1024 * 1024) return `${Math.max(1, Math.round(chars / 1024))} KB`;
+	return `${(chars / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const SYNC_INTERVALS: Record<string, string> = {
+	"0": "Off",
+	"15": "Every 15 minutes",
+	"60": "Every hour",
+	"360": "Every 6 hours",
+	"1440": "Every day",
 };
 
 export interface ChessJournalPluginInterface {
 	settings: ChessJournalSettings;
 	saveSettings(): Promise<void>;
 	injectPiecesSprite(): void;
+	/** Restart the background Chess.com sync after its interval changed. */
+	scheduleChessComSync(): void;
 }
 
 export class ChessJournalSettingTab extends PluginSettingTab {
@@ -190,7 +237,7 @@ export class ChessJournalSettingTab extends PluginSettingTab {
 					}
 
 					const exists = this.plugin.settings.externalSources.some(
-						s => s.type !== "chesscom" && s.path === filePath
+						s => isFileSource(s) && s.path === filePath
 					);
 					if (exists) {
 						new Notice("This source has already been added.");
@@ -203,13 +250,47 @@ export class ChessJournalSettingTab extends PluginSettingTab {
 				}));
 
 		containerEl.createEl("h3", { text: "Chess.com" });
-		this.renderChessComSection(containerEl);
+		this.renderAccountSection(containerEl, "chesscom", "chess.com");
+
+		new Setting(containerEl)
+			.setName("Background sync")
+			.setDesc("Create game notes for new Chess.com games while Obsidian is open, as the \"Sync Chess.com games\" command does. Usernames never synced start with the games finished after the first background run.")
+			.addDropdown(dropdown => {
+				for (const [value, label] of Object.entries(SYNC_INTERVALS)) {
+					dropdown.addOption(value, label);
+				}
+				dropdown
+					.setValue(String(this.plugin.settings.chessComSyncInterval))
+					.onChange(async (value: string) => {
+						this.plugin.settings.chessComSyncInterval = Number(value);
+						await this.plugin.saveSettings();
+						this.plugin.scheduleChessComSync();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Refresh cached months")
+			.setDesc("Past months are cached once fetched. Refetch them after this long, in case one was cached before all its games were in.")
+			.addDropdown(dropdown => {
+				for (const [value, label] of Object.entries(CACHE_MAX_AGES)) {
+					dropdown.addOption(value, label);
+				}
+				dropdown
+					.setValue(String(this.plugin.settings.chessComCacheMaxAgeDays))
+					.onChange(async (value: string) => {
+						this.plugin.settings.chessComCacheMaxAgeDays = Number(value);
+						await this.plugin.saveSettings();
+					});
+			});
+
+		void this.renderChessComCache(containerEl.createDiv("chess-journal-cache-section"));
 
 		containerEl.createEl("h3", { text: "Lichess" });
+		this.renderAccountSection(containerEl, "lichess", "lichess.org");
 
 		new Setting(containerEl)
 			.setName("API key")
-			.setDesc("Optional personal API token from lichess.org/account/oauth/token. Increases rate limits for the opening explorer database tab.")
+			.setDesc("Optional personal API token from lichess.org/account/oauth/token. Increases rate limits for the opening explorer and for downloading games.")
 			.addText(text => {
 				text.inputEl.type = "password";
 				text.setPlaceholder("lio_...")
@@ -219,14 +300,30 @@ export class ChessJournalSettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					});
 			});
+
+		containerEl.createEl("h3", { text: "Opening explorer" });
+
+		new Setting(containerEl)
+			.setName("Personal explorer source")
+			.setDesc("Show move statistics from one of your sources next to the masters statistics. The source is indexed the first time it is used in a session.")
+			.addDropdown(dropdown => {
+				dropdown.addOption("", "None");
+				for (const source of this.plugin.settings.externalSources) {
+					dropdown.addOption(sourceKey(source), sourceDisplayName(source));
+				}
+				dropdown
+					.setValue(this.plugin.settings.explorerSource)
+					.onChange(async (value: string) => {
+						this.plugin.settings.explorerSource = value;
+						await this.plugin.saveSettings();
+					});
+			});
 	}
 
 	private renderSourcesList(container: HTMLElement): void {
 		container.empty();
 
-		const fileSources = this.plugin.settings.externalSources.filter(
-			(s): s is PgnSource | ScidSource => s.type !== "chesscom"
-		);
+		const fileSources = this.plugin.settings.externalSources.filter(isFileSource);
 
 		if (fileSources.length === 0) {
 			container.createEl("p", {
@@ -256,28 +353,105 @@ export class ChessJournalSettingTab extends PluginSettingTab {
 		}
 	}
 
-	private getChessComSource(): ChessComSource | null {
+	/**
+	 * What the Chess.com cache holds per username, with controls to clear a
+	 * user's months or refetch a single month on next open.
+	 */
+	private async renderChessComCache(container: HTMLElement): Promise<void> {
+		const cache = new ChessComCache();
+		let months: CachedMonthInfo[];
+		try {
+			await cache.open();
+			months = await cache.list();
+		} catch (e) {
+			container.createEl("p", { text: `Could not read the cache: ${e.message}`, cls: "setting-item-description" });
+			return;
+		} finally {
+			cache.close();
+		}
+
+		// Each change opens the cache afresh, then redraws the section
+		const change = async (action: (cache: ChessComCache) => Promise<void>) => {
+			const writable = new ChessComCache();
+			try {
+				await writable.open();
+				await action(writable);
+			} catch (e) {
+				new Notice(`Could not update the cache: ${e.message}`);
+			} finally {
+				writable.close();
+			}
+			container.empty();
+			await this.renderChessComCache(container);
+		};
+
+		const total = months.reduce((sum, m) => sum + m.size, 0);
+		new Setting(container)
+			.setName("Cached games")
+			.setDesc(months.length
+				? `${months.length} ${months.length === 1 ? "month" : "months"}, ${formatSize(total)}`
+				: "Nothing cached")
+			.addButton(button => button
+				.setButtonText("Clear all")
+				.setWarning()
+				.setDisabled(months.length === 0)
+				.onClick(() => change(c => c.clear())));
+
+		const byUser = new Map<string, CachedMonthInfo[]>();
+		for (const month of months) {
+			const list = byUser.get(month.username) ?? [];
+			list.push(month);
+			byUser.set(month.username, list);
+		}
+
+		for (const [username, userMonths] of byUser) {
+			const newest = Math.max(...userMonths.map(m => m.cachedAt));
+			const size = userMonths.reduce((sum, m) => sum + m.size, 0);
+			new Setting(container)
+				.setName(username)
+				.setDesc(`${userMonths.length} ${userMonths.length === 1 ? "month" : "months"}, ${formatSize(size)}`
+					+ (newest > 0 ? `, last fetched ${new Date(newest).toLocaleDateString()}` : ""))
+				.addButton(button => button
+					.setButtonText("Clear")
+					.onClick(() => change(c => c.deleteUser(username))));
+
+			const details = container.createEl("details", { cls: "chess-journal-cache-months" });
+			details.createEl("summary", { text: `Months cached for ${username}` });
+			for (const month of userMonths) {
+				new Setting(details)
+					.setName(month.month)
+					.setDesc(formatSize(month.size)
+						+ (month.cachedAt > 0 ? `, fetched ${new Date(month.cachedAt).toLocaleString()}` : ""))
+					.addExtraButton(button => button
+						.setIcon("refresh-cw")
+						.setTooltip("Refetch on next open")
+						.onClick(() => change(c => c.delete(month.key))));
+			}
+		}
+	}
+
+	private getAccountSource(type: AccountSource["type"]): AccountSource | null {
 		return this.plugin.settings.externalSources.find(
-			(s): s is ChessComSource => s.type === "chesscom"
+			(s): s is AccountSource => s.type === type
 		) ?? null;
 	}
 
-	private renderChessComSection(container: HTMLElement): void {
-		const chesscom = this.getChessComSource();
+	private renderAccountSection(container: HTMLElement, type: AccountSource["type"], siteName: string): void {
+		const account = this.getAccountSource(type);
 
 		// Username list
-		if (chesscom && chesscom.usernames.length > 0) {
-			for (const username of chesscom.usernames) {
+		if (account && account.usernames.length > 0) {
+			for (const username of account.usernames) {
 				new Setting(container)
 					.setName(username)
 					.addButton(button => button
 						.setButtonText("Remove")
 						.setWarning()
 						.onClick(async () => {
-							chesscom.usernames = chesscom.usernames.filter(u => u !== username);
-							if (chesscom.usernames.length === 0) {
+							account.usernames = account.usernames.filter(u => u !== username);
+							if (account.usernames.length === 0) {
 								this.plugin.settings.externalSources =
-									this.plugin.settings.externalSources.filter(s => s !== chesscom);
+									this.plugin.settings.externalSources.filter(s => s !== account);
 							}
 							await this.plugin.saveSettings();
 							this.display();
@@ -289,7 +463,7 @@ export class ChessJournalSettingTab extends PluginSettingTab {
 		let usernameInput = "";
 		new Setting(container)
 			.setName("Add username")
-			.setDesc("Enter a chess.com username to fetch their games")
+			.setDesc(`Enter a ${siteName} username to fetch their games`)
 			.addText(text => text
 				.setPlaceholder("username")
 				.onChange(value => { usernameInput = value.trim(); }))
@@ -301,7 +475,7 @@ export class ChessJournalSettingTab extends PluginSettingTab {
 						return;
 					}
 					const lower = usernameInput.toLowerCase();
-					let source = this.getChessComSource();
+					const source = this.getAccountSource(type);
 					if (source) {
 						if (source.usernames.some(u => u.toLowerCase() === lower)) {
 							new Notice("This username has already been added.");
@@ -309,8 +483,8 @@ export class ChessJournalSettingTab extends PluginSettingTab {
 						}
 						source.usernames.push(usernameInput);
 					} else {
-						source = { type: "chesscom", usernames: [usernameInput] };
-						this.plugin.settings.externalSources.push(source);
+						const created: AccountSource = { type, usernames: [usernameInput] };
+						this.plugin.settings.externalSources.push(created);
 					}
 					await this.plugin.saveSettings();
 					this.display();
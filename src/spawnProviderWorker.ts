@@ -0,0 +1,59 @@
+import { Worker } from "worker_threads";
+import providerWorkerCode from "worker:./providerWorker";
+import { GameProvider } from "./GameProvider";
+import { FileProviderOptions, FileSource, createLocalFileProvider } from "./ProviderWorkerHost";
+import { ProviderWorkerConnection, WorkerGameProvider } from "./WorkerGameProvider";
+
+let worker: Worker | null = null;
+let connection: ProviderWorkerConnection | null = null;
+let workerUnavailable = false;
+let fileProviderOptions: FileProviderOptions = {};
+
+/** Set the options file providers created from now on are opened with. */
+export function configureFileProviders(options: FileProviderOptions): void {
+	fileProviderOptions = options;
+}
+
+/**
+ * A provider for a PGN file or SCID base. It runs in a worker thread shared by
+ * all file sources so indexing and searching a large source leaves the UI
+ * responsive; if the worker cannot be started it runs on the main thread.
+ */
+export function createFileProvider(source: FileSource): GameProvider {
+	const conn = getConnection();
+	return conn
+		? new WorkerGameProvider(source, conn, fileProviderOptions)
+		: createLocalFileProvider(source, fileProviderOptions);
+}
+
+/** Stop the worker; the next file source starts a new one. */
+export function terminateProviderWorker(): void {
+	const current = worker;
+	worker = null;
+	connection?.fail(new Error("Provider worker stopped"));
+	connection = null;
+	void current?.terminate();
+}
+
+function getConnection(): ProviderWorkerConnection | null {
+	if (connection || workerUnavailable) return connection;
+	try {
+		const started = new Worker(providerWorkerCode, { eval: true });
+		const conn = new ProviderWorkerConnection(started);
+		const onFailure = (error: Error) => {
+			if (worker !== started) return;
+			console.error("Chess Journal: provider worker stopped", error);
+			conn.fail(error);
+			worker = null;
+			connection = null;
+		};
+		started.on("error", onFailure);
+		started.on("exit", code => onFailure(new Error(`Provider worker exited with code ${code}`)));
+		worker = started;
+		connection = conn;
+	} catch (e) {
+		console.warn("Chess Journal: could not start provider worker, loading sources on the main thread", e);
+		workerUnavailable = true;
+	}
+	return connection;
+}
@@ -0,0 +1,77 @@
+import { App } from "obsidian";
+import { ChessJournalSettings } from "./settings";
+import { ChessComCache } from "./ChessComCache";
+import { archiveMonth, fetchArchivePgn, fetchArchiveUrls } from "./ChessComProvider";
+import { ChessComSyncError, ChessComSyncResult, startMark, syncChessComUser } from "./ChessComSync";
+import { GameNoteIndex } from "./GameNoteIndex";
+import { createGameNote } from "./createGameNote";
+
+export interface ChessComSyncSummary {
+	created: number;
+	/** Usernames whose sync failed, with the error. */
+	failed: { username: string; error: string }[];
+}
+
+/** The configured Chess.com usernames never synced, which need a start before their first sync. */
+export function unsyncedChessComUsernames(settings: ChessJournalSettings): string[] {
+	return chessComUsernames(settings).filter(username => !settings.chessComSync[username.toLowerCase()]);
+}
+
+/** Have the first sync of `usernames` pick up only the games finished after `time`. */
+export function startChessComSync(settings: ChessJournalSettings, usernames: string[], time: number): void {
+	const marks = { ...settings.chessComSync };
+	for (const username of usernames) marks[username.toLowerCase()] = startMark(time);
+	settings.chessComSync = marks;
+}
+
+/**
+ * Create game notes for the Chess.com games finished since the last sync of
+ * each configured username, saving each username's new mark as it goes.
+ * Usernames not started with startChessComSync are left out.
+ */
+export async function syncChessComGames(
+	app: App, settings: ChessJournalSettings, noteIndex: GameNoteIndex, saveSettings: () => Promise<void>,
+): Promise<ChessComSyncSummary> {
+	const usernames = chessComUsernames(settings).filter(username => settings.chessComSync[username.toLowerCase()]);
+	const summary: ChessComSyncSummary = { created: 0, failed: [] };
+	if (usernames.length === 0) return summary;
+
+	await noteIndex.ready();
+	const cache = new ChessComCache();
+	await cache.open();
+	try {
+		for (const username of usernames) {
+			const key = username.toLowerCase();
+			let result: ChessComSyncResult;
+			try {
+				result = await syncChessComUser(username, settings.chessComSync[key], {
+					fetchArchiveUrls,
+					archiveMonth,
+					fetchArchivePgn: (user, url) => fetchArchivePgn(cache, user, url, settings.chessComCacheMaxAgeDays),
+					hasNoteWithLink: link => noteIndex.hasLink(link),
+					createNote: async pgn => {
+						await createGameNote(app, settings.notesFolder, pgn);
+					},
+				});
+			} catch (e) {
+				if (!(e instanceof ChessComSyncError)) throw e;
+				summary.failed.push({ username, error: e.message });
+				result = e.partial;
+			}
+
+			summary.created += result.created;
+			if (result.mark !== settings.chessComSync[key]) {
+				// A new object, so the defaults' shared one is never changed
+				settings.chessComSync = { ...settings.chessComSync, [key]: result.mark };
+				await saveSettings();
+			}
+		}
+	} finally {
+		cache.close();
+	}
+	return summary;
+}
+
+function chessComUsernames(settings: ChessJournalSettings): string[] {
+	return settings.externalSources.flatMap(s => s.type === "chesscom" ? s.usernames : []);
+}
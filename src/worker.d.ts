@@ -0,0 +1,5 @@
+/** Worker entry points, bundled as source text by the inline worker plugin in esbuild.config.mjs. */
+declare module "worker:*" {
+	const code: string;
+	export default code;
+}